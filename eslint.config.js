@@ -65,7 +65,7 @@ export default defineConfig([
     ],
     languageOptions: {
       parserOptions: {
-        project: ['./tsconfig.json', './src/*/tsconfig.json'],
+        project: ['./tsconfig.json', './tsconfig.test.json', './src/*/tsconfig.json'],
         tsconfigRootDir: import.meta.dirname,
       },
     },
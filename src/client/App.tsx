@@ -1,20 +1,38 @@
 import React from 'react';
 import { Canvas } from '@react-three/fiber';
 import { GameUI } from './components/GameUI';
-import { useGameState } from './hooks/useGameState';
+import { useGameState, GhostRunTarget } from './hooks/useGameState';
 import { GameScene } from './components/GameScene_Simple';
 import { useGameData } from './hooks/useGameData';
+import { useReplayPlayer } from './hooks/useReplayPlayer';
+import { useGhostRace } from './hooks/useGhostRace';
 import { useTowerPreloader } from './hooks/useTowerPreloader';
 import { TowerPlacementSystem } from '../shared/types/towerPlacement';
 import { ChunkLoadingIndicator } from './components/ChunkLoadingIndicator';
-import { TowerInfoPopup } from './components/TowerInfoPopup';
+import { TowerInfoPopup, TowerModerationAction } from './components/TowerInfoPopup';
+import { PerformanceOptimizer } from './components/PerformanceOptimizer';
+import { usePerformanceSettings } from './components/PerformanceConfig';
+import { QualityController } from './components/QualityController';
+import { useInputAction } from './components/InputManager';
 // Performance components disabled for production
-// import { PerformanceOptimizer } from './components/PerformanceOptimizer';
 // import { PerformanceSettingsUI } from './components/PerformanceConfig';
 // import { PerformanceDisplay } from './components/PerformanceDisplay';
 import { GameEndModal, ShareSessionPayload } from './components/GameEndModal';
-import type { ShareSessionResponse } from '../shared/types/api';
+import type {
+  GetRunStatusResponse,
+  RunResult,
+  RunStatus,
+  SaveGameSessionRequest,
+  SaveGameSessionResponse,
+  ShareSessionRequest,
+  ShareSessionResponse,
+  WatchReplayMessage,
+} from '../shared/types/api';
+import { ReplayCompression, GameState } from '../shared/simulation';
+import type { GameMode } from '../shared/simulation';
 import { GridReviewOverlay } from './components/GridReviewOverlay';
+import { PracticeHistory, recordPracticeRun } from './utils/practiceStorage';
+import { ReplayControls } from './components/ReplayControls';
 //import { TronLoadingScreen } from './components/TronLoadingScreen';
 
 // Toggle to true to inspect App re-render frequency during development.
@@ -28,11 +46,53 @@ interface ShareFeedbackState {
   tone: ShareFeedbackTone;
 }
 
+const RUN_STATUS_POLL_MS = 1500;
+const RUN_STATUS_MAX_POLLS = 80; // Give up after roughly two minutes
+
+// Poll the verification queue until the submitted run leaves the `queued` state. Resolves to
+// null for an unknown run, and to a still `queued` status if the queue outlasts the polling.
+const waitForRunVerification = async (runId: string): Promise<GetRunStatusResponse | null> => {
+  for (let attempt = 0; attempt < RUN_STATUS_MAX_POLLS; attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, RUN_STATUS_POLL_MS));
+    try {
+      const response = await fetch(`/api/game/run-status/${encodeURIComponent(runId)}`);
+      if (response.status === 404) return null;
+      if (!response.ok) continue;
+
+      const runStatus: GetRunStatusResponse = await response.json();
+      if (runStatus.status && runStatus.status !== 'queued') {
+        return runStatus;
+      }
+    } catch (error) {
+      console.warn('Failed to poll run status:', error);
+    }
+  }
+  return { type: 'run_status', success: true, runId, status: 'queued' };
+};
+
+// Timed-out and completed runs keep their reason; every other ending is reported as 'width'
+const getSessionGameOverReason = (state: GameState): SaveGameSessionRequest['sessionData']['gameOverReason'] =>
+  state.gameOverReason === 'time' || state.gameOverReason === 'complete' ? state.gameOverReason : 'width';
 
 export const App: React.FC = () => {
   const gameStateHook = useGameState();
   const { startGame: startGameHook, resetGame: resetGameHook, gameMode } = gameStateHook;
-  const { getGameSession, updateTowerPlacement } = useGameData();
+  const {
+    getGameSession,
+    updateTowerPlacement,
+    getAdminStatus,
+    setTowerHidden,
+    setRunStruck,
+    setUserBanned,
+  } = useGameData();
+  const replayPlayer = useReplayPlayer(getGameSession);
+  const { openReplay, closeReplay, isOpen: isReplayOpen } = replayPlayer;
+  const ghostRace = useGhostRace(
+    getGameSession,
+    gameStateHook.gameState,
+    gameStateHook.raceSessionId
+  );
+  const { loadGhost } = ghostRace;
 
   const [isLoading, setIsLoading] = React.useState(true);
   const [lastSessionId, setLastSessionId] = React.useState<string | null>(null);
@@ -42,8 +102,8 @@ export const App: React.FC = () => {
   const [isSharing, setIsSharing] = React.useState(false);
   const [shareFeedback, setShareFeedback] = React.useState<ShareFeedbackState | null>(null);
   const shareFeedbackTimeoutRef = React.useRef<number | null>(null);
-  const devToolsEnabled =
-    typeof import.meta !== 'undefined' && Boolean((import.meta as any).env?.DEV);
+  // Admin controls are only shown to moderators; the server enforces this on every admin route
+  const [adminToolsEnabled, setAdminToolsEnabled] = React.useState(false);
   const [hasSharedSuccessfully, setHasSharedSuccessfully] = React.useState(false);
   const [canvasDpr, setCanvasDpr] = React.useState<[number, number]>(() => {
     if (typeof navigator !== 'undefined' && /android/i.test(navigator.userAgent || '')) {
@@ -51,6 +111,21 @@ export const App: React.FC = () => {
     }
     return [0.5, 1];
   });
+  // Settle this device's quality tier before the first frame is drawn
+  React.useState(() => QualityController.getInstance());
+  const { settings: performanceSettings } = usePerformanceSettings();
+
+  React.useEffect(() => {
+    let cancelled = false;
+    void getAdminStatus().then((isModerator) => {
+      if (!cancelled) {
+        setAdminToolsEnabled(isModerator ?? false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getAdminStatus]);
 
   const clearShareFeedback = React.useCallback(() => {
     if (shareFeedbackTimeoutRef.current !== null) {
@@ -162,8 +237,17 @@ export const App: React.FC = () => {
     bestPerfectStreak?: number;
     previousBestPerfectStreak?: number;
     personalBestPerfectStreak?: boolean;
+    verificationStatus?: RunStatus;
+    puzzleStars?: number;
+    windowRanks?: RunResult['windowRanks'];
   } | null>(null);
 
+  // Submitted run still in the verification queue after polling gave up, for the player to re-check
+  const [unverifiedRun, setUnverifiedRun] = React.useState<{ runId: string; mode: GameMode } | null>(null);
+
+  // Local record of practice runs, refreshed whenever one ends
+  const [practiceHistory, setPracticeHistory] = React.useState<PracticeHistory | null>(null);
+
   // Confirmation modal state
   const [showConfirmModal, setShowConfirmModal] = React.useState(false);
 
@@ -177,10 +261,12 @@ export const App: React.FC = () => {
   const towerPreloader = useTowerPreloader(placementSystem);
   const {
     preAssignedTowers,
+    towersMode,
     isLoading: isTowerReviewLoading,
     error: towerReviewError,
     preloadAndAssignTowers,
     clearPreloadedTowers,
+    updateVisibleChunks,
   } = towerPreloader;
 
   // Performance settings UI state - Disabled for production
@@ -215,6 +301,7 @@ export const App: React.FC = () => {
       clearPreloadedTowers();
       setShowGameEndModal(false); // Hide modal when starting new game
       setGameEndData(null); // Clear game end data
+      setUnverifiedRun(null);
       setHasSharedSuccessfully(false);
     }
 
@@ -235,22 +322,77 @@ export const App: React.FC = () => {
     }
   }, [gameStateHook.isPlaying]);
 
+  // The save effect reads the run through this, so only a new game over or tower reruns it
+  const gameStateHookRef = React.useRef(gameStateHook);
+  React.useEffect(() => {
+    gameStateHookRef.current = gameStateHook;
+  });
+
+  // Practice run already in the history; a rewind from the end screen can end it again
+  const recordedPracticeRunRef = React.useRef<string | null>(null);
+
   // Save game session when game ends and pre-load towers
   React.useEffect(() => {
-    if (gameStateHook.gameState?.isGameOver && !playerTower) {
+    const game = gameStateHookRef.current;
+    if (game.gameState?.isGameOver && !playerTower) {
       console.log('🎮 Game over detected, saving session...');
 
+      // Practice runs stay on this device and are never submitted
+      if (game.isPractice) {
+        const finalState = game.gameState;
+        const id = game.runId ?? String(game.seed ?? finalState.seed);
+        if (recordedPracticeRunRef.current === id) return;
+        recordedPracticeRunRef.current = id;
+        setPracticeHistory(
+          recordPracticeRun({
+            id,
+            score: finalState.score,
+            blocks: finalState.blocks.length,
+            perfectBlocks: finalState.perfectBlockCount ?? 0,
+            rewinds: game.practiceRewinds,
+            tuning: game.getSimulationTuning(),
+            playedAt: Date.now(),
+          })
+        );
+        return;
+      }
+
+      // Ghost races replay a public run's seed, so the server never ranks them
+      if (game.raceSessionId) {
+        console.log('👻 Ghost race finished, not submitting');
+        return;
+      }
+
       const saveSessionAndPreloadTowers = async () => {
         try {
-          const sessionData = {
-            finalScore: gameStateHook.gameState!.score,
-            blockCount: gameStateHook.gameState!.blocks.length,
-            perfectStreakCount: gameStateHook.gameState!.perfectBlockCount ?? 0,
-            maxCombo: gameStateHook.gameState!.maxCombo ?? gameStateHook.gameState!.combo ?? 0,
-            gameMode: 'classic' as const,
+          const runToken = game.runToken;
+          if (!runToken) {
+            console.warn('⚠️ Run was not issued by the server, skipping session save');
+            return;
+          }
+
+          const mode = game.gameMode ?? 'classic';
+          const seed = game.seed ?? game.gameState!.seed;
+          const replay = await ReplayCompression.createCompressedReplay(
+            seed,
+            mode,
+            game.getReplayInputs(),
+            60,
+            game.getSimulationTuning() ?? undefined
+          );
+
+          const sessionData: SaveGameSessionRequest['sessionData'] = {
+            finalScore: game.gameState!.score,
+            blockCount: game.gameState!.blocks.length,
+            perfectStreakCount: game.gameState!.perfectBlockCount ?? 0,
+            maxCombo: game.gameState!.maxCombo ?? game.gameState!.combo ?? 0,
+            gameMode: mode,
+            seed,
+            gameOverReason: getSessionGameOverReason(game.gameState!),
             startTime: Date.now() - 60000, // Approximate start time
             endTime: Date.now(),
-            towerBlocks: gameStateHook.gameState!.blocks.map(block => ({
+            ...(game.activePuzzleLevel && { puzzleLevelId: game.activePuzzleLevel.id }),
+            towerBlocks: game.gameState!.blocks.map(block => ({
               x: block.x,
               y: block.y,
               z: block.z || 0,
@@ -265,38 +407,23 @@ export const App: React.FC = () => {
           const response = await fetch('/api/game/save-session', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ sessionData }),
+            body: JSON.stringify({
+              sessionData,
+              replay,
+              runToken,
+            } satisfies SaveGameSessionRequest),
           });
 
-          if (response.ok) {
-            const result = await response.json();
-            console.log('✅ Session saved successfully:', result.sessionId);
-
-            // Store game end data for modal - this should be stable and not change
-            setGameEndData({
-              rank: result.rank,
-              totalPlayers: result.totalPlayers,
-              madeTheGrid: result.madeTheGrid,
-              scoreToGrid: result.scoreToGrid,
-              improvement: result.improvement,
-              personalBest: result.personalBest,
-              bestScore: result.bestScore,
-              previousBestScore: result.previousBestScore,
-              bestSessionId: result.bestSessionId,
-              bestPerfectStreak: result.bestPerfectStreak,
-              previousBestPerfectStreak: result.previousBestPerfectStreak,
-              personalBestPerfectStreak: result.personalBestPerfectStreak,
-            });
-
-            // Create and assign player tower with stable position FIRST
-            await handleGameEnd(result.sessionId);
-
-            // THEN pre-load other towers (after player tower is placed)
-            console.log('🏰 Pre-loading other towers...');
-            await preloadAndAssignTowers();
-          } else {
-            console.error('❌ Failed to save session:', await response.text());
+          const submission: SaveGameSessionResponse = await response.json();
+          if (!response.ok || !submission.runId) {
+            console.error('❌ Failed to save session:', submission.message);
+            return;
           }
+
+          console.log('⏳ Run queued for verification:', submission.runId);
+          setGameEndData({ totalPlayers: 0, madeTheGrid: false, verificationStatus: 'queued' });
+
+          await followRunVerification(submission.runId, mode);
         } catch (error) {
           console.error('❌ Error saving session or pre-loading towers:', error);
         }
@@ -304,7 +431,7 @@ export const App: React.FC = () => {
 
       saveSessionAndPreloadTowers();
     }
-  }, [gameStateHook.gameState?.isGameOver, playerTower, gameStateHook.gameState, preloadAndAssignTowers]);
+  }, [gameStateHook.gameState?.isGameOver, playerTower, gameStateHook.gameState]);
 
   // Hide loading after a brief delay to ensure everything is loaded
   React.useEffect(() => {
@@ -351,6 +478,15 @@ export const App: React.FC = () => {
 
         // Set tower data for in-game display
         setPlayerTower(towerEntry);
+
+        // The server owns grid occupancy; adopt whichever cell it actually assigned
+        if (playerCoord) {
+          const placement = await updateTowerPlacement(sessionData.sessionId, playerCoord.x, playerCoord.z);
+          if (placement && (placement.gridX !== playerCoord.x || placement.gridZ !== playerCoord.z)) {
+            placementSystem.syncTower(sessionData.sessionId, placement.gridX, placement.gridZ);
+            setPlayerTower({ ...towerEntry, ...placement });
+          }
+        }
       }
     } catch (error) {
       console.error('Failed to load session data:', error);
@@ -360,6 +496,53 @@ export const App: React.FC = () => {
     setTimeout(() => setLastSessionId(null), 3000);
   };
 
+  // Wait for a submitted run's verification and show its result, placing the tower once verified
+  const followRunVerification = async (runId: string, mode: GameMode) => {
+    const runStatus = await waitForRunVerification(runId);
+    if (runStatus?.status === 'flagged') {
+      console.warn('🚩 Run is being held for moderator review:', runId);
+      setGameEndData({ totalPlayers: 0, madeTheGrid: false, verificationStatus: 'flagged' });
+      return;
+    }
+
+    // The queue outlasted the polling; the run may still verify, so the player can check again
+    if (runStatus?.status === 'queued') {
+      console.warn('⏳ Run is still waiting for verification:', runId);
+      setUnverifiedRun({ runId, mode });
+      return;
+    }
+
+    const result = runStatus?.result;
+    if (!runStatus || !result) {
+      console.warn('⚠️ Run was not verified:', runStatus?.verification ?? 'unknown run');
+      setGameEndData({ totalPlayers: 0, madeTheGrid: false, verificationStatus: 'rejected' });
+      return;
+    }
+
+    console.log('✅ Session saved successfully:', result.sessionId);
+
+    // Store game end data for modal - this should be stable and not change
+    setGameEndData({
+      ...result,
+      ...(runStatus.status && { verificationStatus: runStatus.status }),
+    });
+
+    // Create and assign player tower with stable position FIRST
+    await handleGameEnd(result.sessionId);
+
+    // THEN pre-load other towers of the same mode (after player tower is placed)
+    console.log('🏰 Pre-loading other towers...');
+    await preloadAndAssignTowers(mode);
+  };
+
+  const handleCheckVerification = () => {
+    if (!unverifiedRun) return;
+    setUnverifiedRun(null);
+    followRunVerification(unverifiedRun.runId, unverifiedRun.mode).catch((error) => {
+      console.error('❌ Error checking run verification:', error);
+    });
+  };
+
   // Tower selection handlers
   const handleTowerClick = (tower: any, _position: [number, number, number], rank?: number) => {
     console.log('Tower clicked:', tower.username, 'rank:', rank);
@@ -378,6 +561,26 @@ export const App: React.FC = () => {
     setSelectedTower(null);
   };
 
+  // Hidden and struck towers drop off the grid, so reload it after either action
+  const handleModerateTower = async (action: TowerModerationAction) => {
+    const tower = selectedTower?.tower;
+    if (!tower) return;
+
+    const applied =
+      action === 'hide'
+        ? await setTowerHidden(tower.sessionId, true)
+        : action === 'strike'
+          ? await setRunStruck(tower.sessionId, true)
+          : await setUserBanned(tower.userId, true);
+    if (!applied) return;
+
+    setSelectedTower(null);
+    if (action !== 'ban') {
+      clearPreloadedTowers();
+      await preloadAndAssignTowers(towersMode);
+    }
+  };
+
   const handleVisitProfile = (username: string) => {
     console.log('Visit profile:', username);
     // TODO: Implement profile navigation
@@ -390,7 +593,7 @@ export const App: React.FC = () => {
     try {
       if (!preAssignedTowers || preAssignedTowers.length === 0) {
         if (!isTowerReviewLoading) {
-          await preloadAndAssignTowers();
+          await preloadAndAssignTowers(towersMode);
         }
       }
     } catch (error) {
@@ -398,21 +601,103 @@ export const App: React.FC = () => {
     } finally {
       setIsGridReviewOpen(true);
     }
-  }, [preAssignedTowers, isTowerReviewLoading, preloadAndAssignTowers]);
+  }, [preAssignedTowers, isTowerReviewLoading, preloadAndAssignTowers, towersMode]);
+
+  const handleReloadGridReview = React.useCallback(
+    () => preloadAndAssignTowers(towersMode),
+    [preloadAndAssignTowers, towersMode]
+  );
+
+  // Each mode has its own leaderboard, so switching tabs swaps the whole tower grid
+  const handleGridReviewModeChange = React.useCallback(
+    (mode: GameMode) => {
+      if (mode === towersMode || isTowerReviewLoading) return;
+      setSelectedTower(null);
+      clearPreloadedTowers();
+      void preloadAndAssignTowers(mode);
+    },
+    [towersMode, isTowerReviewLoading, clearPreloadedTowers, preloadAndAssignTowers]
+  );
 
   const handleCloseGridReview = () => {
     setSelectedTower(null);
     setIsGridReviewOpen(false);
   };
 
+  // Replays play in the main scene, so the grid review and any live run step aside
+  const { isPlaying: isGamePlaying, pauseGame } = gameStateHook;
+  const handleWatchReplay = React.useCallback(
+    (sessionId: string) => {
+      if (isGamePlaying) {
+        pauseGame();
+      }
+      setSelectedTower(null);
+      setIsGridReviewOpen(false);
+      void openReplay(sessionId);
+    },
+    [isGamePlaying, pauseGame, openReplay]
+  );
+
+  // The blocks leaderboard asks for replays through a Devvit web view message
+  React.useEffect(() => {
+    const handleMessage = (event: MessageEvent) => {
+      if (event.data?.type !== 'devvit-message') return;
+      const message = event.data.data?.message as WatchReplayMessage | undefined;
+      if (message?.type === 'WATCH_REPLAY' && typeof message.sessionId === 'string') {
+        handleWatchReplay(message.sessionId);
+      }
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [handleWatchReplay]);
+
+  // Ghost races start a fresh run on the ghost's seed; restarts keep racing the same ghost
+  const raceTargetRef = React.useRef<GhostRunTarget | null>(null);
+  const handleRaceGhost = React.useCallback(
+    async (sessionId: string) => {
+      setSelectedTower(null);
+      setIsGridReviewOpen(false);
+      if (isReplayOpen) {
+        closeReplay();
+      }
+
+      const target = await loadGhost(sessionId);
+      if (!target) {
+        showShareFeedback('That run has no replay to race against.', 'error');
+        return;
+      }
+
+      raceTargetRef.current = target;
+      resetGameHook();
+      startGameHook(target.mode, undefined, target);
+      setShowGameEndModal(false);
+    },
+    [isReplayOpen, closeReplay, loadGhost, resetGameHook, startGameHook, showShareFeedback]
+  );
+
   // Game end modal handlers
+  const { raceSessionId, isPractice, startPractice } = gameStateHook;
   const handleRestartGame = React.useCallback(() => {
-    const mode = gameMode ?? 'rotating_block';
+    const raceTarget = raceTargetRef.current;
     resetGameHook();
-    startGameHook(mode);
+    if (raceTarget && raceTarget.sessionId === raceSessionId) {
+      startGameHook(raceTarget.mode, undefined, raceTarget);
+    } else if (isPractice) {
+      startPractice(gameMode ?? 'classic');
+    } else {
+      startGameHook(gameMode ?? 'classic');
+    }
     setSelectedTower(null);
     setShowGameEndModal(false);
-  }, [gameMode, resetGameHook, startGameHook]);
+  }, [gameMode, isPractice, raceSessionId, resetGameHook, startGameHook, startPractice]);
+
+  // Restart binding: the end screen's play-again, so it only works while that screen is up
+  useInputAction('restart', () => {
+    if (showGameEndModal && !replayPlayer.isOpen) {
+      handleRestartGame();
+    }
+  });
 
   const handleShare = React.useCallback(
     async (sessionData: ShareSessionPayload) => {
@@ -455,7 +740,7 @@ export const App: React.FC = () => {
         const response = await fetch('/api/game/share-session', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(sessionData),
+          body: JSON.stringify({ sessionId: sessionData.sessionId } satisfies ShareSessionRequest),
         });
 
         if (!response.ok) {
@@ -536,14 +821,14 @@ export const App: React.FC = () => {
     : undefined;
 
   const handleClearAllData = () => {
-    if (!devToolsEnabled) {
+    if (!adminToolsEnabled) {
       return;
     }
     setShowConfirmModal(true);
   };
 
   const confirmClearAllData = async () => {
-    if (!devToolsEnabled) {
+    if (!adminToolsEnabled) {
       return;
     }
     setShowConfirmModal(false);
@@ -563,6 +848,7 @@ export const App: React.FC = () => {
         setSelectedTower(null);
         setShowGameEndModal(false);
         setGameEndData(null);
+        setUnverifiedRun(null);
         clearPreloadedTowers();
         setHasSharedSuccessfully(false);
 
@@ -598,7 +884,10 @@ export const App: React.FC = () => {
       {/* Three.js Canvas - render when game is playing OR when game is over (for tower display) */}
       {gameStateHook.gameState && (gameStateHook.isPlaying || gameStateHook.gameState.isGameOver) && (
         <Canvas
-          dpr={canvasDpr} // Adaptive pixel ratio for better performance
+          dpr={[
+            Math.min(canvasDpr[0], performanceSettings.pixelRatio),
+            Math.min(canvasDpr[1], performanceSettings.pixelRatio)
+          ]} // Adaptive pixel ratio, capped by the current quality tier
           className="absolute inset-0"
           shadows={false} // Disable shadows for better performance
           gl={{
@@ -614,17 +903,16 @@ export const App: React.FC = () => {
           data-game-canvas="true"
           frameloop="always" // Keep always for game loop
         >
-          {/* PerformanceOptimizer disabled for production */}
-          {/* <PerformanceOptimizer
-          targetFPS={60}
-          onPerformanceChange={(fps, isLow) => {
-            if (isLow) {
-              console.warn(`⚠️ Performance warning: ${fps}fps`);
-            }
-          }}
-        /> */}
+          {/* Feeds FPS to the quality controller, which steps the tier up and down */}
+          <PerformanceOptimizer targetFPS={60} />
           <GameScene
-            gameState={gameStateHook.gameState}
+            gameState={replayPlayer.gameState ?? gameStateHook.gameState}
+            ghostState={replayPlayer.isOpen ? null : ghostRace.ghostState}
+            perfectWindowMode={
+              gameStateHook.isPractice && gameStateHook.showPerfectWindow && !replayPlayer.isOpen
+                ? gameStateHook.gameMode
+                : null
+            }
             gridSize={gameStateHook.gridSize}
             gridOffsetX={gameStateHook.gridOffsetX}
             gridOffsetZ={gameStateHook.gridOffsetZ}
@@ -635,18 +923,21 @@ export const App: React.FC = () => {
             onCameraDebugUpdate={() => { }}
             onCameraReady={() => { }}
             onTowerClick={handleTowerClick}
-            onTowerPlacementSave={async (sessionId, worldX, worldZ, gridX, gridZ) => {
-              await updateTowerPlacement(sessionId, worldX, worldZ, gridX, gridZ);
+            onTowerPlacementSave={async (sessionId, _worldX, _worldZ, gridX, gridZ) => {
+              const placement = await updateTowerPlacement(sessionId, gridX, gridZ);
+              if (placement) {
+                placementSystem.syncTower(sessionId, placement.gridX, placement.gridZ);
+              }
             }}
             preAssignedTowers={preAssignedTowers}
             placementSystem={placementSystem}
-            onRestartGame={handleRestartGame}
+            onTowerCameraMove={updateVisibleChunks}
           />
         </Canvas>
       )}
 
       {/* Development Clear All Data Button */}
-      {devToolsEnabled && !isGridReviewOpen && (
+      {adminToolsEnabled && !isGridReviewOpen && (
         <button
           onClick={handleClearAllData}
           className="absolute top-4 right-4 z-50 px-3 py-2 rounded-lg text-sm font-medium transition-all duration-200"
@@ -677,7 +968,7 @@ export const App: React.FC = () => {
       />
 
       {/* UI Overlay */}
-      {!isLoading && !gameStateHook.gameState?.isGameOver && !isGridReviewOpen && (
+      {!isLoading && !gameStateHook.gameState?.isGameOver && !isGridReviewOpen && !replayPlayer.isOpen && (
         <>
           {DEBUG_APP_RENDER && console.log('🎮 App: Rendering GameUI', {
             isLoading,
@@ -690,6 +981,15 @@ export const App: React.FC = () => {
             onShowTowerReview={handleOpenGridReview}
             isTowerReviewLoading={isTowerReviewLoading}
             towerReviewError={towerReviewError}
+            ghostRace={
+              ghostRace.ghostUsername && ghostRace.scoreDelta !== null
+                ? {
+                    username: ghostRace.ghostUsername,
+                    scoreDelta: ghostRace.scoreDelta,
+                    onRestart: handleRestartGame,
+                  }
+                : null
+            }
           />
         </>
       )}
@@ -705,8 +1005,11 @@ export const App: React.FC = () => {
           placementSystem={placementSystem}
           isLoading={isTowerReviewLoading}
           error={towerReviewError}
-          onRequestReload={preloadAndAssignTowers}
+          onRequestReload={handleReloadGridReview}
           onClearAssignments={clearPreloadedTowers}
+          mode={towersMode}
+          onModeChange={handleGridReviewModeChange}
+          onCameraMove={updateVisibleChunks}
         />
       )}
 
@@ -829,16 +1132,21 @@ export const App: React.FC = () => {
           }
           onClose={handleCloseTowerInfo}
           onVisitProfile={handleVisitProfile}
+          onWatchReplay={() => handleWatchReplay(selectedTower.tower.sessionId)}
+          onRaceGhost={() => void handleRaceGhost(selectedTower.tower.sessionId)}
+          onModerate={adminToolsEnabled ? handleModerateTower : undefined}
         />
       )}
 
+      {replayPlayer.isOpen && <ReplayControls replay={replayPlayer} />}
+
       {/* Performance Settings UI - Hidden for production */}
       {/* <PerformanceSettingsUI visible={showPerformanceSettings} /> */}
       {/* <PerformanceDisplay /> */}
 
       {/* Game End Modal - positioned above all other UI elements */}
       <GameEndModal
-        isVisible={showGameEndModal}
+        isVisible={showGameEndModal && !replayPlayer.isOpen}
         gameState={gameStateHook.gameState}
         playerTower={playerTower}
         gameEndData={gameEndData}
@@ -848,10 +1156,18 @@ export const App: React.FC = () => {
         onViewTower={handleViewTower}
         isSharing={isSharing}
         hasSharedSuccessfully={hasSharedSuccessfully}
+        ghostSummary={ghostRace.summary}
+        onRaceGhost={(sessionId) => void handleRaceGhost(sessionId)}
+        onCheckVerification={unverifiedRun ? handleCheckVerification : undefined}
+        practice={
+          gameStateHook.isPractice
+            ? { history: practiceHistory, onRewind: gameStateHook.rewindPractice }
+            : null
+        }
       />
 
       {/* Confirmation Modal */}
-      {devToolsEnabled && showConfirmModal && (
+      {adminToolsEnabled && showConfirmModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div
             className="bg-gray-900 border border-red-500 rounded-lg p-6 max-w-md mx-4"
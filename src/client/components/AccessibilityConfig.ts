@@ -0,0 +1,159 @@
+import { useEffect, useState } from 'react';
+
+export type ColorPalette = 'standard' | 'highContrast' | 'colorBlind';
+
+export interface AccessibilitySettings {
+  reducedMotion: boolean; // No screen shake, trim bursts, ambient particles or camera swoops
+  palette: ColorPalette;
+  largeTapTarget: boolean; // Tapping anywhere outside a control drops, not just the canvas
+}
+
+// Colours of the scene pieces that carry gameplay meaning
+export interface ScenePalette {
+  blockFrom: string; // Placed blocks shade from this colour...
+  blockTo: string; // ...to this one as the tower grows
+  edge: string; // Block outlines and the moving block's shell
+  perfectGlow: string; // Colour the outlines flare towards on a perfect drop
+  trimStart: string; // A trimmed piece as it is cut...
+  trimEnd: string; // ...and the colour it burns to before breaking up
+  trimParticles: string[]; // Colours of the trim burst
+}
+
+export const SCENE_PALETTES: Record<ColorPalette, ScenePalette> = {
+  standard: {
+    blockFrom: '#00ffff',
+    blockTo: '#0080ff',
+    edge: '#00f2fe',
+    perfectGlow: '#00f2fe',
+    trimStart: '#00ffff',
+    trimEnd: '#ff6600',
+    trimParticles: ['#ff9500', '#ffbc00', '#ffda7c'],
+  },
+  // White and yellow on the dark grid, magenta for what gets cut
+  highContrast: {
+    blockFrom: '#ffffff',
+    blockTo: '#ffd400',
+    edge: '#ffffff',
+    perfectGlow: '#ffff00',
+    trimStart: '#ffffff',
+    trimEnd: '#ff00ff',
+    trimParticles: ['#ff00ff', '#ff66ff', '#ffffff'],
+  },
+  // Okabe-Ito blues against orange and yellow, which stay apart under every common colour-blindness
+  colorBlind: {
+    blockFrom: '#56b4e9',
+    blockTo: '#0072b2',
+    edge: '#56b4e9',
+    perfectGlow: '#f0e442',
+    trimStart: '#56b4e9',
+    trimEnd: '#e69f00',
+    trimParticles: ['#d55e00', '#e69f00', '#f0e442'],
+  },
+};
+
+export const COLOR_PALETTES = Object.keys(SCENE_PALETTES) as ColorPalette[];
+
+const STORAGE_KEY = 'tron-accessibility';
+
+const prefersReducedMotion = (): boolean =>
+  typeof window !== 'undefined' &&
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+const loadSettings = (): AccessibilitySettings => {
+  const defaults: AccessibilitySettings = {
+    reducedMotion: prefersReducedMotion(),
+    palette: 'standard',
+    largeTapTarget: false,
+  };
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<AccessibilitySettings>;
+      return {
+        reducedMotion:
+          typeof parsed.reducedMotion === 'boolean' ? parsed.reducedMotion : defaults.reducedMotion,
+        palette: COLOR_PALETTES.includes(parsed.palette as ColorPalette)
+          ? (parsed.palette as ColorPalette)
+          : defaults.palette,
+        largeTapTarget:
+          typeof parsed.largeTapTarget === 'boolean'
+            ? parsed.largeTapTarget
+            : defaults.largeTapTarget,
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to read accessibility settings:', error);
+  }
+  return defaults;
+};
+
+/**
+ * Accessibility preferences of this device. Until the player changes something, reduced motion
+ * follows the system setting; after that the stored choice wins.
+ */
+export class AccessibilityConfig {
+  private static instance: AccessibilityConfig;
+  private settings: AccessibilitySettings = loadSettings();
+  private listeners: ((settings: AccessibilitySettings) => void)[] = [];
+
+  static getInstance(): AccessibilityConfig {
+    if (!AccessibilityConfig.instance) {
+      AccessibilityConfig.instance = new AccessibilityConfig();
+    }
+    return AccessibilityConfig.instance;
+  }
+
+  private constructor() {
+    this.applyDocumentClasses();
+  }
+
+  getSettings(): AccessibilitySettings {
+    return { ...this.settings };
+  }
+
+  updateSettings(newSettings: Partial<AccessibilitySettings>): void {
+    this.settings = { ...this.settings, ...newSettings };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.settings));
+    } catch (error) {
+      console.warn('Failed to save accessibility settings:', error);
+    }
+    this.applyDocumentClasses();
+    this.listeners.forEach((listener) => listener(this.settings));
+  }
+
+  subscribe(listener: (settings: AccessibilitySettings) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  // Let the stylesheet calm CSS animations and enlarge HUD buttons to match
+  private applyDocumentClasses(): void {
+    if (typeof document === 'undefined') return;
+    const root = document.documentElement.classList;
+    root.toggle('tron-reduced-motion', this.settings.reducedMotion);
+    root.toggle('tron-large-targets', this.settings.largeTapTarget);
+  }
+}
+
+// React hook for accessibility settings, with the scene palette they select
+export const useAccessibilitySettings = () => {
+  const [settings, setSettings] = useState<AccessibilitySettings>(() =>
+    AccessibilityConfig.getInstance().getSettings()
+  );
+
+  useEffect(() => AccessibilityConfig.getInstance().subscribe(setSettings), []);
+
+  return {
+    ...settings,
+    scenePalette: SCENE_PALETTES[settings.palette],
+    updateSettings: (newSettings: Partial<AccessibilitySettings>) =>
+      AccessibilityConfig.getInstance().updateSettings(newSettings),
+  };
+};
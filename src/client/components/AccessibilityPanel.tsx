@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { COLOR_PALETTES, ColorPalette, useAccessibilitySettings } from './AccessibilityConfig';
+
+const PALETTE_LABELS: Record<ColorPalette, string> = {
+  standard: 'STANDARD',
+  highContrast: 'HIGH CONTRAST',
+  colorBlind: 'COLOUR-BLIND SAFE',
+};
+
+// Accessibility toggle: reduced motion, block palette and the larger tap target
+export const AccessibilityPanel: React.FC = () => {
+  const { reducedMotion, palette, largeTapTarget, updateSettings } = useAccessibilitySettings();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="tron-a11y">
+      {isOpen && (
+        <div className="tron-a11y-panel" role="dialog" aria-label="Accessibility">
+          <div className="tron-a11y-header">ACCESSIBILITY</div>
+          <label className="tron-a11y-check">
+            <input
+              type="checkbox"
+              checked={reducedMotion}
+              onChange={(e) => updateSettings({ reducedMotion: e.target.checked })}
+            />
+            REDUCED MOTION
+          </label>
+          <label className="tron-a11y-check">
+            <input
+              type="checkbox"
+              checked={largeTapTarget}
+              onChange={(e) => updateSettings({ largeTapTarget: e.target.checked })}
+            />
+            LARGER TAP TARGET
+          </label>
+          <div className="tron-a11y-palettes" role="radiogroup" aria-label="Colour palette">
+            {COLOR_PALETTES.map((option) => (
+              <button
+                key={option}
+                type="button"
+                role="radio"
+                aria-checked={palette === option}
+                className={`tron-a11y-option${palette === option ? ' active' : ''}`}
+                onClick={() => updateSettings({ palette: option })}
+              >
+                {PALETTE_LABELS[option]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+      <button
+        type="button"
+        className="tron-a11y-toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        title="Accessibility"
+      >
+        A11Y
+      </button>
+    </div>
+  );
+};
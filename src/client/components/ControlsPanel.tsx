@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import {
+  INPUT_ACTIONS,
+  InputAction,
+  InputDevice,
+  formatGamepadButton,
+  formatKey,
+  useInputBindings,
+} from './InputManager';
+
+const ACTION_LABELS: Record<InputAction, string> = {
+  drop: 'DROP',
+  pause: 'PAUSE',
+  restart: 'RESTART',
+  camera: 'CAMERA',
+};
+
+// Tap/click cycles through these, OFF last
+const POINTER_OPTIONS: (InputAction | null)[] = [...INPUT_ACTIONS, null];
+
+// Controls toggle: remap each action's key and gamepad button, and what a tap does
+export const ControlsPanel: React.FC = () => {
+  const { bindings, capture, startCapture, cancelCapture, setPointerAction, resetBindings } =
+    useInputBindings();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const bindingLabel = (action: InputAction, device: InputDevice): string => {
+    if (capture?.action === action && capture.device === device) {
+      return device === 'keyboard' ? 'PRESS KEY…' : 'PRESS BUTTON…';
+    }
+    const labels =
+      device === 'keyboard'
+        ? bindings.keyboard[action].map(formatKey)
+        : bindings.gamepad[action].map(formatGamepadButton);
+    return labels.length > 0 ? labels.join(' / ') : '—';
+  };
+
+  const toggleCapture = (action: InputAction, device: InputDevice) => {
+    if (capture?.action === action && capture.device === device) {
+      cancelCapture();
+    } else {
+      startCapture(action, device);
+    }
+  };
+
+  const nextPointerAction =
+    POINTER_OPTIONS[(POINTER_OPTIONS.indexOf(bindings.pointer) + 1) % POINTER_OPTIONS.length] ??
+    null;
+
+  return (
+    <div className="tron-controls">
+      {isOpen && (
+        <div className="tron-controls-panel" role="dialog" aria-label="Controls">
+          <div className="tron-controls-header">
+            <span>CONTROLS</span>
+            <span className="tron-controls-columns">KEY · PAD</span>
+          </div>
+          {INPUT_ACTIONS.map((action) => (
+            <div key={action} className="tron-controls-row">
+              <span>{ACTION_LABELS[action]}</span>
+              {(['keyboard', 'gamepad'] as const).map((device) => (
+                <button
+                  key={device}
+                  type="button"
+                  className={`tron-controls-option${
+                    capture?.action === action && capture.device === device ? ' active' : ''
+                  }`}
+                  onClick={() => toggleCapture(action, device)}
+                  title={`Rebind ${ACTION_LABELS[action].toLowerCase()} (${device})`}
+                >
+                  {bindingLabel(action, device)}
+                </button>
+              ))}
+            </div>
+          ))}
+          <div className="tron-controls-row">
+            <span>TAP</span>
+            <button
+              type="button"
+              className="tron-controls-option"
+              onClick={() => setPointerAction(nextPointerAction)}
+              title="Change what a tap or click does"
+            >
+              {bindings.pointer ? ACTION_LABELS[bindings.pointer] : 'OFF'}
+            </button>
+          </div>
+          <button type="button" className="tron-controls-option" onClick={resetBindings}>
+            RESET DEFAULTS
+          </button>
+        </div>
+      )}
+      <button
+        type="button"
+        className="tron-controls-toggle"
+        onClick={() => {
+          if (isOpen && capture) cancelCapture();
+          setIsOpen((open) => !open);
+        }}
+        aria-expanded={isOpen}
+        title="Controls"
+      >
+        KEYS
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useState } from 'react';
+import type { GetDailyChallengeResponse } from '../../shared/types/api';
+import { useGameData } from '../hooks/useGameData';
+
+interface DailyChallengeCardProps {
+  // Resolves to the reason the attempt could not start, or null once the run has begun
+  onStart: () => Promise<string | null>;
+  disabled?: boolean;
+}
+
+const formatTimeLeft = (endsAt: number) => {
+  const minutes = Math.max(0, Math.ceil((endsAt - Date.now()) / 60000));
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}H ${minutes % 60}M` : `${minutes}M`;
+};
+
+// Start-screen entry point for today's shared-seed run, with the player's streak and the podium
+export const DailyChallengeCard: React.FC<DailyChallengeCardProps> = ({
+  onStart,
+  disabled = false,
+}) => {
+  const { getDailyChallenge } = useGameData();
+  const [status, setStatus] = useState<GetDailyChallengeResponse | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    void getDailyChallenge().then((result) => {
+      if (!cancelled && result) {
+        setStatus(result);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getDailyChallenge]);
+
+  if (!status) return null;
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    setError(null);
+    const reason = await onStart();
+    if (reason) {
+      setError(reason);
+      setIsStarting(false);
+    }
+  };
+
+  const rank = status.rank?.rank;
+
+  return (
+    <div className="tron-daily-card">
+      <div className="tron-daily-header">
+        <span className="tron-daily-title">DAILY CHALLENGE</span>
+        <span className="tron-daily-timer">{formatTimeLeft(status.endsAt)} LEFT</span>
+      </div>
+
+      <div className="tron-daily-streak">
+        <span>🔥 {status.streak} DAY STREAK</span>
+        <span className="tron-daily-best">BEST {status.longestStreak}</span>
+      </div>
+
+      {status.highScores.length > 0 && (
+        <ol className="tron-daily-podium">
+          {status.highScores.slice(0, 3).map((entry, index) => (
+            <li key={entry.sessionId}>
+              <span className="tron-daily-place">#{index + 1}</span>
+              <span className="tron-daily-name">{entry.username}</span>
+              <span>{entry.score.toLocaleString()}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {status.attempted ? (
+        <div className="tron-daily-done">
+          {rank
+            ? `PLAYED • RANK #${rank} OF ${status.rank?.totalPlayers}`
+            : 'PLAYED • COME BACK TOMORROW'}
+        </div>
+      ) : (
+        <button
+          type="button"
+          className="tron-daily-button"
+          onClick={() => void handleStart()}
+          disabled={disabled || isStarting}
+          aria-busy={isStarting}
+        >
+          {isStarting ? 'STARTING...' : '▶ DAILY • ONE ATTEMPT'}
+        </button>
+      )}
+
+      {error && (
+        <div className="tron-daily-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
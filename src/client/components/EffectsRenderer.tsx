@@ -1,8 +1,13 @@
 import React from 'react';
 import { EffectComposer, Bloom } from '@react-three/postprocessing';
 import { BlendFunction } from 'postprocessing';
+import { usePerformanceSettings } from './PerformanceConfig';
 
 export const EffectsRenderer: React.FC = () => {
+  const { postProcessing } = usePerformanceSettings().settings;
+  // Lower quality tiers skip the composer entirely and render straight to the screen
+  if (!postProcessing) return null;
+
   return (
     <EffectComposer>
       {/* Enhanced bloom effect for Tron neon glow */}
@@ -2,6 +2,7 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { GameState } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 // Small, fast value-noise implementation for smooth, non-repeating motion.
 function hash(n: number) {
@@ -33,12 +34,13 @@ function valueNoise2(x: number, y: number) {
 interface Props {
   gameState: GameState | null;
   convertPosition: (fixedValue: number) => number;
+  particleCount?: number; // Pool size, fixed for the life of the component
 }
 
-export const FloatingParticles: React.FC<Props> = ({ gameState, convertPosition }) => {
+export const FloatingParticles: React.FC<Props> = ({ gameState, convertPosition, particleCount = 220 }) => {
+  const { reducedMotion } = useAccessibilitySettings();
   // Emitter-style particle pool -------------------------------------------------
   const pointsRef = useRef<THREE.Points | null>(null);
-  const particleCount = 220;
   const pool = useRef(
     Array.from({ length: particleCount }).map(() => ({
       pos: new THREE.Vector3(0, 0, 0),
@@ -70,7 +72,7 @@ export const FloatingParticles: React.FC<Props> = ({ gameState, convertPosition
     // Prevent Three.js from frustum-culling the particle system based on stale bounding info
     g.boundingSphere = new THREE.Sphere(new THREE.Vector3(0, 0, 0), 1000);
     return g;
-  }, []);
+  }, [particleCount]);
 
   const material = useMemo(() => {
     return new THREE.PointsMaterial({
@@ -113,6 +115,7 @@ export const FloatingParticles: React.FC<Props> = ({ gameState, convertPosition
   }, [gameState, convertPosition]);
 
   useFrame((state, delta) => {
+    if (reducedMotion) return;
     const now = state.clock.getElapsedTime();
     const posAttr = geometry.attributes.position as THREE.BufferAttribute;
     const colorAttr = geometry.attributes.color as THREE.BufferAttribute;
@@ -254,7 +257,7 @@ export const FloatingParticles: React.FC<Props> = ({ gameState, convertPosition
     if (geometry.attributes.size) (geometry.attributes.size as THREE.BufferAttribute).needsUpdate = true;
   });
 
-  if (!gameState) return null;
+  if (!gameState || reducedMotion) return null;
 
   return <points ref={pointsRef} geometry={geometry} material={material} />;
 };
@@ -2,6 +2,8 @@ import React, { useRef, useEffect, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { Block } from '../../shared/simulation';
+import { toSceneYaw } from '../utils/sceneYaw';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 export interface PerfectEdgeCascadeEvent {
   key: number;
@@ -60,7 +62,7 @@ export const GameBlock: React.FC<GameBlockProps> = ({
   const size: [number, number, number] = [width, height, depth];
 
   // Convert fixed-point rotation (millidegrees) to radians
-  const rotationY = (block.rotation / 1000) * (Math.PI / 180); // millidegrees to radians
+  const rotationY = toSceneYaw(block.rotation); // millidegrees to radians
 
   // Refs for smooth interpolation and bounce on placement
   const groupRef = useRef<THREE.Group | null>(null);
@@ -75,6 +77,8 @@ export const GameBlock: React.FC<GameBlockProps> = ({
   const cascadeStateRef = useRef<{ startSeconds: number; delay: number; duration: number; tier: number } | null>(null);
   const tempColorRef = useRef(new THREE.Color());
   const animationActiveRef = useRef<boolean>(true);
+  const { scenePalette, reducedMotion } = useAccessibilitySettings();
+  const perfectGlowColorRef = useRef(new THREE.Color(scenePalette.perfectGlow));
 
   const geometry = useMemo<THREE.BoxGeometry>(() => {
     return new THREE.BoxGeometry(width, height, depth);
@@ -160,11 +164,11 @@ export const GameBlock: React.FC<GameBlockProps> = ({
     }
     if (prevFallingRef.current && !block.isFalling) {
       bounceRef.current.time = 0;
-      bounceRef.current.intensity = 0.12; // small placement bounce
+      bounceRef.current.intensity = reducedMotion ? 0 : 0.12; // small placement bounce
       animationActiveRef.current = true;
     }
     prevFallingRef.current = !!block.isFalling;
-  }, [block.isFalling, isActive]);
+  }, [block.isFalling, isActive, reducedMotion]);
 
   // Update material colors based on TRON: Legacy system
   useEffect(() => {
@@ -245,6 +249,13 @@ export const GameBlock: React.FC<GameBlockProps> = ({
     animationActiveRef.current = true;
   }, [perfectEdgeEvent, blockIndex, isActive]);
 
+  // Outline and perfect-glow colours follow the accessibility palette
+  useEffect(() => {
+    baseEdgeColorRef.current.set(scenePalette.edge);
+    perfectGlowColorRef.current.set(scenePalette.perfectGlow);
+    animationActiveRef.current = true;
+  }, [scenePalette]);
+
   useEffect(() => {
     animationActiveRef.current = true;
   }, [targetPosition.x, targetPosition.y, targetPosition.z, rotationY, isActive]);
@@ -318,6 +329,7 @@ export const GameBlock: React.FC<GameBlockProps> = ({
           const glow = (1 - progress) * (1.3 + tierBoost) * strength;
 
           tempColorRef.current.copy(baseEdgeColorRef.current);
+          tempColorRef.current.lerp(perfectGlowColorRef.current, Math.min(1, glow));
           tempColorRef.current.multiplyScalar(1 + glow * 0.6);
           edgeMat.color.copy(tempColorRef.current);
           edgeMat.opacity = Math.min(1, baseEdgeOpacityRef.current + glow * 0.35);
@@ -349,7 +361,7 @@ export const GameBlock: React.FC<GameBlockProps> = ({
           color={color ?? '#0a0a0a'}
           roughness={0.2}
           metalness={0.65}
-          emissive={color ?? '#00f2fe'}
+          emissive={color ?? scenePalette.edge}
           emissiveIntensity={0.1}
           toneMapped={false}
         />
@@ -360,7 +372,7 @@ export const GameBlock: React.FC<GameBlockProps> = ({
         <lineBasicMaterial
           ref={edgeMaterialRef}
           attach="material"
-          color="#00f2fe"
+          color={scenePalette.edge}
           opacity={1.0}
           transparent={true}
           toneMapped={false}
@@ -372,7 +384,7 @@ export const GameBlock: React.FC<GameBlockProps> = ({
         <mesh ref={activeOutlineRef} scale={1.05} renderOrder={999} castShadow={false} receiveShadow={false}>
           <boxGeometry args={size} />
           <meshBasicMaterial
-            color="#00f2fe"
+            color={scenePalette.edge}
             toneMapped={false}
             transparent
             opacity={0.3}
@@ -1,10 +1,31 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { GameState } from '../../shared/simulation';
-import type { ShareSessionRequest } from '../../shared/types/api';
+import type {
+  LeaderboardRange,
+  RunResult,
+  RunStatus,
+  ShareSessionRequest,
+} from '../../shared/types/api';
+import type { GhostRaceSummary } from '../simulation/ghostRace';
+import type { PracticeHistory } from '../utils/practiceStorage';
 import './gameEndModal.css';
 
 // Re-exported alias to keep component prop surface stable
-export type ShareSessionPayload = ShareSessionRequest;
+// The server only reads the sessionId; the rest feeds the clipboard fallback
+export type ShareSessionPayload = ShareSessionRequest & {
+  score: number;
+  blocks: number;
+  perfectStreak: number;
+  rank?: number;
+  totalPlayers?: number;
+  madeTheGrid?: boolean;
+};
+
+// Practice runs are never submitted; the modal shows the local record and offers a rewind
+export interface PracticeEndInfo {
+  history: PracticeHistory | null;
+  onRewind: () => boolean;
+}
 
 // Simple focus trap hook
 const useFocusTrap = (isActive: boolean) => {
@@ -45,6 +66,13 @@ const useFocusTrap = (isActive: boolean) => {
   return containerRef;
 };
 
+// Leaderboard windows the rank badge can show
+const RANK_RANGES: ReadonlyArray<{ range: LeaderboardRange; label: string }> = [
+  { range: 'all_time', label: 'ALL TIME' },
+  { range: 'weekly', label: 'THIS WEEK' },
+  { range: 'daily', label: 'TODAY' },
+];
+
 // Player data interface
 interface PlayerData {
   rank?: number;
@@ -76,6 +104,9 @@ export interface GameEndModalProps {
     bestPerfectStreak?: number;
     previousBestPerfectStreak?: number;
     personalBestPerfectStreak?: boolean;
+    verificationStatus?: RunStatus; // 'queued' until the server has re-simulated the run
+    puzzleStars?: number; // 0-3, puzzle runs only
+    windowRanks?: RunResult['windowRanks']; // Standing on today's and this week's boards
   } | null;
   onPlayAgain: () => void;
   onShare: (sessionData: ShareSessionPayload) => void | Promise<void>;
@@ -83,8 +114,71 @@ export interface GameEndModalProps {
   onViewTower?: () => void; // New callback to focus on player's tower
   isSharing?: boolean;
   hasSharedSuccessfully?: boolean;
+  ghostSummary?: GhostRaceSummary | null; // Set when the run raced a ghost
+  onRaceGhost?: (sessionId: string) => void;
+  practice?: PracticeEndInfo | null; // Set when the run was a practice run
+  onCheckVerification?: (() => void) | undefined; // Set once a queued run has outlasted the polling
 }
 
+const formatDelta = (delta: number) =>
+  `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${Math.abs(delta).toLocaleString()}`;
+
+// Where the run gained or lost against the ghost it raced
+const GhostRaceBreakdown: React.FC<{ summary: GhostRaceSummary }> = ({ summary }) => {
+  const outcome =
+    summary.finalDelta > 0 ? 'BEAT' : summary.finalDelta < 0 ? 'LOST TO' : 'TIED';
+
+  return (
+    <div className="tron-ghost-summary" aria-label="Ghost race summary">
+      <div className="tron-ghost-summary-title">
+        {outcome} {summary.ghostUsername.toUpperCase()}&apos;S GHOST
+      </div>
+      <div
+        className={`tron-ghost-summary-delta ${summary.finalDelta >= 0 ? 'ahead' : 'behind'}`}
+      >
+        {formatDelta(summary.finalDelta)} PTS
+      </div>
+      <div className="tron-ghost-summary-facts">
+        <span>
+          Ghost {summary.ghostScore.toLocaleString()} pts · {summary.ghostBlocks} blocks
+        </span>
+        <span>
+          {summary.leadChanges} lead change{summary.leadChanges === 1 ? '' : 's'}
+        </span>
+        {summary.biggestLead && (
+          <span>
+            Best lead {formatDelta(summary.biggestLead.delta)} at block {summary.biggestLead.block}
+          </span>
+        )}
+        {summary.biggestDeficit && (
+          <span>
+            Worst deficit {formatDelta(summary.biggestDeficit.delta)} at block{' '}
+            {summary.biggestDeficit.block}
+          </span>
+        )}
+      </div>
+      {summary.splits.length > 0 && (
+        <div className="tron-ghost-splits">
+          {summary.splits.map((split) => (
+            <div
+              key={split.fromBlock}
+              className={`tron-ghost-split ${split.pointsDelta >= 0 ? 'ahead' : 'behind'}`}
+              title={`${(Math.abs(split.ticksDelta) / 60).toFixed(1)}s ${
+                split.ticksDelta >= 0 ? 'faster' : 'slower'
+              } than the ghost`}
+            >
+              <span className="tron-ghost-split-range">
+                {split.fromBlock}–{split.toBlock}
+              </span>
+              <span className="tron-ghost-split-delta">{formatDelta(split.pointsDelta)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
 // Simple minimized indicator
 const MinimizedIndicator: React.FC<{
   onClick: () => void;
@@ -120,8 +214,13 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
   onViewTower,
   isSharing = false,
   hasSharedSuccessfully = false,
+  ghostSummary,
+  onRaceGhost,
+  practice,
+  onCheckVerification,
 }) => {
   const [isMinimized, setIsMinimized] = useState(false);
+  const [rankRange, setRankRange] = useState<LeaderboardRange>('all_time');
   const [playerData, setPlayerData] = useState<PlayerData>({
     username: 'PLAYER',
     score: 0,
@@ -167,6 +266,25 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
 
   // Generate dynamic congratulations message
   const getCongratsMessage = (): { title: string; message: string; icon: string } => {
+    if (practice) {
+      const best = practice.history?.best;
+      return {
+        title: 'Practice Run',
+        message: best
+          ? `Not submitted to the leaderboards. Practice best: ${best.score.toLocaleString()} pts.`
+          : 'Not submitted to the leaderboards.',
+        icon: '⟲',
+      };
+    }
+
+    if (ghostSummary && !gameEndData) {
+      return {
+        title: 'Ghost Race',
+        message: 'Races are not submitted to the leaderboards.',
+        icon: '👻',
+      };
+    }
+
     if (!gameEndData) {
       return {
         title: 'Game Over!',
@@ -175,6 +293,38 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
       };
     }
 
+    if (gameEndData.verificationStatus === 'queued' && onCheckVerification) {
+      return {
+        title: 'Still Verifying',
+        message: 'The verification queue is busy. Your run is still in it, so check again in a moment.',
+        icon: '⏳',
+      };
+    }
+
+    if (gameEndData.verificationStatus === 'queued') {
+      return {
+        title: 'Pending Verification',
+        message: 'Your run is being verified. Your rank will appear once it is confirmed.',
+        icon: '⏳',
+      };
+    }
+
+    if (gameEndData.verificationStatus === 'flagged') {
+      return {
+        title: 'Under Review',
+        message: 'Your run was verified but flagged for a moderator to review before it joins the grid.',
+        icon: '🚩',
+      };
+    }
+
+    if (gameEndData.verificationStatus === 'rejected') {
+      return {
+        title: 'Run Not Verified',
+        message: 'This run could not be verified, so it was not added to the grid.',
+        icon: '⚠️',
+      };
+    }
+
     const {
       madeTheGrid,
       rank,
@@ -342,8 +492,13 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
   }, [onPlayAgain]);
 
   const handleShare = useCallback(() => {
+    // Only a stored session can be shared; its tower entry carries the ID
+    if (!playerTower?.sessionId) {
+      return;
+    }
+
     const baseSessionData: ShareSessionPayload = {
-      username: playerData.username,
+      sessionId: playerTower.sessionId as string,
       score: playerData.score,
       blocks: playerData.blocks,
       perfectStreak: playerData.perfectBlocks,
@@ -352,7 +507,6 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
     const sessionData: ShareSessionPayload = {
       ...baseSessionData,
       ...(typeof playerData.rank === 'number' && { rank: playerData.rank }),
-      ...(playerTower?.sessionId && { sessionId: playerTower.sessionId as string }),
       ...(typeof gameEndData?.madeTheGrid === 'boolean' && {
         madeTheGrid: gameEndData.madeTheGrid,
       }),
@@ -388,6 +542,10 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
     );
   }
 
+  // All-time rank comes from the live grid; window ranks were fixed when the run was verified
+  const displayedRank =
+    rankRange === 'all_time' ? playerData.rank : gameEndData?.windowRanks?.[rankRange]?.rank;
+
   // Main modal render
   return (
     <>
@@ -434,7 +592,11 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
                 Your Stonefall tower results with score, block count, and perfect block total.
               </p>
               <div className={`tron-rank-badge ${gameEndData && !gameEndData.madeTheGrid ? 'tron-rank-not-grid' : ''}`}>
-                {playerData.rank ? `#${playerData.rank}` : '?'}
+                {displayedRank
+                  ? `#${displayedRank}`
+                  : gameEndData?.verificationStatus === 'queued'
+                    ? '…'
+                    : '?'}
               </div>
               <div className="tron-username">
                 {playerData.username.toUpperCase()}
@@ -442,6 +604,24 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
             </div>
           </div>
 
+          {/* Leaderboard window tabs */}
+          {gameEndData?.windowRanks && (
+            <div className="tron-rank-ranges" role="tablist" aria-label="Leaderboard window">
+              {RANK_RANGES.map(({ range, label }) => (
+                <button
+                  key={range}
+                  type="button"
+                  role="tab"
+                  aria-selected={rankRange === range}
+                  className={`tron-rank-range ${rankRange === range ? 'active' : ''}`}
+                  onClick={() => setRankRange(range)}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Statistics */}
           <div className="tron-stats-section">
             <div className="tron-stat-item">
@@ -458,6 +638,17 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
             </div>
           </div>
 
+          {/* Puzzle star rating */}
+          {typeof gameEndData?.puzzleStars === 'number' && (
+            <div className="tron-puzzle-stars" aria-label={`${gameEndData.puzzleStars} of 3 stars`}>
+              {[1, 2, 3].map((star) => (
+                <span key={star} className={star <= gameEndData.puzzleStars! ? 'earned' : ''}>★</span>
+              ))}
+            </div>
+          )}
+
+          {ghostSummary && <GhostRaceBreakdown summary={ghostSummary} />}
+
           {/* Congratulations */}
           <div className="tron-congrats-section">
             <div className="tron-congrats-text">
@@ -490,6 +681,39 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
             >
               Try Again
             </button>
+            {practice && (
+              <button
+                className="tron-action-button tron-try-again-btn"
+                onClick={() => practice.onRewind()}
+                type="button"
+                aria-label="Undo your last drop and keep playing"
+                title="Undo your last drop and keep playing"
+              >
+                Rewind
+              </button>
+            )}
+            {onCheckVerification && gameEndData?.verificationStatus === 'queued' && (
+              <button
+                className="tron-action-button tron-try-again-btn"
+                onClick={onCheckVerification}
+                type="button"
+                aria-label="Check whether your run has been verified"
+                title="Check whether your run has been verified"
+              >
+                Check Again
+              </button>
+            )}
+            {onRaceGhost && gameEndData?.bestSessionId && (
+              <button
+                className="tron-action-button tron-try-again-btn"
+                onClick={() => onRaceGhost(gameEndData.bestSessionId!)}
+                type="button"
+                aria-label="Race the ghost of your personal best"
+                title="Race the ghost of your personal best"
+              >
+                Race My Best
+              </button>
+            )}
             {gameEndData?.personalBest && (
               <button
                 className="tron-action-button tron-boast-btn"
@@ -497,7 +721,7 @@ export const GameEndModal: React.FC<GameEndModalProps> = ({
                 type="button"
                 aria-label="Share your Stonefall results to Reddit"
                 title="Share your latest Stonefall tower results to Reddit"
-                disabled={isSharing || hasSharedSuccessfully}
+                disabled={isSharing || hasSharedSuccessfully || !playerTower?.sessionId}
                 aria-busy={isSharing}
               >
                 {isSharing
@@ -5,10 +5,17 @@ import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { AudioPlayer, MusicManager } from './AudioPlayer';
 import { GameState, FixedMath } from '../../shared/simulation';
+import type { GameMode as RunMode } from '../../shared/simulation';
+import { toSceneYaw, towerToWorld, worldToTower } from '../utils/sceneYaw';
 import { GameBlock, PerfectEdgeCascadeEvent } from './GameBlock_Simple';
 import { EffectsRenderer } from './EffectsRenderer';
+import { GhostStack } from './GhostStack';
+import { PerfectWindowOverlay } from './PerfectWindowOverlay';
 import { TronClearDisintegration } from './TronClearDisintegration';
 import { FloatingParticles } from './FloatingParticles';
+import { usePerformanceSettings } from './PerformanceConfig';
+import { useAccessibilitySettings } from './AccessibilityConfig';
+import { useDevShortcuts, useInputAction } from './InputManager';
 // import { PerfectPlacementEffects } from './PerfectPlacementEffects';
 import { TronBackground } from './TronBackground';
 import { UnifiedTowerSystem } from './UnifiedTowerSystem';
@@ -28,6 +35,14 @@ const DEV_TOOLS_ENABLED =
 
 type VibratePattern = number | number[];
 
+// Follow-camera placements the camera binding cycles through, offset from the top block
+const DEFAULT_FOLLOW_VIEW = { x: 40, y: 20, z: 40 }; // Three-quarter view
+const FOLLOW_CAMERA_VIEWS = [
+  DEFAULT_FOLLOW_VIEW,
+  { x: 0, y: 12, z: 56 }, // Face-on, for lining up the overhang
+  { x: 18, y: 55, z: 18 }, // High, looking down the stack
+];
+
 const PERFECT_VIBRATION_PATTERN: VibratePattern = [50, 30, 90];
 const MISS_VIBRATION_PATTERN: VibratePattern = [35, 40, 35];
 
@@ -57,6 +72,8 @@ const triggerHapticFeedback = (pattern: VibratePattern) => {
 
 interface GameSceneProps {
   gameState: GameState | null;
+  ghostState?: GameState | null; // Run being raced, drawn as a translucent stack
+  perfectWindowMode?: RunMode | null; // Practice aid: draws the perfect-drop band for this mode
   gameMode?: GameMode;
   onTimeScale?: (scale: number) => void;
   gridSize?: number;
@@ -72,11 +89,13 @@ interface GameSceneProps {
   onTowerPlacementSave?: (sessionId: string, worldX: number, worldZ: number, gridX: number, gridZ: number) => Promise<void>;
   preAssignedTowers?: TowerMapEntry[] | null | undefined;
   placementSystem?: TowerPlacementSystem;
-  onRestartGame?: () => void;
+  onTowerCameraMove?: (x: number, z: number) => void; // Streams tower chunks around the camera
 }
 
 export const GameScene: React.FC<GameSceneProps> = ({
   gameState,
+  ghostState,
+  perfectWindowMode,
   gameMode: _gameMode = 'playing', // Prefixed with underscore to indicate intentionally unused
   gridSize = 8,
   gridOffsetX = -4.0,
@@ -91,7 +110,7 @@ export const GameScene: React.FC<GameSceneProps> = ({
   onTowerPlacementSave: _onTowerPlacementSave, // Prefixed with underscore to indicate intentionally unused
   preAssignedTowers,
   placementSystem: externalPlacementSystem,
-  onRestartGame
+  onTowerCameraMove
 }) => {
   const cameraRef = useRef<THREE.PerspectiveCamera>(null);
   // Removed orbitControlsRef - using custom camera controller
@@ -174,6 +193,10 @@ export const GameScene: React.FC<GameSceneProps> = ({
 
   const [towersData, setTowersData] = React.useState<TowerMapEntry[]>([]);
 
+  // Ambient particle pool shrinks with the quality tier
+  const { particleScale } = usePerformanceSettings().settings;
+  const floatingParticleCount = Math.max(1, Math.round(220 * particleScale));
+
   // Camera control state - disabled by default for normal gameplay
   const [manualCameraControl, _setManualCameraControl] = React.useState(false); // Prefixed with underscore to indicate intentionally unused
 
@@ -279,12 +302,22 @@ export const GameScene: React.FC<GameSceneProps> = ({
   });
 
   // Gradient shading state ---------------------------------------------------
-  // Stored color for each placed block (stable once assigned)
-  const blockColorsRef = useRef<string[]>([]);
+  // Gradient step of each placed block (stable once assigned); the palette turns it into a color
+  const blockShadeStepsRef = useRef<number[]>([]);
   // Counts how many gradient steps have been consumed (excludes frozen streak blocks)
   const shadeStepRef = useRef<number>(0);
-  // When a perfect streak is active we freeze a uniform color for that region
-  const freezeColorRef = useRef<string | null>(null);
+  // When a perfect streak is active we freeze a uniform step for that region
+  const freezeShadeStepRef = useRef<number | null>(null);
+  const { scenePalette, reducedMotion } = useAccessibilitySettings();
+
+  // Camera binding: step to the next follow view
+  const followViewRef = useRef(0);
+  const followViewCutRef = useRef(false);
+  useInputAction('camera', () => {
+    followViewRef.current = (followViewRef.current + 1) % FOLLOW_CAMERA_VIEWS.length;
+    followViewCutRef.current = reducedMotion;
+  });
+
   const [edgeCascadeEvent, setEdgeCascadeEvent] = React.useState<PerfectEdgeCascadeEvent | null>(null);
 
 
@@ -292,19 +325,21 @@ export const GameScene: React.FC<GameSceneProps> = ({
   // Returns a color that progresses through the color spectrum as the tower grows.
   // step=0 => vibrant red/orange; later steps cycle through the rainbow.
   const generateGradientColor = (step: number): string => {
-    // Smooth cyan-blue gradient transition
-    // Create a smooth sine wave between cyan and blue
+    // Smooth gradient between the palette's two block colors (cyan and blue by default)
+    // Create a smooth sine wave between them
     const t = (Math.sin(step * 0.3) + 1) / 2; // Normalize to 0-1
 
-    // Cyan: #00ffff (0, 255, 255)
-    // Blue: #0080ff (0, 128, 255)
-    const r = 0; // Red stays 0
-    const g = Math.floor(255 - (127 * t)); // Green: 255 → 128
-    const b = 255; // Blue stays 255
+    const from = parseInt(scenePalette.blockFrom.slice(1), 16);
+    const to = parseInt(scenePalette.blockTo.slice(1), 16);
+    const channel = (shift: number) => {
+      const a = (from >> shift) & 0xff;
+      const b = (to >> shift) & 0xff;
+      return Math.floor(a + (b - a) * t);
+    };
 
     // Convert to hex
     const toHex = (n: number) => n.toString(16).padStart(2, '0');
-    return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+    return `#${toHex(channel(16))}${toHex(channel(8))}${toHex(channel(0))}`;
   };
 
   // No ghost stack: we now seed real blocks at start, so intro visuals are handled by real placements
@@ -314,6 +349,9 @@ export const GameScene: React.FC<GameSceneProps> = ({
     return FixedMath.toFloat(fixedValue);
   };
 
+  // Yaw of the placed stack (only non-zero in rotating_base mode)
+  const towerYaw = toSceneYaw(gameState?.towerRotation ?? 0);
+
   // Axes helper ref (for debugging/orientation) - not used in production
 
   // Optimized frame loop with reduced overhead
@@ -393,19 +431,32 @@ export const GameScene: React.FC<GameSceneProps> = ({
         const topBlock = gameState.blocks[gameState.blocks.length - 1];
         if (!topBlock) return;
         const topY = FixedMath.toFloat(topBlock.y + topBlock.height / 2);
-        const topX = FixedMath.toFloat(topBlock.x);
+        // Follow the top block where the (possibly spinning) tower has carried it
+        const topWorld = towerToWorld(
+          FixedMath.toFloat(topBlock.x),
+          FixedMath.toFloat(topBlock.z ?? 0),
+          towerYaw
+        );
+        const topX = topWorld.x;
 
 
 
         // Use optimized camera positioning relative to tower - moved back and up
-        const desiredBaseY = topY + 20; // Increased height offset
-        const desiredBaseZ = 40; // Increased Z distance
-        const desiredBaseX = topX + 40; // Increased X offset
-
-        // Smoothly update the camera base to follow tower
-        cameraBaseRef.current.y += (desiredBaseY - cameraBaseRef.current.y) * 0.08;
-        cameraBaseRef.current.z += (desiredBaseZ - cameraBaseRef.current.z) * 0.06;
-        cameraBaseRef.current.x += (desiredBaseX - cameraBaseRef.current.x) * 0.12;
+        const view = FOLLOW_CAMERA_VIEWS[followViewRef.current] ?? DEFAULT_FOLLOW_VIEW;
+        const desiredBaseY = topY + view.y; // Height above the top block
+        const desiredBaseZ = view.z; // Z distance
+        const desiredBaseX = topX + view.x; // X offset
+
+        if (followViewCutRef.current) {
+          // Reduced motion: switch views with a cut instead of a swoop
+          cameraBaseRef.current = { x: desiredBaseX, y: desiredBaseY, z: desiredBaseZ };
+          followViewCutRef.current = false;
+        } else {
+          // Smoothly update the camera base to follow tower
+          cameraBaseRef.current.y += (desiredBaseY - cameraBaseRef.current.y) * 0.08;
+          cameraBaseRef.current.z += (desiredBaseZ - cameraBaseRef.current.z) * 0.06;
+          cameraBaseRef.current.x += (desiredBaseX - cameraBaseRef.current.x) * 0.12;
+        }
 
         // Apply camera position
         cameraRef.current.position.set(
@@ -417,9 +468,9 @@ export const GameScene: React.FC<GameSceneProps> = ({
         // Look at target
         const topBlock2 = gameState.blocks[gameState.blocks.length - 1];
         if (topBlock2) {
-          const desiredTargetX = FixedMath.toFloat(topBlock2.x);
+          const desiredTargetX = topWorld.x;
           const desiredTargetY = FixedMath.toFloat(topBlock2.y + topBlock2.height);
-          const desiredTargetZ = FixedMath.toFloat(topBlock2.z ?? 0);
+          const desiredTargetZ = topWorld.z;
 
           // Update all lookAt target coordinates to follow the tower
           lookAtTargetRef.current.x += (desiredTargetX - lookAtTargetRef.current.x) * 0.08;
@@ -546,20 +597,20 @@ export const GameScene: React.FC<GameSceneProps> = ({
 
       // Assign gradient / frozen colors for the newly placed block
       const newIndex = gameState.blocks.length - 1;
-      if (!blockColorsRef.current[newIndex]) {
-        if (freezeColorRef.current && (continuingStreak || (prevStreak > 0 && isPerfectPlacement))) {
-          blockColorsRef.current[newIndex] = freezeColorRef.current; // continue frozen color
+      if (blockShadeStepsRef.current[newIndex] === undefined) {
+        if (freezeShadeStepRef.current !== null && (continuingStreak || (prevStreak > 0 && isPerfectPlacement))) {
+          blockShadeStepsRef.current[newIndex] = freezeShadeStepRef.current; // continue frozen color
         } else {
-          const col = generateGradientColor(shadeStepRef.current);
-          blockColorsRef.current[newIndex] = col;
+          const step = shadeStepRef.current;
+          blockShadeStepsRef.current[newIndex] = step;
           shadeStepRef.current++;
           if (startingStreak) {
-            freezeColorRef.current = col; // freeze during streak
+            freezeShadeStepRef.current = step; // freeze during streak
           }
         }
       }
       if (endingStreak) {
-        freezeColorRef.current = null; // clear when streak breaks
+        freezeShadeStepRef.current = null; // clear when streak breaks
       }
 
       if (isPerfectPlacement && last && below) {
@@ -802,9 +853,9 @@ export const GameScene: React.FC<GameSceneProps> = ({
       musicStageRef.current = 'start';
 
       // Reset shading state for new game
-      blockColorsRef.current = [];
+      blockShadeStepsRef.current = [];
       shadeStepRef.current = 0;
-      freezeColorRef.current = null;
+      freezeShadeStepRef.current = null;
     }
 
     lastBlockCountRef.current = currentBlockCount;
@@ -813,72 +864,33 @@ export const GameScene: React.FC<GameSceneProps> = ({
   // Camera panning now handled by TowerCameraController
 
   // Camera control and debug keyboard shortcuts
-  React.useEffect(() => {
-    if (!DEV_TOOLS_ENABLED) {
-      return;
-    }
-    const handler = (e: KeyboardEvent) => {
-      if (!cameraRef.current) return;
-
+  const setCameraView = (position: [number, number, number], fov: number, label: string) => {
+    const cam = cameraRef.current;
+    if (!cam) return;
+    cam.position.set(...position);
+    cam.fov = fov;
+    cam.updateProjectionMatrix();
+    console.log(`📷 Camera: ${label} view`);
+  };
+  useDevShortcuts(DEV_TOOLS_ENABLED, {
+    Digit1: () => setCameraView([8, 50, 6], 8, 'Isometric'),
+    Digit2: () => setCameraView([0, 80, 0], 15, 'Top-down'),
+    Digit3: () => setCameraView([30, 20, 0], 25, 'Side'),
+    Digit4: () => setCameraView([15, 25, 15], 45, 'Perspective'),
+    // Print current camera position
+    KeyP: () => {
       const cam = cameraRef.current;
-
-      // Camera positioning shortcuts
-      switch (e.key.toLowerCase()) {
-        case '1': // Isometric view
-          cam.position.set(8, 50, 6);
-          cam.fov = 8;
-          cam.updateProjectionMatrix();
-          console.log('📷 Camera: Isometric view');
-          break;
-        case '2': // Top-down view
-          cam.position.set(0, 80, 0);
-          cam.fov = 15;
-          cam.updateProjectionMatrix();
-          console.log('📷 Camera: Top-down view');
-          break;
-        case '3': // Side view
-          cam.position.set(30, 20, 0);
-          cam.fov = 25;
-          cam.updateProjectionMatrix();
-          console.log('📷 Camera: Side view');
-          break;
-        case '4': // Perspective view
-          cam.position.set(15, 25, 15);
-          cam.fov = 45;
-          cam.updateProjectionMatrix();
-          console.log('📷 Camera: Perspective view');
-          break;
-        case 'r': // Reset / restart shortcut
-          if (onRestartGame) {
-            onRestartGame();
-          } else {
-            cam.position.set(8, 50, 6);
-            cam.fov = 8;
-            cam.updateProjectionMatrix();
-            console.log('📷 Camera: Reset to default');
-          }
-          break;
-        case 'p': // Print current camera position
-          console.log('📷 Current camera position:', {
-            position: cam.position.toArray(),
-            fov: cam.fov
-          });
-          break;
-        // Music debug shortcuts
-        case 't':
-          MusicManager.transitionToSection();
-          break;
-        case 'c':
-          MusicManager.crescendo();
-          break;
-        case 'g':
-          MusicManager.gameOverReturn();
-          break;
-      }
-    };
-    window.addEventListener('keydown', handler);
-    return () => window.removeEventListener('keydown', handler);
-  }, [onRestartGame]);
+      if (!cam) return;
+      console.log('📷 Current camera position:', {
+        position: cam.position.toArray(),
+        fov: cam.fov
+      });
+    },
+    // Music debug shortcuts
+    KeyT: () => void MusicManager.transitionToSection(),
+    KeyC: () => void MusicManager.crescendo(),
+    KeyG: () => void MusicManager.gameOverReturn(),
+  });
 
 
 
@@ -987,11 +999,17 @@ export const GameScene: React.FC<GameSceneProps> = ({
       <group>
         {/* No ghost stack: initial real blocks are seeded in simulation */}
 
+        {/* Placed blocks live in the tower's frame, which spins in rotating_base mode */}
+        <group rotation={[0, towerYaw, 0]}>
         {gameState && !gameState.isGameOver && gameState.blocks.map((block, index) => {
           const isNewTop = gameState.blocks.length > prevBlocksRef.current && index === gameState.blocks.length - 1;
-          const spawnFrom = isNewTop ? lastActivePosRef.current ?? undefined : undefined;
+          const lastActive = lastActivePosRef.current;
+          const spawnFrom = isNewTop && lastActive
+            ? { ...lastActive, ...worldToTower(lastActive.x, lastActive.z, towerYaw) }
+            : undefined;
           const highlightPerfect = lastPerfectContactRef.current && index === gameState.blocks.length - 1 && (globalThis as any).__lastPlacementPerfect;
-          const color = blockColorsRef.current[index] ?? undefined;
+          const shadeStep = blockShadeStepsRef.current[index];
+          const color = shadeStep !== undefined ? generateGradientColor(shadeStep) : undefined;
           return (
             <GameBlock
               key={`block-${index}`}
@@ -1010,6 +1028,16 @@ export const GameScene: React.FC<GameSceneProps> = ({
           );
         })}
 
+        {/* Trimmed pieces are cut in the tower's frame as well */}
+        {gameState && !gameState.isGameOver && (
+          <TronClearDisintegration trimEffects={gameState.recentTrimEffects} convertPosition={convertPosition} currentTick={gameState.tick} />
+        )}
+
+        {gameState && !gameState.isGameOver && perfectWindowMode && (
+          <PerfectWindowOverlay gameState={gameState} mode={perfectWindowMode} />
+        )}
+        </group>
+
         {/* Current moving block */}
         {gameState && !gameState.isGameOver && gameState.currentBlock && (() => {
           // Render the active/current block visually flush on top of the highest placed block.
@@ -1037,19 +1065,17 @@ export const GameScene: React.FC<GameSceneProps> = ({
               combo={gameState.combo}
               lastPlacement={gameState.lastPlacement}
               // Preview next color: either frozen streak color or upcoming gradient step
-              color={freezeColorRef.current ?? generateGradientColor(shadeStepRef.current)}
+              color={generateGradientColor(freezeShadeStepRef.current ?? shadeStepRef.current)}
               perfectEdgeEvent={edgeCascadeEvent}
             />
           );
         })()}
         {/* Place floating particles in the same group as blocks so they align with the stack */}
-        {gameState && !gameState.isGameOver && (<FloatingParticles gameState={gameState} convertPosition={convertPosition} />)}
+        {gameState && !gameState.isGameOver && (<FloatingParticles key={floatingParticleCount} particleCount={floatingParticleCount} gameState={gameState} convertPosition={convertPosition} />)}
       </group>
 
-      {/* Clear Tron disintegration - shows what got cut, then fast particles */}
-      {gameState && !gameState.isGameOver && (
-        <TronClearDisintegration trimEffects={gameState.recentTrimEffects} convertPosition={convertPosition} currentTick={gameState.tick} />
-      )}
+      {/* Ghost race opponent */}
+      {ghostState && gameState && !gameState.isGameOver && <GhostStack ghostState={ghostState} />}
 
       {/* Performance-Aware Tower System - ONLY render when game is over for performance */}
       {gameState?.isGameOver && (
@@ -1059,6 +1085,7 @@ export const GameScene: React.FC<GameSceneProps> = ({
           placementSystem={placementSystemRef.current}
           selectedTower={selectedTower || null}
           preAssignedTowers={preAssignedTowers}
+          onCameraMove={onTowerCameraMove}
           onTowerClick={(tower, position, rank) => {
             console.log('🏰 Tower clicked in GameScene:', tower.username, 'at', position, 'rank:', rank);
             onTowerClick?.(tower, position, rank);
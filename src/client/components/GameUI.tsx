@@ -2,12 +2,29 @@ import React, { useEffect, useState } from 'react';
 import { GameStateHook } from '../hooks/useGameState';
 import { MusicManager, AudioPlayer } from './AudioPlayer';
 import { TronModalLogo } from './GameEndModal';
+import { PuzzleLevelSelect } from './PuzzleLevelSelect';
+import { DailyChallengeCard } from './DailyChallengeCard';
+import { PracticePanel } from './PracticePanel';
+import { QualityPanel } from './QualityPanel';
+import { AccessibilityPanel } from './AccessibilityPanel';
+import { ControlsPanel } from './ControlsPanel';
+import { useDevShortcuts } from './InputManager';
+import { DEFAULT_CONFIG, GAME_MODES, GAME_MODE_LABELS } from '../../shared/simulation';
+import type { GameMode } from '../../shared/simulation';
+
+// Live standing against the ghost of a ghost race
+export interface GhostRaceHud {
+  username: string;
+  scoreDelta: number;
+  onRestart: () => void; // Resetting mid-race restarts the race rather than a plain run
+}
 
 interface GameUIProps {
   gameState: GameStateHook;
   onShowTowerReview?: () => void;
   isTowerReviewLoading?: boolean;
   towerReviewError?: string | null;
+  ghostRace?: GhostRaceHud | null;
 }
 
 const hsl = (h: number, s: number, l: number, a: number = 1) =>
@@ -18,14 +35,32 @@ const DEBUG_RENDER_LOGS = false;
 const DEV_TOOLS_ENABLED =
   typeof import.meta !== 'undefined' && Boolean((import.meta as any).env?.DEV);
 
+// Modes offered on the start screen
+const START_MODES: ReadonlyArray<{ mode: GameMode; label: string }> = GAME_MODES.map((mode) => ({
+  mode,
+  label: GAME_MODE_LABELS[mode],
+}));
+
 // Rebuilt (clean) GameUI with unified banner lane for perfect & miss feedback.
 export const GameUI: React.FC<GameUIProps> = ({
   gameState,
   onShowTowerReview,
   isTowerReviewLoading = false,
   towerReviewError,
+  ghostRace,
 }) => {
-  const { gameState: state, isPlaying, startGame, resetGame, gameMode } = gameState;
+  const {
+    gameState: state,
+    isPlaying,
+    startGame,
+    startDailyChallenge,
+    startPractice,
+    isPractice,
+    resetGame,
+    gameMode,
+    puzzleLevelId,
+    setPuzzleLevelId,
+  } = gameState;
 
   if (DEBUG_RENDER_LOGS) {
     console.log('🎮 GameUI: Component rendered', { isPlaying, hasState: !!state });
@@ -34,6 +69,9 @@ export const GameUI: React.FC<GameUIProps> = ({
   // Runtime tuning toggle
   const [showTuning, setShowTuning] = useState(false);
 
+  // Mode picked on the start screen
+  const [selectedMode, setSelectedMode] = useState<GameMode>(gameMode ?? 'classic');
+
   // Audio state management
   const [audioEnabled, setAudioEnabled] = useState(() => {
     const saved = localStorage.getItem('tron-audio-enabled');
@@ -127,16 +165,9 @@ export const GameUI: React.FC<GameUIProps> = ({
   }, [missBanners.length]);
 
   // Keyboard toggle for tuning (press D)
-  useEffect(() => {
-    if (!DEV_TOOLS_ENABLED) {
-      return;
-    }
-    const handler = (e: KeyboardEvent) => {
-      if (e.key.toLowerCase() === 'd') setShowTuning((v) => !v);
-    };
-    window.addEventListener('keydown', handler);
-    return () => window.removeEventListener('keydown', handler);
-  }, []);
+  useDevShortcuts(DEV_TOOLS_ENABLED, {
+    KeyD: () => setShowTuning((v) => !v),
+  });
 
   // Derived tuning handles
   const slideSpeed = (gameState as any).slideSpeed as number | undefined;
@@ -201,16 +232,32 @@ export const GameUI: React.FC<GameUIProps> = ({
     setIsExiting(true);
     // Wait for exit animation to complete before starting game
     setTimeout(() => {
-      startGame('rotating_block');
+      startGame(selectedMode);
       setIsExiting(false);
     }, 600); // Match animation duration
   };
 
+  const handleStartPractice = () => {
+    setIsExiting(true);
+    setTimeout(() => {
+      startPractice(selectedMode);
+      setIsExiting(false);
+    }, 600);
+  };
+
   const handleResetAndRestart = React.useCallback(() => {
-    const mode = gameMode ?? 'rotating_block';
+    if (ghostRace) {
+      ghostRace.onRestart();
+      return;
+    }
+    const mode = gameMode ?? 'classic';
     resetGame();
-    startGame(mode);
-  }, [gameMode, resetGame, startGame]);
+    if (isPractice) {
+      startPractice(mode);
+    } else {
+      startGame(mode);
+    }
+  }, [gameMode, ghostRace, isPractice, resetGame, startGame, startPractice]);
 
   if (!isPlaying && !state?.isGameOver) {
     if (DEBUG_RENDER_LOGS) {
@@ -272,6 +319,32 @@ export const GameUI: React.FC<GameUIProps> = ({
             </div>
           )}
 
+          {/* Mode selection */}
+          <div className="tron-mode-select" role="radiogroup" aria-label="Game mode">
+            {START_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                role="radio"
+                aria-checked={selectedMode === mode}
+                className={`tron-mode-option ${selectedMode === mode ? 'active' : ''}`}
+                onClick={() => setSelectedMode(mode)}
+                disabled={isExiting}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {/* Level selection (puzzle mode) */}
+          {selectedMode === 'puzzle' && (
+            <PuzzleLevelSelect
+              selectedLevelId={puzzleLevelId}
+              onSelect={setPuzzleLevelId}
+              disabled={isExiting}
+            />
+          )}
+
           {/* Start button */}
           <button
             onClick={handleStartGame}
@@ -286,6 +359,21 @@ export const GameUI: React.FC<GameUIProps> = ({
             </div>
           </button>
 
+          {/* Practice: own tuning and rewinds, never submitted (puzzles bring their own tuning) */}
+          {selectedMode !== 'puzzle' && (
+            <button
+              onClick={handleStartPractice}
+              className="tron-practice-start"
+              type="button"
+              disabled={isExiting}
+            >
+              PRACTICE
+            </button>
+          )}
+
+          {/* Daily challenge: shared seed, one ranked attempt per day */}
+          <DailyChallengeCard onStart={startDailyChallenge} disabled={isExiting} />
+
           {/* Controls hint */}
           <div className="tron-start-hint">
             TAP TO DROP
@@ -297,6 +385,12 @@ export const GameUI: React.FC<GameUIProps> = ({
           <div className="tron-start-corner tron-corner-bl" />
           <div className="tron-start-corner tron-corner-br" />
         </div>
+
+        {/* Reduced motion and palettes can be set before the first run */}
+        <div className="tron-settings-dock">
+          <AccessibilityPanel />
+          <ControlsPanel />
+        </div>
       </div>
     );
   }
@@ -387,6 +481,10 @@ export const GameUI: React.FC<GameUIProps> = ({
         blocks={state?.blocks?.length ?? 0}
         combo={state?.combo ?? 0}
         isGameOver={state?.isGameOver ?? false}
+        ticksRemaining={
+          state?.deadlineTick !== undefined ? Math.max(0, state.deadlineTick - state.tick) : null
+        }
+        ghostRace={ghostRace ?? null}
       />
 
       {/* Audio Toggle Button */}
@@ -395,6 +493,18 @@ export const GameUI: React.FC<GameUIProps> = ({
         onToggle={() => setAudioEnabled(!audioEnabled)}
       />
 
+      {/* Graphics quality and accessibility settings */}
+      <div className="tron-settings-dock">
+        <QualityPanel />
+        <AccessibilityPanel />
+      </div>
+
+      {isPractice && !state?.isGameOver && (
+        <div className="absolute bottom-4 right-4 pointer-events-auto">
+          <PracticePanel gameState={gameState} />
+        </div>
+      )}
+
       {/* Tuning overlay */}
       {DEV_TOOLS_ENABLED && showTuning ? (
         <div className="absolute bottom-20 left-1/2 -translate-x-1/2 pointer-events-auto bg-black/30 px-3 py-2 rounded-md backdrop-blur-sm space-y-2 max-w-xs">
@@ -520,7 +630,7 @@ export const GameUI: React.FC<GameUIProps> = ({
       {state?.isGameOver && (
         <div className="absolute top-6 right-6 pointer-events-auto">
           <button
-            onClick={() => startGame('rotating_block')}
+            onClick={() => startGame(gameMode ?? 'classic')}
             className="tron-play-again-btn"
           >
             <div className="tron-btn-scan"></div>
@@ -542,7 +652,9 @@ const GameHUD: React.FC<{
   blocks: number;
   combo: number;
   isGameOver: boolean;
-}> = ({ score, blocks, combo, isGameOver }) => {
+  ticksRemaining: number | null; // time_attack countdown, null when the run is untimed
+  ghostRace: GhostRaceHud | null;
+}> = ({ score, blocks, combo, isGameOver, ticksRemaining, ghostRace }) => {
   const [lastScore, setLastScore] = useState(score);
   const [deltas, setDeltas] = useState<Array<{ id: number; v: number; t: number }>>([]);
   const [pulse, setPulse] = useState(0);
@@ -596,6 +708,26 @@ const GameHUD: React.FC<{
           <div className="tron-hud-value">{blocks}</div>
         </div>
 
+        {/* Countdown Section - only for timed runs */}
+        {ticksRemaining !== null && (
+          <div className={`tron-hud-section tron-time-section ${ticksRemaining <= 10 * DEFAULT_CONFIG.TICK_RATE ? 'warning' : ''}`}>
+            <div className="tron-hud-label">TIME</div>
+            <div className="tron-hud-value">
+              {(ticksRemaining / DEFAULT_CONFIG.TICK_RATE).toFixed(1)}s
+            </div>
+          </div>
+        )}
+
+        {/* Ghost Section - live score difference, only while racing a ghost */}
+        {ghostRace && (
+          <div className={`tron-hud-section tron-ghost-section ${ghostRace.scoreDelta > 0 ? 'ahead' : ghostRace.scoreDelta < 0 ? 'behind' : ''}`}>
+            <div className="tron-hud-label">VS {ghostRace.username.toUpperCase()}</div>
+            <div className="tron-hud-value">
+              {ghostRace.scoreDelta > 0 ? '+' : ''}{ghostRace.scoreDelta.toLocaleString()}
+            </div>
+          </div>
+        )}
+
         {/* Multiplier Section - Always present to prevent layout shifts */}
         <div className={`tron-hud-section tron-multiplier-section ${combo > 0 && !isGameOver ? 'active' : 'inactive'}`}>
           <div className="tron-hud-label">MULTIPLIER</div>
@@ -0,0 +1,63 @@
+import React from 'react';
+import { GameState, FixedMath, Block } from '../../shared/simulation';
+import { toSceneYaw } from '../utils/sceneYaw';
+
+interface GhostStackProps {
+  ghostState: GameState;
+  // Where the ghost stands relative to the live stack (beside it from the default camera)
+  offset?: [number, number, number];
+}
+
+const GHOST_COLOR = '#8be9ff';
+
+const GhostBlock: React.FC<{ block: Block; opacity: number }> = ({ block, opacity }) => {
+  const width = FixedMath.toFloat(block.width);
+  const height = FixedMath.toFloat(block.height);
+  const depth = Math.max(0.4, FixedMath.toFloat(block.depth ?? block.width));
+
+  return (
+    <mesh
+      position={[
+        FixedMath.toFloat(block.x),
+        FixedMath.toFloat(block.y + block.height / 2),
+        FixedMath.toFloat(block.z ?? 0),
+      ]}
+      rotation={[0, toSceneYaw(block.rotation), 0]}
+      castShadow={false}
+      receiveShadow={false}
+    >
+      <boxGeometry args={[width, height, depth]} />
+      <meshBasicMaterial
+        color={GHOST_COLOR}
+        transparent
+        opacity={opacity}
+        depthWrite={false}
+        toneMapped={false}
+      />
+    </mesh>
+  );
+};
+
+// Translucent second stack for ghost races, drawn straight from the ghost's simulation state
+export const GhostStack: React.FC<GhostStackProps> = ({ ghostState, offset = [10, 0, -10] }) => {
+  const current = ghostState.currentBlock;
+  const top = ghostState.blocks[ghostState.blocks.length - 1];
+
+  return (
+    <group position={offset}>
+      <group rotation={[0, toSceneYaw(ghostState.towerRotation ?? 0), 0]}>
+        {ghostState.blocks.map((block, index) => (
+          <GhostBlock key={`ghost-block-${index}`} block={block} opacity={0.22} />
+        ))}
+      </group>
+
+      {/* Sits on the ghost's top block the same way the live moving block does */}
+      {current && !ghostState.isGameOver && (
+        <GhostBlock
+          block={top ? { ...current, y: top.y + top.height + current.height / 2 } : current}
+          opacity={0.32}
+        />
+      )}
+    </group>
+  );
+};
@@ -2,10 +2,13 @@ import React from 'react';
 import { Canvas } from '@react-three/fiber';
 import { TowerMapEntry } from '../../shared/types/api';
 import { TowerPlacementSystem } from '../../shared/types/towerPlacement';
+import { GAME_MODES, GAME_MODE_LABELS } from '../../shared/simulation';
+import type { GameMode } from '../../shared/simulation';
 import { UnifiedTowerSystem } from './UnifiedTowerSystem';
 import { TowerCameraController } from './TowerCameraController';
 import { TronBackground } from './TronBackground';
 import { EffectsRenderer } from './EffectsRenderer';
+import { usePerformanceSettings } from './PerformanceConfig';
 
 interface GridReviewOverlayProps {
   selectedTower?: TowerMapEntry | null;
@@ -17,6 +20,9 @@ interface GridReviewOverlayProps {
   error?: string | null;
   onRequestReload?: () => void | Promise<void>;
   onClearAssignments?: () => void;
+  mode?: GameMode; // Mode whose leaderboard towers are shown
+  onModeChange?: (mode: GameMode) => void;
+  onCameraMove?: (x: number, z: number) => void; // Streams tower chunks around the camera
 }
 
 const stubGameState = { isGameOver: true } as const;
@@ -31,7 +37,11 @@ export const GridReviewOverlay: React.FC<GridReviewOverlayProps> = ({
   error = null,
   onRequestReload,
   onClearAssignments,
+  mode = 'classic',
+  onModeChange,
+  onCameraMove,
 }) => {
+  const { pixelRatio } = usePerformanceSettings().settings;
   const [towersData, setTowersData] = React.useState<TowerMapEntry[]>([]);
 
   React.useEffect(() => {
@@ -85,9 +95,31 @@ export const GridReviewOverlay: React.FC<GridReviewOverlayProps> = ({
         </button>
       </div>
 
+      {onModeChange && (
+        <div
+          className="tron-mode-select tron-grid-review-modes"
+          role="radiogroup"
+          aria-label="Leaderboard mode"
+        >
+          {GAME_MODES.map((tabMode) => (
+            <button
+              key={tabMode}
+              type="button"
+              role="radio"
+              aria-checked={mode === tabMode}
+              className={`tron-mode-option ${mode === tabMode ? 'active' : ''}`}
+              onClick={() => onModeChange(tabMode)}
+              disabled={isLoading}
+            >
+              {GAME_MODE_LABELS[tabMode]}
+            </button>
+          ))}
+        </div>
+      )}
+
       <div className="tron-grid-review-canvas">
         <Canvas
-          dpr={[0.6, 1.1]}
+          dpr={[Math.min(0.6, pixelRatio), Math.min(1.1, pixelRatio)]}
           shadows={false}
           gl={{ antialias: false, alpha: false, powerPreference: 'high-performance' }}
           frameloop="always"
@@ -118,6 +150,7 @@ export const GridReviewOverlay: React.FC<GridReviewOverlayProps> = ({
             preAssignedTowers={preAssignedTowers}
             selectedTower={selectedTower || null}
             onTowerClick={handleTowerFocus}
+            onCameraMove={onCameraMove}
             onTowersLoaded={(towers) => setTowersData(towers)}
           />
 
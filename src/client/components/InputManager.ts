@@ -0,0 +1,366 @@
+import { useEffect, useRef, useState } from 'react';
+import { AccessibilityConfig } from './AccessibilityConfig';
+
+export type InputAction = 'drop' | 'pause' | 'restart' | 'camera';
+export type InputDevice = 'keyboard' | 'gamepad';
+
+export const INPUT_ACTIONS: InputAction[] = ['drop', 'pause', 'restart', 'camera'];
+
+export interface InputBindings {
+  keyboard: Record<InputAction, string[]>; // KeyboardEvent.code values
+  gamepad: Record<InputAction, number[]>; // Button indices of the standard gamepad mapping
+  pointer: InputAction | null; // Action of a tap or click on the game surface
+}
+
+export interface InputActionEvent {
+  action: InputAction;
+  time: number; // When the input happened, on the performance.now() clock
+  source: InputDevice | 'pointer';
+}
+
+// Binding the next key or button press to an action
+export interface InputCapture {
+  action: InputAction;
+  device: InputDevice;
+}
+
+export const DEFAULT_BINDINGS: InputBindings = {
+  keyboard: { drop: ['Space'], pause: ['KeyP'], restart: ['KeyR'], camera: ['KeyV'] },
+  // A or right trigger drops, Start pauses, Back/Select restarts, Y switches the camera
+  gamepad: { drop: [0, 7], pause: [9], restart: [8], camera: [3] },
+  pointer: 'drop',
+};
+
+const GAMEPAD_BUTTON_LABELS = [
+  'A',
+  'B',
+  'X',
+  'Y',
+  'LB',
+  'RB',
+  'LT',
+  'RT',
+  'SELECT',
+  'START',
+  'L3',
+  'R3',
+  'UP',
+  'DOWN',
+  'LEFT',
+  'RIGHT',
+  'HOME',
+];
+
+export const formatKey = (code: string): string => code.replace(/^(Key|Digit)/, '').toUpperCase();
+
+export const formatGamepadButton = (button: number): string =>
+  GAMEPAD_BUTTON_LABELS[button] ?? `B${button}`;
+
+const STORAGE_KEY = 'tron-input-bindings';
+// Text fields keep their keys; everything else on the page is fair game
+const TEXT_ENTRY =
+  'input:not([type="checkbox"]):not([type="radio"]):not([type="range"]), textarea, select, [contenteditable="true"]';
+// HUD controls that a larger tap target must not swallow
+const CONTROLS = 'button, a, input, select, label, [role="dialog"]';
+const GAME_SURFACE = '[data-game-canvas="true"]';
+
+const cloneBindings = (bindings: InputBindings): InputBindings => ({
+  keyboard: { ...bindings.keyboard },
+  gamepad: { ...bindings.gamepad },
+  pointer: bindings.pointer,
+});
+
+const loadBindings = (): InputBindings => {
+  const bindings = cloneBindings(DEFAULT_BINDINGS);
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<InputBindings>;
+      for (const action of INPUT_ACTIONS) {
+        const keys = parsed.keyboard?.[action];
+        const buttons = parsed.gamepad?.[action];
+        if (Array.isArray(keys))
+          bindings.keyboard[action] = keys.filter((k) => typeof k === 'string');
+        if (Array.isArray(buttons))
+          bindings.gamepad[action] = buttons.filter((b) => typeof b === 'number');
+      }
+      if (parsed.pointer === null || INPUT_ACTIONS.includes(parsed.pointer as InputAction)) {
+        bindings.pointer = parsed.pointer ?? null;
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read input bindings:', error);
+  }
+  return bindings;
+};
+
+/**
+ * The one place raw input becomes game actions. Keyboard, pointer/touch and gamepad presses are
+ * looked up in the player's bindings and dispatched with the time they happened, so the game
+ * loop can place a drop on the simulation tick it belongs to rather than the frame that saw it.
+ */
+export class InputManager {
+  private static instance: InputManager;
+  private bindings: InputBindings = loadBindings();
+  private capture: InputCapture | null = null;
+  private handlers: Record<InputAction, ((event: InputActionEvent) => void)[]> = {
+    drop: [],
+    pause: [],
+    restart: [],
+    camera: [],
+  };
+  private listeners: (() => void)[] = [];
+  // Developer shortcuts, which only ever see keys that no action is bound to
+  private devKeyHandlers: ((code: string) => void)[] = [];
+  // Buttons held on each gamepad at the last poll, so a press fires once
+  private heldButtons = new Map<number, boolean[]>();
+  private gamepadFrame: number | null = null;
+
+  static getInstance(): InputManager {
+    if (!InputManager.instance) {
+      InputManager.instance = new InputManager();
+    }
+    return InputManager.instance;
+  }
+
+  private constructor() {
+    if (typeof window === 'undefined') return;
+    window.addEventListener('keydown', this.handleKeyDown);
+    window.addEventListener('pointerdown', this.handlePointerDown, { passive: false });
+    window.addEventListener('gamepadconnected', this.startGamepadPolling);
+  }
+
+  getBindings(): InputBindings {
+    return cloneBindings(this.bindings);
+  }
+
+  getCapture(): InputCapture | null {
+    return this.capture;
+  }
+
+  // Listen for one action; returns the unsubscribe function
+  on(action: InputAction, handler: (event: InputActionEvent) => void): () => void {
+    this.handlers[action].push(handler);
+    return () => {
+      const index = this.handlers[action].indexOf(handler);
+      if (index > -1) {
+        this.handlers[action].splice(index, 1);
+      }
+    };
+  }
+
+  // Listen for presses of unbound keys; returns the unsubscribe function
+  onDevKey(handler: (code: string) => void): () => void {
+    this.devKeyHandlers.push(handler);
+    return () => {
+      const index = this.devKeyHandlers.indexOf(handler);
+      if (index > -1) {
+        this.devKeyHandlers.splice(index, 1);
+      }
+    };
+  }
+
+  // The next key (Escape cancels) or gamepad button pressed replaces the action's binding
+  startCapture(action: InputAction, device: InputDevice): void {
+    this.capture = { action, device };
+    if (device === 'gamepad') this.startGamepadPolling();
+    this.notify();
+  }
+
+  cancelCapture(): void {
+    this.capture = null;
+    this.notify();
+  }
+
+  setPointerAction(action: InputAction | null): void {
+    this.bindings.pointer = action;
+    this.save();
+  }
+
+  resetBindings(): void {
+    this.bindings = cloneBindings(DEFAULT_BINDINGS);
+    this.capture = null;
+    this.save();
+  }
+
+  // Bindings or capture state changed
+  subscribe(listener: () => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private dispatch(action: InputAction, time: number, source: InputActionEvent['source']): void {
+    const event: InputActionEvent = { action, time, source };
+    [...this.handlers[action]].forEach((handler) => handler(event));
+  }
+
+  private bindKey(action: InputAction, code: string): void {
+    // A key drives one action, so take it off any other
+    for (const other of INPUT_ACTIONS) {
+      this.bindings.keyboard[other] = this.bindings.keyboard[other].filter((k) => k !== code);
+    }
+    this.bindings.keyboard[action] = [code];
+    this.capture = null;
+    this.save();
+  }
+
+  private bindButton(action: InputAction, button: number): void {
+    for (const other of INPUT_ACTIONS) {
+      this.bindings.gamepad[other] = this.bindings.gamepad[other].filter((b) => b !== button);
+    }
+    this.bindings.gamepad[action] = [button];
+    this.capture = null;
+    this.save();
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (this.capture?.device === 'keyboard') {
+      event.preventDefault();
+      if (event.code === 'Escape') {
+        this.cancelCapture();
+      } else {
+        this.bindKey(this.capture.action, event.code);
+      }
+      return;
+    }
+
+    if (event.repeat || event.ctrlKey || event.metaKey || event.altKey) return;
+    const target = event.target as HTMLElement | null;
+    if (target?.closest?.(TEXT_ENTRY)) return;
+
+    const action = INPUT_ACTIONS.find((a) => this.bindings.keyboard[a].includes(event.code));
+    if (!action) {
+      [...this.devKeyHandlers].forEach((handler) => handler(event.code));
+      return;
+    }
+    // Keep Space from scrolling the page or pressing a focused button
+    event.preventDefault();
+    this.dispatch(action, event.timeStamp, 'keyboard');
+  };
+
+  private handlePointerDown = (event: PointerEvent): void => {
+    const action = this.bindings.pointer;
+    const target = event.target as HTMLElement | null;
+    if (!action || !target || this.capture) return;
+
+    const surface = document.querySelector(GAME_SURFACE);
+    if (!surface) return;
+    // The canvas is the tap target; with the larger tap target on, so is the HUD around it
+    const onSurface = surface.contains(target);
+    const largeTapTarget = AccessibilityConfig.getInstance().getSettings().largeTapTarget;
+    if (!onSurface && !(largeTapTarget && !target.closest(CONTROLS))) return;
+
+    // Prevent default scrolling/selection behavior and register the action
+    event.preventDefault();
+    this.dispatch(action, event.timeStamp, 'pointer');
+  };
+
+  private startGamepadPolling = (): void => {
+    if (this.gamepadFrame !== null || typeof navigator.getGamepads !== 'function') return;
+    this.gamepadFrame = requestAnimationFrame(this.pollGamepads);
+  };
+
+  private pollGamepads = (): void => {
+    const pads = navigator.getGamepads().filter((pad): pad is Gamepad => !!pad);
+    const now = performance.now();
+
+    for (const pad of pads) {
+      const held = this.heldButtons.get(pad.index) ?? [];
+      const pressed = pad.buttons.map((button) => button.pressed);
+      // The pad's own timestamp is when it last reported a change, which is when the press happened
+      const time = pad.timestamp > 0 ? Math.min(pad.timestamp, now) : now;
+
+      pressed.forEach((isPressed, button) => {
+        if (!isPressed || held[button]) return;
+        if (this.capture?.device === 'gamepad') {
+          this.bindButton(this.capture.action, button);
+          return;
+        }
+        const action = INPUT_ACTIONS.find((a) => this.bindings.gamepad[a].includes(button));
+        if (action) this.dispatch(action, time, 'gamepad');
+      });
+      this.heldButtons.set(pad.index, pressed);
+    }
+
+    // Poll only while a pad is connected (or one is awaited for a binding)
+    if (pads.length > 0 || this.capture?.device === 'gamepad') {
+      this.gamepadFrame = requestAnimationFrame(this.pollGamepads);
+    } else {
+      this.gamepadFrame = null;
+      this.heldButtons.clear();
+    }
+  };
+
+  private save(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.bindings));
+    } catch (error) {
+      console.warn('Failed to save input bindings:', error);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+// Run `handler` whenever the action fires; the latest handler is always the one called
+export const useInputAction = (
+  action: InputAction,
+  handler: (event: InputActionEvent) => void
+): void => {
+  const handlerRef = useRef(handler);
+  useEffect(() => {
+    handlerRef.current = handler;
+  });
+
+  useEffect(
+    () => InputManager.getInstance().on(action, (event) => handlerRef.current(event)),
+    [action]
+  );
+};
+
+// Developer shortcuts by KeyboardEvent.code. A key bound to an action never reaches them, so
+// remapping an action onto a shortcut's key turns the shortcut off rather than firing both.
+export const useDevShortcuts = (enabled: boolean, shortcuts: Record<string, () => void>): void => {
+  const shortcutsRef = useRef(shortcuts);
+  useEffect(() => {
+    shortcutsRef.current = shortcuts;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    return InputManager.getInstance().onDevKey((code) => shortcutsRef.current[code]?.());
+  }, [enabled]);
+};
+
+// React hook for the bindings and the remapping controls
+export const useInputBindings = () => {
+  const manager = InputManager.getInstance();
+  const [state, setState] = useState(() => ({
+    bindings: manager.getBindings(),
+    capture: manager.getCapture(),
+  }));
+
+  useEffect(() => {
+    const input = InputManager.getInstance();
+    return input.subscribe(() =>
+      setState({ bindings: input.getBindings(), capture: input.getCapture() })
+    );
+  }, []);
+
+  return {
+    ...state,
+    startCapture: (action: InputAction, device: InputDevice) =>
+      manager.startCapture(action, device),
+    cancelCapture: () => manager.cancelCapture(),
+    setPointerAction: (action: InputAction | null) => manager.setPointerAction(action),
+    resetBindings: () => manager.resetBindings(),
+  };
+};
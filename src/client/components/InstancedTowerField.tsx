@@ -0,0 +1,253 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { ThreeEvent, useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { TowerMapEntry } from '../../shared/types/api';
+import { toSceneYaw } from '../utils/sceneYaw';
+
+export interface TowerFieldEntry {
+  tower: TowerMapEntry;
+  position: [number, number, number];
+  rank?: number | undefined;
+}
+
+interface InstancedTowerFieldProps {
+  towers: TowerFieldEntry[];
+  // Towers further than this from the camera (world units) collapse into a single box
+  impostorDistance: number;
+  baseGlow?: boolean;
+  onTowerClick?: (tower: TowerMapEntry, position: [number, number, number], rank?: number) => void;
+}
+
+// Box matrices of one tower: every block, plus the single box that stands in for it far away
+interface TowerBoxes {
+  blocks: THREE.Matrix4[];
+  impostor: THREE.Matrix4;
+}
+
+const BLOCK_COLOR = '#0a0a0a';
+const IMPOSTOR_COLOR = '#141414';
+const GLOW_COLOR = '#333333';
+// Camera travel (world units) before towers are sorted into near and far again
+const LOD_REFRESH_DISTANCE = 4;
+// A press that moves further than this (pixels) is a camera drag, not a click
+const CLICK_SLOP = 5;
+
+const buildTowerBoxes = ({ tower, position }: TowerFieldEntry): TowerBoxes => {
+  const [originX, originY, originZ] = position;
+  const rotation = new THREE.Quaternion();
+  const yAxis = new THREE.Vector3(0, 1, 0);
+  const bounds = { minX: Infinity, maxX: -Infinity, minZ: Infinity, maxZ: -Infinity, top: 0 };
+
+  const blocks = tower.towerBlocks.map((block) => {
+    const width = block.width / 1000;
+    const height = block.height / 1000;
+    const depth = (block.depth || block.width) / 1000;
+    const x = block.x / 1000;
+    const y = block.y / 1000;
+    const z = (block.z || 0) / 1000;
+
+    bounds.minX = Math.min(bounds.minX, x - width / 2);
+    bounds.maxX = Math.max(bounds.maxX, x + width / 2);
+    bounds.minZ = Math.min(bounds.minZ, z - depth / 2);
+    bounds.maxZ = Math.max(bounds.maxZ, z + depth / 2);
+    bounds.top = Math.max(bounds.top, y + height);
+
+    rotation.setFromAxisAngle(yAxis, toSceneYaw(block.rotation || 0));
+    return new THREE.Matrix4().compose(
+      new THREE.Vector3(originX + x, originY + y + height / 2, originZ + z),
+      rotation,
+      new THREE.Vector3(width, height, depth)
+    );
+  });
+
+  const impostor =
+    blocks.length > 0
+      ? new THREE.Matrix4().compose(
+          new THREE.Vector3(
+            originX + (bounds.minX + bounds.maxX) / 2,
+            originY + bounds.top / 2,
+            originZ + (bounds.minZ + bounds.maxZ) / 2
+          ),
+          new THREE.Quaternion(),
+          new THREE.Vector3(
+            bounds.maxX - bounds.minX,
+            Math.max(bounds.top, 0.01),
+            bounds.maxZ - bounds.minZ
+          )
+        )
+      : new THREE.Matrix4().makeScale(0, 0, 0);
+
+  return { blocks, impostor };
+};
+
+// The field's tower list is rebuilt whenever the camera settles, so boxes are kept per entry
+const boxCache = new WeakMap<TowerMapEntry, { position: string; boxes: TowerBoxes }>();
+
+const getTowerBoxes = (entry: TowerFieldEntry): TowerBoxes => {
+  const position = entry.position.join(',');
+  const cached = boxCache.get(entry.tower);
+  if (cached && cached.position === position) {
+    return cached.boxes;
+  }
+  const boxes = buildTowerBoxes(entry);
+  boxCache.set(entry.tower, { position, boxes });
+  return boxes;
+};
+
+/**
+ * Draws any number of community towers in at most three draw calls. Blocks of near towers
+ * share one InstancedMesh, towers past `impostorDistance` collapse into one box each in a
+ * second, and the optional base glow discs fill a third.
+ */
+export const InstancedTowerField: React.FC<InstancedTowerFieldProps> = ({
+  towers,
+  impostorDistance,
+  baseGlow = false,
+  onTowerClick,
+}) => {
+  const blockMeshRef = useRef<THREE.InstancedMesh>(null);
+  const impostorMeshRef = useRef<THREE.InstancedMesh>(null);
+  const glowMeshRef = useRef<THREE.InstancedMesh>(null);
+  // Which tower each drawn instance belongs to, for clicks
+  const blockOwnersRef = useRef<number[]>([]);
+  const impostorOwnersRef = useRef<number[]>([]);
+  const lastLodCameraRef = useRef<THREE.Vector3 | null>(null);
+  const pointerStartRef = useRef<{ x: number; y: number } | null>(null);
+
+  const towerBoxes = useMemo(() => towers.map(getTowerBoxes), [towers]);
+  const blockCapacity = Math.max(
+    1,
+    towerBoxes.reduce((total, boxes) => total + boxes.blocks.length, 0)
+  );
+  const towerCapacity = Math.max(1, towers.length);
+
+  // New towers or a new distance need a fresh near/far split
+  useEffect(() => {
+    lastLodCameraRef.current = null;
+  }, [towerBoxes, impostorDistance]);
+
+  useEffect(() => {
+    const glowMesh = glowMeshRef.current;
+    if (!glowMesh) return;
+
+    const matrix = new THREE.Matrix4();
+    towers.forEach(({ position }, index) => {
+      glowMesh.setMatrixAt(index, matrix.makeTranslation(position[0], -0.1, position[2]));
+    });
+    glowMesh.count = towers.length;
+    glowMesh.instanceMatrix.needsUpdate = true;
+  }, [towers, baseGlow]);
+
+  useFrame(({ camera }) => {
+    const blockMesh = blockMeshRef.current;
+    const impostorMesh = impostorMeshRef.current;
+    if (!blockMesh || !impostorMesh) return;
+
+    const lastCamera = lastLodCameraRef.current;
+    if (lastCamera && lastCamera.distanceTo(camera.position) < LOD_REFRESH_DISTANCE) return;
+    lastLodCameraRef.current = camera.position.clone();
+
+    const limitSq = impostorDistance * impostorDistance;
+    const blockOwners: number[] = [];
+    const impostorOwners: number[] = [];
+
+    towers.forEach(({ position }, towerIndex) => {
+      const boxes = towerBoxes[towerIndex];
+      if (!boxes || boxes.blocks.length === 0) return;
+
+      const dx = position[0] - camera.position.x;
+      const dz = position[2] - camera.position.z;
+      if (dx * dx + dz * dz > limitSq) {
+        impostorMesh.setMatrixAt(impostorOwners.length, boxes.impostor);
+        impostorOwners.push(towerIndex);
+        return;
+      }
+      for (const block of boxes.blocks) {
+        blockMesh.setMatrixAt(blockOwners.length, block);
+        blockOwners.push(towerIndex);
+      }
+    });
+
+    blockMesh.count = blockOwners.length;
+    impostorMesh.count = impostorOwners.length;
+    blockMesh.instanceMatrix.needsUpdate = true;
+    impostorMesh.instanceMatrix.needsUpdate = true;
+    // Clicks are raycast against the bounding sphere first, so it has to cover the new instances
+    blockMesh.computeBoundingSphere();
+    impostorMesh.computeBoundingSphere();
+    blockOwnersRef.current = blockOwners;
+    impostorOwnersRef.current = impostorOwners;
+  });
+
+  const handlePointerDown = (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    pointerStartRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handleClick =
+    (owners: React.RefObject<number[]>) =>
+    (e: ThreeEvent<MouseEvent>): void => {
+      e.stopPropagation();
+      const start = pointerStartRef.current;
+      pointerStartRef.current = null;
+      if (start && Math.hypot(e.clientX - start.x, e.clientY - start.y) > CLICK_SLOP) return;
+      if (e.instanceId === undefined) return;
+
+      const entry = towers[owners.current[e.instanceId] ?? -1];
+      if (entry) {
+        onTowerClick?.(entry.tower, entry.position, entry.rank);
+      }
+    };
+
+  const setCursor = (cursor: string) => (e: ThreeEvent<PointerEvent>) => {
+    e.stopPropagation();
+    document.body.style.cursor = cursor;
+  };
+
+  if (towers.length === 0) return null;
+
+  return (
+    <>
+      <instancedMesh
+        key={`blocks-${blockCapacity}`}
+        ref={blockMeshRef}
+        args={[undefined, undefined, blockCapacity]}
+        frustumCulled={false}
+        onPointerDown={handlePointerDown}
+        onClick={handleClick(blockOwnersRef)}
+        onPointerOver={setCursor('pointer')}
+        onPointerOut={setCursor('default')}
+      >
+        <boxGeometry args={[1, 1, 1]} />
+        <meshBasicMaterial color={BLOCK_COLOR} toneMapped={false} />
+      </instancedMesh>
+
+      <instancedMesh
+        key={`impostors-${towerCapacity}`}
+        ref={impostorMeshRef}
+        args={[undefined, undefined, towerCapacity]}
+        frustumCulled={false}
+        onPointerDown={handlePointerDown}
+        onClick={handleClick(impostorOwnersRef)}
+        onPointerOver={setCursor('pointer')}
+        onPointerOut={setCursor('default')}
+      >
+        <boxGeometry args={[1, 1, 1]} />
+        <meshBasicMaterial color={IMPOSTOR_COLOR} toneMapped={false} />
+      </instancedMesh>
+
+      {baseGlow && (
+        <instancedMesh
+          key={`glow-${towerCapacity}`}
+          ref={glowMeshRef}
+          args={[undefined, undefined, towerCapacity]}
+          frustumCulled={false}
+          raycast={() => null}
+        >
+          <cylinderGeometry args={[2, 2, 0.2, 16]} />
+          <meshBasicMaterial color={GLOW_COLOR} transparent opacity={0.2} />
+        </instancedMesh>
+      )}
+    </>
+  );
+};
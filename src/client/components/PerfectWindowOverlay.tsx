@@ -0,0 +1,43 @@
+import React from 'react';
+import { DEFAULT_SCORING, FixedMath, GameMode, GameState } from '../../shared/simulation';
+
+interface PerfectWindowOverlayProps {
+  gameState: GameState;
+  mode: GameMode;
+}
+
+const WINDOW_COLOR = '#7dff9b';
+const SLAB_HEIGHT = 0.04;
+
+// Practice aid drawn on the top block: the moving block's centre has to land inside this band
+// for the drop to count as perfect. Lives in the tower's frame, like the placed blocks.
+export const PerfectWindowOverlay: React.FC<PerfectWindowOverlayProps> = ({ gameState, mode }) => {
+  const top = gameState.blocks[gameState.blocks.length - 1];
+  if (!top || !gameState.currentBlock) return null;
+
+  const band = FixedMath.toFloat(DEFAULT_SCORING.positionPerfectWindow) * 2;
+  const depth = FixedMath.toFloat(top.depth ?? top.width);
+  // Only the X error counts, except on a spinning tower where both axes do
+  const size: [number, number, number] =
+    mode === 'rotating_base' ? [band, SLAB_HEIGHT, band] : [band, SLAB_HEIGHT, depth];
+
+  return (
+    <mesh
+      position={[
+        FixedMath.toFloat(top.x),
+        FixedMath.toFloat(top.y + top.height) + SLAB_HEIGHT / 2,
+        FixedMath.toFloat(top.z ?? 0),
+      ]}
+      renderOrder={2}
+    >
+      <boxGeometry args={size} />
+      <meshBasicMaterial
+        color={WINDOW_COLOR}
+        transparent
+        opacity={0.45}
+        depthWrite={false}
+        toneMapped={false}
+      />
+    </mesh>
+  );
+};
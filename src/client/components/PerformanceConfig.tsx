@@ -1,24 +1,20 @@
 import React, { useEffect, useState } from 'react';
+import { QUALITY_TIER_SETTINGS, QualityTier } from './qualityTiers';
 
-interface PerformanceSettings {
+export type AnimationQuality = 'low' | 'medium' | 'high';
+
+export interface PerformanceSettings {
     pixelRatio: number;
     shadowsEnabled: boolean;
     antialiasing: boolean;
     precision: 'lowp' | 'mediump' | 'highp';
-    maxTowers: number;
-    animationQuality: 'low' | 'medium' | 'high';
+    maxTowers: number; // Towers drawn in full detail, the rest go through the instanced field
+    animationQuality: AnimationQuality;
+    postProcessing: boolean; // Bloom pass
+    particleScale: number; // Share of the ambient particle pool that is emitted
 }
 
-const DEFAULT_SETTINGS: PerformanceSettings = {
-    pixelRatio: 0.5,
-    shadowsEnabled: false,
-    antialiasing: false,
-    precision: 'lowp',
-    maxTowers: 50,
-    animationQuality: 'low'
-};
-
-// Removed unused HIGH_PERFORMANCE_SETTINGS
+const DEFAULT_SETTINGS: PerformanceSettings = QUALITY_TIER_SETTINGS.low;
 
 export class PerformanceConfig {
     private static instance: PerformanceConfig;
@@ -41,32 +37,16 @@ export class PerformanceConfig {
         this.notifyListeners();
     }
 
+    // One-shot jump to the tier that suits a measured FPS. QualityController steps gradually instead.
     autoAdjustForPerformance(fps: number): void {
         if (fps < 30) {
-            // Very low performance - use minimal settings
-            this.updateSettings({
-                pixelRatio: 0.25,
-                shadowsEnabled: false,
-                antialiasing: false,
-                precision: 'lowp',
-                maxTowers: 25,
-                animationQuality: 'low'
-            });
+            this.updateSettings(QUALITY_TIER_SETTINGS.minimal);
             console.log('🔧 Auto-adjusted to minimal performance settings');
         } else if (fps < 45) {
-            // Low performance - use default settings
-            this.updateSettings(DEFAULT_SETTINGS);
-            console.log('🔧 Auto-adjusted to default performance settings');
+            this.updateSettings(QUALITY_TIER_SETTINGS.low);
+            console.log('🔧 Auto-adjusted to low performance settings');
         } else if (fps > 55) {
-            // Good performance - can use higher settings
-            this.updateSettings({
-                pixelRatio: 1.0,
-                shadowsEnabled: false, // Keep shadows off for stability
-                antialiasing: false,   // Keep antialiasing off for performance
-                precision: 'mediump',
-                maxTowers: 75,
-                animationQuality: 'medium'
-            });
+            this.updateSettings(QUALITY_TIER_SETTINGS.medium);
             console.log('🔧 Auto-adjusted to medium performance settings');
         }
     }
@@ -85,22 +65,14 @@ export class PerformanceConfig {
         this.listeners.forEach(listener => listener(this.settings));
     }
 
-    // Detect device capabilities and set initial settings
-    detectAndSetOptimalSettings(): void {
+    // Guess a starting tier from the device before any frames have been measured
+    detectQualityTier(): QualityTier {
         const canvas = document.createElement('canvas');
         const gl = canvas.getContext('webgl') as WebGLRenderingContext | null;
 
         if (!gl) {
             // No WebGL support - use minimal settings
-            this.updateSettings({
-                pixelRatio: 0.25,
-                shadowsEnabled: false,
-                antialiasing: false,
-                precision: 'lowp',
-                maxTowers: 10,
-                animationQuality: 'low'
-            });
-            return;
+            return 'minimal';
         }
 
         // Check device capabilities
@@ -108,22 +80,15 @@ export class PerformanceConfig {
         const isMobile = /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
         const isLowEnd = renderer.toString().includes('Intel') || renderer.toString().includes('Mali') || isMobile;
 
-        if (isLowEnd) {
-            this.updateSettings(DEFAULT_SETTINGS);
-            console.log('🔧 Detected low-end device, using default settings');
-        } else {
-            this.updateSettings({
-                pixelRatio: 0.75,
-                shadowsEnabled: false,
-                antialiasing: false,
-                precision: 'mediump',
-                maxTowers: 75,
-                animationQuality: 'medium'
-            });
-            console.log('🔧 Detected capable device, using medium settings');
-        }
-
         canvas.remove();
+        return isLowEnd ? 'low' : 'medium';
+    }
+
+    // Detect device capabilities and set initial settings
+    detectAndSetOptimalSettings(): void {
+        const tier = this.detectQualityTier();
+        this.updateSettings(QUALITY_TIER_SETTINGS[tier]);
+        console.log(`🔧 Detected device tier ${tier}`);
     }
 }
 
@@ -135,12 +100,9 @@ export const usePerformanceSettings = () => {
 
     useEffect(() => {
         const config = PerformanceConfig.getInstance();
-        const unsubscribe = config.subscribe(setSettings);
-
-        // Detect optimal settings on first load
-        config.detectAndSetOptimalSettings();
-
-        return unsubscribe;
+        // The starting tier is picked once by QualityController, not on every mount
+        setSettings(config.getSettings());
+        return config.subscribe(setSettings);
     }, []);
 
     return {
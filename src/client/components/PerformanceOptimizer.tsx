@@ -1,6 +1,6 @@
 import React, { useEffect, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { PerformanceConfig } from './PerformanceConfig';
+import { QualityController } from './QualityController';
 
 interface PerformanceOptimizerProps {
     targetFPS?: number;
@@ -15,7 +15,7 @@ export const PerformanceOptimizer: React.FC<PerformanceOptimizerProps> = ({
     const lastTimeRef = useRef(performance.now());
     const fpsRef = useRef(60);
     const lowPerformanceRef = useRef(false);
-    const performanceConfig = PerformanceConfig.getInstance();
+    const qualityController = QualityController.getInstance();
 
     // Debug: Log when component mounts
     useEffect(() => {
@@ -43,11 +43,11 @@ export const PerformanceOptimizer: React.FC<PerformanceOptimizerProps> = ({
             if (isLowPerformance !== lowPerformanceRef.current) {
                 lowPerformanceRef.current = isLowPerformance;
                 onPerformanceChange?.(fps, isLowPerformance);
-
-                // Auto-adjust quality settings using the performance config
-                performanceConfig.autoAdjustForPerformance(fps);
             }
 
+            // Every sample goes to the controller, which decides when a tier change is warranted
+            qualityController.reportFps(fps);
+
             lastTimeRef.current = now;
         }
     });
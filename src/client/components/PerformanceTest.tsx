@@ -1,5 +1,130 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { Canvas, useFrame } from '@react-three/fiber';
+import { PRNG } from '../../shared/simulation';
+import { TowerBlock } from '../../shared/types/api';
+import { getCellCenter } from '../../shared/types/towerPlacement';
 import { PerformanceOptimizer } from './PerformanceOptimizer';
+import { InstancedTowerField, TowerFieldEntry } from './InstancedTowerField';
+
+const BENCHMARK_SIZES = [1000, 5000, 10000];
+const BENCHMARK_WARMUP_FRAMES = 30; // Skipped while buffers upload and shaders compile
+const BENCHMARK_FRAMES = 120;
+const BENCHMARK_IMPOSTOR_DISTANCE = 120;
+
+interface BenchmarkResult {
+    towers: number;
+    drawCalls: number;
+    frameMs: number;
+}
+
+/**
+ * Synthetic community towers filling the grid outwards from the origin, each a seeded stack
+ * of 5-30 slightly offset blocks
+ */
+const createBenchmarkTowers = (count: number): TowerFieldEntry[] => {
+    const prng = new PRNG(count);
+    const side = Math.ceil(Math.sqrt(count));
+    const towers: TowerFieldEntry[] = [];
+
+    for (let index = 0; index < count; index++) {
+        const gridX = (index % side) - Math.floor(side / 2);
+        const gridZ = Math.floor(index / side) - Math.floor(side / 2);
+        const { worldX, worldZ } = getCellCenter(gridX, gridZ);
+
+        const towerBlocks: TowerBlock[] = [];
+        const blockCount = prng.range(5, 31);
+        for (let level = 0; level < blockCount; level++) {
+            towerBlocks.push({
+                x: prng.range(-300, 301),
+                y: level * 500,
+                z: prng.range(-300, 301),
+                rotation: 0,
+                width: prng.range(1500, 4001),
+                depth: prng.range(1500, 4001),
+                height: 500,
+            });
+        }
+
+        towers.push({
+            tower: {
+                sessionId: `benchmark-${index}`,
+                userId: `benchmark-${index}`,
+                username: `BENCH${index}`,
+                score: count - index,
+                blockCount,
+                perfectStreak: 0,
+                gameMode: 'classic',
+                timestamp: 0,
+                towerBlocks,
+                worldX,
+                worldZ,
+                gridX,
+                gridZ,
+            },
+            position: [worldX, 0, worldZ],
+            rank: index,
+        });
+    }
+
+    return towers;
+};
+
+// Averages frame time once the warmup is over and reports the draw calls of the last frame
+const FrameSampler: React.FC<{ onDone: (drawCalls: number, frameMs: number) => void }> = ({ onDone }) => {
+    const samplesRef = useRef<number[]>([]);
+    const doneRef = useRef(false);
+
+    useFrame(({ gl }, delta) => {
+        if (doneRef.current) return;
+
+        samplesRef.current.push(delta * 1000);
+        if (samplesRef.current.length < BENCHMARK_WARMUP_FRAMES + BENCHMARK_FRAMES) return;
+
+        doneRef.current = true;
+        const samples = samplesRef.current.slice(BENCHMARK_WARMUP_FRAMES);
+        const frameMs = samples.reduce((total, sample) => total + sample, 0) / samples.length;
+        // info is reset at the start of each render, so it still holds the previous frame
+        onDone(gl.info.render.calls, frameMs);
+    });
+
+    return null;
+};
+
+/**
+ * Renders the instanced tower field at each benchmark size in turn, in a full-screen canvas
+ */
+const TowerFieldBenchmark: React.FC<{ onComplete: (results: BenchmarkResult[]) => void }> = ({ onComplete }) => {
+    const [sizeIndex, setSizeIndex] = useState(0);
+    const [results, setResults] = useState<BenchmarkResult[]>([]);
+    const size = BENCHMARK_SIZES[sizeIndex] ?? 0;
+    const [towers, setTowers] = useState<TowerFieldEntry[]>(() => createBenchmarkTowers(size));
+
+    const handleDone = (drawCalls: number, frameMs: number) => {
+        const next = [...results, { towers: size, drawCalls, frameMs }];
+        setResults(next);
+
+        const nextSize = BENCHMARK_SIZES[sizeIndex + 1];
+        if (nextSize === undefined) {
+            onComplete(next);
+            return;
+        }
+        setTowers(createBenchmarkTowers(nextSize));
+        setSizeIndex(sizeIndex + 1);
+    };
+
+    return (
+        <div style={{ position: 'fixed', inset: 0, zIndex: 1000, background: '#000' }}>
+            <Canvas camera={{ position: [0, 140, 180], fov: 60, far: 2000 }}>
+                <InstancedTowerField
+                    towers={towers}
+                    impostorDistance={BENCHMARK_IMPOSTOR_DISTANCE}
+                    baseGlow
+                />
+                <FrameSampler key={size} onDone={handleDone} />
+            </Canvas>
+        </div>
+    );
+};
 
 /**
  * Simple performance test component to verify optimization is working
@@ -7,6 +132,8 @@ import { PerformanceOptimizer } from './PerformanceOptimizer';
 export const PerformanceTest: React.FC = () => {
     const [stats, setStats] = useState<any>(null);
     const [testResults, setTestResults] = useState<string[]>([]);
+    const [isBenchmarking, setIsBenchmarking] = useState(false);
+    const [benchmarkResults, setBenchmarkResults] = useState<BenchmarkResult[]>([]);
 
     useEffect(() => {
         const optimizer = PerformanceOptimizer.getInstance();
@@ -75,6 +202,37 @@ export const PerformanceTest: React.FC = () => {
                 </div>
             ))}
 
+            <div style={{ marginTop: '10px', fontWeight: 'bold', color: '#00ff00' }}>
+                Tower Field Benchmark
+            </div>
+
+            {benchmarkResults.map((result) => (
+                <div key={result.towers} style={{ marginBottom: '5px' }}>
+                    {result.towers.toLocaleString()} towers: {result.drawCalls} draw calls,{' '}
+                    {result.frameMs.toFixed(2)} ms/frame ({(1000 / result.frameMs).toFixed(0)} fps)
+                </div>
+            ))}
+
+            <button
+                type="button"
+                disabled={isBenchmarking}
+                onClick={() => {
+                    setBenchmarkResults([]);
+                    setIsBenchmarking(true);
+                }}
+            >
+                {isBenchmarking ? 'Running...' : 'Run 1k / 5k / 10k'}
+            </button>
+
+            {isBenchmarking && (
+                <TowerFieldBenchmark
+                    onComplete={(results) => {
+                        setBenchmarkResults(results);
+                        setIsBenchmarking(false);
+                    }}
+                />
+            )}
+
             <div style={{ marginTop: '10px', fontSize: '10px', color: '#888' }}>
                 Last updated: {new Date().toLocaleTimeString()}
             </div>
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import type { GameStateHook } from '../hooks/useGameState';
+
+interface PracticePanelProps {
+  gameState: GameStateHook;
+}
+
+// In-run controls for practice: movement tuning, the perfect-window aid and rewinds
+export const PracticePanel: React.FC<PracticePanelProps> = ({ gameState }) => {
+  const {
+    slideSpeed,
+    setSlideSpeed,
+    slideAccel,
+    setSlideAccel,
+    slideBounds,
+    setSlideBounds,
+    fallSpeedMult,
+    setFallSpeedMult,
+    showPerfectWindow,
+    setShowPerfectWindow,
+    rewindPractice,
+    practiceRewinds,
+  } = gameState;
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="tron-practice-panel">
+      <div className="tron-practice-header">
+        <span className="tron-practice-title">PRACTICE • NOT RANKED</span>
+        <button
+          type="button"
+          className="tron-practice-toggle"
+          onClick={() => setIsOpen((open) => !open)}
+          aria-expanded={isOpen}
+        >
+          {isOpen ? 'HIDE' : 'TUNE'}
+        </button>
+      </div>
+
+      <div className="tron-practice-actions">
+        <button
+          type="button"
+          className="tron-practice-button"
+          onClick={() => rewindPractice()}
+          title="Undo your last drop"
+        >
+          ⟲ REWIND{practiceRewinds > 0 ? ` (${practiceRewinds})` : ''}
+        </button>
+        <label className="tron-practice-check">
+          <input
+            type="checkbox"
+            checked={showPerfectWindow}
+            onChange={(e) => setShowPerfectWindow(e.target.checked)}
+          />
+          PERFECT WINDOW
+        </label>
+      </div>
+
+      {isOpen && (
+        <div className="tron-practice-sliders">
+          <label>
+            SLIDE SPEED {Math.round(slideSpeed)}
+            <input
+              type="range"
+              min={100}
+              max={3000}
+              value={slideSpeed}
+              onChange={(e) => setSlideSpeed(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            SPEED-UP {slideAccel}
+            <input
+              type="range"
+              min={0}
+              max={200}
+              value={slideAccel}
+              onChange={(e) => setSlideAccel(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            SLIDE RANGE {Math.round(slideBounds / 1000)}U
+            <input
+              type="range"
+              min={1000}
+              max={8000}
+              step={500}
+              value={slideBounds}
+              onChange={(e) => setSlideBounds(Number(e.target.value))}
+            />
+          </label>
+          <label>
+            FALL SPEED {fallSpeedMult.toFixed(1)}X
+            <input
+              type="range"
+              min={0.2}
+              max={10}
+              step={0.1}
+              value={fallSpeedMult}
+              onChange={(e) => setFallSpeedMult(Number(e.target.value))}
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
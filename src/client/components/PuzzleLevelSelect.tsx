@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { PuzzleLevels } from '../../shared/simulation';
+import type { PuzzleLevelProgress } from '../../shared/types/api';
+import { useGameData } from '../hooks/useGameData';
+
+interface PuzzleLevelSelectProps {
+  selectedLevelId: string;
+  onSelect: (levelId: string) => void;
+  disabled?: boolean;
+}
+
+// Start-screen list of the authored puzzle levels with the player's best star rating
+export const PuzzleLevelSelect: React.FC<PuzzleLevelSelectProps> = ({
+  selectedLevelId,
+  onSelect,
+  disabled = false,
+}) => {
+  const { getUserStats } = useGameData();
+  const [progress, setProgress] = useState<Record<string, PuzzleLevelProgress>>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    void getUserStats('puzzle').then((result) => {
+      if (!cancelled && result?.stats?.puzzleProgress) {
+        setProgress(result.stats.puzzleProgress);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [getUserStats]);
+
+  return (
+    <div className="tron-level-select" role="radiogroup" aria-label="Puzzle level">
+      {PuzzleLevels.getAll().map((level, index) => {
+        const stars = progress[level.id]?.stars ?? 0;
+        return (
+          <button
+            key={level.id}
+            type="button"
+            role="radio"
+            aria-checked={selectedLevelId === level.id}
+            aria-label={`${level.name}, ${stars} of 3 stars`}
+            className={`tron-level-option ${selectedLevelId === level.id ? 'active' : ''}`}
+            onClick={() => onSelect(level.id)}
+            disabled={disabled}
+          >
+            <span className="tron-level-number">{index + 1}</span>
+            <span className="tron-level-name">{level.name}</span>
+            <span className="tron-level-stars" aria-hidden="true">
+              {[1, 2, 3].map((star) => (
+                <span key={star} className={star <= stars ? 'earned' : ''}>
+                  ★
+                </span>
+              ))}
+            </span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
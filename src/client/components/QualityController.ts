@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { PerformanceConfig } from './PerformanceConfig';
+import { QUALITY_TIERS, QUALITY_TIER_SETTINGS, QualityTier } from './qualityTiers';
+
+export interface QualityState {
+  tier: QualityTier; // Tier picked by the automatic steps
+  override: QualityTier | null; // Tier pinned by hand, wins over `tier` while set
+  fps: number | null; // Latest measurement, null until the first one arrives
+}
+
+interface StoredQuality {
+  tier: QualityTier;
+  override: QualityTier | null;
+}
+
+const STORAGE_KEY = 'tron-quality-tier';
+
+// Hysteresis: a step down needs a few slow seconds in a row, a step up a long run of smooth
+// ones, and every change is followed by a few ignored samples while the new tier settles
+const DOWNGRADE_FPS = 45;
+const UPGRADE_FPS = 57;
+const DOWNGRADE_SAMPLES = 3;
+const UPGRADE_SAMPLES = 10;
+const COOLDOWN_SAMPLES = 5;
+// Each time a tier proves too heavy, climbing back into it takes twice as long, up to this many doublings
+const MAX_UPGRADE_BACKOFF = 4;
+
+const isQualityTier = (value: unknown): value is QualityTier =>
+  QUALITY_TIERS.includes(value as QualityTier);
+
+const loadStoredQuality = (): StoredQuality | null => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<StoredQuality>;
+      if (isQualityTier(parsed.tier)) {
+        return {
+          tier: parsed.tier,
+          override: isQualityTier(parsed.override) ? parsed.override : null,
+        };
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to read quality tier:', error);
+  }
+  return null;
+};
+
+/**
+ * Closes the loop between measured FPS and PerformanceConfig. FPS samples from
+ * PerformanceOptimizer step the quality tier down and up one at a time, and the tier in use is
+ * remembered on this device so the next session starts where this one settled.
+ */
+export class QualityController {
+  private static instance: QualityController;
+  private tier: QualityTier;
+  private override: QualityTier | null;
+  private fps: number | null = null;
+  private slowSamples = 0;
+  private smoothSamples = 0;
+  private cooldown = 0;
+  private failures: Partial<Record<QualityTier, number>> = {};
+  private listeners: ((state: QualityState) => void)[] = [];
+
+  static getInstance(): QualityController {
+    if (!QualityController.instance) {
+      QualityController.instance = new QualityController();
+    }
+    return QualityController.instance;
+  }
+
+  private constructor() {
+    const stored = loadStoredQuality();
+    this.tier = stored?.tier ?? PerformanceConfig.getInstance().detectQualityTier();
+    this.override = stored?.override ?? null;
+    this.apply();
+  }
+
+  getState(): QualityState {
+    return { tier: this.tier, override: this.override, fps: this.fps };
+  }
+
+  // Feed one FPS measurement, roughly one per second
+  reportFps(fps: number): void {
+    // A hidden tab stops drawing frames, which would read as a slow device
+    if (typeof document !== 'undefined' && document.hidden) return;
+
+    this.fps = fps;
+    if (this.override || this.cooldown > 0) {
+      this.cooldown = Math.max(0, this.cooldown - 1);
+      this.notify();
+      return;
+    }
+
+    this.slowSamples = fps < DOWNGRADE_FPS ? this.slowSamples + 1 : 0;
+    this.smoothSamples = fps > UPGRADE_FPS ? this.smoothSamples + 1 : 0;
+
+    const index = QUALITY_TIERS.indexOf(this.tier);
+    const lower = QUALITY_TIERS[index - 1];
+    const higher = QUALITY_TIERS[index + 1];
+
+    if (lower && this.slowSamples >= DOWNGRADE_SAMPLES) {
+      this.failures[this.tier] = Math.min((this.failures[this.tier] ?? 0) + 1, MAX_UPGRADE_BACKOFF);
+      this.setTier(lower);
+    } else if (
+      higher &&
+      this.smoothSamples >= UPGRADE_SAMPLES * 2 ** (this.failures[higher] ?? 0)
+    ) {
+      this.setTier(higher);
+    } else {
+      this.notify();
+    }
+  }
+
+  // Pin a tier by hand, or pass null to hand control back to the automatic steps
+  setOverride(tier: QualityTier | null): void {
+    this.override = tier;
+    this.slowSamples = 0;
+    this.smoothSamples = 0;
+    this.cooldown = COOLDOWN_SAMPLES;
+    this.persist();
+    this.apply();
+  }
+
+  subscribe(listener: (state: QualityState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private setTier(tier: QualityTier): void {
+    console.log(`🔧 Quality ${this.tier} → ${tier} at ${this.fps} FPS`);
+    this.tier = tier;
+    this.slowSamples = 0;
+    this.smoothSamples = 0;
+    this.cooldown = COOLDOWN_SAMPLES;
+    this.persist();
+    this.apply();
+  }
+
+  private apply(): void {
+    PerformanceConfig.getInstance().updateSettings(
+      QUALITY_TIER_SETTINGS[this.override ?? this.tier]
+    );
+    this.notify();
+  }
+
+  private persist(): void {
+    try {
+      const stored: StoredQuality = { tier: this.tier, override: this.override };
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+      console.warn('Failed to save quality tier:', error);
+    }
+  }
+
+  private notify(): void {
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+// React hook for the quality controller's state
+export const useQualityController = () => {
+  const [state, setState] = useState<QualityState>(() =>
+    QualityController.getInstance().getState()
+  );
+
+  useEffect(() => QualityController.getInstance().subscribe(setState), []);
+
+  return {
+    ...state,
+    setOverride: (tier: QualityTier | null) => QualityController.getInstance().setOverride(tier),
+  };
+};
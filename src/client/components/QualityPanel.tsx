@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { QUALITY_TIERS, QualityTier } from './qualityTiers';
+import { useQualityController } from './QualityController';
+
+const TIER_LABELS: Record<QualityTier, string> = {
+  minimal: 'MINIMAL',
+  low: 'LOW',
+  medium: 'MEDIUM',
+  high: 'HIGH',
+};
+
+// Graphics quality toggle: shows the tier in use and lets the player pin one or go back to AUTO
+export const QualityPanel: React.FC = () => {
+  const { tier, override, fps, setOverride } = useQualityController();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="tron-quality">
+      {isOpen && (
+        <div className="tron-quality-panel" role="dialog" aria-label="Graphics quality">
+          <div className="tron-quality-header">
+            <span>GRAPHICS</span>
+            <span className="tron-quality-fps">{fps !== null ? `${fps} FPS` : '-- FPS'}</span>
+          </div>
+          <button
+            type="button"
+            className={`tron-quality-option${override === null ? ' active' : ''}`}
+            onClick={() => setOverride(null)}
+            aria-pressed={override === null}
+          >
+            AUTO{override === null ? ` • ${TIER_LABELS[tier]}` : ''}
+          </button>
+          {[...QUALITY_TIERS].reverse().map((option) => (
+            <button
+              key={option}
+              type="button"
+              className={`tron-quality-option${override === option ? ' active' : ''}`}
+              onClick={() => setOverride(option)}
+              aria-pressed={override === option}
+            >
+              {TIER_LABELS[option]}
+            </button>
+          ))}
+        </div>
+      )}
+      <button
+        type="button"
+        className="tron-quality-toggle"
+        onClick={() => setIsOpen((open) => !open)}
+        aria-expanded={isOpen}
+        title="Graphics quality"
+      >
+        GFX {override ? TIER_LABELS[override] : 'AUTO'}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { REPLAY_SPEEDS, ReplayPlayerHook } from '../hooks/useReplayPlayer';
+
+interface ReplayControlsProps {
+  replay: ReplayPlayerHook;
+}
+
+const formatTime = (tick: number) => {
+  const totalSeconds = Math.floor(tick / 60);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Transport bar for the replay viewer; the run itself renders in the main game scene
+export const ReplayControls: React.FC<ReplayControlsProps> = ({ replay }) => {
+  const {
+    isLoading,
+    error,
+    session,
+    gameState,
+    tick,
+    endTick,
+    isPlaying,
+    speed,
+    placements,
+    play,
+    pause,
+    setSpeed,
+    seek,
+    closeReplay,
+  } = replay;
+
+  const placedCount = placements.filter((placement) => placement.tick <= tick).length;
+
+  return (
+    <div className="tron-replay-bar" role="region" aria-label="Replay controls">
+      <div className="tron-replay-header">
+        <div className="tron-replay-title">
+          REPLAY{session ? ` · ${session.username.toUpperCase()}` : ''}
+        </div>
+        <div className="tron-replay-stats">
+          {gameState && (
+            <>
+              <span>{gameState.score.toLocaleString()} PTS</span>
+              <span>
+                {placedCount}/{placements.length} BLOCKS
+              </span>
+            </>
+          )}
+        </div>
+        <button
+          type="button"
+          className="tron-replay-close"
+          onClick={closeReplay}
+          aria-label="Close replay"
+        >
+          ✕
+        </button>
+      </div>
+
+      {isLoading && <div className="tron-replay-message">LOADING REPLAY…</div>}
+      {error && <div className="tron-replay-message tron-replay-error">{error}</div>}
+
+      {!isLoading && !error && gameState && (
+        <>
+          <div className="tron-replay-transport">
+            <button
+              type="button"
+              className="tron-replay-play"
+              onClick={isPlaying ? pause : play}
+              aria-label={isPlaying ? 'Pause replay' : 'Play replay'}
+            >
+              {isPlaying ? '❚❚' : '▶'}
+            </button>
+
+            <input
+              type="range"
+              className="tron-replay-scrub"
+              min={0}
+              max={endTick}
+              value={tick}
+              onChange={(event) => seek(Number(event.target.value))}
+              aria-label="Replay position"
+            />
+
+            <div className="tron-replay-time">
+              {formatTime(tick)} / {formatTime(endTick)}
+            </div>
+          </div>
+
+          {/* One marker per placement; perfect drops are highlighted */}
+          <div className="tron-replay-timeline" aria-label="Placements">
+            {placements.map((placement) => (
+              <button
+                key={placement.index}
+                type="button"
+                className={`tron-replay-marker ${placement.isPerfect ? 'perfect' : ''} ${
+                  placement.tick <= tick ? 'played' : ''
+                }`}
+                style={{ left: `${endTick > 0 ? (placement.tick / endTick) * 100 : 0}%` }}
+                onClick={() => seek(placement.tick)}
+                title={`Block ${placement.index} · ${placement.score.toLocaleString()} pts${
+                  placement.isPerfect ? ' · perfect' : ''
+                }`}
+                aria-label={`Jump to block ${placement.index}`}
+              />
+            ))}
+          </div>
+
+          <div className="tron-replay-speeds" role="group" aria-label="Playback speed">
+            {REPLAY_SPEEDS.map((option) => (
+              <button
+                key={option}
+                type="button"
+                className={`tron-replay-speed ${speed === option ? 'active' : ''}`}
+                onClick={() => setSpeed(option)}
+                aria-pressed={speed === option}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
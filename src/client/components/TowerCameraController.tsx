@@ -2,6 +2,7 @@ import React, { useRef, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TowerMapEntry } from '../../shared/types/api';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 interface TowerCameraControllerProps {
   selectedTower?: TowerMapEntry | null | undefined;
@@ -17,6 +18,7 @@ export const TowerCameraController: React.FC<TowerCameraControllerProps> = ({
   getTowersData
 }) => {
   const { camera } = useThree();
+  const { reducedMotion } = useAccessibilitySettings();
   const rotationRef = useRef(0);
   const overviewRotationRef = useRef(0); // Separate rotation for overview mode
   const targetPositionRef = useRef(new THREE.Vector3(0, 0, 0));
@@ -192,20 +194,21 @@ export const TowerCameraController: React.FC<TowerCameraControllerProps> = ({
       return;
     }
 
-    // Smooth camera transitions
-    const lerpFactor = 0.03; // Slightly faster for better responsiveness
+    // Smooth camera transitions; with reduced motion the camera cuts instead of swooping
+    const lerpFactor = reducedMotion ? 1 : 0.03; // Slightly faster for better responsiveness
     currentPositionRef.current.lerp(targetPositionRef.current, lerpFactor);
     currentLookAtRef.current.lerp(targetLookAtRef.current, lerpFactor);
 
-    // Handle rotation based on mode
+    // Handle rotation based on mode (no auto-rotation with reduced motion)
+    const spin = reducedMotion ? 0 : delta;
     if (selectedTower && selectedTower.worldX !== undefined && selectedTower.worldZ !== undefined) {
       // Auto-rotate around selected tower
-      rotationRef.current += delta * 0.5; // Moderate rotation speed
+      rotationRef.current += spin * 0.5; // Moderate rotation speed
       const { position } = calculateCameraPosition(selectedTower, rotationRef.current);
       targetPositionRef.current.copy(position);
     } else {
       // Dynamic overview panning - slow rotation to show all towers
-      overviewRotationRef.current += delta * 0.15; // Slow panoramic rotation
+      overviewRotationRef.current += spin * 0.15; // Slow panoramic rotation
       const { position, lookAt } = calculateOverviewPosition(overviewRotationRef.current);
       targetPositionRef.current.copy(position);
       targetLookAtRef.current.copy(lookAt);
@@ -1,6 +1,14 @@
 import React, { useState, useEffect } from 'react';
 import { TowerMapEntry } from '../../shared/types/api';
 
+export type TowerModerationAction = 'hide' | 'strike' | 'ban';
+
+const MODERATION_ACTIONS: ReadonlyArray<{ action: TowerModerationAction; label: string }> = [
+  { action: 'hide', label: 'HIDE TOWER' },
+  { action: 'strike', label: 'STRIKE FROM LEADERBOARDS' },
+  { action: 'ban', label: 'BAN PLAYER' },
+];
+
 interface TowerInfoHUDProps {
   tower: TowerMapEntry;
   rank?: number | undefined;
@@ -9,6 +17,10 @@ interface TowerInfoHUDProps {
   playerPerfectBlocks?: number;
   onClose: () => void;
   onVisitProfile: (userId: string, username: string) => void;
+  onWatchReplay?: (() => void) | undefined;
+  onRaceGhost?: (() => void) | undefined;
+  // Moderator-only actions; omitted for everyone else
+  onModerate?: ((action: TowerModerationAction) => Promise<void>) | undefined;
 }
 
 export const TowerInfoPopup: React.FC<TowerInfoHUDProps> = ({
@@ -18,9 +30,13 @@ export const TowerInfoPopup: React.FC<TowerInfoHUDProps> = ({
   playerBlocks = 0,
   playerPerfectBlocks = 0,
   onClose,
-  onVisitProfile
+  onVisitProfile,
+  onWatchReplay,
+  onRaceGhost,
+  onModerate
 }) => {
   const [isVisible, setIsVisible] = useState(false);
+  const [pendingAction, setPendingAction] = useState<TowerModerationAction | null>(null);
 
   useEffect(() => {
     const timer = setTimeout(() => setIsVisible(true), 200);
@@ -50,6 +66,16 @@ export const TowerInfoPopup: React.FC<TowerInfoHUDProps> = ({
     onClose();
   };
 
+  const handleModerate = async (action: TowerModerationAction) => {
+    if (!onModerate || pendingAction) return;
+    setPendingAction(action);
+    try {
+      await onModerate(action);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
   const scoreComparison = getComparison(tower.score, playerScore);
   const blocksComparison = getComparison(tower.blockCount, playerBlocks);
   const perfectComparison = getComparison(tower.perfectStreak, playerPerfectBlocks);
@@ -109,6 +135,43 @@ export const TowerInfoPopup: React.FC<TowerInfoHUDProps> = ({
           </div>
         </div>
 
+        {onWatchReplay && (
+          <button
+            type="button"
+            className="tron-replay-watch"
+            onClick={onWatchReplay}
+          >
+            ▶ WATCH REPLAY
+          </button>
+        )}
+
+        {onRaceGhost && (
+          <button
+            type="button"
+            className="tron-replay-watch"
+            onClick={onRaceGhost}
+          >
+            ⚑ RACE GHOST
+          </button>
+        )}
+
+        {onModerate && (
+          <div className="tron-mod-actions">
+            <div className="tron-mod-actions-label">MODERATOR</div>
+            {MODERATION_ACTIONS.map(({ action, label }) => (
+              <button
+                key={action}
+                type="button"
+                className="tron-mod-action"
+                onClick={() => void handleModerate(action)}
+                disabled={pendingAction !== null}
+              >
+                {pendingAction === action ? 'WORKING…' : label}
+              </button>
+            ))}
+          </div>
+        )}
+
         <div className="tron-card-pulse"></div>
       </div>
     </>
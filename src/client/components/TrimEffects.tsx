@@ -2,6 +2,7 @@ import React, { useRef, useMemo } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
 import { TrimEffect } from '../../shared/simulation';
+import { toSceneYaw } from '../utils/sceneYaw';
 
 interface TrimEffectsProps {
   trimEffects: ReadonlyArray<TrimEffect>;
@@ -185,6 +186,8 @@ export const TrimEffects: React.FC<TrimEffectsProps> = ({
             const worldWidth = convertPosition(piece.width);
             const worldHeight = convertPosition(piece.height);
             const worldDepth = piece.depth !== undefined ? convertPosition(piece.depth) : Math.max(0.6, worldWidth * 0.25);
+            // Pieces cut from a spinning block keep its yaw (millidegrees to radians)
+            const rotationY = toSceneYaw(piece.rotation ?? 0);
 
             // Apply gravity
             const fallDistance = effect.age * 0.15; // Faster falling that worked
@@ -199,7 +202,7 @@ export const TrimEffects: React.FC<TrimEffectsProps> = ({
             return (
               <group key={`piece-${pieceIndex}`}>
                 {/* Main dissolving geometry - the good shader effect */}
-                <mesh position={[worldX, currentY, worldZ]}>
+                <mesh position={[worldX, currentY, worldZ]} rotation={[0, rotationY, 0]}>
                   <boxGeometry args={[worldWidth, worldHeight, worldDepth]} />
                   <primitive object={materialClone} />
                 </mesh>
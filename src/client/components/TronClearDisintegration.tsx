@@ -2,6 +2,8 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { TrimEffect } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
+import { toSceneYaw } from '../utils/sceneYaw';
 
 interface Particle {
   pos: THREE.Vector3;
@@ -26,6 +28,7 @@ export const TronClearDisintegration: React.FC<Props> = ({
   convertPosition,
   currentTick
 }) => {
+  const { reducedMotion, scenePalette } = useAccessibilitySettings();
   const groupRef = useRef<THREE.Group>(null);
   const pointsRef = useRef<THREE.Points>(null);
   const particleCount = 2000; // Increased pool for more particles
@@ -284,15 +287,10 @@ export const TronClearDisintegration: React.FC<Props> = ({
             p.size = 0.3 + Math.random() * 0.2; // Large chunks (30%)
           }
 
-          // Orange particles to match wireframe
-          const orangeVariation = Math.random();
-          if (orangeVariation < 0.3) {
-            p.color.setRGB(1, 0.3, 0); // Deep orange
-          } else if (orangeVariation < 0.7) {
-            p.color.setRGB(1, 0.5, 0); // Medium orange
-          } else {
-            p.color.setRGB(1, 0.7, 0.2); // Bright orange-yellow
-          }
+          // Particles in the palette's burn colours to match wireframe (deep 30%, medium 40%, bright 30%)
+          const [deep, medium, bright] = scenePalette.trimParticles;
+          const colorVariation = Math.random();
+          p.color.set((colorVariation < 0.3 ? deep : colorVariation < 0.7 ? medium : bright) ?? scenePalette.trimEnd);
 
           spawned++;
         }
@@ -300,7 +298,7 @@ export const TronClearDisintegration: React.FC<Props> = ({
         console.log(`💥 TRON: EXPLOSIVE burst of ${spawned} particles from wireframe`);
       });
     });
-  }, [activeEffects, convertPosition]);
+  }, [activeEffects, convertPosition, scenePalette]);
 
   // Update particles
   useFrame((_state, delta) => {
@@ -374,6 +372,9 @@ export const TronClearDisintegration: React.FC<Props> = ({
     particleGeometry.attributes.size.needsUpdate = true;
   });
 
+  // Trim bursts are motion-heavy; with reduced motion the cut piece simply disappears
+  if (reducedMotion) return null;
+
   return (
     <group ref={groupRef}>
       {/* Show trimmed geometry briefly before particles */}
@@ -387,14 +388,16 @@ export const TronClearDisintegration: React.FC<Props> = ({
               const worldWidth = convertPosition(piece.width);
               const worldHeight = convertPosition(piece.height);
               const worldDepth = piece.depth !== undefined ? convertPosition(piece.depth) : worldWidth * 0.25;
+              // Pieces cut from a spinning block keep its yaw (millidegrees to radians)
+              const rotationY = toSceneYaw(piece.rotation ?? 0);
 
               // Clone material with color transition and emission
               const materialClone = baseTrimmedMaterial.clone();
 
-              // Dramatic color transition from bright cyan to bright orange
-              const cyanColor = new THREE.Color(0x00ffff); // Bright cyan
-              const orangeColor = new THREE.Color(0xff6600); // Bright orange
-              const currentColor = cyanColor.clone().lerp(orangeColor, effect.transitionProgress);
+              // Dramatic color transition from the cut colour to the burn colour (cyan to orange by default)
+              const startColor = new THREE.Color(scenePalette.trimStart);
+              const endColor = new THREE.Color(scenePalette.trimEnd);
+              const currentColor = startColor.lerp(endColor, effect.transitionProgress);
 
               materialClone.color = currentColor;
 
@@ -407,6 +410,7 @@ export const TronClearDisintegration: React.FC<Props> = ({
                 <mesh
                   key={`trimmed-${pieceIndex}`}
                   position={[worldX, worldY, worldZ]}
+                  rotation={[0, rotationY, 0]}
                 >
                   <boxGeometry args={[worldWidth, worldHeight, worldDepth]} />
                   <primitive object={materialClone} />
@@ -2,6 +2,7 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { TrimEffect } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 // Enhanced noise function for more organic particle movement
 function hash(n: number) {
@@ -76,6 +77,7 @@ export const TronDisintegrationEffects: React.FC<Props> = ({
     convertPosition,
     currentTick
 }) => {
+    const { reducedMotion } = useAccessibilitySettings();
     const groupRef = useRef<THREE.Group>(null);
     const particleCount = 300; // Reduced for better performance
 
@@ -388,6 +390,9 @@ export const TronDisintegrationEffects: React.FC<Props> = ({
         });
     });
 
+    // Trim bursts are motion-heavy; with reduced motion the cut piece simply disappears
+    if (reducedMotion) return null;
+
     return (
         <group ref={groupRef}>
             {instancedMeshes.cubes}
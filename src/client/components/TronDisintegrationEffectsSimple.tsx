@@ -2,6 +2,7 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { TrimEffect } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 interface Particle {
   pos: THREE.Vector3;
@@ -26,6 +27,7 @@ export const TronDisintegrationEffectsSimple: React.FC<Props> = ({
   convertPosition,
   currentTick
 }) => {
+  const { reducedMotion } = useAccessibilitySettings();
   const pointsRef = useRef<THREE.Points>(null);
   const particleCount = 1000;
 
@@ -287,6 +289,9 @@ export const TronDisintegrationEffectsSimple: React.FC<Props> = ({
     }
   }, [geometry, material]);
 
+  // Trim bursts are motion-heavy; with reduced motion the cut piece simply disappears
+  if (reducedMotion) return null;
+
   return (
     <points
       ref={pointsRef}
@@ -2,6 +2,7 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { TrimEffect } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 interface Particle {
     pos: THREE.Vector3;
@@ -26,6 +27,7 @@ export const TronHybridDisintegration: React.FC<Props> = ({
     convertPosition,
     currentTick
 }) => {
+    const { reducedMotion } = useAccessibilitySettings();
     const groupRef = useRef<THREE.Group>(null);
     const pointsRef = useRef<THREE.Points>(null);
     const particleCount = 1000; // Total particle pool size
@@ -284,6 +286,9 @@ export const TronHybridDisintegration: React.FC<Props> = ({
         particleGeometry.attributes.size.needsUpdate = true;
     });
 
+    // Trim bursts are motion-heavy; with reduced motion the cut piece simply disappears
+    if (reducedMotion) return null;
+
     return (
         <group ref={groupRef}>
             {/* Dissolving geometry pieces */}
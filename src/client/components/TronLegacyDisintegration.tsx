@@ -2,6 +2,7 @@ import React, { useRef, useMemo, useEffect } from 'react';
 import * as THREE from 'three';
 import { useFrame } from '@react-three/fiber';
 import { TrimEffect } from '../../shared/simulation';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 interface Particle {
     pos: THREE.Vector3;
@@ -30,6 +31,7 @@ export const TronLegacyDisintegration: React.FC<Props> = ({
     convertPosition,
     currentTick
 }) => {
+    const { reducedMotion } = useAccessibilitySettings();
     const groupRef = useRef<THREE.Group>(null);
     const particleCount = 1000;
 
@@ -296,6 +298,9 @@ export const TronLegacyDisintegration: React.FC<Props> = ({
         return elements;
     };
 
+    // Trim bursts are motion-heavy; with reduced motion the cut piece simply disappears
+    if (reducedMotion) return null;
+
     return (
         <group ref={groupRef}>
             {renderParticles()}
@@ -5,6 +5,9 @@ import { TowerMapEntry } from '../../shared/types/api';
 import { TowerPlacementSystem } from '../../shared/types/towerPlacement';
 // Removed unused ChunkManager import
 import { TowerAnimationManager } from './TowerAnimationManager';
+import { InstancedTowerField } from './InstancedTowerField';
+import { AnimationQuality, usePerformanceSettings } from './PerformanceConfig';
+import { useAccessibilitySettings } from './AccessibilityConfig';
 
 
 interface UnifiedTowerSystemProps {
@@ -16,8 +19,13 @@ interface UnifiedTowerSystemProps {
   cameraPosition?: { x: number; y: number; z: number } | undefined;
   onTowersLoaded?: (towers: TowerMapEntry[]) => void;
   preAssignedTowers?: TowerMapEntry[] | null | undefined;
+  // Called when the camera has panned far enough to stream in other chunks of the map
+  onCameraMove?: ((x: number, z: number) => void) | undefined;
 }
 
+// Distance past which instanced towers collapse into a single box
+const IMPOSTOR_DISTANCE: Record<AnimationQuality, number> = { low: 60, medium: 120, high: 200 };
+
 interface TowerInstanceProps {
   tower: TowerMapEntry;
   position: [number, number, number];
@@ -26,6 +34,7 @@ interface TowerInstanceProps {
   rank?: number | undefined;
   onTowerClick?: (tower: TowerMapEntry, position: [number, number, number], rank?: number) => void;
   hasSelectedTower?: boolean;
+  animationQuality?: AnimationQuality;
 }
 
 const TowerInstance: React.FC<TowerInstanceProps> = ({
@@ -36,6 +45,7 @@ const TowerInstance: React.FC<TowerInstanceProps> = ({
   rank,
   onTowerClick,
   hasSelectedTower = false,
+  animationQuality = 'low',
 }) => {
   const groupRef = useRef<THREE.Group>(null);
   const beaconRef = useRef<THREE.Mesh>(null);
@@ -43,7 +53,7 @@ const TowerInstance: React.FC<TowerInstanceProps> = ({
 
   // Animate player tower beacon
   useFrame((state) => {
-    if (isPlayerTower && beaconRef.current && ringRef.current) {
+    if (animationQuality !== 'low' && isPlayerTower && beaconRef.current && ringRef.current) {
       const time = state.clock.getElapsedTime();
       const beaconMaterial = beaconRef.current.material as THREE.MeshBasicMaterial;
       beaconMaterial.opacity = 0.2 + Math.sin(time * 2) * 0.1;
@@ -269,10 +279,12 @@ const TowerInstance: React.FC<TowerInstanceProps> = ({
       }}
     >
       {/* Tower base glow */}
-      <mesh position={[0, -0.1, 0]}>
-        <cylinderGeometry args={[2, 2, 0.2, 16]} />
-        <meshBasicMaterial color={edgeColor} transparent opacity={0.2} />
-      </mesh>
+      {animationQuality !== 'low' && (
+        <mesh position={[0, -0.1, 0]}>
+          <cylinderGeometry args={[2, 2, 0.2, 16]} />
+          <meshBasicMaterial color={edgeColor} transparent opacity={0.2} />
+        </mesh>
+      )}
 
       {/* Player tower beacon - pulsing vertical beam */}
       {isPlayerTower && (
@@ -308,7 +320,7 @@ const TowerInstance: React.FC<TowerInstanceProps> = ({
             </lineSegments>
           )}
 
-          {isSelected && (
+          {isSelected && animationQuality === 'high' && (
             <mesh rotation={[0, block.rotation, 0]}>
               <boxGeometry args={[block.width + 0.1, block.height + 0.1, block.depth + 0.1]} />
               <meshBasicMaterial color="#00ffff" transparent opacity={0.05} toneMapped={false} />
@@ -349,6 +361,7 @@ export const UnifiedTowerSystem: React.FC<UnifiedTowerSystemProps> = ({
   cameraPosition: externalCameraPosition,
   onTowersLoaded,
   preAssignedTowers,
+  onCameraMove,
 }) => {
   // Use pre-assigned towers if provided, otherwise fall back to loading
   const [towers, setTowers] = useState<TowerMapEntry[]>(preAssignedTowers || []);
@@ -359,6 +372,11 @@ export const UnifiedTowerSystem: React.FC<UnifiedTowerSystemProps> = ({
     onTowerClick?.(tower, position, rank);
   };
 
+  // maxTowers is the quality tier's budget of towers drawn in full (labels, outlines, beacons);
+  // the ones closest to the camera win and every other tower goes to the instanced field
+  const { animationQuality, maxTowers } = usePerformanceSettings().settings;
+  const { reducedMotion } = useAccessibilitySettings();
+
   // Dynamic loading system - reduced for performance
   const animationManagerRef = useRef(new TowerAnimationManager());
   const [cameraPosition, setCameraPosition] = useState({ x: 0, z: 0 });
@@ -407,6 +425,13 @@ export const UnifiedTowerSystem: React.FC<UnifiedTowerSystemProps> = ({
     }
   });
 
+  // Stream the map around wherever the camera settles
+  useEffect(() => {
+    if (isGameOver) {
+      onCameraMove?.(cameraPosition.x, cameraPosition.z);
+    }
+  }, [isGameOver, cameraPosition, onCameraMove]);
+
   // Debug: Track player tower changes
   useEffect(() => {
     if (playerTower) {
@@ -480,11 +505,26 @@ export const UnifiedTowerSystem: React.FC<UnifiedTowerSystemProps> = ({
     return null;
   }
 
+  // Draw the player, selected and top five towers in full, then the towers nearest the
+  // camera; the rest share the instanced field
+  const distanceToCamera = ({ position }: { position: [number, number, number] }) =>
+    (position[0] - cameraPosition.x) ** 2 + (position[2] - cameraPosition.z) ** 2;
+  const isPinned = ({ tower, isPlayer, rank }: (typeof towerPositions)[number]) =>
+    isPlayer ||
+    tower.sessionId === externalSelectedTower?.sessionId ||
+    (rank !== undefined && rank < 5);
+  const byDistance = towerPositions
+    .filter((entry) => !isPinned(entry))
+    .sort((a, b) => distanceToCamera(a) - distanceToCamera(b));
+  const pinnedTowers = towerPositions.filter(isPinned);
+  const detailedCount = Math.max(0, maxTowers - pinnedTowers.length);
+  const renderedTowers = [...pinnedTowers, ...byDistance.slice(0, detailedCount)];
+  const instancedTowers = byDistance.slice(detailedCount);
+
   return (
     <>
       {/* Render towers - limited for performance */}
-      {towerPositions
-        .slice(0, 25) // Limit to 25 towers maximum for performance
+      {renderedTowers
         .map(({ tower, position, isPlayer, rank }) => (
           <TowerInstance
             key={tower.sessionId}
@@ -495,9 +535,17 @@ export const UnifiedTowerSystem: React.FC<UnifiedTowerSystemProps> = ({
             rank={rank}
             onTowerClick={handleTowerClick}
             hasSelectedTower={externalSelectedTower !== null && externalSelectedTower !== undefined}
+            animationQuality={reducedMotion ? 'low' : animationQuality} // 'low' stills the beacon pulse
           />
         ))}
 
+      <InstancedTowerField
+        towers={instancedTowers}
+        impostorDistance={IMPOSTOR_DISTANCE[animationQuality]}
+        baseGlow={animationQuality !== 'low'}
+        onTowerClick={handleTowerClick}
+      />
+
     </>
   );
 };
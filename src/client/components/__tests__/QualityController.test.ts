@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import type { QualityTier } from '../qualityTiers';
+
+// Tier the device check suggests when nothing is stored
+const perf = vi.hoisted(() => ({ detected: 'medium' as QualityTier }));
+
+vi.mock('../PerformanceConfig', () => ({
+  PerformanceConfig: {
+    getInstance: () => ({
+      detectQualityTier: () => perf.detected,
+      updateSettings: () => {},
+    }),
+  },
+}));
+
+const storage = new Map<string, string>();
+vi.stubGlobal('localStorage', {
+  getItem: (key: string) => storage.get(key) ?? null,
+  setItem: (key: string, value: string) => storage.set(key, value),
+});
+
+// A fresh controller, as on a new page load; `storage` carries over like the device's would
+const loadController = async (detected: QualityTier = 'medium') => {
+  perf.detected = detected;
+  vi.resetModules();
+  const { QualityController } = await import('../QualityController');
+  return QualityController.getInstance();
+};
+
+const SLOW = 30;
+const SMOOTH = 60;
+const report = (
+  controller: Awaited<ReturnType<typeof loadController>>,
+  fps: number,
+  times: number
+) => {
+  for (let i = 0; i < times; i++) controller.reportFps(fps);
+};
+
+describe('QualityController', () => {
+  beforeEach(() => {
+    storage.clear();
+  });
+
+  test('steps down only after consecutive slow samples', async () => {
+    const controller = await loadController();
+
+    report(controller, SLOW, 2);
+    report(controller, 50, 1); // Between the thresholds, which breaks the streak
+    report(controller, SLOW, 2);
+    expect(controller.getState().tier).toBe('medium');
+
+    report(controller, SLOW, 1);
+    expect(controller.getState().tier).toBe('low');
+  });
+
+  test('ignores samples while a new tier settles', async () => {
+    const controller = await loadController();
+    report(controller, SLOW, 3);
+    expect(controller.getState().tier).toBe('low');
+
+    report(controller, SLOW, 5 + 2);
+    expect(controller.getState().tier).toBe('low');
+    report(controller, SLOW, 1);
+    expect(controller.getState().tier).toBe('minimal');
+  });
+
+  test('steps up after a long run of smooth samples', async () => {
+    const controller = await loadController();
+
+    report(controller, SMOOTH, 9);
+    expect(controller.getState().tier).toBe('medium');
+    report(controller, SMOOTH, 1);
+    expect(controller.getState().tier).toBe('high');
+  });
+
+  test('takes twice as long to climb back into a tier each time it proves too heavy', async () => {
+    const controller = await loadController();
+
+    // Medium fails once: climbing back needs 20 smooth samples after the cooldown
+    report(controller, SLOW, 3);
+    report(controller, SMOOTH, 5 + 19);
+    expect(controller.getState().tier).toBe('low');
+    report(controller, SMOOTH, 1);
+    expect(controller.getState().tier).toBe('medium');
+
+    // And fails again: now 40
+    report(controller, SLOW, 5 + 3);
+    report(controller, SMOOTH, 5 + 39);
+    expect(controller.getState().tier).toBe('low');
+    report(controller, SMOOTH, 1);
+    expect(controller.getState().tier).toBe('medium');
+  });
+
+  test('a pinned tier ignores measurements', async () => {
+    const controller = await loadController();
+    controller.setOverride('high');
+
+    report(controller, SLOW, 20);
+    expect(controller.getState()).toMatchObject({ tier: 'medium', override: 'high' });
+  });
+
+  test('the next session starts on the tier this one settled on', async () => {
+    const controller = await loadController('high');
+    report(controller, SLOW, 3);
+    controller.setOverride('minimal');
+
+    const next = await loadController('high');
+    expect(next.getState()).toMatchObject({ tier: 'medium', override: 'minimal' });
+  });
+});
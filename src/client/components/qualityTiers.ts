@@ -0,0 +1,49 @@
+import type { PerformanceSettings } from './PerformanceConfig';
+
+// Quality steps the adaptive controller moves between, lowest first
+export type QualityTier = 'minimal' | 'low' | 'medium' | 'high';
+
+export const QUALITY_TIERS: QualityTier[] = ['minimal', 'low', 'medium', 'high'];
+
+export const QUALITY_TIER_SETTINGS: Record<QualityTier, PerformanceSettings> = {
+  minimal: {
+    pixelRatio: 0.35,
+    shadowsEnabled: false,
+    antialiasing: false,
+    precision: 'lowp',
+    maxTowers: 4,
+    animationQuality: 'low',
+    postProcessing: false,
+    particleScale: 0.25,
+  },
+  low: {
+    pixelRatio: 0.5,
+    shadowsEnabled: false,
+    antialiasing: false,
+    precision: 'lowp',
+    maxTowers: 8,
+    animationQuality: 'low',
+    postProcessing: false,
+    particleScale: 0.5,
+  },
+  medium: {
+    pixelRatio: 0.75,
+    shadowsEnabled: false,
+    antialiasing: false,
+    precision: 'mediump',
+    maxTowers: 16,
+    animationQuality: 'medium',
+    postProcessing: true,
+    particleScale: 0.75,
+  },
+  high: {
+    pixelRatio: 1.0,
+    shadowsEnabled: false, // Keep shadows off for stability
+    antialiasing: false, // Keep antialiasing off for performance
+    precision: 'mediump',
+    maxTowers: 25,
+    animationQuality: 'high',
+    postProcessing: true,
+    particleScale: 1,
+  },
+};
@@ -6,11 +6,21 @@ import {
   SaveGameSessionRequest,
   SaveGameSessionResponse,
   GetUserStatsResponse,
+  GetTowerChunkResponse,
   GetTowerMapResponse,
   GetLeaderboardResponse,
+  GetLeaderboardArchiveResponse,
+  GetGameSessionResponse,
+  GetDailyChallengeResponse,
+  LeaderboardArchive,
+  LeaderboardRange,
   UpdateTowerPlacementRequest,
   UpdateTowerPlacementResponse,
+  TowerCellAssignment,
+  GetAdminStatusResponse,
+  ModerationResponse,
 } from '../../shared/types/api';
+import type { GameMode } from '../../shared/simulation';
 
 interface GameDataHook {
   // State
@@ -18,24 +28,54 @@ interface GameDataHook {
   error: string | null;
 
   // Actions
-  saveGameSession: (sessionData: SaveGameSessionRequest['sessionData']) => Promise<string | null>;
-  getUserStats: () => Promise<{
+  saveGameSession: (
+    sessionData: SaveGameSessionRequest['sessionData'],
+    replay: SaveGameSessionRequest['replay'],
+    runToken: string
+  ) => Promise<string | null>; // Resolves to the queued run ID
+  // Stats, tower map and leaderboards are all kept per game mode (classic by default)
+  getUserStats: (mode?: GameMode) => Promise<{
     stats: UserStats | null;
     recentSessions: GameSessionData[];
   } | null>;
   getTowerMap: (
     limit?: number,
-    offset?: number
+    offset?: number,
+    mode?: GameMode
   ) => Promise<{ towers: TowerMapEntry[]; totalCount: number } | null>;
-  getLeaderboard: (limit?: number) => Promise<{ highScores: any[]; perfectStreaks: any[] } | null>;
-  getGameSession: (sessionId: string) => Promise<GameSessionData | null>;
+  // Towers the server placed in one chunk of the grid, for streaming the map by position
+  getTowerChunk: (
+    chunkX: number,
+    chunkZ: number,
+    mode?: GameMode
+  ) => Promise<TowerMapEntry[] | null>;
+  getLeaderboard: (
+    limit?: number,
+    mode?: GameMode,
+    range?: LeaderboardRange
+  ) => Promise<{ highScores: any[]; perfectStreaks: any[] } | null>;
+  // Closed daily or weekly windows, most recent first
+  getLeaderboardArchive: (
+    mode: GameMode,
+    range: Exclude<LeaderboardRange, 'all_time'>,
+    limit?: number
+  ) => Promise<LeaderboardArchive[] | null>;
+  // Today's daily challenge: whether the attempt is used, streak and the day's board
+  getDailyChallenge: () => Promise<GetDailyChallengeResponse | null>;
+  // Includes the stored replay, when one was kept
+  getGameSession: (sessionId: string) => Promise<GetGameSessionResponse | null>;
+  // Resolves to the cell the server assigned, which may differ if the requested one was taken
   updateTowerPlacement: (
     sessionId: string,
-    worldX: number,
-    worldZ: number,
     gridX: number,
     gridZ: number
-  ) => Promise<boolean>;
+  ) => Promise<TowerCellAssignment | null>;
+  // Whether the caller moderates this subreddit (admin controls are hidden otherwise)
+  getAdminStatus: () => Promise<boolean | null>;
+  // Moderator tools; each resolves to whether the server applied the action
+  setTowerHidden: (sessionId: string, hidden: boolean) => Promise<boolean>;
+  setRunStruck: (sessionId: string, struck: boolean) => Promise<boolean>;
+  setUserBanned: (userId: string, banned: boolean) => Promise<boolean>;
 
   // Clear error
   clearError: () => void;
@@ -80,7 +120,11 @@ export const useGameData = (): GameDataHook => {
   );
 
   const saveGameSession = useCallback(
-    async (sessionData: SaveGameSessionRequest['sessionData']): Promise<string | null> => {
+    async (
+      sessionData: SaveGameSessionRequest['sessionData'],
+      replay: SaveGameSessionRequest['replay'],
+      runToken: string
+    ): Promise<string | null> => {
       return handleApiCall(
         () =>
           fetch('/api/game/save-session', {
@@ -88,39 +132,45 @@ export const useGameData = (): GameDataHook => {
             headers: {
               'Content-Type': 'application/json',
             },
-            body: JSON.stringify({ sessionData }),
+            body: JSON.stringify({ sessionData, replay, runToken }),
           }),
         (data: SaveGameSessionResponse) => {
-          if (!data.success) {
+          if (!data.success || !data.runId) {
             throw new Error(data.message || 'Failed to save game session');
           }
-          return data.sessionId;
+          return data.runId;
         }
       );
     },
     [handleApiCall]
   );
 
-  const getUserStats = useCallback(async (): Promise<{
-    stats: UserStats | null;
-    recentSessions: GameSessionData[];
-  } | null> => {
-    return handleApiCall(
-      () => fetch('/api/game/user-stats'),
-      (data: GetUserStatsResponse) => ({
-        stats: data.stats,
-        recentSessions: data.recentSessions,
-      })
-    );
-  }, [handleApiCall]);
+  const getUserStats = useCallback(
+    async (
+      mode: GameMode = 'classic'
+    ): Promise<{
+      stats: UserStats | null;
+      recentSessions: GameSessionData[];
+    } | null> => {
+      return handleApiCall(
+        () => fetch(`/api/game/user-stats?mode=${mode}`),
+        (data: GetUserStatsResponse) => ({
+          stats: data.stats,
+          recentSessions: data.recentSessions,
+        })
+      );
+    },
+    [handleApiCall]
+  );
 
   const getTowerMap = useCallback(
     async (
       limit: number = 100,
-      offset: number = 0
+      offset: number = 0,
+      mode: GameMode = 'classic'
     ): Promise<{ towers: TowerMapEntry[]; totalCount: number } | null> => {
       return handleApiCall(
-        () => fetch(`/api/game/tower-map?limit=${limit}&offset=${offset}`),
+        () => fetch(`/api/game/tower-map?limit=${limit}&offset=${offset}&mode=${mode}`),
         (data: GetTowerMapResponse) => ({
           towers: data.towers,
           totalCount: data.totalCount,
@@ -130,10 +180,28 @@ export const useGameData = (): GameDataHook => {
     [handleApiCall]
   );
 
+  const getTowerChunk = useCallback(
+    async (
+      chunkX: number,
+      chunkZ: number,
+      mode: GameMode = 'classic'
+    ): Promise<TowerMapEntry[] | null> => {
+      return handleApiCall(
+        () => fetch(`/api/game/tower-map/chunk?cx=${chunkX}&cz=${chunkZ}&mode=${mode}`),
+        (data: GetTowerChunkResponse) => data.towers
+      );
+    },
+    [handleApiCall]
+  );
+
   const getLeaderboard = useCallback(
-    async (limit: number = 10): Promise<{ highScores: any[]; perfectStreaks: any[] } | null> => {
+    async (
+      limit: number = 10,
+      mode: GameMode = 'classic',
+      range: LeaderboardRange = 'all_time'
+    ): Promise<{ highScores: any[]; perfectStreaks: any[] } | null> => {
       return handleApiCall(
-        () => fetch(`/api/game/leaderboard?limit=${limit}`),
+        () => fetch(`/api/game/leaderboard?limit=${limit}&mode=${mode}&range=${range}`),
         (data: GetLeaderboardResponse) => ({
           highScores: data.highScores,
           perfectStreaks: data.perfectStreaks,
@@ -143,11 +211,32 @@ export const useGameData = (): GameDataHook => {
     [handleApiCall]
   );
 
+  const getLeaderboardArchive = useCallback(
+    async (
+      mode: GameMode,
+      range: Exclude<LeaderboardRange, 'all_time'>,
+      limit: number = 5
+    ): Promise<LeaderboardArchive[] | null> => {
+      return handleApiCall(
+        () => fetch(`/api/game/leaderboard/archive?mode=${mode}&range=${range}&limit=${limit}`),
+        (data: GetLeaderboardArchiveResponse) => data.windows
+      );
+    },
+    [handleApiCall]
+  );
+
+  const getDailyChallenge = useCallback(async (): Promise<GetDailyChallengeResponse | null> => {
+    return handleApiCall(
+      () => fetch('/api/game/daily-challenge'),
+      (data: GetDailyChallengeResponse) => data
+    );
+  }, [handleApiCall]);
+
   const getGameSession = useCallback(
-    async (sessionId: string): Promise<GameSessionData | null> => {
+    async (sessionId: string): Promise<GetGameSessionResponse | null> => {
       return handleApiCall(
         () => fetch(`/api/game/session/${sessionId}`),
-        (data: GameSessionData) => data
+        (data: GetGameSessionResponse) => data
       );
     },
     [handleApiCall]
@@ -156,12 +245,10 @@ export const useGameData = (): GameDataHook => {
   const updateTowerPlacement = useCallback(
     async (
       sessionId: string,
-      worldX: number,
-      worldZ: number,
       gridX: number,
       gridZ: number
-    ): Promise<boolean> => {
-      const result = await handleApiCall(
+    ): Promise<TowerCellAssignment | null> => {
+      return handleApiCall(
         () =>
           fetch('/api/game/update-tower-placement', {
             method: 'POST',
@@ -170,28 +257,68 @@ export const useGameData = (): GameDataHook => {
             },
             body: JSON.stringify({
               sessionId,
-              worldX,
-              worldZ,
               gridX,
               gridZ,
             } as UpdateTowerPlacementRequest),
           }),
-        (data: UpdateTowerPlacementResponse) => data.success
+        (data: UpdateTowerPlacementResponse) => data.placement ?? null
+      );
+    },
+    [handleApiCall]
+  );
+
+  const getAdminStatus = useCallback(async (): Promise<boolean | null> => {
+    return handleApiCall(
+      () => fetch('/api/admin/status'),
+      (data: GetAdminStatusResponse) => data.isModerator
+    );
+  }, [handleApiCall]);
+
+  const moderate = useCallback(
+    async (path: string, apply: boolean): Promise<boolean> => {
+      const result = await handleApiCall(
+        () => fetch(path, { method: apply ? 'PUT' : 'DELETE' }),
+        (data: ModerationResponse) => data.success
       );
       return result || false;
     },
     [handleApiCall]
   );
 
+  const setTowerHidden = useCallback(
+    (sessionId: string, hidden: boolean) =>
+      moderate(`/api/admin/towers/${encodeURIComponent(sessionId)}/hidden`, hidden),
+    [moderate]
+  );
+
+  const setRunStruck = useCallback(
+    (sessionId: string, struck: boolean) =>
+      moderate(`/api/admin/runs/${encodeURIComponent(sessionId)}/struck`, struck),
+    [moderate]
+  );
+
+  const setUserBanned = useCallback(
+    (userId: string, banned: boolean) =>
+      moderate(`/api/admin/users/${encodeURIComponent(userId)}/ban`, banned),
+    [moderate]
+  );
+
   return {
     isLoading,
     error,
     saveGameSession,
     getUserStats,
     getTowerMap,
+    getTowerChunk,
     getLeaderboard,
+    getLeaderboardArchive,
+    getDailyChallenge,
     getGameSession,
     updateTowerPlacement,
+    getAdminStatus,
+    setTowerHidden,
+    setRunStruck,
+    setUserBanned,
     clearError,
   };
 };
@@ -1,5 +1,72 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { GameSimulation, GameState, DropInput, GameMode } from '../../shared/simulation';
+import {
+  GameSimulation,
+  GameState,
+  DropInput,
+  GameMode,
+  SimulationTuning,
+  PuzzleLevel,
+  PuzzleLevels,
+} from '../../shared/simulation';
+import type { StartRunRequest, StartRunResponse } from '../../shared/types/api';
+import { PracticeCheckpoint, rewindPracticeRun } from '../simulation/practiceRewind';
+import { useInputAction } from '../components/InputManager';
+
+type IssuedRun = { seed: number; runToken: string; challengeDay?: string };
+
+const TICK_DURATION = 1000 / 60; // 60 FPS
+
+/**
+ * Ask the server for a seed and one-time run token. Resolves to an error message when the
+ * run was refused or the server is unreachable; ordinary runs can still be played locally
+ * (the run just won't be saved).
+ */
+const requestRun = async (
+  mode: GameMode,
+  { levelId, ghostSessionId, daily }: Omit<StartRunRequest, 'mode'> = {}
+): Promise<IssuedRun | { error: string }> => {
+  try {
+    const response = await fetch('/api/game/start-run', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        mode,
+        ...(levelId && { levelId }),
+        ...(ghostSessionId && { ghostSessionId }),
+        ...(daily && { daily }),
+      } satisfies StartRunRequest),
+    });
+    const data: StartRunResponse = await response.json();
+    if (!response.ok || !data.success || !data.runToken || typeof data.seed !== 'number') {
+      console.warn('Failed to start a ranked run:', data.message);
+      return { error: data.message ?? 'Failed to start run' };
+    }
+    return {
+      seed: data.seed,
+      runToken: data.runToken,
+      ...(data.challengeDay && { challengeDay: data.challengeDay }),
+    };
+  } catch (error) {
+    console.warn('Failed to start a ranked run:', error);
+    return { error: 'Could not reach the server' };
+  }
+};
+
+// Stored run a new run races against; the run is played on the ghost's seed and level
+export interface GhostRunTarget {
+  sessionId: string;
+  mode: GameMode;
+  seed: number;
+  levelId?: string;
+}
+
+// What a run is besides its mode and seed
+interface RunOptions {
+  level?: PuzzleLevel | null;
+  ghostSessionId?: string | undefined;
+  challengeDay?: string | undefined;
+  practice?: boolean;
+}
 
 export interface GameStateHook {
   // Core game state
@@ -7,11 +74,25 @@ export interface GameStateHook {
   isPlaying: boolean;
   isPaused: boolean;
 
-  // Game controls
-  startGame: (mode?: GameMode, seed?: number) => void;
+  // Game controls. Without an explicit seed the server issues one with a run token;
+  // runs started with a caller-supplied seed are local only and cannot be submitted.
+  // Puzzle runs play the selected puzzle level on its fixed seed.
+  // Ghost races take the seed and level of the raced run instead.
+  startGame: (mode?: GameMode, seed?: number, ghost?: GhostRunTarget) => void;
+  // Today's daily challenge attempt. Never falls back to a local run; resolves to the
+  // server's reason when no attempt could be started, null once the run has begun.
+  startDailyChallenge: () => Promise<string | null>;
+  // Local run under the player's own slide tuning. Practice runs never get a run token,
+  // so they can't reach the leaderboards, and they can be rewound.
+  startPractice: (mode?: GameMode) => void;
+  // Undo the last drop of a practice run, also from its game over. Resolves to whether
+  // there was a drop to undo.
+  rewindPractice: () => boolean;
   pauseGame: () => void;
   resumeGame: () => void;
-  dropBlock: () => void;
+  // Drop the current block. `time` is when the input happened (performance.now() clock); the
+  // drop lands on the simulation tick that time falls in, not the frame that handled it.
+  dropBlock: (time?: number) => void;
   resetGame: () => void;
 
   // Time scaling for effects
@@ -44,6 +125,16 @@ export interface GameStateHook {
   // Settings
   gameMode: GameMode;
   setGameMode: (mode: GameMode) => void;
+  puzzleLevelId: string;
+  setPuzzleLevelId: (id: string) => void;
+  activePuzzleLevel: PuzzleLevel | null; // Level of the current run (puzzle mode only)
+  raceSessionId: string | null; // Ghost the current run races, if any
+  challengeDay: string | null; // Daily challenge the current run is the attempt for, if any
+  isPractice: boolean;
+  practiceRewinds: number; // Drops undone in the current practice run
+  // Practice aid: highlight where a drop counts as perfect
+  showPerfectWindow: boolean;
+  setShowPerfectWindow: (show: boolean) => void;
 
   // Debug helper to read current moving block slide speed from the simulation
   getCurrentSlideSpeed?: () => number | null;
@@ -51,15 +142,33 @@ export interface GameStateHook {
   // Replay data
   inputs: DropInput[];
   currentTick: number;
+  seed: number | null;
+  runId: string | null; // New for every run started, even two on the same seed
+  runToken: string | null;
+  // Every drop the simulation actually applied this run, in tick order
+  getReplayInputs: () => DropInput[];
+  getSimulationTuning: () => SimulationTuning | null;
 }
 
 export const useGameState = (): GameStateHook => {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
-  const [gameMode, setGameMode] = useState<GameMode>('rotating_block');
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  const [puzzleLevelId, setPuzzleLevelId] = useState<string>(
+    () => PuzzleLevels.getAll()[0]?.id ?? ''
+  );
+  const [activePuzzleLevel, setActivePuzzleLevel] = useState<PuzzleLevel | null>(null);
+  const [raceSessionId, setRaceSessionId] = useState<string | null>(null);
+  const [challengeDay, setChallengeDay] = useState<string | null>(null);
+  const [isPractice, setIsPractice] = useState(false);
+  const [practiceRewinds, setPracticeRewinds] = useState(0);
+  const [showPerfectWindow, setShowPerfectWindow] = useState(true);
   const [inputs, setInputs] = useState<DropInput[]>([]);
   const [currentTick, setCurrentTick] = useState(0);
+  const [seed, setSeed] = useState<number | null>(null);
+  const [runId, setRunId] = useState<string | null>(null);
+  const [runToken, setRunToken] = useState<string | null>(null);
   const [timeScale, setTimeScale] = useState(1.0);
   const [slideSpeed, setSlideSpeed] = useState<number>(() => {
     if (typeof navigator !== 'undefined' && /android/i.test(navigator.userAgent || '')) {
@@ -80,10 +189,27 @@ export const useGameState = (): GameStateHook => {
 
   // Refs for game loop
   const gameSimulationRef = useRef<GameSimulation | null>(null);
+  const dropLogRef = useRef<DropInput[]>([]);
+  const runRequestRef = useRef(0);
+  const activeLevelRef = useRef<PuzzleLevel | null>(null);
+  const isPracticeRef = useRef(false);
+  const practiceCheckpointsRef = useRef<PracticeCheckpoint[]>([]);
+  // Latest movement tuning, read when a run starts
+  const tuningRef = useRef({
+    slideSpeed,
+    slideBounds,
+    slideAccel,
+    fallSpeedMult,
+    instantPlaceMain,
+  });
   const animationFrameRef = useRef<number | undefined>(undefined);
   const lastTimeRef = useRef<number>(0);
   const tickAccumulatorRef = useRef<number>(0);
-  const TICK_DURATION = 1000 / 60; // 60 FPS
+  // Tick of the state the loop last committed; lastTimeRef and tickAccumulatorRef count on from it
+  const loopTickRef = useRef<number>(0);
+  // Drops waiting for their tick. The loop reads the ref, so a drop scheduled from outside React's
+  // event handling (a gamepad poll) is seen before the next render
+  const inputsRef = useRef<DropInput[]>([]);
   const debugEnabled = () =>
     typeof globalThis !== 'undefined' && !!(globalThis as any).__DEBUG_DROP;
 
@@ -114,6 +240,23 @@ export const useGameState = (): GameStateHook => {
     }
   };
 
+  const updateInputs = useCallback((update: (prev: DropInput[]) => DropInput[]) => {
+    inputsRef.current = update(inputsRef.current);
+    setInputs(inputsRef.current);
+  }, []);
+
+  // Every drop that takes effect goes through here, whichever path stepped it: logged for the
+  // replay and, in practice, checkpointed so it can be rewound
+  const recordDrop = useCallback((state: GameState, input: DropInput) => {
+    dropLogRef.current.push({ tick: input.tick });
+    if (isPracticeRef.current && gameSimulationRef.current) {
+      practiceCheckpointsRef.current.push({
+        tick: input.tick,
+        snapshot: gameSimulationRef.current.createSnapshot(state),
+      });
+    }
+  }, []);
+
   // Game loop using requestAnimationFrame
   const gameLoop = useCallback(
     (timestamp: number) => {
@@ -128,6 +271,13 @@ export const useGameState = (): GameStateHook => {
         return;
       }
 
+      // A drop stepped the state since this closure rendered; wait for the render rather than
+      // stepping over it from the older state
+      if (gameState.tick !== loopTickRef.current) {
+        animationFrameRef.current = requestAnimationFrame(gameLoop);
+        return;
+      }
+
       const rafStart = typeof performance !== 'undefined' ? performance.now() : Date.now();
       // Always record RAF tick start to the debug buffer; console output is still gated.
       pushDebugEvent('RAF tick start', { gameTick: gameState.tick, ts: rafStart });
@@ -151,7 +301,7 @@ export const useGameState = (): GameStateHook => {
         const nextTick = localTick + 1;
 
         // Find input scheduled for the next tick
-        const input = inputs.find((inp) => inp.tick === nextTick);
+        const input = inputsRef.current.find((inp) => inp.tick === nextTick);
         // Reduce debug event frequency for performance
         if (nextTick % 10 === 0) {
           // Only log every 10th tick
@@ -162,6 +312,10 @@ export const useGameState = (): GameStateHook => {
           });
         }
 
+        if (input && localState.currentBlock && !localState.isGameOver) {
+          recordDrop(localState, input);
+        }
+
         // Step simulation for the next tick using the up-to-date localState
         const simStart = typeof performance !== 'undefined' ? performance.now() : Date.now();
         const newState = gameSimulationRef.current.stepSimulation(localState, input);
@@ -193,6 +347,7 @@ export const useGameState = (): GameStateHook => {
           );
           setIsPlaying(false);
           setGameState(newState);
+          loopTickRef.current = newState.tick;
           return;
         }
       }
@@ -205,6 +360,7 @@ export const useGameState = (): GameStateHook => {
         // console.log('[DEBUG] committing state for tick', localState.tick, 'at', commitStart);
       }
       setGameState(localState);
+      loopTickRef.current = localState.tick;
       const commitEnd = typeof performance !== 'undefined' ? performance.now() : Date.now();
       pushDebugEvent('setGameState duration', {
         tick: localState.tick,
@@ -223,7 +379,7 @@ export const useGameState = (): GameStateHook => {
       }
 
       // Prune inputs that are in the past (already processed)
-      setInputs((prev) => prev.filter((inp) => inp.tick > localTick));
+      updateInputs((prev) => prev.filter((inp) => inp.tick > localTick));
 
       const rafEnd = typeof performance !== 'undefined' ? performance.now() : Date.now();
       pushDebugEvent('RAF tick end', {
@@ -242,7 +398,7 @@ export const useGameState = (): GameStateHook => {
       // Continue the loop
       animationFrameRef.current = requestAnimationFrame(gameLoop);
     },
-    [isPlaying, isPaused, gameState, inputs, timeScale]
+    [isPlaying, isPaused, gameState, timeScale, recordDrop, updateInputs]
   );
 
   // Start the game loop
@@ -265,12 +421,17 @@ export const useGameState = (): GameStateHook => {
     };
   }, [isPlaying, isPaused, gameLoop]);
 
-  // Sync runtime tuning values to the live GameSimulation instance
+  // Sync runtime tuning values to the live GameSimulation instance. Ranked runs keep the tuning
+  // they started with: their replay records it once, at the end, for the server to re-simulate.
   useEffect(() => {
-    if (gameSimulationRef.current) {
+    tuningRef.current = { slideSpeed, slideBounds, slideAccel, fallSpeedMult, instantPlaceMain };
+    if (gameSimulationRef.current && isPracticeRef.current) {
       try {
-        (gameSimulationRef.current as any).setSlideSpeedMultiplier?.(slideSpeed);
-        (gameSimulationRef.current as any).setSlideBounds?.(slideBounds);
+        // Puzzle levels fix their own slide speed and bounds
+        if (!activeLevelRef.current) {
+          (gameSimulationRef.current as any).setSlideSpeedMultiplier?.(slideSpeed);
+          (gameSimulationRef.current as any).setSlideBounds?.(slideBounds);
+        }
         (gameSimulationRef.current as any).setFallSpeedMultiplier?.(fallSpeedMult);
         (gameSimulationRef.current as any).setInstantPlaceMain?.(instantPlaceMain);
         (gameSimulationRef.current as any).setSlideAcceleration?.(slideAccel);
@@ -280,49 +441,175 @@ export const useGameState = (): GameStateHook => {
     }
   }, [slideSpeed, slideBounds, fallSpeedMult, instantPlaceMain, slideAccel]);
 
-  const startGame = useCallback((mode: GameMode = 'rotating_block', seed?: number) => {
-    try {
-      (globalThis as any).__REQUEST_NEW_GAME = () => startGame(mode);
-    } catch {}
-    const gameSeed = seed ?? Math.floor(Math.random() * 1000000);
-    const simulation = new GameSimulation(gameSeed, mode);
-    let initialState = simulation.createInitialState();
-
-    gameSimulationRef.current = simulation;
-    // Apply runtime slide overrides from current hook state
-    try {
-      (gameSimulationRef.current as any).setSlideSpeedMultiplier?.(slideSpeed ?? 1000);
-      (gameSimulationRef.current as any).setSlideBounds?.(
-        slideBounds ?? simulation['config'].SLIDE_BOUNDS
+  const beginRun = useCallback(
+    (
+      mode: GameMode,
+      gameSeed: number,
+      token: string | null,
+      {
+        level = null,
+        ghostSessionId,
+        challengeDay: runChallengeDay,
+        practice = false,
+      }: RunOptions = {}
+    ) => {
+      const simulation = new GameSimulation(
+        gameSeed,
+        mode,
+        undefined,
+        undefined,
+        level ?? undefined
       );
-      // Ensure instant placement is enabled during seeding to build the initial stack rapidly
-      (gameSimulationRef.current as any).setInstantPlaceMain?.(true);
-      // Default to zero offset before seeding
-      (gameSimulationRef.current as any).setSpeedCountOffset?.(0);
-    } catch (e) {
-      // ignore if methods not present
-    }
-    // Temporarily disable seeding to debug immediate game over issue
-    // TODO: Re-enable seeding once the core gameplay is working
-    try {
-      // Apply runtime settings without seeding
-      (gameSimulationRef.current as any).setInstantPlaceMain?.(instantPlaceMain);
-      (gameSimulationRef.current as any).setSpeedCountOffset?.(0);
-      (gameSimulationRef.current as any).gameState = initialState;
-    } catch (e) {
-      // If setup fails for any reason, proceed with the base initial state
-    }
-    setGameState(initialState);
-    setGameMode(mode);
-    setInputs([]);
-    setCurrentTick(initialState.tick);
-    setIsPlaying(true);
+      let initialState = simulation.createInitialState();
+
+      gameSimulationRef.current = simulation;
+      activeLevelRef.current = level;
+      const tuning = tuningRef.current;
+      // Apply runtime slide overrides from the latest tuning (levels bring their own)
+      try {
+        if (!level) {
+          (gameSimulationRef.current as any).setSlideSpeedMultiplier?.(tuning.slideSpeed);
+          (gameSimulationRef.current as any).setSlideBounds?.(tuning.slideBounds);
+        }
+        // Ensure instant placement is enabled during seeding to build the initial stack rapidly
+        (gameSimulationRef.current as any).setInstantPlaceMain?.(true);
+        // Default to zero offset before seeding
+        if (!level) {
+          (gameSimulationRef.current as any).setSpeedCountOffset?.(0);
+        }
+      } catch (e) {
+        // ignore if methods not present
+      }
+      // Temporarily disable seeding to debug immediate game over issue
+      // TODO: Re-enable seeding once the core gameplay is working
+      try {
+        // Apply runtime settings without seeding
+        (gameSimulationRef.current as any).setInstantPlaceMain?.(tuning.instantPlaceMain);
+        if (!level) {
+          (gameSimulationRef.current as any).setSpeedCountOffset?.(0);
+        }
+        (gameSimulationRef.current as any).gameState = initialState;
+      } catch (e) {
+        // If setup fails for any reason, proceed with the base initial state
+      }
+      // Practice runs take the player's tuning; ranked runs keep the standard movement
+      if (practice) {
+        simulation.setSlideSpeedMultiplier(tuning.slideSpeed);
+        simulation.setSlideBounds(tuning.slideBounds);
+        simulation.setSlideAcceleration(tuning.slideAccel);
+        simulation.setFallSpeedMultiplier(tuning.fallSpeedMult);
+      }
+      isPracticeRef.current = practice;
+      practiceCheckpointsRef.current = [];
+      dropLogRef.current = [];
+      setSeed(gameSeed);
+      setRunId(`${gameSeed}-${Date.now()}`);
+      setRunToken(token);
+      setGameState(initialState);
+      setGameMode(mode);
+      setActivePuzzleLevel(level);
+      setRaceSessionId(ghostSessionId ?? null);
+      setChallengeDay(runChallengeDay ?? null);
+      setIsPractice(practice);
+      setPracticeRewinds(0);
+      updateInputs(() => []);
+      setCurrentTick(initialState.tick);
+      setIsPlaying(true);
+      setIsPaused(false);
+      tickAccumulatorRef.current = 0;
+      lastTimeRef.current = typeof performance !== 'undefined' ? performance.now() : Date.now();
+      loopTickRef.current = initialState.tick;
+
+      // console.log('Game started with seed:', gameSeed, 'mode:', mode);
+    },
+    [updateInputs]
+  );
+
+  const startGame = useCallback(
+    (mode: GameMode = 'classic', seed?: number, ghost?: GhostRunTarget) => {
+      try {
+        (globalThis as any).__REQUEST_NEW_GAME = () => startGame(mode, undefined, ghost);
+      } catch {}
+      const requestId = ++runRequestRef.current;
+
+      const levelId = ghost ? ghost.levelId : puzzleLevelId;
+      const level = mode === 'puzzle' ? PuzzleLevels.get(levelId ?? '') : null;
+      if (mode === 'puzzle' && !level) {
+        console.warn('Cannot start puzzle run, unknown level:', levelId);
+        return;
+      }
+
+      if (seed !== undefined) {
+        beginRun(mode, seed, null, { level, ghostSessionId: ghost?.sessionId });
+        return;
+      }
+
+      void requestRun(mode, {
+        ...(level && { levelId: level.id }),
+        ...(ghost && { ghostSessionId: ghost.sessionId }),
+      }).then((run) => {
+        // A newer start or a reset superseded this request
+        if (requestId !== runRequestRef.current) return;
+        if (!('error' in run)) {
+          beginRun(mode, run.seed, run.runToken, { level, ghostSessionId: ghost?.sessionId });
+        } else if (ghost) {
+          // Still race on the ghost's seed; the run just won't be saved
+          beginRun(mode, ghost.seed, null, { level, ghostSessionId: ghost.sessionId });
+        } else {
+          beginRun(mode, level ? level.seed : Math.floor(Math.random() * 1000000), null, {
+            level,
+          });
+        }
+      });
+    },
+    [beginRun, puzzleLevelId]
+  );
+
+  const startDailyChallenge = useCallback(async (): Promise<string | null> => {
+    const requestId = ++runRequestRef.current;
+    const run = await requestRun('classic', { daily: true });
+    if ('error' in run) return run.error;
+    // A newer start or a reset superseded this request; the attempt is spent either way
+    if (requestId !== runRequestRef.current) return null;
+
+    // Restarting from the end screen starts an ordinary run, the attempt is used up
+    (globalThis as { __REQUEST_NEW_GAME?: () => void }).__REQUEST_NEW_GAME = () =>
+      startGame('classic');
+    beginRun('classic', run.seed, run.runToken, { challengeDay: run.challengeDay });
+    return null;
+  }, [beginRun, startGame]);
+
+  const startPractice = useCallback(
+    (mode: GameMode = 'classic') => {
+      // Puzzle levels bring their own movement, so there is nothing to practise with
+      const practiceMode = mode === 'puzzle' ? 'classic' : mode;
+      (globalThis as { __REQUEST_NEW_GAME?: () => void }).__REQUEST_NEW_GAME = () =>
+        startPractice(practiceMode);
+      runRequestRef.current++;
+      beginRun(practiceMode, Math.floor(Math.random() * 1000000), null, { practice: true });
+    },
+    [beginRun]
+  );
+
+  const rewindPractice = useCallback((): boolean => {
+    const simulation = gameSimulationRef.current;
+    if (!isPracticeRef.current || !simulation) return false;
+    const rewind = rewindPracticeRun(simulation, practiceCheckpointsRef.current);
+    if (!rewind) return false;
+
+    practiceCheckpointsRef.current = rewind.checkpoints;
+    dropLogRef.current = rewind.checkpoints.map(({ tick }) => ({ tick }));
+    setGameState(rewind.state);
+    updateInputs(() => []);
+    setCurrentTick(rewind.state.tick);
+    setIsPlaying(!rewind.state.isGameOver);
     setIsPaused(false);
+    setPracticeRewinds((count) => count + 1);
     tickAccumulatorRef.current = 0;
-    lastTimeRef.current = typeof performance !== 'undefined' ? performance.now() : Date.now();
-
-    // console.log('Game started with seed:', gameSeed, 'mode:', mode);
-  }, []);
+    lastTimeRef.current = performance.now();
+    loopTickRef.current = rewind.state.tick;
+    return true;
+  }, [updateInputs]);
 
   const pauseGame = useCallback(() => {
     setIsPaused(true);
@@ -332,53 +619,85 @@ export const useGameState = (): GameStateHook => {
     setIsPaused(false);
   }, []);
 
-  const dropBlock = useCallback(() => {
-    if (!isPlaying || isPaused || !gameState) return;
+  const dropBlock = useCallback(
+    (time?: number) => {
+      if (!isPlaying || isPaused || !gameState) return;
 
-    // Use authoritative tick from gameState where possible to avoid stale closure
-    const baseTick = currentTick;
-    const dropInput: DropInput = { tick: baseTick + 1 };
-
-    // If we have a local GameSimulation instance, synchronously step one tick so the
-    // drop takes effect immediately (removes perceptible latency). This keeps the
-    // simulation authoritative while reducing click->visual delay. If for any reason
-    // the simulation isn't available, fall back to optimistic visual marking.
-    if (gameSimulationRef.current) {
-      try {
-        pushDebugEvent('drop sync step start', { dropTick: dropInput.tick });
-        const dropSimStart = typeof performance !== 'undefined' ? performance.now() : Date.now();
-        const newState = gameSimulationRef.current.stepSimulation(gameState, dropInput);
-        const dropSimEnd = typeof performance !== 'undefined' ? performance.now() : Date.now();
-        pushDebugEvent('drop sync step end', {
-          returnedTick: newState.tick,
-          isFalling: !!newState.currentBlock?.isFalling,
-          durationMs: dropSimEnd - dropSimStart,
-        });
-        pushDebugEvent('drop stepSimulation duration', {
-          dropTick: dropInput.tick,
-          durationMs: dropSimEnd - dropSimStart,
-          dropSimStart,
-          dropSimEnd,
-        });
-        if (debugEnabled())
-          // console.log(
-          //   '[DEBUG] drop sync step duration',
-          //   (dropSimEnd - dropSimStart).toFixed(2),
-          //   'ms'
-          // );
-          setGameState(newState);
-        setCurrentTick(newState.tick);
-
-        // Prune any inputs that are now in the past (should be none normally)
-        setInputs((prev) => prev.filter((inp) => inp.tick > newState.tick));
+      // Place the drop on the tick its input time falls in. The loop has stepped to loopTickRef and
+      // banked tickAccumulatorRef of the time up to lastTimeRef, so count on from there; an input
+      // older than the last frame can only take the next tick.
+      const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
+      const sinceFrame = Math.max(0, Math.min(time ?? now, now) - lastTimeRef.current) * timeScale;
+      const dropInput: DropInput = {
+        tick:
+          loopTickRef.current +
+          1 +
+          Math.floor((tickAccumulatorRef.current + sinceFrame) / TICK_DURATION),
+      };
+
+      // A drop due on a later tick waits in the queue for the loop to reach it
+      if (dropInput.tick !== gameState.tick + 1 || gameState.tick !== loopTickRef.current) {
+        updateInputs((prev) => [...prev, dropInput]);
+        pushDebugEvent('drop scheduled', { tick: dropInput.tick });
+        return;
+      }
 
-        if (newState.isGameOver) {
-          setIsPlaying(false);
-          // console.log('Game Over! Final Score:', newState.score);
+      // If we have a local GameSimulation instance, synchronously step one tick so the
+      // drop takes effect immediately (removes perceptible latency). This keeps the
+      // simulation authoritative while reducing click->visual delay. If for any reason
+      // the simulation isn't available, fall back to optimistic visual marking.
+      if (gameSimulationRef.current) {
+        try {
+          pushDebugEvent('drop sync step start', { dropTick: dropInput.tick });
+          if (gameState.currentBlock && !gameState.isGameOver) {
+            recordDrop(gameState, dropInput);
+          }
+          const dropSimStart = typeof performance !== 'undefined' ? performance.now() : Date.now();
+          const newState = gameSimulationRef.current.stepSimulation(gameState, dropInput);
+          const dropSimEnd = typeof performance !== 'undefined' ? performance.now() : Date.now();
+          pushDebugEvent('drop sync step end', {
+            returnedTick: newState.tick,
+            isFalling: !!newState.currentBlock?.isFalling,
+            durationMs: dropSimEnd - dropSimStart,
+          });
+          pushDebugEvent('drop stepSimulation duration', {
+            dropTick: dropInput.tick,
+            durationMs: dropSimEnd - dropSimStart,
+            dropSimStart,
+            dropSimEnd,
+          });
+          if (debugEnabled())
+            // console.log(
+            //   '[DEBUG] drop sync step duration',
+            //   (dropSimEnd - dropSimStart).toFixed(2),
+            //   'ms'
+            // );
+            setGameState(newState);
+          setCurrentTick(newState.tick);
+          loopTickRef.current = newState.tick;
+
+          // Prune any inputs that are now in the past (should be none normally)
+          updateInputs((prev) => prev.filter((inp) => inp.tick > newState.tick));
+
+          if (newState.isGameOver) {
+            setIsPlaying(false);
+            // console.log('Game Over! Final Score:', newState.score);
+          }
+        } catch (err) {
+          // If synchronous stepping fails unexpectedly, fallback to enqueue + optimistic visual
+          updateInputs((prev) => [...prev, dropInput]);
+          setGameState((prev) => {
+            if (!prev || !prev.currentBlock) return prev;
+            const current = {
+              ...prev.currentBlock,
+              isFalling: true,
+              velocityY: prev.currentBlock.velocityY ?? 0,
+            };
+            return { ...prev, currentBlock: current };
+          });
         }
-      } catch (err) {
-        // If synchronous stepping fails unexpectedly, fallback to enqueue + optimistic visual
-        setInputs((prev) => [...prev, dropInput]);
+      } else {
+        updateInputs((prev) => [...prev, dropInput]);
         setGameState((prev) => {
           if (!prev || !prev.currentBlock) return prev;
           const current = {
@@ -389,30 +708,32 @@ export const useGameState = (): GameStateHook => {
           return { ...prev, currentBlock: current };
         });
       }
-    } else {
-      setInputs((prev) => [...prev, dropInput]);
-      setGameState((prev) => {
-        if (!prev || !prev.currentBlock) return prev;
-        const current = {
-          ...prev.currentBlock,
-          isFalling: true,
-          velocityY: prev.currentBlock.velocityY ?? 0,
-        };
-        return { ...prev, currentBlock: current };
-      });
-    }
 
-    pushDebugEvent('drop registered', { tick: dropInput.tick });
-  }, [isPlaying, isPaused, gameState, currentTick]);
+      pushDebugEvent('drop registered', { tick: dropInput.tick });
+    },
+    [isPlaying, isPaused, gameState, timeScale, recordDrop, updateInputs]
+  );
 
   const resetGame = useCallback(() => {
     setIsPlaying(false);
     setIsPaused(false);
     setGameState(null);
-    setInputs([]);
+    updateInputs(() => []);
     setCurrentTick(0);
+    setSeed(null);
+    setRunId(null);
+    setRunToken(null);
+    setRaceSessionId(null);
+    setChallengeDay(null);
+    setIsPractice(false);
+    setPracticeRewinds(0);
+    isPracticeRef.current = false;
+    practiceCheckpointsRef.current = [];
+    runRequestRef.current++;
+    dropLogRef.current = [];
     gameSimulationRef.current = null;
     tickAccumulatorRef.current = 0;
+    loopTickRef.current = 0;
     try {
       (globalThis as any).__PERFECT_COUNT = 0;
       (globalThis as any).__MAX_PERFECT_STREAK = 0;
@@ -422,58 +743,28 @@ export const useGameState = (): GameStateHook => {
     if (animationFrameRef.current) {
       cancelAnimationFrame(animationFrameRef.current);
     }
-  }, []);
-
-  // Handle keyboard and pointer inputs — attach pointer listener to the canvas element
-  useEffect(() => {
-    const handleKeyPress = (event: KeyboardEvent) => {
-      if (event.code === 'Space' || event.key === ' ') {
-        event.preventDefault();
-        dropBlock();
-      } else if (event.key === 'p' || event.key === 'P') {
-        if (isPlaying) {
-          isPaused ? resumeGame() : pauseGame();
-        }
-      } else if (event.key === 'r' || event.key === 'R') {
-        if (!isPlaying) {
-          startGame(gameMode);
-        }
-      }
-    };
-
-    // Pointer handler attached directly to the canvas so the whole canvas surface is interactive
-    const canvasEl = document.querySelector('[data-game-canvas="true"]') as HTMLElement | null;
-    const handlePointerDown = (event: PointerEvent) => {
-      // Ensure the pointerdown occurred on the canvas element (or its children)
-      const target = event.target as HTMLElement | null;
-      if (!canvasEl || !target) return;
-      if (!canvasEl.contains(target)) return;
-
-      // Prevent default scrolling/selection behavior and register a drop
-      event.preventDefault();
-      dropBlock();
-    };
-
-    window.addEventListener('keydown', handleKeyPress);
-    if (canvasEl) {
-      canvasEl.addEventListener('pointerdown', handlePointerDown, {
-        passive: false,
-      } as AddEventListenerOptions);
+  }, [updateInputs]);
+
+  // Game actions from the input manager, whichever key, button or tap they are bound to. Restart
+  // lives with the app, which knows what kind of run to start again.
+  useInputAction('drop', (event) => dropBlock(event.time));
+  useInputAction('pause', () => {
+    if (!isPlaying) return;
+    if (isPaused) {
+      resumeGame();
+    } else {
+      pauseGame();
     }
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyPress);
-      if (canvasEl) {
-        canvasEl.removeEventListener('pointerdown', handlePointerDown as EventListener);
-      }
-    };
-  }, [dropBlock, isPlaying, isPaused, pauseGame, resumeGame, startGame, gameMode]);
+  });
 
   return {
     gameState,
     isPlaying,
     isPaused,
     startGame,
+    startDailyChallenge,
+    startPractice,
+    rewindPractice,
     pauseGame,
     resumeGame,
     dropBlock,
@@ -481,6 +772,15 @@ export const useGameState = (): GameStateHook => {
     setTimeScale,
     gameMode,
     setGameMode,
+    puzzleLevelId,
+    setPuzzleLevelId,
+    activePuzzleLevel,
+    raceSessionId,
+    challengeDay,
+    isPractice,
+    practiceRewinds,
+    showPerfectWindow,
+    setShowPerfectWindow,
     slideSpeed,
     setSlideSpeed,
     slideBounds,
@@ -491,6 +791,11 @@ export const useGameState = (): GameStateHook => {
     setInstantPlaceMain,
     inputs,
     currentTick,
+    seed,
+    runId,
+    runToken,
+    getReplayInputs: () => [...dropLogRef.current],
+    getSimulationTuning: () => gameSimulationRef.current?.getTuning() ?? null,
     getCurrentSlideSpeed: () => {
       try {
         return gameSimulationRef.current
@@ -0,0 +1,173 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameSimulation, GameState } from '../../shared/simulation';
+import type { GetGameSessionResponse } from '../../shared/types/api';
+import type { GhostRunTarget } from './useGameState';
+import {
+  ReplayPlacement,
+  ReplayRun,
+  ReplayScan,
+  advanceReplay,
+  createReplaySimulation,
+  loadReplayRun,
+  scanReplay,
+} from '../simulation/replaySimulation';
+import { GhostRaceSummary, summarizeGhostRace } from '../simulation/ghostRace';
+
+export interface GhostRaceHook {
+  isLoading: boolean;
+  error: string | null;
+  ghostUsername: string | null;
+  // Ghost stack at the live run's tick; null unless the live run is racing the loaded ghost
+  ghostState: GameState | null;
+  // Live score minus the ghost's score at the same tick
+  scoreDelta: number | null;
+  // Available once the raced run is over
+  summary: GhostRaceSummary | null;
+
+  // Resolves to the target to pass to startGame, or null if the ghost can't be raced
+  loadGhost: (sessionId: string) => Promise<GhostRunTarget | null>;
+  clearGhost: () => void;
+}
+
+interface LoadedGhost {
+  sessionId: string;
+  username: string;
+  run: ReplayRun;
+  scan: ReplayScan;
+}
+
+/**
+ * Races the live run against a stored one. The ghost re-simulates its run on the same seed
+ * and is stepped to the live run's tick after every update, so both stacks stay in lockstep
+ * however the live loop batches its ticks.
+ */
+export const useGhostRace = (
+  getGameSession: (sessionId: string) => Promise<GetGameSessionResponse | null>,
+  liveState: GameState | null,
+  raceSessionId: string | null
+): GhostRaceHook => {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [ghost, setGhost] = useState<LoadedGhost | null>(null);
+  const [ghostState, setGhostState] = useState<GameState | null>(null);
+  const [summary, setSummary] = useState<GhostRaceSummary | null>(null);
+
+  const simulationRef = useRef<GameSimulation | null>(null);
+  const stateRef = useRef<GameState | null>(null);
+  const playerPlacementsRef = useRef<ReplayPlacement[]>([]);
+  const blockCountRef = useRef(0);
+  const loadRequestRef = useRef(0);
+
+  const isRacing = !!ghost && ghost.sessionId === raceSessionId;
+
+  const loadGhost = useCallback(
+    async (sessionId: string): Promise<GhostRunTarget | null> => {
+      const requestId = ++loadRequestRef.current;
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const data = await getGameSession(sessionId);
+        if (requestId !== loadRequestRef.current) return null;
+        if (!data) {
+          throw new Error('Run not found');
+        }
+        const run = await loadReplayRun(data);
+        if (requestId !== loadRequestRef.current) return null;
+
+        simulationRef.current = null;
+        stateRef.current = null;
+        setGhostState(null);
+        setSummary(null);
+        setGhost({ sessionId, username: data.username, run, scan: scanReplay(run) });
+
+        return {
+          sessionId,
+          mode: run.mode,
+          seed: run.replay.seed,
+          ...(run.levelId && { levelId: run.levelId }),
+        };
+      } catch (loadError) {
+        if (requestId !== loadRequestRef.current) return null;
+        console.error('Failed to load ghost:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load ghost');
+        return null;
+      } finally {
+        if (requestId === loadRequestRef.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [getGameSession]
+  );
+
+  const clearGhost = useCallback(() => {
+    loadRequestRef.current++;
+    simulationRef.current = null;
+    stateRef.current = null;
+    playerPlacementsRef.current = [];
+    setIsLoading(false);
+    setError(null);
+    setGhost(null);
+    setGhostState(null);
+    setSummary(null);
+  }, []);
+
+  // Lockstep: follow the live run's tick and record where the player placed each block
+  useEffect(() => {
+    if (!ghost || !isRacing || !liveState) {
+      // The next race starts the ghost over
+      simulationRef.current = null;
+      stateRef.current = null;
+      return;
+    }
+
+    // A restart that skipped the reset also begins from the first tick again
+    let simulation = simulationRef.current;
+    let state = stateRef.current;
+    if (!simulation || !state || liveState.tick < state.tick) {
+      ({ simulation, state } = createReplaySimulation(ghost.run));
+      playerPlacementsRef.current = [];
+      blockCountRef.current = state.blocks.length;
+      setSummary(null);
+    }
+
+    const placements = playerPlacementsRef.current;
+    if (liveState.blocks.length > blockCountRef.current) {
+      placements.push({
+        index: placements.length + 1,
+        tick: liveState.tick,
+        score: liveState.score,
+        isPerfect: liveState.lastPlacement?.isPositionPerfect ?? false,
+      });
+    }
+    blockCountRef.current = liveState.blocks.length;
+
+    simulationRef.current = simulation;
+    stateRef.current = advanceReplay(ghost.run, simulation, state, liveState.tick);
+    setGhostState(stateRef.current);
+
+    if (liveState.isGameOver) {
+      setSummary(
+        summarizeGhostRace(
+          ghost.username,
+          placements,
+          ghost.scan.placements,
+          liveState.score,
+          ghost.scan.finalScore
+        )
+      );
+    }
+  }, [ghost, isRacing, liveState]);
+
+  return {
+    isLoading,
+    error,
+    ghostUsername: ghost?.username ?? null,
+    ghostState: isRacing ? ghostState : null,
+    scoreDelta: isRacing && liveState && ghostState ? liveState.score - ghostState.score : null,
+    summary: isRacing ? summary : null,
+    loadGhost,
+    clearGhost,
+  };
+};
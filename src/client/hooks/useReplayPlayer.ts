@@ -0,0 +1,236 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameMode, GameSimulation, GameState } from '../../shared/simulation';
+import type { GameSessionData, GetGameSessionResponse } from '../../shared/types/api';
+import {
+  ReplayPlacement,
+  ReplayRun,
+  ReplayScan,
+  advanceReplay,
+  loadReplayRun,
+  resumeReplayAt,
+  scanReplay,
+} from '../simulation/replaySimulation';
+
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4] as const;
+export type ReplaySpeed = (typeof REPLAY_SPEEDS)[number];
+
+export interface ReplayPlayerHook {
+  isOpen: boolean;
+  isLoading: boolean;
+  error: string | null;
+  session: GameSessionData | null;
+  gameMode: GameMode;
+  gameState: GameState | null;
+  tick: number;
+  endTick: number;
+  isPlaying: boolean;
+  speed: ReplaySpeed;
+  placements: ReplayPlacement[];
+
+  openReplay: (sessionId: string) => Promise<void>;
+  closeReplay: () => void;
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: ReplaySpeed) => void;
+  seek: (tick: number) => void;
+}
+
+const TICK_DURATION = 1000 / 60; // 60 FPS, matching the live game loop
+
+/**
+ * Plays a stored run back through the shared simulation. Seeking forward steps from the
+ * current tick; seeking backward restores the nearest keyframe snapshot taken while the run
+ * was scanned and steps on from there.
+ */
+export const useReplayPlayer = (
+  getGameSession: (sessionId: string) => Promise<GetGameSessionResponse | null>
+): ReplayPlayerHook => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [session, setSession] = useState<GameSessionData | null>(null);
+  const [gameMode, setGameMode] = useState<GameMode>('classic');
+  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [endTick, setEndTick] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState<ReplaySpeed>(1);
+  const [placements, setPlacements] = useState<ReplayPlacement[]>([]);
+
+  const loadedRef = useRef<ReplayRun | null>(null);
+  const scanRef = useRef<ReplayScan | null>(null);
+  const simulationRef = useRef<GameSimulation | null>(null);
+  const stateRef = useRef<GameState | null>(null);
+  const endTickRef = useRef(0);
+  const loadRequestRef = useRef(0);
+  const animationFrameRef = useRef<number | undefined>(undefined);
+  const lastTimeRef = useRef(0);
+  const tickAccumulatorRef = useRef(0);
+
+  // Step the live replay simulation up to `targetTick` (never past the end)
+  const advanceTo = useCallback((targetTick: number): GameState | null => {
+    const loaded = loadedRef.current;
+    const simulation = simulationRef.current;
+    const state = stateRef.current;
+    if (!loaded || !simulation || !state) return state;
+
+    stateRef.current = advanceReplay(
+      loaded,
+      simulation,
+      state,
+      Math.min(targetTick, endTickRef.current)
+    );
+    return stateRef.current;
+  }, []);
+
+  // Jump back to the closest keyframe at or before `tick` (the start of the run by default)
+  const rewind = useCallback((tick = 0) => {
+    const loaded = loadedRef.current;
+    const scan = scanRef.current;
+    if (!loaded || !scan) return;
+    const { simulation, state } = resumeReplayAt(loaded, scan, tick);
+    simulationRef.current = simulation;
+    stateRef.current = state;
+  }, []);
+
+  const openReplay = useCallback(
+    async (sessionId: string) => {
+      const requestId = ++loadRequestRef.current;
+      setIsOpen(true);
+      setIsLoading(true);
+      setIsPlaying(false);
+      setError(null);
+      setGameState(null);
+      setPlacements([]);
+
+      try {
+        const data = await getGameSession(sessionId);
+        if (requestId !== loadRequestRef.current) return;
+        if (!data) {
+          throw new Error('Run not found');
+        }
+        const loaded = await loadReplayRun(data);
+        if (requestId !== loadRequestRef.current) return;
+
+        const { replay: _replay, ...sessionData } = data;
+        const scan = scanReplay(loaded);
+
+        loadedRef.current = loaded;
+        scanRef.current = scan;
+        endTickRef.current = scan.endTick;
+        rewind();
+
+        setSession(sessionData);
+        setGameMode(loaded.mode);
+        setEndTick(scan.endTick);
+        setPlacements(scan.placements);
+        setGameState(stateRef.current);
+        setIsPlaying(true);
+      } catch (loadError) {
+        if (requestId !== loadRequestRef.current) return;
+        console.error('Failed to load replay:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load replay');
+      } finally {
+        if (requestId === loadRequestRef.current) {
+          setIsLoading(false);
+        }
+      }
+    },
+    [getGameSession, rewind]
+  );
+
+  const closeReplay = useCallback(() => {
+    loadRequestRef.current++;
+    loadedRef.current = null;
+    scanRef.current = null;
+    simulationRef.current = null;
+    stateRef.current = null;
+    setIsOpen(false);
+    setIsPlaying(false);
+    setIsLoading(false);
+    setError(null);
+    setSession(null);
+    setGameState(null);
+    setPlacements([]);
+  }, []);
+
+  const play = useCallback(() => {
+    if (!stateRef.current) return;
+    // Playing from the end starts over
+    if (stateRef.current.tick >= endTickRef.current) {
+      rewind();
+      setGameState(stateRef.current);
+    }
+    setIsPlaying(true);
+  }, [rewind]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const seek = useCallback(
+    (tick: number) => {
+      const current = stateRef.current;
+      if (!current) return;
+      const target = Math.max(0, Math.min(Math.round(tick), endTickRef.current));
+      if (target < current.tick) {
+        rewind(target);
+      }
+      setGameState(advanceTo(target));
+    },
+    [advanceTo, rewind]
+  );
+
+  // Playback loop: same fixed-tick accumulator as the live game, scaled by the speed
+  useEffect(() => {
+    if (!isOpen || !isPlaying) return;
+
+    const frame = (timestamp: number) => {
+      const deltaTime = timestamp - lastTimeRef.current;
+      lastTimeRef.current = timestamp;
+      tickAccumulatorRef.current += deltaTime * speed;
+
+      const ticks = Math.floor(tickAccumulatorRef.current / TICK_DURATION);
+      tickAccumulatorRef.current -= ticks * TICK_DURATION;
+
+      const current = stateRef.current;
+      if (current && ticks > 0) {
+        const state = advanceTo(current.tick + ticks);
+        setGameState(state);
+        if (!state || state.isGameOver || state.tick >= endTickRef.current) {
+          setIsPlaying(false);
+          return;
+        }
+      }
+
+      animationFrameRef.current = requestAnimationFrame(frame);
+    };
+
+    lastTimeRef.current = performance.now();
+    tickAccumulatorRef.current = 0;
+    animationFrameRef.current = requestAnimationFrame(frame);
+
+    return () => {
+      if (animationFrameRef.current) {
+        cancelAnimationFrame(animationFrameRef.current);
+      }
+    };
+  }, [advanceTo, isOpen, isPlaying, speed]);
+
+  return {
+    isOpen,
+    isLoading,
+    error,
+    session,
+    gameMode,
+    gameState,
+    tick: gameState?.tick ?? 0,
+    endTick,
+    isPlaying,
+    speed,
+    placements,
+    openReplay,
+    closeReplay,
+    play,
+    pause,
+    setSpeed,
+    seek,
+  };
+};
@@ -1,6 +1,7 @@
 import { useRef, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { useAccessibilitySettings } from '../components/AccessibilityConfig';
 
 interface ScreenShakeOptions {
   intensity?: number;
@@ -14,19 +15,20 @@ export const useScreenShake = (
   options: ScreenShakeOptions = {}
 ) => {
   const { intensity = 0.1, duration = 0.3, frequency = 20 } = options;
+  const { reducedMotion } = useAccessibilitySettings();
 
   const shakeStartTime = useRef<number>(0);
   const originalPosition = useRef<THREE.Vector3>(new THREE.Vector3());
   const isShaking = useRef<boolean>(false);
 
-  // Start shake when triggered
+  // Start shake when triggered (never with reduced motion on)
   useEffect(() => {
-    if (trigger && cameraRef.current && !isShaking.current) {
+    if (trigger && !reducedMotion && cameraRef.current && !isShaking.current) {
       shakeStartTime.current = Date.now();
       originalPosition.current.copy(cameraRef.current.position);
       isShaking.current = true;
     }
-  }, [trigger, cameraRef]);
+  }, [trigger, reducedMotion, cameraRef]);
 
   useFrame(() => {
     if (!isShaking.current || !cameraRef.current) return;
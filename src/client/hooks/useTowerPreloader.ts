@@ -1,145 +1,250 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { TowerMapEntry } from '../../shared/types/api';
-import { TowerPlacementSystem } from '../../shared/types/towerPlacement';
+import {
+  TOWER_CHUNK_CELLS,
+  TOWER_GRID,
+  TowerPlacementSystem,
+  isChunkOnGrid,
+} from '../../shared/types/towerPlacement';
+import type { GameMode } from '../../shared/simulation';
+import { ChunkManager } from '../components/ChunkManager';
 import { useGameData } from './useGameData';
 
 interface TowerPreloaderHook {
   preAssignedTowers: TowerMapEntry[] | null;
+  towersMode: GameMode; // Game mode whose tower map was loaded last
   isLoading: boolean;
   error: string | null;
-  preloadAndAssignTowers: () => Promise<void>;
+  preloadAndAssignTowers: (mode?: GameMode) => Promise<void>;
   clearPreloadedTowers: () => void;
+  // Stream in the chunks around the camera and drop the ones it has left behind
+  updateVisibleChunks: (cameraX: number, cameraZ: number) => void;
 }
 
+// Chunks are as wide in world units as TOWER_CHUNK_CELLS grid cells, so ChunkManager's world
+// chunks line up with the server's chunk index
+const createChunkManager = () => new ChunkManager(TOWER_CHUNK_CELLS * TOWER_GRID.gridSize);
+
 export const useTowerPreloader = (placementSystem: TowerPlacementSystem): TowerPreloaderHook => {
-  const { getTowerMap } = useGameData();
-  const [preAssignedTowers, setPreAssignedTowers] = useState<TowerMapEntry[] | null>(null);
+  const { getTowerMap, getTowerChunk } = useGameData();
+  // Top-ranked towers, placed on the client when the server never assigned them a cell
+  const [rankedTowers, setRankedTowers] = useState<TowerMapEntry[] | null>(null);
+  // Towers streamed in by chunk around the camera; these always carry a server cell
+  const [streamedTowers, setStreamedTowers] = useState<TowerMapEntry[]>([]);
+  const [towersMode, setTowersMode] = useState<GameMode>('classic');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const preloadAndAssignTowers = useCallback(async () => {
-    if (isLoading) return; // Prevent multiple simultaneous loads
+  const chunkManagerRef = useRef(createChunkManager());
+  // Bumped whenever the stream restarts, so responses for an earlier mode are dropped
+  const streamGenerationRef = useRef(0);
+  const rankedIdsRef = useRef(new Set<string>());
 
-    console.log('🏰 Pre-loading and assigning towers...');
-    setIsLoading(true);
-    setError(null);
+  const resetChunkStream = useCallback(() => {
+    chunkManagerRef.current = createChunkManager();
+    streamGenerationRef.current++;
+    setStreamedTowers([]);
+  }, []);
 
-    try {
-      // Load towers from the server
-      const result = await getTowerMap(50, 0); // Load top 50 towers
-      if (!result || !result.towers) {
-        throw new Error('No towers data received');
+  const preloadAndAssignTowers = useCallback(
+    async (mode: GameMode = 'classic') => {
+      if (isLoading) return; // Prevent multiple simultaneous loads
+
+      console.log('🏰 Pre-loading and assigning towers...');
+      setIsLoading(true);
+      setError(null);
+      if (mode !== towersMode) {
+        resetChunkStream();
       }
+      setTowersMode(mode);
+
+      try {
+        // Load towers from the server
+        const result = await getTowerMap(50, 0, mode); // Load top 50 towers of the mode
+        if (!result || !result.towers) {
+          throw new Error('No towers data received');
+        }
 
-      const towers = result.towers.filter((tower) => tower.isPersonalBest !== false);
-      console.log('🏰 Loaded', towers.length, 'towers for pre-assignment');
+        const towers = result.towers.filter((tower) => tower.isPersonalBest !== false);
+        console.log('🏰 Loaded', towers.length, 'towers for pre-assignment');
 
-      // Deduplicate towers by user to prevent a single player from filling the top ranks
-      const seenUsers = new Set<string>();
-      const uniqueTowers = [...towers]
-        .sort((a, b) => b.score - a.score)
-        .filter((tower) => {
-          if (!tower.userId) {
+        // Deduplicate towers by user to prevent a single player from filling the top ranks
+        const seenUsers = new Set<string>();
+        const uniqueTowers = [...towers]
+          .sort((a, b) => b.score - a.score)
+          .filter((tower) => {
+            if (!tower.userId) {
+              return true;
+            }
+            if (seenUsers.has(tower.userId)) {
+              return false;
+            }
+            seenUsers.add(tower.userId);
             return true;
-          }
-          if (seenUsers.has(tower.userId)) {
-            return false;
-          }
-          seenUsers.add(tower.userId);
-          return true;
-        });
+          });
+
+        console.log('🏰 Unique towers after user filter:', uniqueTowers.length);
+
+        // DON'T reset placement system - preserve any towers already placed (like player tower)
+        // placementSystem.reset();
 
-      console.log('🏰 Unique towers after user filter:', uniqueTowers.length);
-
-      // DON'T reset placement system - preserve any towers already placed (like player tower)
-      // placementSystem.reset();
-
-      // Assign positions to towers that don't already have them
-      const towersWithPositions = uniqueTowers.map((tower) => {
-        const tryExistingPlacement = () => {
-          // If tower has explicit grid coordinates, attempt to reserve them
-          if (typeof tower.gridX === 'number' && typeof tower.gridZ === 'number') {
-            const coord = placementSystem.getCoordinate(tower.gridX, tower.gridZ);
-            if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
-              return {
-                ...tower,
-                worldX: coord.worldX,
-                worldZ: coord.worldZ,
-                gridX: coord.x,
-                gridZ: coord.z,
-              } as TowerMapEntry;
+        // Assign positions to towers that don't already have them
+        const towersWithPositions = uniqueTowers.map((tower) => {
+          const tryExistingPlacement = () => {
+            // If tower has explicit grid coordinates, attempt to reserve them
+            if (typeof tower.gridX === 'number' && typeof tower.gridZ === 'number') {
+              const coord = placementSystem.getCoordinate(tower.gridX, tower.gridZ);
+              if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
+                return {
+                  ...tower,
+                  worldX: coord.worldX,
+                  worldZ: coord.worldZ,
+                  gridX: coord.x,
+                  gridZ: coord.z,
+                } as TowerMapEntry;
+              }
             }
-          }
 
-          // Fall back to existing world coordinates if available
-          if (typeof tower.worldX === 'number' && typeof tower.worldZ === 'number') {
-            const coord = placementSystem.getCoordinateByWorldPos(tower.worldX, tower.worldZ);
-            if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
-              return {
-                ...tower,
-                worldX: coord.worldX,
-                worldZ: coord.worldZ,
-                gridX: coord.x,
-                gridZ: coord.z,
-              } as TowerMapEntry;
+            // Fall back to existing world coordinates if available
+            if (typeof tower.worldX === 'number' && typeof tower.worldZ === 'number') {
+              const coord = placementSystem.getCoordinateByWorldPos(tower.worldX, tower.worldZ);
+              if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
+                return {
+                  ...tower,
+                  worldX: coord.worldX,
+                  worldZ: coord.worldZ,
+                  gridX: coord.x,
+                  gridZ: coord.z,
+                } as TowerMapEntry;
+              }
             }
-          }
 
-          return undefined;
-        };
+            return undefined;
+          };
 
-        const existingPlacement = tryExistingPlacement();
-        if (existingPlacement) {
-          return existingPlacement;
-        }
+          const existingPlacement = tryExistingPlacement();
+          if (existingPlacement) {
+            return existingPlacement;
+          }
 
-        // If tower already has coordinates, keep them
-        // Assign new coordinates if available
-        const availableCoords = placementSystem.getAvailableCoordinates();
-        const coord = availableCoords[0];
-        if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
-          const towerWithPosition = {
-            ...tower,
-            worldX: coord.worldX,
-            worldZ: coord.worldZ,
-            gridX: coord.x,
-            gridZ: coord.z,
-          };
+          // If tower already has coordinates, keep them
+          // Assign new coordinates if available
+          const availableCoords = placementSystem.getAvailableCoordinates();
+          const coord = availableCoords[0];
+          if (coord && placementSystem.placeTower(coord.x, coord.z, tower.sessionId)) {
+            const towerWithPosition = {
+              ...tower,
+              worldX: coord.worldX,
+              worldZ: coord.worldZ,
+              gridX: coord.x,
+              gridZ: coord.z,
+            };
 
-          console.log('🏰 Pre-assigned tower:', tower.username, 'to position:', [
-            coord.worldX,
-            coord.worldZ,
-          ]);
+            console.log('🏰 Pre-assigned tower:', tower.username, 'to position:', [
+              coord.worldX,
+              coord.worldZ,
+            ]);
 
-          return towerWithPosition;
-        }
+            return towerWithPosition;
+          }
+
+          // If no coordinates available, return tower without position (won't be rendered)
+          console.warn('🏰 No available coordinates for tower:', tower.username);
+          return tower;
+        });
 
-        // If no coordinates available, return tower without position (won't be rendered)
-        console.warn('🏰 No available coordinates for tower:', tower.username);
-        return tower;
-      });
-
-      setPreAssignedTowers(towersWithPositions);
-      console.log(
-        '🏰 Pre-assignment complete. Total towers processed:',
-        towersWithPositions.length
-      );
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
-      console.error('🏰 Failed to pre-load towers:', errorMessage);
-      setError(errorMessage);
-    } finally {
-      setIsLoading(false);
-    }
-  }, [getTowerMap, placementSystem, isLoading]);
+        rankedIdsRef.current = new Set(towersWithPositions.map((tower) => tower.sessionId));
+        setRankedTowers(towersWithPositions);
+        console.log(
+          '🏰 Pre-assignment complete. Total towers processed:',
+          towersWithPositions.length
+        );
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : 'Unknown error occurred';
+        console.error('🏰 Failed to pre-load towers:', errorMessage);
+        setError(errorMessage);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [getTowerMap, placementSystem, isLoading, towersMode, resetChunkStream]
+  );
 
   const clearPreloadedTowers = useCallback(() => {
     console.log('🏰 Clearing pre-loaded towers');
-    setPreAssignedTowers(null);
+    setRankedTowers(null);
+    rankedIdsRef.current = new Set();
+    resetChunkStream();
     setError(null);
     // Reset the placement system
     placementSystem.reset();
-  }, [placementSystem]);
+  }, [placementSystem, resetChunkStream]);
+
+  const updateVisibleChunks = useCallback(
+    (cameraX: number, cameraZ: number) => {
+      const chunks = chunkManagerRef.current;
+      const generation = streamGenerationRef.current;
+      const mode = towersMode;
+
+      // Free the cells of streamed towers the camera has moved away from
+      const leaving = chunks.getChunksToUnload(cameraX, cameraZ);
+      for (const chunk of leaving) {
+        for (const tower of chunk.towers) {
+          if (
+            !rankedIdsRef.current.has(tower.sessionId) &&
+            typeof tower.gridX === 'number' &&
+            typeof tower.gridZ === 'number'
+          ) {
+            placementSystem.removeTower(tower.gridX, tower.gridZ);
+          }
+        }
+        chunks.unloadChunk(chunk.chunkX, chunk.chunkZ);
+      }
+      if (leaving.length > 0) {
+        setStreamedTowers(chunks.getAllLoadedTowers());
+      }
+
+      for (const { chunkX, chunkZ } of chunks.getRequiredChunks(cameraX, cameraZ)) {
+        const existing = chunks.getChunk(chunkX, chunkZ);
+        if (!isChunkOnGrid(chunkX, chunkZ) || existing?.isLoaded || existing?.isLoading) {
+          continue;
+        }
+
+        chunks.markChunkLoading(chunkX, chunkZ);
+        void getTowerChunk(chunkX, chunkZ, mode).then((towers) => {
+          if (generation !== streamGenerationRef.current) return;
+          if (!towers) {
+            // Forget the chunk so the next pan retries it
+            chunks.unloadChunk(chunkX, chunkZ);
+            return;
+          }
+
+          // The server owns these cells; skip any a client-placed tower is already showing in
+          const placed = towers.filter((tower) => {
+            if (typeof tower.gridX !== 'number' || typeof tower.gridZ !== 'number') {
+              return false;
+            }
+            if (placementSystem.syncTower(tower.sessionId, tower.gridX, tower.gridZ)) {
+              return true;
+            }
+            console.warn('🏰 Grid cell already taken for streamed tower:', tower.username);
+            return false;
+          });
+          chunks.setChunk(chunkX, chunkZ, placed);
+          setStreamedTowers(chunks.getAllLoadedTowers());
+        });
+      }
+    },
+    [getTowerChunk, placementSystem, towersMode]
+  );
+
+  // Ranked towers first, then any streamed tower that isn't one of them
+  const preAssignedTowers = useMemo(() => {
+    if (!rankedTowers) return null;
+    const rankedIds = new Set(rankedTowers.map((tower) => tower.sessionId));
+    const extra = streamedTowers.filter((tower) => !rankedIds.has(tower.sessionId));
+    return extra.length > 0 ? [...rankedTowers, ...extra] : rankedTowers;
+  }, [rankedTowers, streamedTowers]);
 
   // Auto-clear when component unmounts or placement system changes
   useEffect(() => {
@@ -150,9 +255,11 @@ export const useTowerPreloader = (placementSystem: TowerPlacementSystem): TowerP
 
   return {
     preAssignedTowers,
+    towersMode,
     isLoading,
     error,
     preloadAndAssignTowers,
     clearPreloadedTowers,
+    updateVisibleChunks,
   };
 };
@@ -0,0 +1,50 @@
+import { describe, expect, test } from 'vitest';
+import { DropInput, GameSimulation, GameState } from '../../../shared/simulation';
+import { PracticeCheckpoint, rewindPracticeRun } from '../practiceRewind';
+
+const DROP_TICKS = [90, 180];
+
+// Play a practice run to `endTick`, checkpointing before each drop as useGameState does
+const playPractice = (simulation: GameSimulation, endTick: number) => {
+  const checkpoints: PracticeCheckpoint[] = [];
+  const states = new Map<number, GameState>(); // The state each tick continues from
+  let state = simulation.createInitialState();
+  for (let tick = 1; tick <= endTick && !state.isGameOver; tick++) {
+    states.set(tick, state);
+    const input: DropInput | undefined = DROP_TICKS.includes(tick) ? { tick } : undefined;
+    if (input) {
+      checkpoints.push({ tick, snapshot: simulation.createSnapshot(state) });
+    }
+    state = simulation.stepSimulation(state, input);
+  }
+  return { state, checkpoints, states };
+};
+
+describe('rewindPracticeRun', () => {
+  test('steps back to the state right before the last drop', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    const { checkpoints, states } = playPractice(simulation, 240);
+
+    const rewind = rewindPracticeRun(simulation, checkpoints);
+    expect(rewind?.state).toEqual(states.get(180));
+    expect(rewind?.checkpoints).toEqual(checkpoints.slice(0, 1));
+  });
+
+  test('replaying the undone drop reproduces the run bit for bit', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    const { state: original, checkpoints } = playPractice(simulation, 240);
+
+    const rewind = rewindPracticeRun(simulation, checkpoints);
+    let state = rewind!.state;
+    for (let tick = 180; tick <= 240 && !state.isGameOver; tick++) {
+      state = simulation.stepSimulation(state, tick === 180 ? { tick } : undefined);
+    }
+    expect(state).toEqual(original);
+  });
+
+  test('has nothing to undo before the first drop', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    simulation.createInitialState();
+    expect(rewindPracticeRun(simulation, [])).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+// Comparison of a live run against the ghost it raced
+import type { ReplayPlacement } from './replaySimulation';
+
+// Blocks per split in the end-of-run breakdown
+export const GHOST_SPLIT_SIZE = 10;
+
+// Largest lead (positive) or deficit (negative) and the player block it happened on
+export interface GhostRaceExtreme {
+  delta: number;
+  block: number;
+}
+
+// Points and pace over one stretch of blocks; positive values favour the player
+export interface GhostRaceSplit {
+  fromBlock: number;
+  toBlock: number;
+  pointsDelta: number;
+  ticksDelta: number; // Ticks the ghost needed minus ticks the player needed
+}
+
+export interface GhostRaceSummary {
+  ghostUsername: string;
+  playerScore: number;
+  ghostScore: number;
+  finalDelta: number;
+  playerBlocks: number;
+  ghostBlocks: number;
+  leadChanges: number;
+  biggestLead: GhostRaceExtreme | null;
+  biggestDeficit: GhostRaceExtreme | null;
+  splits: GhostRaceSplit[];
+}
+
+const scoreAfter = (placements: ReplayPlacement[], count: number) =>
+  count > 0 ? (placements[count - 1]?.score ?? 0) : 0;
+
+const tickAfter = (placements: ReplayPlacement[], count: number) =>
+  count > 0 ? (placements[count - 1]?.tick ?? 0) : 0;
+
+/**
+ * Walk both runs tick by tick (scores only change on placements) and compare them. Splits
+ * only cover blocks both stacks placed.
+ */
+export const summarizeGhostRace = (
+  ghostUsername: string,
+  player: ReplayPlacement[],
+  ghost: ReplayPlacement[],
+  playerScore: number,
+  ghostScore: number
+): GhostRaceSummary => {
+  const events = [
+    ...player.map((placement) => ({ tick: placement.tick, placement, isPlayer: true })),
+    ...ghost.map((placement) => ({ tick: placement.tick, placement, isPlayer: false })),
+  ].sort((a, b) => a.tick - b.tick);
+
+  let playerCurrent = 0;
+  let ghostCurrent = 0;
+  let playerBlock = 0;
+  let leader = 0; // Sign of the last non-zero delta
+  let leadChanges = 0;
+  let biggestLead: GhostRaceExtreme | null = null;
+  let biggestDeficit: GhostRaceExtreme | null = null;
+
+  events.forEach((event, index) => {
+    if (event.isPlayer) {
+      playerCurrent = event.placement.score;
+      playerBlock = event.placement.index;
+    } else {
+      ghostCurrent = event.placement.score;
+    }
+
+    // Placements on the same tick count as one step
+    if (events[index + 1]?.tick === event.tick) return;
+
+    const delta = playerCurrent - ghostCurrent;
+    if (delta !== 0) {
+      const sign = Math.sign(delta);
+      if (leader !== 0 && sign !== leader) leadChanges++;
+      leader = sign;
+    }
+    if (delta > 0 && (!biggestLead || delta > biggestLead.delta)) {
+      biggestLead = { delta, block: playerBlock };
+    }
+    if (delta < 0 && (!biggestDeficit || delta < biggestDeficit.delta)) {
+      biggestDeficit = { delta, block: playerBlock };
+    }
+  });
+
+  const splits: GhostRaceSplit[] = [];
+  const sharedBlocks = Math.min(player.length, ghost.length);
+  for (let from = 0; from < sharedBlocks; from += GHOST_SPLIT_SIZE) {
+    const to = Math.min(from + GHOST_SPLIT_SIZE, sharedBlocks);
+    const playerPoints = scoreAfter(player, to) - scoreAfter(player, from);
+    const ghostPoints = scoreAfter(ghost, to) - scoreAfter(ghost, from);
+    const playerTicks = tickAfter(player, to) - tickAfter(player, from);
+    const ghostTicks = tickAfter(ghost, to) - tickAfter(ghost, from);
+    splits.push({
+      fromBlock: from + 1,
+      toBlock: to,
+      pointsDelta: playerPoints - ghostPoints,
+      ticksDelta: ghostTicks - playerTicks,
+    });
+  }
+
+  return {
+    ghostUsername,
+    playerScore,
+    ghostScore,
+    finalDelta: playerScore - ghostScore,
+    playerBlocks: player.length,
+    ghostBlocks: ghost.length,
+    leadChanges,
+    biggestLead,
+    biggestDeficit,
+    splits,
+  };
+};
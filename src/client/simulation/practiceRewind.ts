@@ -0,0 +1,31 @@
+// Practice-only rewinds: step a local run back to just before its last drop
+import { GameSimulation, GameState, SimulationSnapshot } from '../../shared/simulation';
+
+// Simulation snapshot taken right before a practice drop was applied
+export interface PracticeCheckpoint {
+  tick: number; // Tick of the drop
+  snapshot: SimulationSnapshot;
+}
+
+export interface PracticeRewind {
+  state: GameState;
+  checkpoints: PracticeCheckpoint[]; // The checkpoints of drops that are still part of the run
+}
+
+/**
+ * Undo the last drop of a practice run by restoring the checkpoint taken just before it.
+ * The undone block is back on the slide where it was dropped, under the tuning that was live
+ * at the time. Resolves to null when there is nothing to undo.
+ */
+export const rewindPracticeRun = (
+  simulation: GameSimulation,
+  checkpoints: ReadonlyArray<PracticeCheckpoint>
+): PracticeRewind | null => {
+  const undone = checkpoints[checkpoints.length - 1];
+  if (!undone) return null;
+
+  return {
+    state: simulation.restoreSnapshot(undone.snapshot),
+    checkpoints: checkpoints.slice(0, -1),
+  };
+};
@@ -0,0 +1,149 @@
+// Client-side re-simulation of stored runs, shared by the replay viewer and ghost races
+import {
+  CompressedReplay,
+  DropInput,
+  GAME_MODES,
+  GameMode,
+  GameSimulation,
+  GameState,
+  PuzzleLevels,
+  ReplayCompression,
+  SimulationSnapshot,
+} from '../../shared/simulation';
+import type { GetGameSessionResponse } from '../../shared/types/api';
+
+// A stored run decoded and ready to simulate
+export interface ReplayRun {
+  replay: CompressedReplay;
+  mode: GameMode;
+  levelId: string | undefined;
+  inputMap: Map<number, DropInput>;
+}
+
+// One block landing on the tower
+export interface ReplayPlacement {
+  index: number; // 1-based placement number
+  tick: number;
+  score: number; // Score right after the placement
+  isPerfect: boolean;
+}
+
+export interface ReplayScan {
+  endTick: number;
+  finalScore: number;
+  placements: ReplayPlacement[];
+  keyframes: SimulationSnapshot[]; // Every KEYFRAME_INTERVAL ticks, oldest first
+}
+
+// Ticks between the snapshots a scan keeps for seeking (ten seconds of play)
+const KEYFRAME_INTERVAL = 600;
+
+/**
+ * Decode the replay of a fetched session. Throws with a player-facing message when the
+ * session has no usable replay.
+ */
+export const loadReplayRun = async (session: GetGameSessionResponse): Promise<ReplayRun> => {
+  const { replay } = session;
+  if (!replay) {
+    throw new Error('No replay was stored for this run');
+  }
+
+  const mode = GAME_MODES.find((candidate) => candidate === replay.mode);
+  if (!mode) {
+    throw new Error(`Unknown game mode '${replay.mode}'`);
+  }
+
+  const inputs = await ReplayCompression.extractInputsFromReplay(replay);
+  return {
+    replay,
+    mode,
+    levelId: session.puzzleLevelId,
+    inputMap: new Map(inputs.map((input) => [input.tick, input])),
+  };
+};
+
+/**
+ * Build a simulation exactly the way the server's replay check does, so the stored run
+ * plays out the same way it was verified
+ */
+export const createReplaySimulation = (run: ReplayRun) => {
+  const level = run.levelId ? PuzzleLevels.get(run.levelId) : null;
+  const simulation = new GameSimulation(
+    run.replay.seed,
+    run.mode,
+    undefined,
+    undefined,
+    level ?? undefined
+  );
+  const state = simulation.createInitialState();
+  if (run.replay.tuning) {
+    simulation.applyTuning(run.replay.tuning);
+  }
+  return { simulation, state };
+};
+
+/**
+ * Last tick a run can reach, mirroring the tick budget of GameSimulation.simulateGame
+ */
+const getTickLimit = (run: ReplayRun, state: GameState): number => {
+  const maxTicks = Math.max(3600, run.replay.metadata.totalTicks);
+  return state.deadlineTick !== undefined ? Math.max(maxTicks, state.deadlineTick + 1) : maxTicks;
+};
+
+/**
+ * Step `state` forward to `targetTick`, stopping early at game over or the run's tick budget
+ */
+export const advanceReplay = (
+  run: ReplayRun,
+  simulation: GameSimulation,
+  state: GameState,
+  targetTick: number
+): GameState => {
+  let current = state;
+  while (
+    current.tick < targetTick &&
+    !current.isGameOver &&
+    current.tick < getTickLimit(run, current)
+  ) {
+    current = simulation.stepSimulation(current, run.inputMap.get(current.tick + 1));
+  }
+  return current;
+};
+
+/**
+ * Play the whole run once to find where it ends and when each block landed, keeping
+ * snapshots along the way so a seek never has to re-simulate from the start
+ */
+export const scanReplay = (run: ReplayRun): ReplayScan => {
+  const { simulation, state: initialState } = createReplaySimulation(run);
+  let state = initialState;
+  const placements: ReplayPlacement[] = [];
+  const keyframes: SimulationSnapshot[] = [];
+
+  while (!state.isGameOver && state.tick < getTickLimit(run, state)) {
+    if (state.tick % KEYFRAME_INTERVAL === 0) {
+      keyframes.push(simulation.createSnapshot(state));
+    }
+    const blocksBefore = state.blocks.length;
+    state = simulation.stepSimulation(state, run.inputMap.get(state.tick + 1));
+    if (state.blocks.length > blocksBefore) {
+      placements.push({
+        index: placements.length + 1,
+        tick: state.tick,
+        score: state.score,
+        isPerfect: state.lastPlacement?.isPositionPerfect ?? false,
+      });
+    }
+  }
+
+  return { endTick: state.tick, finalScore: state.score, placements, keyframes };
+};
+
+/**
+ * Resume a scanned run from its last keyframe at or before `tick`, falling back to the
+ * start of the run
+ */
+export const resumeReplayAt = (run: ReplayRun, scan: ReplayScan, tick: number) => {
+  const keyframe = scan.keyframes.filter((snapshot) => snapshot.state.tick <= tick).pop();
+  return keyframe ? GameSimulation.fromSnapshot(keyframe) : createReplaySimulation(run);
+};
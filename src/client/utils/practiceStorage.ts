@@ -0,0 +1,52 @@
+import type { SimulationTuning } from '../../shared/simulation';
+
+// Finished practice run. Practice never reaches the server, so this device is the only record.
+export interface PracticeRunRecord {
+  id: string; // Recorded once per run, at its first ending
+  score: number;
+  blocks: number;
+  perfectBlocks: number;
+  rewinds: number; // Drops undone during the run
+  tuning: SimulationTuning | null;
+  playedAt: number;
+}
+
+export interface PracticeHistory {
+  best: PracticeRunRecord | null;
+  recent: PracticeRunRecord[]; // Newest first
+}
+
+const STORAGE_KEY = 'tron-practice-history';
+const MAX_RECENT = 10;
+
+export const loadPracticeHistory = (): PracticeHistory => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<PracticeHistory>;
+      return {
+        best: parsed.best ?? null,
+        recent: Array.isArray(parsed.recent) ? parsed.recent : [],
+      };
+    }
+  } catch (error) {
+    console.warn('Failed to read practice history:', error);
+  }
+  return { best: null, recent: [] };
+};
+
+// Store a finished practice run and resolve to the updated history
+export const recordPracticeRun = (run: PracticeRunRecord): PracticeHistory => {
+  const history = loadPracticeHistory();
+  const updated: PracticeHistory = {
+    best: !history.best || run.score > history.best.score ? run : history.best,
+    recent: [run, ...history.recent].slice(0, MAX_RECENT),
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.warn('Failed to save practice history:', error);
+  }
+  return updated;
+};
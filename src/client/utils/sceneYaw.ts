@@ -0,0 +1,14 @@
+// Simulation yaw (millidegrees) turns +X towards +Z, while a positive Three.js Y rotation turns
+// +X towards -Z. Every mesh that shows a simulated yaw goes through this conversion.
+export const toSceneYaw = (millidegrees: number): number =>
+  -(millidegrees / 1000) * (Math.PI / 180);
+
+// Map a point from the spinning tower's frame into world space (scene units)
+export const towerToWorld = (x: number, z: number, towerYaw: number): { x: number; z: number } => ({
+  x: x * Math.cos(towerYaw) + z * Math.sin(towerYaw),
+  z: -x * Math.sin(towerYaw) + z * Math.cos(towerYaw),
+});
+
+// Inverse of towerToWorld
+export const worldToTower = (x: number, z: number, towerYaw: number): { x: number; z: number } =>
+  towerToWorld(x, z, -towerYaw);
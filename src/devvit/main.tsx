@@ -109,6 +109,7 @@ type PreviewData = {
   perfectStreak: number;
   ranking: number | null;
   userThingId: string | null;
+  topPlayers: Array<{ username: string; score: number }>;
 };
 Devvit.configure({
   redditAPI: true,
@@ -134,6 +135,7 @@ Devvit.addCustomPostType({
           bestTowerHeight?: number;
           perfectStreak?: number;
           ranking?: number;
+          topPlayers?: Array<{ username?: string; score?: number }>;
         };
 
         const normalizeNumber = (value: unknown, fallback: number) => {
@@ -167,6 +169,13 @@ Devvit.addCustomPostType({
           perfectStreak: normalizeNumber(parsed.perfectStreak, 0),
           ranking: normalizeOptionalNumber(parsed.ranking),
           userThingId: userThingId ?? null,
+          topPlayers: (Array.isArray(parsed.topPlayers) ? parsed.topPlayers : [])
+            .filter((entry) => typeof entry?.username === 'string')
+            .slice(0, 3)
+            .map((entry) => ({
+              username: entry.username as string,
+              score: normalizeNumber(entry.score, 0),
+            })),
         };
       } catch (error) {
         console.error('Failed to load preview stats', error);
@@ -195,6 +204,7 @@ Devvit.addCustomPostType({
     const bestTowerHeight = previewData?.bestTowerHeight ?? 0;
     const perfectStreak = previewData?.perfectStreak ?? 0;
     const ranking = previewData?.ranking;
+    const topPlayers = previewData?.topPlayers ?? [];
     const hasRanking = ranking !== null && ranking !== undefined;
     const rankLabel = hasRanking ? `#${ranking}` : 'UNRANKED';
     const rankSubtitle = hasRanking ? `GRID POSITION ${ranking}` : 'MAKE YOUR MARK ON THE GRID';
@@ -291,6 +301,26 @@ Devvit.addCustomPostType({
                       valueColor={palette.gold}
                     />
                   </vstack>
+                  {topPlayers.length > 0 && (
+                    <vstack gap="none" alignment="top start" width="100%">
+                      <text size="xsmall" color={palette.cyanMuted}>
+                        TOP ON THIS POST
+                      </text>
+                      {topPlayers.map((entry, index) => (
+                        <hstack gap="small" width="100%">
+                          <text size="xsmall" color={palette.gold}>
+                            #{index + 1}
+                          </text>
+                          <text size="xsmall" color={palette.cyanSoft} grow>
+                            {entry.username}
+                          </text>
+                          <text size="xsmall" color={palette.cyan}>
+                            {formatStatValue(entry.score)}
+                          </text>
+                        </hstack>
+                      ))}
+                    </vstack>
+                  )}
 
 
                 </vstack>
@@ -1,5 +1,14 @@
 import { Devvit, useState, useAsync, useInterval } from '@devvit/public-api';
 import { GameDataService } from '../core/gameDataService';
+import { BoardScope } from '../core/leaderboardScopeService';
+import { GAME_MODES, GAME_MODE_LABELS, GameMode } from '../../shared/simulation';
+import type { LeaderboardRange, WatchReplayMessage } from '../../shared/types/api';
+
+const LEADERBOARD_RANGES: Array<{ range: LeaderboardRange; label: string }> = [
+  { range: 'all_time', label: 'ALL TIME' },
+  { range: 'weekly', label: 'WEEK' },
+  { range: 'daily', label: 'TODAY' },
+];
 
 interface GameBlocksProps {
   username: string;
@@ -12,16 +21,37 @@ export const GameBlocks: Devvit.BlockComponent<GameBlocksProps> = (props, contex
 
   // State for current view
   const [currentView, setCurrentView] = useState<'home' | 'stats' | 'leaderboard' | 'game'>('home');
+  const [leaderboardMode, setLeaderboardMode] = useState<GameMode>('classic');
+  const [leaderboardRange, setLeaderboardRange] = useState<LeaderboardRange>('all_time');
+  const [previewScope, setPreviewScope] = useState<BoardScope>('post');
 
   // Fetch user stats
   const { data: userStatsData } = useAsync(async () => {
     return await GameDataService.getUserStats();
   }, {});
 
-  // Fetch leaderboard
+  // Fetch leaderboard for the selected mode and window
   const { data: leaderboardData } = useAsync(async () => {
-    return await GameDataService.getLeaderboard(10);
-  }, {});
+    const { highScores, perfectStreaks } = await GameDataService.getLeaderboards(
+      10,
+      leaderboardMode,
+      leaderboardRange
+    );
+    return { highScores, perfectStreaks };
+  }, { depends: [leaderboardMode, leaderboardRange] });
+
+  // Top 3 on this post or across this community for the home preview
+  const { data: previewScores } = useAsync(async () => {
+    const id = previewScope === 'post' ? postId : context.subredditName;
+    if (!id) {
+      return [];
+    }
+    const { highScores } = await GameDataService.getLeaderboards(3, 'classic', 'all_time', {
+      scope: previewScope,
+      id,
+    });
+    return highScores;
+  }, { depends: [previewScope] });
 
   // Auto-refresh leaderboard every 30 seconds
   const refreshInterval = useInterval(async () => {
@@ -58,6 +88,10 @@ export const GameBlocks: Devvit.BlockComponent<GameBlocksProps> = (props, contex
         highScores={highScores}
         perfectStreaks={perfectStreaks}
         currentUserId={userId}
+        mode={leaderboardMode}
+        onModeChange={setLeaderboardMode}
+        range={leaderboardRange}
+        onRangeChange={setLeaderboardRange}
         onBack={() => setCurrentView('home')}
       />
     );
@@ -86,7 +120,12 @@ export const GameBlocks: Devvit.BlockComponent<GameBlocksProps> = (props, contex
           />
 
           {/* Mini Leaderboard Preview */}
-          <LeaderboardPreview highScores={highScores.slice(0, 3)} currentUserId={userId} />
+          <LeaderboardPreview
+            highScores={previewScores || []}
+            currentUserId={userId}
+            scope={previewScope}
+            onScopeChange={setPreviewScope}
+          />
 
           {/* Footer */}
           <GameFooter totalPlayers={highScores.length} />
@@ -333,14 +372,12 @@ interface LeaderboardPreviewProps {
     blockCount: number;
   }>;
   currentUserId: string;
+  scope: BoardScope;
+  onScopeChange: (scope: BoardScope) => void;
 }
 
 const LeaderboardPreview: Devvit.BlockComponent<LeaderboardPreviewProps> = (props) => {
-  const { highScores, currentUserId } = props;
-
-  if (highScores.length === 0) {
-    return null;
-  }
+  const { highScores, currentUserId, scope, onScopeChange } = props;
 
   return (
     <vstack
@@ -352,10 +389,32 @@ const LeaderboardPreview: Devvit.BlockComponent<LeaderboardPreviewProps> = (prop
       border="thin"
       borderColor="#ffd70060"
     >
-      {/* Title */}
-      <text size="medium" weight="bold" color="#ffd700">
-        ⭐ TOP PERFORMERS
-      </text>
+      {/* Title and scope toggle */}
+      <hstack width="100%" alignment="start middle" gap="small">
+        <text size="medium" weight="bold" color="#ffd700" grow>
+          ⭐ TOP PERFORMERS
+        </text>
+        <button
+          size="small"
+          appearance={scope === 'post' ? 'primary' : 'secondary'}
+          onPress={() => onScopeChange('post')}
+        >
+          THIS POST
+        </button>
+        <button
+          size="small"
+          appearance={scope === 'subreddit' ? 'primary' : 'secondary'}
+          onPress={() => onScopeChange('subreddit')}
+        >
+          COMMUNITY
+        </button>
+      </hstack>
+
+      {highScores.length === 0 && (
+        <text size="small" color="#ffffff99">
+          No towers yet. Be the first!
+        </text>
+      )}
 
       {/* Top 3 Players */}
       {highScores.map((entry, index) => (
@@ -655,13 +714,34 @@ interface LeaderboardViewProps {
   highScores: any[];
   perfectStreaks: any[];
   currentUserId: string;
+  mode: GameMode;
+  onModeChange: (mode: GameMode) => void;
+  range: LeaderboardRange;
+  onRangeChange: (range: LeaderboardRange) => void;
   onBack: () => void;
 }
 
-const LeaderboardView: Devvit.BlockComponent<LeaderboardViewProps> = (props) => {
-  const { highScores, perfectStreaks, currentUserId, onBack } = props;
+const LeaderboardView: Devvit.BlockComponent<LeaderboardViewProps> = (props, context) => {
+  const {
+    highScores,
+    perfectStreaks,
+    currentUserId,
+    mode,
+    onModeChange,
+    range,
+    onRangeChange,
+    onBack,
+  } = props;
   const [activeTab, setActiveTab] = useState<'scores' | 'streaks'>('scores');
 
+  // Replays play in the web view
+  const watchReplay = (sessionId: string) => {
+    context.ui.webView.postMessage<WatchReplayMessage>('myWebView', {
+      type: 'WATCH_REPLAY',
+      sessionId,
+    });
+  };
+
   return (
     <blocks height="tall">
       <zstack width="100%" height="100%" alignment="top start">
@@ -678,6 +758,36 @@ const LeaderboardView: Devvit.BlockComponent<LeaderboardViewProps> = (props) =>
             </text>
           </hstack>
 
+          {/* Mode Tabs */}
+          <hstack width="100%" gap="small">
+            {GAME_MODES.map((tabMode) => (
+              <button
+                key={tabMode}
+                size="small"
+                appearance={mode === tabMode ? 'primary' : 'secondary'}
+                onPress={() => onModeChange(tabMode)}
+                grow
+              >
+                {GAME_MODE_LABELS[tabMode]}
+              </button>
+            ))}
+          </hstack>
+
+          {/* Window Tabs */}
+          <hstack width="100%" gap="small">
+            {LEADERBOARD_RANGES.map((tab) => (
+              <button
+                key={tab.range}
+                size="small"
+                appearance={range === tab.range ? 'primary' : 'secondary'}
+                onPress={() => onRangeChange(tab.range)}
+                grow
+              >
+                {tab.label}
+              </button>
+            ))}
+          </hstack>
+
           {/* Tab Buttons */}
           <hstack width="100%" gap="small">
             <button
@@ -709,6 +819,7 @@ const LeaderboardView: Devvit.BlockComponent<LeaderboardViewProps> = (props) =>
                   value={entry.score.toLocaleString()}
                   subValue={`${entry.blockCount} blocks`}
                   isCurrentUser={entry.userId === currentUserId}
+                  onWatchReplay={() => watchReplay(entry.sessionId)}
                 />
               ))}
             </vstack>
@@ -724,6 +835,7 @@ const LeaderboardView: Devvit.BlockComponent<LeaderboardViewProps> = (props) =>
                   value={`⭐ ${entry.perfectStreak}`}
                   subValue={`Score: ${entry.score.toLocaleString()}`}
                   isCurrentUser={entry.userId === currentUserId}
+                  onWatchReplay={() => watchReplay(entry.sessionId)}
                 />
               ))}
             </vstack>
@@ -740,10 +852,11 @@ interface FullLeaderboardEntryProps {
   value: string;
   subValue: string;
   isCurrentUser: boolean;
+  onWatchReplay: () => void;
 }
 
 const FullLeaderboardEntry: Devvit.BlockComponent<FullLeaderboardEntryProps> = (props) => {
-  const { rank, username, value, subValue, isCurrentUser } = props;
+  const { rank, username, value, subValue, isCurrentUser, onWatchReplay } = props;
 
   const rankColor = rank === 1 ? "#ffd700" : rank === 2 ? "#c0c0c0" : rank === 3 ? "#cd7f32" : "#00ffff";
   const bgColor = isCurrentUser ? "#00ffff20" : "#00111180";
@@ -793,6 +906,10 @@ const FullLeaderboardEntry: Devvit.BlockComponent<FullLeaderboardEntryProps> = (
       <text size="large" weight="bold" color={rankColor}>
         {value}
       </text>
+
+      <button size="small" appearance="secondary" onPress={onWatchReplay}>
+        ▶
+      </button>
     </hstack>
   );
 };
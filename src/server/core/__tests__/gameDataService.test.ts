@@ -0,0 +1,202 @@
+import { beforeEach, describe, expect, test, vi } from 'vitest';
+import { GameSessionData, TowerMapEntry } from '../../../shared/types/api';
+
+// In-memory stand-in for the hash and sorted-set commands these tests reach
+const store = vi.hoisted(() => {
+  const hashes = new Map<string, Map<string, string>>();
+  const sortedSets = new Map<string, Map<string, number>>();
+  const hash = (key: string) => hashes.get(key) ?? hashes.set(key, new Map()).get(key)!;
+  const sortedSet = (key: string) =>
+    sortedSets.get(key) ?? sortedSets.set(key, new Map()).get(key)!;
+
+  const redis = {
+    hGet: async (key: string, field: string) => hash(key).get(field),
+    hSet: async (key: string, values: Record<string, string>) => {
+      Object.entries(values).forEach(([field, value]) => hash(key).set(field, value));
+      return Object.keys(values).length;
+    },
+    hSetNX: async (key: string, field: string, value: string) => {
+      if (hash(key).has(field)) return 0;
+      hash(key).set(field, value);
+      return 1;
+    },
+    hDel: async (key: string, fields: string[]) =>
+      fields.filter((field) => hash(key).delete(field)).length,
+    zScore: async (key: string, member: string) => sortedSet(key).get(member),
+    zAdd: async (key: string, ...members: { member: string; score: number }[]) => {
+      members.forEach(({ member, score }) => sortedSet(key).set(member, score));
+      return members.length;
+    },
+    zRem: async (key: string, members: string[]) =>
+      members.filter((member) => sortedSet(key).delete(member)).length,
+    // Whole set, lowest score first; the tests never need a narrower range
+    zRange: async (key: string) =>
+      [...sortedSet(key).entries()]
+        .sort(([, a], [, b]) => a - b)
+        .map(([member, score]) => ({ member, score })),
+  };
+
+  return { hashes, sortedSets, hash, redis };
+});
+
+vi.mock('@devvit/web/server', () => ({
+  redis: store.redis,
+  reddit: {},
+  context: {},
+  scheduler: {},
+}));
+
+const { GameDataService } = await import('../gameDataService');
+
+const CELLS_KEY = 'tower_cells';
+const MAP_KEY = 'tower_map';
+
+// A stored tower, on the map unless `onMap` is false
+const storeTower = (
+  sessionId: string,
+  userId: string,
+  cell?: { x: number; z: number },
+  onMap = true
+) => {
+  const entry: TowerMapEntry = {
+    sessionId,
+    userId,
+    username: userId,
+    score: 100,
+    blockCount: 10,
+    perfectStreak: 0,
+    gameMode: 'classic',
+    timestamp: 0,
+    towerBlocks: [],
+    ...(cell && { gridX: cell.x, gridZ: cell.z }),
+  };
+  store.hash(`tower:${sessionId}`).set('data', JSON.stringify(entry));
+  if (onMap) {
+    void store.redis.zAdd(MAP_KEY, { member: sessionId, score: entry.score });
+  }
+  if (cell) {
+    store.hash(CELLS_KEY).set(`${cell.x},${cell.z}`, sessionId);
+  }
+};
+
+const holderOf = (x: number, z: number) => store.hash(CELLS_KEY).get(`${x},${z}`);
+
+describe('GameDataService.updateTowerPlacement', () => {
+  beforeEach(() => {
+    store.hashes.clear();
+    store.sortedSets.clear();
+  });
+
+  test('claims a free cell for the tower', async () => {
+    storeTower('a', 'alice');
+
+    const result = await GameDataService.updateTowerPlacement('a', 'alice', 2, 3);
+
+    expect(result).toMatchObject({ status: 'placed', placement: { gridX: 2, gridZ: 3 } });
+    expect(holderOf(2, 3)).toBe('a');
+  });
+
+  test('falls back to the nearest free cell when the requested one is taken', async () => {
+    storeTower('a', 'alice', { x: 0, z: 0 });
+    storeTower('b', 'bob');
+
+    const result = await GameDataService.updateTowerPlacement('b', 'bob', 0, 0);
+
+    expect(result.status).toBe('placed');
+    const placement = result.status === 'placed' ? result.placement : null;
+    expect(Math.hypot(placement!.gridX, placement!.gridZ)).toBe(1);
+    expect(holderOf(0, 0)).toBe('a');
+    expect(holderOf(placement!.gridX, placement!.gridZ)).toBe('b');
+  });
+
+  test('concurrent moves onto one cell never share it', async () => {
+    storeTower('a', 'alice');
+    storeTower('b', 'bob');
+
+    const [first, second] = await Promise.all([
+      GameDataService.updateTowerPlacement('a', 'alice', 5, 5),
+      GameDataService.updateTowerPlacement('b', 'bob', 5, 5),
+    ]);
+
+    const cells = [first, second].map((result) =>
+      result.status === 'placed' ? `${result.placement.gridX},${result.placement.gridZ}` : null
+    );
+    expect(cells).not.toContain(null);
+    expect(new Set(cells).size).toBe(2);
+  });
+
+  test('keeps a cell the tower already holds and frees the one it leaves', async () => {
+    storeTower('a', 'alice', { x: 1, z: 1 });
+
+    const stay = await GameDataService.updateTowerPlacement('a', 'alice', 1, 1);
+    expect(stay).toMatchObject({ status: 'placed', placement: { gridX: 1, gridZ: 1 } });
+
+    await GameDataService.updateTowerPlacement('a', 'alice', 4, 4);
+    expect(holderOf(4, 4)).toBe('a');
+    expect(holderOf(1, 1)).toBeUndefined();
+  });
+
+  test("only the tower's owner can move it", async () => {
+    storeTower('a', 'alice', { x: 1, z: 1 });
+
+    const result = await GameDataService.updateTowerPlacement('a', 'mallory', 3, 3);
+
+    expect(result.status).toBe('not_owner');
+    expect(holderOf(1, 1)).toBe('a');
+    expect(holderOf(3, 3)).toBeUndefined();
+  });
+
+  test('keeps towers that are off the map off the grid', async () => {
+    storeTower('old', 'alice', undefined, false);
+
+    const result = await GameDataService.updateTowerPlacement('old', 'alice', 2, 2);
+
+    expect(result.status).toBe('not_on_map');
+    expect(holderOf(2, 2)).toBeUndefined();
+  });
+
+  test('reports when every cell within reach is taken', async () => {
+    for (let x = -3; x <= 3; x++) {
+      for (let z = -3; z <= 3; z++) {
+        store.hash(CELLS_KEY).set(`${x},${z}`, 'other');
+      }
+    }
+    storeTower('a', 'alice');
+
+    const result = await GameDataService.updateTowerPlacement('a', 'alice', 0, 0);
+
+    expect(result.status).toBe('no_free_cell');
+  });
+});
+
+describe('GameDataService.strikeSession', () => {
+  beforeEach(() => {
+    store.hashes.clear();
+    store.sortedSets.clear();
+  });
+
+  test("strikes the run under the owner the server recorded, not the session data's", async () => {
+    // A run whose stored data names someone other than the player it was published for
+    const sessionData = {
+      sessionId: 's1',
+      userId: 't2_someone_else',
+      username: 'someone_else',
+      postId: 't3_post',
+      gameMode: 'classic',
+      seed: 1,
+      startTime: 0,
+      finalScore: 500,
+      blockCount: 20,
+      maxCombo: 0,
+      perfectStreakCount: 0,
+      gameOverReason: 'width',
+      towerBlocks: [],
+    } satisfies GameSessionData;
+    store.hash('session:s1').set('data', JSON.stringify(sessionData));
+    store.hash('session:s1').set('userId', 't2_player');
+    await store.redis.zAdd('leaderboard:high_scores', { member: 't2_player:s1', score: 500 });
+
+    expect(await GameDataService.strikeSession('s1')).toBe(true);
+    expect(store.sortedSets.get('leaderboard:high_scores')?.has('t2_player:s1')).toBe(false);
+  });
+});
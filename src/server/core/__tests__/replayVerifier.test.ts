@@ -0,0 +1,159 @@
+import { describe, expect, test } from 'vitest';
+import {
+  DropInput,
+  GameSimulation,
+  ReplayCompression,
+  SimulationTuning,
+} from '../../../shared/simulation';
+import { convertBlocksToTowerBlocks } from '../../../shared/utils/gameDataConverter';
+import { SaveGameSessionRequest } from '../../../shared/types/api';
+import { ReplayVerifier } from '../replayVerifier';
+
+const SEED = 424242;
+// A drop every second and a half, long enough for each block to land
+const INPUTS: DropInput[] = Array.from({ length: 12 }, (_, i) => ({ tick: 90 * (i + 1) }));
+
+// An honest classic run: the claimed results are exactly what the simulation produces
+const buildRequest = async (tuning?: SimulationTuning): Promise<SaveGameSessionRequest> => {
+  const result = GameSimulation.simulateGame(SEED, INPUTS, 'classic');
+  const replay = await ReplayCompression.createCompressedReplay(
+    SEED,
+    'classic',
+    INPUTS,
+    60,
+    tuning
+  );
+  return {
+    sessionData: {
+      gameMode: 'classic',
+      seed: SEED,
+      startTime: 0,
+      finalScore: result.finalScore,
+      blockCount: result.finalState.blocks.length,
+      maxCombo: result.maxCombo,
+      perfectStreakCount: 0,
+      gameOverReason: result.gameOverReason,
+      towerBlocks: convertBlocksToTowerBlocks(result.finalState.blocks),
+    },
+    replay,
+    runToken: 'token',
+  };
+};
+
+const rankedTuning = (): SimulationTuning => new GameSimulation(SEED, 'classic').getTuning();
+
+describe('ReplayVerifier', () => {
+  test('verifies a run whose claims match the replay', async () => {
+    const request = await buildRequest(rankedTuning());
+    const { verification, sessionData } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('verified');
+    expect(verification.verifiedBlockCount).toBeGreaterThan(1);
+    expect(verification.verifiedScore).toBe(request.sessionData.finalScore);
+    expect(sessionData.blockCount).toBe(request.sessionData.blockCount);
+  });
+
+  test('accepts small differences within tolerance, storing the verified results', async () => {
+    const request = await buildRequest();
+    const verifiedScore = request.sessionData.finalScore;
+    request.sessionData.finalScore += 1;
+    request.sessionData.blockCount += 1;
+
+    const { verification, sessionData } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('verified-with-tolerance');
+    expect(sessionData.finalScore).toBe(verifiedScore);
+    expect(sessionData.blockCount).toBe(request.sessionData.blockCount - 1);
+  });
+
+  test('drops identity fields smuggled into the claimed session', async () => {
+    const request = await buildRequest();
+    Object.assign(request.sessionData, {
+      userId: 't2_someone_else',
+      username: 'someone_else',
+      postId: 't3_other_post',
+      subredditName: 'other_sub',
+    });
+
+    const { sessionData } = await ReplayVerifier.verify(request);
+
+    expect(sessionData).not.toHaveProperty('userId');
+    expect(sessionData).not.toHaveProperty('username');
+    expect(sessionData).not.toHaveProperty('postId');
+    expect(sessionData).not.toHaveProperty('subredditName');
+  });
+
+  test('rejects claims the replay does not support', async () => {
+    const request = await buildRequest();
+    request.sessionData.finalScore = request.sessionData.finalScore * 3 + 1000;
+
+    const { verification } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('rejected');
+    expect(verification.reason).toBe('Claimed results do not match the replay');
+  });
+
+  test('rejects a replay whose seed does not match the session', async () => {
+    const request = await buildRequest();
+    request.sessionData.seed = SEED + 1;
+
+    const { verification } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('rejected');
+  });
+
+  test('rejects two drops on the same tick', async () => {
+    const request = await buildRequest();
+    request.replay = await ReplayCompression.createCompressedReplay(SEED, 'classic', [
+      { tick: 100 },
+      { tick: 100 },
+    ]);
+
+    const { verification } = await ReplayVerifier.verify(request);
+
+    expect(verification.reason).toBe('Replay inputs are out of order');
+  });
+
+  test.each<[string, Partial<SimulationTuning>, string]>([
+    ['a slower slide', { slideSpeed: 500 }, 'Slide speed is below the ranked minimum'],
+    [
+      'a slower-growing slide',
+      { slideAccel: 100 },
+      'Slide acceleration is below the ranked minimum',
+    ],
+    ['a capped slide', { slideMax: 1200 }, 'Slide speed caps are not allowed in ranked runs'],
+    ['wider bounds', { slideBounds: 4000 }, 'Slide bounds differ from the ranked configuration'],
+    ['slower falls', { fallSpeedMult: 1 }, 'Drop behaviour differs from the ranked configuration'],
+    [
+      'animated placement',
+      { instantPlaceMain: false },
+      'Drop behaviour differs from the ranked configuration',
+    ],
+  ])('rejects ranked runs with %s', async (_, override, reason) => {
+    const request = await buildRequest({ ...rankedTuning(), ...override });
+
+    const { verification } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('rejected');
+    expect(verification.reason).toBe(reason);
+  });
+
+  test('allows a faster slide than the ranked minimum', async () => {
+    const tuning = { ...rankedTuning(), slideSpeed: 1600 };
+    const request = await buildRequest(tuning);
+    const result = GameSimulation.simulateGame(
+      SEED,
+      INPUTS,
+      'classic',
+      undefined,
+      undefined,
+      tuning
+    );
+    request.sessionData.finalScore = result.finalScore;
+    request.sessionData.blockCount = result.finalState.blocks.length;
+
+    const { verification } = await ReplayVerifier.verify(request);
+
+    expect(verification.status).toBe('verified');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, test } from 'vitest';
+import { SaveGameSessionRequest, UserStats } from '../../../shared/types/api';
+import { ReplayInputStats } from '../replayVerifier';
+import { RunHeuristics } from '../runHeuristics';
+
+const session = (
+  overrides: Partial<SaveGameSessionRequest['sessionData']> = {}
+): SaveGameSessionRequest['sessionData'] => ({
+  gameMode: 'classic',
+  seed: 1,
+  startTime: 0,
+  finalScore: 1000,
+  blockCount: 31,
+  maxCombo: 3,
+  perfectStreakCount: 10,
+  gameOverReason: 'width',
+  towerBlocks: [],
+  ...overrides,
+});
+
+// `count` drops, `gap` ticks apart
+const evenDrops = (count: number, gap: number): ReplayInputStats => ({
+  dropCount: count,
+  dropGaps: Array.from({ length: count - 1 }, () => gap),
+});
+
+const history = (overrides: Partial<UserStats> = {}): UserStats => ({
+  userId: 't2_player',
+  username: 'player',
+  totalGames: 10,
+  highScore: 1000,
+  bestTowerHeight: 30,
+  longestPerfectStreak: 5,
+  totalPerfectBlocks: 50,
+  averageScore: 600,
+  lastPlayed: 0,
+  ...overrides,
+});
+
+describe('RunHeuristics', () => {
+  test('raises nothing for an ordinary run', () => {
+    expect(RunHeuristics.evaluate(session(), evenDrops(30, 60), history())).toEqual([]);
+  });
+
+  test('flags a perfect rate above 90% once there are enough drops', () => {
+    expect(
+      RunHeuristics.evaluate(session({ perfectStreakCount: 28 }), evenDrops(30, 60), null)
+    ).toEqual(['perfect_rate']);
+    expect(
+      RunHeuristics.evaluate(session({ perfectStreakCount: 27 }), evenDrops(30, 60), null)
+    ).toEqual([]);
+    // Too few drops to judge
+    expect(
+      RunHeuristics.evaluate(session({ perfectStreakCount: 19 }), evenDrops(19, 60), null)
+    ).toEqual([]);
+  });
+
+  test('flags a score more than three times the previous best, given a history', () => {
+    expect(
+      RunHeuristics.evaluate(session({ finalScore: 3001 }), evenDrops(30, 60), history())
+    ).toEqual(['score_spike']);
+    expect(
+      RunHeuristics.evaluate(session({ finalScore: 3000 }), evenDrops(30, 60), history())
+    ).toEqual([]);
+    expect(
+      RunHeuristics.evaluate(
+        session({ finalScore: 5000 }),
+        evenDrops(30, 60),
+        history({ totalGames: 4 })
+      )
+    ).toEqual([]);
+  });
+
+  test('flags drops that come faster than a quarter second', () => {
+    expect(RunHeuristics.evaluate(session(), evenDrops(30, 14), null)).toEqual(['ticks_per_block']);
+    expect(RunHeuristics.evaluate(session(), evenDrops(30, 15), null)).toEqual([]);
+    expect(RunHeuristics.evaluate(session(), evenDrops(9, 1), null)).toEqual([]);
+  });
+
+  test('flags a burst of drops even after a long idle start', () => {
+    // One long wait, then a drop every tick: the average gap looks human, the burst doesn't
+    const inputStats: ReplayInputStats = {
+      dropCount: 30,
+      dropGaps: [3000, ...Array.from({ length: 28 }, () => 1)],
+    };
+    expect(RunHeuristics.evaluate(session(), inputStats, null)).toEqual(['ticks_per_block']);
+  });
+
+  test('tolerates the odd double tap', () => {
+    const inputStats: ReplayInputStats = {
+      dropCount: 30,
+      dropGaps: [2, ...Array.from({ length: 28 }, () => 60)],
+    };
+    expect(RunHeuristics.evaluate(session(), inputStats, null)).toEqual([]);
+  });
+});
@@ -0,0 +1,155 @@
+import { createHash, randomUUID } from 'node:crypto';
+import { redis } from '@devvit/web/server';
+import { GameMode } from '../../shared/simulation';
+import { LeaderboardWindowService } from './leaderboardWindowService';
+
+export interface DailyChallenge {
+  day: string; // UTC date, e.g. '2025-01-06'
+  startsAt: number;
+  endsAt: number;
+}
+
+/**
+ * One shared classic run per UTC day. Every player gets the same seed, derived from the day
+ * and a per-install secret, and one ranked attempt that is claimed when the run starts, so
+ * restarting a bad run is not a way around the limit. Each day keeps its own board.
+ */
+export class DailyChallengeService {
+  private static readonly KEYS = {
+    // Secret mixed into every daily seed so upcoming seeds can't be worked out in advance
+    seedSalt: 'daily_challenge:seed_salt',
+    // Attempts started per user and day; only the first is issued a run
+    attempts: (day: string, userId: string) => `daily_challenge:${day}:attempts:${userId}`,
+    highScores: (day: string) => `daily_challenge:${day}:high_scores`,
+    // Days that still have a board (member day, score startsAt)
+    days: 'daily_challenge:days',
+    // Challenge post created for a day
+    post: (day: string) => `daily_challenge:${day}:post`,
+  };
+
+  static readonly MODE: GameMode = 'classic';
+
+  private static readonly MAX_SEED = 1000000;
+  private static readonly ATTEMPT_TTL_SECONDS = 2 * 24 * 60 * 60; // Outlives the day it covers
+  private static readonly BOARD_RETENTION_DAYS = 30;
+
+  /**
+   * The challenge of the UTC day containing `timestamp`
+   */
+  static getChallenge(timestamp: number = Date.now()): DailyChallenge {
+    const { windowId, startsAt, endsAt } = LeaderboardWindowService.getWindow('daily', timestamp);
+    return { day: windowId, startsAt, endsAt };
+  }
+
+  /**
+   * The challenge of the day before `day`
+   */
+  static getPreviousChallenge(day: string): DailyChallenge {
+    return this.getChallenge(Date.parse(`${day}T00:00:00Z`) - 1);
+  }
+
+  static async getSeed(day: string): Promise<number> {
+    await redis.set(this.KEYS.seedSalt, randomUUID(), { nx: true });
+    const salt = await redis.get(this.KEYS.seedSalt);
+    const digest = createHash('sha256').update(`${salt}:${day}`).digest();
+    return digest.readUInt32BE(0) % this.MAX_SEED;
+  }
+
+  /**
+   * Use up the user's attempt for `day`. Resolves to false if it was already used.
+   */
+  static async claimAttempt(day: string, userId: string): Promise<boolean> {
+    const key = this.KEYS.attempts(day, userId);
+    const attempts = await redis.incrBy(key, 1);
+    await redis.expire(key, this.ATTEMPT_TTL_SECONDS);
+    return attempts === 1;
+  }
+
+  /**
+   * Give back an attempt claimed for a run that never started
+   */
+  static async releaseAttempt(day: string, userId: string): Promise<void> {
+    await redis.del(this.KEYS.attempts(day, userId));
+  }
+
+  static async hasAttempted(day: string, userId: string): Promise<boolean> {
+    return Number(await redis.get(this.KEYS.attempts(day, userId))) > 0;
+  }
+
+  static getBoardKey(day: string): string {
+    return this.KEYS.highScores(day);
+  }
+
+  /**
+   * Enter a verified daily attempt on its day's board
+   */
+  static async recordSession(
+    day: string,
+    userId: string,
+    sessionId: string,
+    score: number
+  ): Promise<void> {
+    await LeaderboardWindowService.recordBest(this.KEYS.highScores(day), userId, sessionId, score);
+    await this.trackDay(day);
+  }
+
+  /**
+   * Remove a user's sessions from every kept daily board
+   */
+  static async removeSessions(userId: string, sessionIds: ReadonlyArray<string>): Promise<void> {
+    for (const day of await this.getDays()) {
+      await LeaderboardWindowService.removeFromBoard(this.KEYS.highScores(day), userId, sessionIds);
+    }
+  }
+
+  static async getPostId(day: string): Promise<string | null> {
+    return (await redis.get(this.KEYS.post(day))) ?? null;
+  }
+
+  static async linkPost(day: string, postId: string): Promise<void> {
+    await redis.set(this.KEYS.post(day), postId);
+    await this.trackDay(day);
+  }
+
+  /**
+   * Delete boards and post links older than the retention window
+   */
+  static async pruneBoards(now: number = Date.now()): Promise<number> {
+    const cutoff =
+      this.getChallenge(now).startsAt - this.BOARD_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    const stale = await redis.zRange(this.KEYS.days, 0, cutoff, { by: 'score' });
+
+    for (const entry of stale) {
+      const day = typeof entry === 'string' ? entry : entry.member;
+      await this.deleteDay(day);
+    }
+
+    return stale.length;
+  }
+
+  /**
+   * Delete every daily board (for development/testing). The seed secret is kept so today's
+   * seed doesn't change under players who already started their attempt.
+   */
+  static async clearAll(): Promise<void> {
+    for (const day of await this.getDays()) {
+      await this.deleteDay(day);
+    }
+    await redis.del(this.KEYS.days);
+  }
+
+  private static async trackDay(day: string): Promise<void> {
+    await redis.zAdd(this.KEYS.days, { member: day, score: Date.parse(`${day}T00:00:00Z`) });
+  }
+
+  private static async getDays(): Promise<string[]> {
+    const entries = await redis.zRange(this.KEYS.days, 0, -1, { by: 'rank' });
+    return entries.map((entry) => (typeof entry === 'string' ? entry : entry.member));
+  }
+
+  private static async deleteDay(day: string): Promise<void> {
+    await LeaderboardWindowService.deleteBoard(this.KEYS.highScores(day));
+    await redis.del(this.KEYS.post(day));
+    await redis.zRem(this.KEYS.days, [day]);
+  }
+}
@@ -1,10 +1,30 @@
-import { redis, reddit, context } from '@devvit/web/server';
+import { redis, reddit, context, scheduler } from '@devvit/web/server';
 import {
   GameSessionData,
   UserStats,
+  PuzzleLevelProgress,
   TowerMapEntry,
   SaveGameSessionRequest,
+  ReplayVerification,
+  RunStatus,
+  RunResult,
+  RunFlag,
+  FlaggedRun,
+  HighScoreEntry,
+  PerfectStreakEntry,
+  LeaderboardRange,
+  LeaderboardWindowRank,
+  TowerCellAssignment,
 } from '../../shared/types/api';
+import { CompressedReplay, GAME_MODES, GameMode, PuzzleLevels } from '../../shared/simulation';
+import { TOWER_GRID, getCellCenter, getCellChunk } from '../../shared/types/towerPlacement';
+import { ReplayVerifier } from './replayVerifier';
+import { RunHeuristics } from './runHeuristics';
+import { LeaderboardWindow, LeaderboardWindowService } from './leaderboardWindowService';
+import { LeaderboardScopeService, ScopeTarget } from './leaderboardScopeService';
+import { ModerationService } from './moderationService';
+import { RunTokenService } from './runTokenService';
+import { DailyChallenge, DailyChallengeService } from './dailyChallengeService';
 
 interface LeaderboardUpdateResult {
   isNewHighScore: boolean;
@@ -16,30 +36,79 @@ interface LeaderboardUpdateResult {
   bestPerfectStreak: number;
 }
 
+type SubmitRunResult = { queued: true; runId: string } | { queued: false; reason: string };
+
+type TowerPlacementResult =
+  | { status: 'placed'; placement: TowerCellAssignment }
+  | { status: 'not_found' | 'not_owner' | 'not_on_map' | 'out_of_bounds' | 'no_free_cell' };
+
+// Queued submission as stored in the run hash
+interface QueuedRun {
+  request: SaveGameSessionRequest;
+  userId: string;
+  username: string;
+  postId: string;
+  subredditName?: string;
+  challengeDay?: string; // Taken from the run token, never from the submission
+  submittedAt: number;
+  attempts: number;
+}
+
+export interface RunStatusRecord {
+  runId: string;
+  status: RunStatus;
+  verification?: ReplayVerification;
+  result?: RunResult;
+}
+
+// Modes score differently, so every leaderboard and aggregate is kept per mode. Classic keeps
+// the original unscoped keys so existing boards (and the legacy blocks UI) carry over.
+const modeScope = (mode: GameMode): string => (mode === 'classic' ? '' : `${mode}:`);
+
 export class GameDataService {
   private static readonly KEYS = {
     // User-specific keys
-    userStats: (userId: string) => `user:${userId}:stats`,
+    userStats: (userId: string, mode: GameMode) => `user:${userId}:${modeScope(mode)}stats`,
     userSessions: (userId: string) => `user:${userId}:sessions`, // Will use sorted set instead of list
 
-    // Global leaderboards
-    highScoreLeaderboard: 'leaderboard:high_scores',
-    perfectStreakLeaderboard: 'leaderboard:perfect_streaks',
-    towerHeightLeaderboard: 'leaderboard:tower_heights',
+    // Per-mode leaderboards
+    highScoreLeaderboard: (mode: GameMode) => `leaderboard:${modeScope(mode)}high_scores`,
+    perfectStreakLeaderboard: (mode: GameMode) => `leaderboard:${modeScope(mode)}perfect_streaks`,
+    towerHeightLeaderboard: (mode: GameMode) => `leaderboard:${modeScope(mode)}tower_heights`,
 
     // Session storage
     session: (sessionId: string) => `session:${sessionId}`,
 
     // Tower map (for visualization)
-    towerMap: 'tower_map',
-    userBestHighScoreSession: (userId: string) => `user:${userId}:best_highscore_session`,
-    userBestPerfectStreakSession: (userId: string) => `user:${userId}:best_perfect_session`,
+    towerMap: (mode: GameMode) => `${modeScope(mode)}tower_map`,
+    // Occupied grid cells (hash of `${gridX},${gridZ}` -> sessionId)
+    towerCells: (mode: GameMode) => `${modeScope(mode)}tower_cells`,
+    // Placed towers on the map by the chunk of their cell (sorted set of session IDs by score)
+    towerChunk: (mode: GameMode, chunkX: number, chunkZ: number) =>
+      `${modeScope(mode)}tower_chunk:${chunkX},${chunkZ}`,
+    userBestHighScoreSession: (userId: string, mode: GameMode) =>
+      `user:${userId}:${modeScope(mode)}best_highscore_session`,
+    userBestPerfectStreakSession: (userId: string, mode: GameMode) =>
+      `user:${userId}:${modeScope(mode)}best_perfect_session`,
+
+    // Replay verification queue (sorted set of run IDs by submission time)
+    verificationQueue: 'verification:queue',
+    run: (runId: string) => `run:${runId}`,
+    // Verified runs held by the abuse heuristics (sorted set of run IDs by submission time)
+    reviewQueue: 'verification:review_queue',
 
     // Counters
     sessionCounter: 'counters:session_id',
+    runCounter: 'counters:run_id',
     totalGamesCounter: 'counters:total_games',
   };
 
+  private static readonly VERIFY_RUNS_TASK = 'verify-runs';
+  private static readonly MAX_VERIFY_ATTEMPTS = 3;
+  private static readonly RUN_TTL_SECONDS = 60 * 60 * 24; // Finished run statuses are kept for a day
+  private static readonly RECENT_SESSION_SCAN = 50; // Sessions scanned when filtering by mode
+  private static readonly PLACEMENT_SEARCH_RADIUS = 3; // Cells searched around a taken cell
+
   /**
    * Generate a unique session ID
    */
@@ -99,57 +168,422 @@ export class GameDataService {
   }
 
   /**
-   * Save a completed game session
+   * Queue a completed game for verification. Every run must carry an unused run token
+   * issued for the same user, post, mode and seed; nothing is persisted beyond the queue
+   * entry until the worker has re-simulated the replay.
    */
-  static async saveGameSession(sessionRequest: SaveGameSessionRequest): Promise<{
-    sessionId: string;
-    bestSessionId: string;
-    isNewHighScore: boolean;
-    previousBestScore: number | null;
-    bestScore: number;
-    isNewPerfectStreak: boolean;
-    previousBestPerfectStreak: number | null;
-    bestPerfectStreak: number;
-  }> {
-    const { postId } = context;
+  static async submitRun(sessionRequest: SaveGameSessionRequest): Promise<SubmitRunResult> {
+    const { postId, subredditName } = context;
     if (!postId) {
       throw new Error('Post ID not found in context');
     }
 
     const { userId, username } = await this.getCurrentUser();
+
+    if (await ModerationService.isBanned(userId)) {
+      console.warn(`Rejected game session submission from banned user ${userId}`);
+      return { queued: false, reason: 'You have been banned from submitting towers' };
+    }
+
+    const tokenCheck = await RunTokenService.consumeRun(sessionRequest.runToken, {
+      userId,
+      postId,
+      mode: sessionRequest.sessionData.gameMode,
+      seed: sessionRequest.sessionData.seed,
+      levelId: sessionRequest.sessionData.puzzleLevelId,
+    });
+    if (!tokenCheck.valid) {
+      console.warn(`Rejected game session submission from ${userId}: ${tokenCheck.reason}`);
+      return { queued: false, reason: tokenCheck.reason };
+    }
+
+    const counter = await redis.incrBy(this.KEYS.runCounter, 1);
+    const submittedAt = Date.now();
+    const runId = `run_${submittedAt}_${counter}`;
+
+    await redis.hSet(this.KEYS.run(runId), {
+      status: 'queued',
+      request: JSON.stringify(sessionRequest),
+      userId,
+      username,
+      postId,
+      ...(subredditName && { subredditName }),
+      ...(tokenCheck.challengeDay && { challengeDay: tokenCheck.challengeDay }),
+      submittedAt: submittedAt.toString(),
+      attempts: '0',
+    });
+    await redis.zAdd(this.KEYS.verificationQueue, { member: runId, score: submittedAt });
+
+    // Ask for an immediate drain; the cron schedule picks the run up if this fails
+    try {
+      await scheduler.runJob({ name: this.VERIFY_RUNS_TASK, runAt: new Date() });
+    } catch (error) {
+      console.warn('submitRun: failed to schedule verification job', error);
+    }
+
+    return { queued: true, runId };
+  }
+
+  /**
+   * Current status of a run `userId` submitted, or null if it is unknown, has expired or
+   * belongs to someone else
+   */
+  static async getRunStatus(runId: string, userId: string): Promise<RunStatusRecord | null> {
+    const run = await redis.hGetAll(this.KEYS.run(runId));
+    if (!run || !run.status || run.userId !== userId) {
+      return null;
+    }
+
+    return {
+      runId,
+      status: run.status as RunStatus,
+      ...(run.verification && { verification: JSON.parse(run.verification) }),
+      ...(run.result && { result: JSON.parse(run.result) }),
+    };
+  }
+
+  /**
+   * Drain up to `limit` runs from the verification queue, oldest first. Each run is
+   * claimed by removing it from the queue so concurrent workers never verify it twice.
+   */
+  static async processVerificationQueue(limit: number = 5): Promise<number> {
+    const entries = await redis.zRange(this.KEYS.verificationQueue, 0, limit - 1, {
+      by: 'rank',
+    });
+
+    let processed = 0;
+    for (const entry of entries) {
+      const runId = typeof entry === 'string' ? entry : entry.member;
+      const claimed = await redis.zRem(this.KEYS.verificationQueue, [runId]);
+      if (!claimed) continue;
+
+      const run = await this.loadQueuedRun(runId);
+      if (!run) continue;
+
+      try {
+        await this.verifyQueuedRun(runId, run);
+      } catch (error) {
+        console.error(`processVerificationQueue: failed to verify ${runId}:`, error);
+        await this.retryOrRejectRun(runId, run);
+      }
+      processed++;
+    }
+
+    return processed;
+  }
+
+  private static async loadQueuedRun(
+    runId: string,
+    status: RunStatus = 'queued'
+  ): Promise<QueuedRun | null> {
+    const run = await redis.hGetAll(this.KEYS.run(runId));
+    if (!run || run.status !== status || !run.request || !run.userId || !run.postId) {
+      return null;
+    }
+
+    return {
+      request: JSON.parse(run.request) as SaveGameSessionRequest,
+      userId: run.userId,
+      username: run.username ?? run.userId,
+      postId: run.postId,
+      ...(run.subredditName && { subredditName: run.subredditName }),
+      ...(run.challengeDay && { challengeDay: run.challengeDay }),
+      submittedAt: Number(run.submittedAt) || Date.now(),
+      attempts: Number(run.attempts) || 0,
+    };
+  }
+
+  /**
+   * Re-simulate a queued run. Only runs that pass verification are stored and reach the
+   * leaderboards and tower map; the stored results are always the server-computed ones.
+   * Verified runs that look implausible are held for moderator review instead.
+   */
+  private static async verifyQueuedRun(runId: string, run: QueuedRun): Promise<void> {
+    const {
+      verification,
+      sessionData: verifiedData,
+      inputStats,
+    } = await ReplayVerifier.verify(run.request);
+
+    if (verification.status === 'rejected') {
+      console.warn(`Rejected run ${runId} from ${run.userId}:`, verification);
+      await this.finishRun(runId, { status: 'rejected', verification });
+      return;
+    }
+
+    // Stats are read before this run is folded in, so they describe the player's history
+    const { stats: history } = await this.getUserStats(
+      run.userId,
+      this.getSessionMode(verifiedData)
+    );
+    const flags = RunHeuristics.evaluate(verifiedData, inputStats, history);
+    if (flags.length > 0) {
+      console.warn(`Holding run ${runId} from ${run.userId} for review:`, flags);
+      await redis.hSet(this.KEYS.run(runId), {
+        status: 'flagged',
+        verification: JSON.stringify(verification),
+        verifiedData: JSON.stringify(verifiedData),
+        flags: JSON.stringify(flags),
+      });
+      await redis.zAdd(this.KEYS.reviewQueue, { member: runId, score: run.submittedAt });
+      return;
+    }
+
+    await this.publishRun(runId, run, verifiedData, verification);
+  }
+
+  /**
+   * Store a verified run and enter it into the leaderboards, stats and tower map
+   */
+  private static async publishRun(
+    runId: string,
+    run: QueuedRun,
+    verifiedData: SaveGameSessionRequest['sessionData'],
+    verification: ReplayVerification
+  ): Promise<void> {
+    const { userId, username, postId } = run;
     const sessionId = await this.generateSessionId();
 
+    // The server's own fields go last, so nothing in the submission can stand in for them
     const sessionData: GameSessionData = {
+      ...verifiedData,
       sessionId,
       userId,
       username,
       postId,
-      ...sessionRequest.sessionData,
+      subredditName: run.subredditName,
+      // Only the run token can make a run a daily attempt, whatever the submission claimed
+      challengeDay: run.challengeDay,
+      verification: verification.status,
     };
 
-    const timestamp = sessionData.endTime || Date.now();
+    const timestamp = sessionData.endTime || run.submittedAt;
 
     // First, save the core session data (most critical)
-    await this.saveCoreSessionData(sessionId, sessionData, userId, username, timestamp);
+    await this.saveCoreSessionData(
+      sessionId,
+      sessionData,
+      userId,
+      username,
+      timestamp,
+      run.request.replay
+    );
 
     // Then update leaderboards and other data (with retry logic)
+    // The post and community boards are the ones the run token and request context name
     const leaderboardResult = await this.updateLeaderboardsAndStats(
       sessionId,
       sessionData,
       userId,
       username,
-      timestamp
+      timestamp,
+      LeaderboardScopeService.getTargets(postId, run.subredditName)
     );
 
+    const result = await this.buildRunResult(sessionData, leaderboardResult);
+    await this.finishRun(runId, { status: verification.status, verification, result });
+  }
+
+  /**
+   * Runs held for review, oldest first
+   */
+  static async getReviewQueue(limit: number = 50): Promise<FlaggedRun[]> {
+    const entries = await redis.zRange(this.KEYS.reviewQueue, 0, limit - 1, { by: 'rank' });
+
+    const runs: FlaggedRun[] = [];
+    for (const entry of entries) {
+      const runId = typeof entry === 'string' ? entry : entry.member;
+      const run = await redis.hGetAll(this.KEYS.run(runId));
+      if (!run || run.status !== 'flagged' || !run.verifiedData || !run.userId) continue;
+
+      const verifiedData = JSON.parse(run.verifiedData) as SaveGameSessionRequest['sessionData'];
+      runs.push({
+        runId,
+        userId: run.userId,
+        username: run.username ?? run.userId,
+        gameMode: verifiedData.gameMode,
+        finalScore: verifiedData.finalScore,
+        blockCount: verifiedData.blockCount,
+        perfectStreakCount: verifiedData.perfectStreakCount,
+        flags: run.flags ? (JSON.parse(run.flags) as RunFlag[]) : [],
+        submittedAt: Number(run.submittedAt) || 0,
+      });
+    }
+
+    return runs;
+  }
+
+  /**
+   * Publish or reject a run held for review. Returns the run's new status, or null if it
+   * is not (or no longer) waiting for review.
+   */
+  static async reviewFlaggedRun(runId: string, approve: boolean): Promise<RunStatus | null> {
+    // Claim the run so two moderators can't both act on it
+    const claimed = await redis.zRem(this.KEYS.reviewQueue, [runId]);
+    if (!claimed) {
+      return null;
+    }
+
+    const run = await this.loadQueuedRun(runId, 'flagged');
+    const key = this.KEYS.run(runId);
+    const [verificationJson, verifiedDataJson] = await Promise.all([
+      redis.hGet(key, 'verification'),
+      redis.hGet(key, 'verifiedData'),
+    ]);
+    if (!run || !verificationJson || !verifiedDataJson) {
+      return null;
+    }
+
+    const verification = JSON.parse(verificationJson) as ReplayVerification;
+    if (!approve) {
+      await this.finishRun(runId, {
+        status: 'rejected',
+        verification: {
+          ...verification,
+          status: 'rejected',
+          reason: 'Rejected after moderator review',
+        },
+      });
+      return 'rejected';
+    }
+
+    const verifiedData = JSON.parse(verifiedDataJson) as SaveGameSessionRequest['sessionData'];
+    await this.publishRun(runId, run, verifiedData, verification);
+    return verification.status;
+  }
+
+  private static async retryOrRejectRun(runId: string, run: QueuedRun): Promise<void> {
+    const attempts = run.attempts + 1;
+
+    if (attempts >= this.MAX_VERIFY_ATTEMPTS) {
+      await this.finishRun(runId, { status: 'rejected' });
+      return;
+    }
+
+    await redis.hSet(this.KEYS.run(runId), { attempts: attempts.toString() });
+    await redis.zAdd(this.KEYS.verificationQueue, { member: runId, score: Date.now() });
+  }
+
+  /**
+   * Queued and flagged runs would otherwise publish into boards that were just cleared. Each
+   * one ends as rejected, so a player polling it isn't left waiting.
+   */
+  private static async discardPendingRuns(): Promise<void> {
+    for (const queue of [this.KEYS.verificationQueue, this.KEYS.reviewQueue]) {
+      const entries = await redis.zRange(queue, 0, -1, { by: 'rank' });
+      await redis.del(queue);
+      for (const entry of entries) {
+        const runId = typeof entry === 'string' ? entry : entry.member;
+        await this.finishRun(runId, { status: 'rejected' });
+      }
+    }
+  }
+
+  private static async finishRun(
+    runId: string,
+    outcome: { status: RunStatus; verification?: ReplayVerification; result?: RunResult }
+  ): Promise<void> {
+    const key = this.KEYS.run(runId);
+    await redis.hSet(key, {
+      status: outcome.status,
+      ...(outcome.verification && { verification: JSON.stringify(outcome.verification) }),
+      ...(outcome.result && { result: JSON.stringify(outcome.result) }),
+    });
+    await redis.hDel(key, ['request', 'verifiedData']);
+    await redis.expire(key, this.RUN_TTL_SECONDS);
+  }
+
+  /**
+   * Rank, improvement and personal-best summary for a freshly stored session. Also
+   * refreshes the post preview the legacy blocks UI reads.
+   */
+  private static async buildRunResult(
+    sessionData: GameSessionData,
+    leaderboardResult: LeaderboardUpdateResult
+  ): Promise<RunResult> {
+    const { sessionId, userId, username, postId } = sessionData;
+    const mode = this.getSessionMode(sessionData);
+    const puzzleLevel =
+      mode === 'puzzle' && sessionData.puzzleLevelId
+        ? PuzzleLevels.get(sessionData.puzzleLevelId)
+        : null;
+
+    // Get rank and grid status on the run's own mode leaderboard
+    const rankData = await this.getPlayerRank(userId, mode, leaderboardResult.bestSessionId);
+    const windowRanks: Partial<Record<LeaderboardRange, LeaderboardWindowRank>> = {};
+    for (const range of LeaderboardWindowService.RANGES) {
+      windowRanks[range] = await LeaderboardWindowService.getRank(userId, mode, range);
+    }
+
+    // Get user stats to check for improvement
+    const { stats, recentSessions } = await this.getUserStats(userId, mode);
+
+    // The preview also carries a compact top 3 of this post's board
+    const postBoard = LeaderboardScopeService.getBoardKeys({ scope: 'post', id: postId }, mode);
+    const postTopScores = await this.readHighScores(postBoard.highScores, 3);
+
+    const previewData = {
+      username,
+      highScore: stats?.highScore ?? sessionData.finalScore,
+      bestTowerHeight: stats?.bestTowerHeight ?? sessionData.blockCount,
+      perfectStreak: stats?.longestPerfectStreak ?? sessionData.maxCombo ?? 0,
+      ranking: rankData.rank,
+      gameMode: mode,
+      topPlayers: postTopScores.map((entry) => ({ username: entry.username, score: entry.score })),
+    };
+    await redis.set(`post:${postId}:preview`, JSON.stringify(previewData));
+
+    // Find previous best session (excluding current one)
+    let improvement: RunResult['improvement'] = undefined;
+    if (recentSessions.length > 1) {
+      // Get the previous session (second most recent)
+      const previousSession = recentSessions[1];
+      if (previousSession) {
+        improvement = {
+          lastScore: previousSession.finalScore,
+          lastBlocks: previousSession.blockCount,
+          lastPerfectStreak: previousSession.perfectStreakCount,
+        };
+      }
+    } else if (stats) {
+      // Use stats if no previous session found
+      const hasLastScore = stats.highScore !== sessionData.finalScore;
+      const hasLastBlocks = stats.bestTowerHeight !== sessionData.blockCount;
+
+      if (hasLastScore || hasLastBlocks) {
+        improvement = {
+          ...(hasLastScore && { lastScore: stats.highScore }),
+          ...(hasLastBlocks && { lastBlocks: stats.bestTowerHeight }),
+        };
+      }
+    }
+
     return {
       sessionId,
+      ...(rankData.rank !== null && { rank: rankData.rank }),
+      totalPlayers: rankData.totalPlayers,
+      madeTheGrid: rankData.madeTheGrid,
+      ...(rankData.scoreToGrid !== null && { scoreToGrid: rankData.scoreToGrid }),
+      ...(improvement && { improvement }),
+      personalBest: leaderboardResult.isNewHighScore,
       bestSessionId: leaderboardResult.bestSessionId,
-      isNewHighScore: leaderboardResult.isNewHighScore,
-      previousBestScore: leaderboardResult.previousBestScore,
       bestScore: leaderboardResult.bestScore,
-      isNewPerfectStreak: leaderboardResult.isNewPerfectStreak,
-      previousBestPerfectStreak: leaderboardResult.previousBestPerfectStreak,
+      ...(leaderboardResult.previousBestScore !== null && {
+        previousBestScore: leaderboardResult.previousBestScore,
+      }),
       bestPerfectStreak: leaderboardResult.bestPerfectStreak,
+      ...(leaderboardResult.previousBestPerfectStreak !== null && {
+        previousBestPerfectStreak: leaderboardResult.previousBestPerfectStreak,
+      }),
+      personalBestPerfectStreak: leaderboardResult.isNewPerfectStreak,
+      windowRanks,
+      ...(puzzleLevel && {
+        puzzleStars: PuzzleLevels.getStars(
+          puzzleLevel,
+          sessionData.finalScore,
+          sessionData.gameOverReason === 'complete'
+        ),
+      }),
     };
   }
 
@@ -161,7 +595,8 @@ export class GameDataService {
     sessionData: GameSessionData,
     userId: string,
     username: string,
-    timestamp: number
+    timestamp: number,
+    replay?: CompressedReplay
   ): Promise<void> {
     // Simple transaction for core data only
     const txn = await redis.watch(this.KEYS.session(sessionId));
@@ -178,6 +613,8 @@ export class GameDataService {
       maxCombo: (sessionData.maxCombo ?? 0).toString(),
       timestamp: timestamp.toString(),
       gameMode: sessionData.gameMode,
+      // Seed and drop ticks are enough to re-simulate the run for the replay viewer
+      ...(replay && { replay: JSON.stringify(replay) }),
     });
 
     // Add to user's session sorted set
@@ -197,22 +634,25 @@ export class GameDataService {
     sessionData: GameSessionData,
     userId: string,
     username: string,
-    timestamp: number
+    timestamp: number,
+    scopeTargets: ScopeTarget[]
   ): Promise<LeaderboardUpdateResult> {
     const maxRetries = 3;
     let retryCount = 0;
     let lastError: unknown = null;
 
+    const mode = this.getSessionMode(sessionData);
+
     while (retryCount < maxRetries) {
       try {
         const highScoreMemberKey = `${userId}:${sessionId}`;
-        const bestHighScoreSessionKey = this.KEYS.userBestHighScoreSession(userId);
+        const bestHighScoreSessionKey = this.KEYS.userBestHighScoreSession(userId, mode);
         const previousBestSessionId = await redis.get(bestHighScoreSessionKey);
 
         let previousBestScore: number | null = null;
         if (previousBestSessionId) {
           const storedScore = await redis.zScore(
-            this.KEYS.highScoreLeaderboard,
+            this.KEYS.highScoreLeaderboard(mode),
             `${userId}:${previousBestSessionId}`
           );
           if (storedScore !== null && storedScore !== undefined) {
@@ -225,19 +665,20 @@ export class GameDataService {
 
         if (isNewHighScore) {
           if (previousBestSessionId && previousBestSessionId !== sessionId) {
-            await redis.zRem(this.KEYS.highScoreLeaderboard, [
+            await redis.zRem(this.KEYS.highScoreLeaderboard(mode), [
               `${userId}:${previousBestSessionId}`,
             ]);
-            await redis.zRem(this.KEYS.towerMap, [previousBestSessionId]);
+            await redis.zRem(this.KEYS.towerMap(mode), [previousBestSessionId]);
+            await this.releaseTowerCell(previousBestSessionId);
             await redis.del(`tower:${previousBestSessionId}`);
           }
 
-          await redis.zAdd(this.KEYS.highScoreLeaderboard, {
+          await redis.zAdd(this.KEYS.highScoreLeaderboard(mode), {
             member: highScoreMemberKey,
             score: sessionData.finalScore,
           });
 
-          await redis.zAdd(this.KEYS.towerMap, {
+          await redis.zAdd(this.KEYS.towerMap(mode), {
             member: sessionId,
             score: sessionData.finalScore,
           });
@@ -269,13 +710,13 @@ export class GameDataService {
 
         // Perfect streak leaderboard (track personal best streak per user)
         const perfectMemberKey = `${userId}:${sessionId}`;
-        const bestPerfectSessionKey = this.KEYS.userBestPerfectStreakSession(userId);
+        const bestPerfectSessionKey = this.KEYS.userBestPerfectStreakSession(userId, mode);
         const previousBestPerfectSessionId = await redis.get(bestPerfectSessionKey);
 
         let previousBestPerfectStreak: number | null = null;
         if (previousBestPerfectSessionId) {
           const storedPerfect = await redis.zScore(
-            this.KEYS.perfectStreakLeaderboard,
+            this.KEYS.perfectStreakLeaderboard(mode),
             `${userId}:${previousBestPerfectSessionId}`
           );
           if (storedPerfect !== null && storedPerfect !== undefined) {
@@ -291,19 +732,19 @@ export class GameDataService {
 
         if (isNewPerfectStreak) {
           if (previousBestPerfectSessionId && previousBestPerfectSessionId !== sessionId) {
-            await redis.zRem(this.KEYS.perfectStreakLeaderboard, [
+            await redis.zRem(this.KEYS.perfectStreakLeaderboard(mode), [
               `${userId}:${previousBestPerfectSessionId}`,
             ]);
           }
 
-          await redis.zAdd(this.KEYS.perfectStreakLeaderboard, {
+          await redis.zAdd(this.KEYS.perfectStreakLeaderboard(mode), {
             member: perfectMemberKey,
             score: currentPerfectStreak,
           });
 
           await redis.set(bestPerfectSessionKey, sessionId);
         } else if (!previousBestPerfectSessionId && currentPerfectStreak > 0) {
-          await redis.zAdd(this.KEYS.perfectStreakLeaderboard, {
+          await redis.zAdd(this.KEYS.perfectStreakLeaderboard(mode), {
             member: perfectMemberKey,
             score: currentPerfectStreak,
           });
@@ -311,11 +752,40 @@ export class GameDataService {
         }
 
         // Track tower height leaderboard per session (historical)
-        await redis.zAdd(this.KEYS.towerHeightLeaderboard, {
+        await redis.zAdd(this.KEYS.towerHeightLeaderboard(mode), {
           member: `${userId}:${sessionId}`,
           score: sessionData.blockCount,
         });
 
+        // Daily and weekly boards keep their own per-window bests
+        await LeaderboardWindowService.recordSession(
+          sessionId,
+          userId,
+          mode,
+          sessionData.finalScore,
+          currentPerfectStreak
+        );
+
+        // So do the boards of the post and community the run was played in
+        await LeaderboardScopeService.recordSession(
+          sessionId,
+          userId,
+          mode,
+          sessionData.finalScore,
+          currentPerfectStreak,
+          scopeTargets
+        );
+
+        // Daily challenge attempts also go on their day's board
+        if (sessionData.challengeDay) {
+          await DailyChallengeService.recordSession(
+            sessionData.challengeDay,
+            userId,
+            sessionId,
+            sessionData.finalScore
+          );
+        }
+
         // Increment total games counter
         await redis.incrBy(this.KEYS.totalGamesCounter, 1);
 
@@ -358,6 +828,67 @@ export class GameDataService {
     };
   }
 
+  /**
+   * Game mode a stored session is ranked under; anything unrecognised counts as classic
+   */
+  private static getSessionMode(sessionData: Pick<GameSessionData, 'gameMode'>): GameMode {
+    return GAME_MODES.find((candidate) => candidate === sessionData.gameMode) ?? 'classic';
+  }
+
+  /**
+   * Fold a puzzle run into the user's per-level progress, keeping the best score and stars
+   */
+  private static mergePuzzleProgress(
+    progress: UserStats['puzzleProgress'],
+    sessionData: GameSessionData
+  ): Pick<UserStats, 'puzzleProgress'> {
+    const level =
+      sessionData.gameMode === 'puzzle' && sessionData.puzzleLevelId
+        ? PuzzleLevels.get(sessionData.puzzleLevelId)
+        : null;
+    if (!level) {
+      return progress ? { puzzleProgress: progress } : {};
+    }
+
+    const completed = sessionData.gameOverReason === 'complete';
+    const stars = PuzzleLevels.getStars(level, sessionData.finalScore, completed);
+    const previous = progress?.[level.id];
+    const completedAt = sessionData.endTime || Date.now();
+    const firstCompletedAt = previous?.firstCompletedAt ?? (completed ? completedAt : undefined);
+
+    const levelProgress: PuzzleLevelProgress = {
+      bestScore: Math.max(previous?.bestScore ?? 0, sessionData.finalScore),
+      stars: Math.max(previous?.stars ?? 0, stars),
+      completed: (previous?.completed ?? false) || completed,
+      ...(firstCompletedAt !== undefined && { firstCompletedAt }),
+    };
+
+    return { puzzleProgress: { ...progress, [level.id]: levelProgress } };
+  }
+
+  /**
+   * Extend the user's daily challenge streak with a verified daily attempt. Playing the day
+   * after the last attempt continues the streak; a missed day starts a new one.
+   */
+  private static mergeDailyStreak(
+    stats: UserStats,
+    sessionData: GameSessionData
+  ): Pick<UserStats, 'dailyStreak' | 'longestDailyStreak' | 'lastDailyChallenge'> {
+    const day = sessionData.challengeDay;
+    if (!day || stats.lastDailyChallenge === day) {
+      return {};
+    }
+
+    const previousDay = DailyChallengeService.getPreviousChallenge(day).day;
+    const dailyStreak = stats.lastDailyChallenge === previousDay ? (stats.dailyStreak ?? 0) + 1 : 1;
+
+    return {
+      dailyStreak,
+      longestDailyStreak: Math.max(stats.longestDailyStreak ?? 0, dailyStreak),
+      lastDailyChallenge: day,
+    };
+  }
+
   /**
    * Update user statistics atomically
    */
@@ -366,7 +897,8 @@ export class GameDataService {
     username: string,
     sessionData: GameSessionData
   ): Promise<void> {
-    const statsKey = this.KEYS.userStats(userId);
+    const mode = this.getSessionMode(sessionData);
+    const statsKey = this.KEYS.userStats(userId, mode);
     const maxRetries = 3;
     let retryCount = 0;
 
@@ -385,6 +917,7 @@ export class GameDataService {
           currentStats = {
             userId,
             username,
+            gameMode: mode,
             totalGames: 0,
             highScore: 0,
             bestTowerHeight: 0,
@@ -412,6 +945,8 @@ export class GameDataService {
           totalPerfectBlocks: currentStats.totalPerfectBlocks + sessionData.perfectStreakCount,
           averageScore: Math.round(newTotalScore / newTotalGames),
           lastPlayed: sessionData.endTime || Date.now(),
+          ...this.mergePuzzleProgress(currentStats.puzzleProgress, sessionData),
+          ...this.mergeDailyStreak(currentStats, sessionData),
         };
 
         // Execute atomic update
@@ -441,9 +976,12 @@ export class GameDataService {
   }
 
   /**
-   * Get user statistics and recent sessions
+   * Get user statistics and recent sessions for one game mode
    */
-  static async getUserStats(targetUserId?: string): Promise<{
+  static async getUserStats(
+    targetUserId?: string,
+    mode: GameMode = 'classic'
+  ): Promise<{
     stats: UserStats | null;
     recentSessions: GameSessionData[];
   }> {
@@ -451,22 +989,32 @@ export class GameDataService {
       const { userId } = targetUserId ? { userId: targetUserId } : await this.getCurrentUser();
 
       // Get user stats
-      const statsData = await redis.hGet(this.KEYS.userStats(userId), 'data');
+      const statsData = await redis.hGet(this.KEYS.userStats(userId, mode), 'data');
       const stats = statsData ? (JSON.parse(statsData) as UserStats) : null;
 
-      // Get recent sessions (last 10 sessions by timestamp)
-      const sessionEntries = await redis.zRange(this.KEYS.userSessions(userId), 0, 9, {
-        reverse: true,
-        by: 'rank',
-      });
+      // Get recent sessions (last 10 sessions of this mode by timestamp). The session list
+      // spans every mode, so scan a wider window and keep the matching ones.
+      const sessionEntries = await redis.zRange(
+        this.KEYS.userSessions(userId),
+        0,
+        this.RECENT_SESSION_SCAN - 1,
+        {
+          reverse: true,
+          by: 'rank',
+        }
+      );
       const recentSessions: GameSessionData[] = [];
 
       for (const entry of sessionEntries) {
         const sessionId = typeof entry === 'string' ? entry : entry.member;
         const sessionData = await redis.hGet(this.KEYS.session(sessionId), 'data');
         if (sessionData) {
-          recentSessions.push(JSON.parse(sessionData));
+          const session = JSON.parse(sessionData) as GameSessionData;
+          if (this.getSessionMode(session) === mode) {
+            recentSessions.push(session);
+          }
         }
+        if (recentSessions.length >= 10) break;
       }
 
       return { stats, recentSessions };
@@ -483,13 +1031,14 @@ export class GameDataService {
   static async getTowerMap(
     limit: number = 100,
     offset: number = 0,
-    bounds?: { minX: number; maxX: number; minZ: number; maxZ: number }
+    bounds?: { minX: number; maxX: number; minZ: number; maxZ: number },
+    mode: GameMode = 'classic'
   ): Promise<{
     towers: TowerMapEntry[];
     totalCount: number;
   }> {
     // Get top towers by score
-    const towerIds = await redis.zRange(this.KEYS.towerMap, offset, offset + limit - 1, {
+    const towerIds = await redis.zRange(this.KEYS.towerMap(mode), offset, offset + limit - 1, {
       reverse: true,
       by: 'rank',
     });
@@ -503,6 +1052,11 @@ export class GameDataService {
       if (towerData) {
         const tower = JSON.parse(towerData) as TowerMapEntry;
 
+        // Towers hidden by a moderator stay ranked but are left off the map
+        if (await ModerationService.isTowerHidden(towerId)) {
+          continue;
+        }
+
         if (tower.userId) {
           if (seenUsers.has(tower.userId)) {
             continue;
@@ -529,83 +1083,513 @@ export class GameDataService {
       }
     }
 
-    const totalCount = await redis.zCard(this.KEYS.towerMap);
+    const totalCount = await redis.zCard(this.KEYS.towerMap(mode));
 
     return { towers, totalCount };
   }
 
   /**
-   * Update tower placement coordinates
+   * Move a tower to a grid cell. Only the tower's owner may move it, only while it is on the
+   * tower map, and if another tower holds the cell the nearest free one is claimed instead. Cells are claimed with HSETNX on
+   * the mode's occupancy hash, so two concurrent moves can never land on the same cell.
    */
   static async updateTowerPlacement(
     sessionId: string,
-    worldX: number,
-    worldZ: number,
+    userId: string,
     gridX: number,
     gridZ: number
-  ): Promise<boolean> {
-    try {
-      // Get existing tower data
-      const towerData = await redis.hGet(`tower:${sessionId}`, 'data');
-      if (!towerData) {
-        throw new Error('Tower not found');
+  ): Promise<TowerPlacementResult> {
+    const towerData = await redis.hGet(`tower:${sessionId}`, 'data');
+    if (!towerData) {
+      return { status: 'not_found' };
+    }
+
+    const towerEntry: TowerMapEntry = JSON.parse(towerData);
+    if (towerEntry.userId !== userId) {
+      return { status: 'not_owner' };
+    }
+    if (!this.isCellOnGrid(gridX, gridZ)) {
+      return { status: 'out_of_bounds' };
+    }
+
+    // Only towers on the map hold cells; the user's other runs have no place on the grid
+    const mode = this.getTowerMode(towerEntry);
+    const mapScore = await redis.zScore(this.KEYS.towerMap(mode), sessionId);
+    if (mapScore === undefined || mapScore === null) {
+      return { status: 'not_on_map' };
+    }
+
+    const cellsKey = this.KEYS.towerCells(mode);
+    const cell = await this.claimNearestCell(cellsKey, sessionId, gridX, gridZ);
+    if (!cell) {
+      return { status: 'no_free_cell' };
+    }
+
+    // Free the cell the tower held before
+    if (
+      typeof towerEntry.gridX === 'number' &&
+      typeof towerEntry.gridZ === 'number' &&
+      (towerEntry.gridX !== cell.x || towerEntry.gridZ !== cell.z)
+    ) {
+      await this.releaseCell(cellsKey, sessionId, towerEntry.gridX, towerEntry.gridZ);
+      await this.unindexTowerChunk(mode, sessionId, towerEntry.gridX, towerEntry.gridZ);
+    }
+
+    const placement: TowerCellAssignment = {
+      gridX: cell.x,
+      gridZ: cell.z,
+      ...getCellCenter(cell.x, cell.z),
+    };
+
+    await redis.hSet(`tower:${sessionId}`, {
+      data: JSON.stringify({ ...towerEntry, ...placement }),
+    });
+    await this.indexTowerChunk(mode, sessionId, cell.x, cell.z, mapScore);
+
+    return { status: 'placed', placement };
+  }
+
+  /**
+   * Towers the server has placed in one chunk of the grid, best first. Towers that never
+   * claimed a cell are not indexed and are only listed by `getTowerMap`.
+   */
+  static async getTowerChunk(
+    chunkX: number,
+    chunkZ: number,
+    mode: GameMode = 'classic'
+  ): Promise<TowerMapEntry[]> {
+    const towerIds = await redis.zRange(this.KEYS.towerChunk(mode, chunkX, chunkZ), 0, -1, {
+      reverse: true,
+      by: 'rank',
+    });
+
+    const towers: TowerMapEntry[] = [];
+    for (const towerEntry of towerIds) {
+      const towerId = typeof towerEntry === 'string' ? towerEntry : towerEntry.member;
+      const towerData = await redis.hGet(`tower:${towerId}`, 'data');
+      if (!towerData || (await ModerationService.isTowerHidden(towerId))) {
+        continue;
       }
+      towers.push(JSON.parse(towerData) as TowerMapEntry);
+    }
 
-      const towerEntry: TowerMapEntry = JSON.parse(towerData);
+    return towers;
+  }
 
-      // Update coordinates
-      towerEntry.worldX = worldX;
-      towerEntry.worldZ = worldZ;
-      towerEntry.gridX = gridX;
-      towerEntry.gridZ = gridZ;
+  private static async indexTowerChunk(
+    mode: GameMode,
+    sessionId: string,
+    gridX: number,
+    gridZ: number,
+    score: number
+  ): Promise<void> {
+    const { chunkX, chunkZ } = getCellChunk(gridX, gridZ);
+    await redis.zAdd(this.KEYS.towerChunk(mode, chunkX, chunkZ), { member: sessionId, score });
+  }
 
-      // Save updated data
-      await redis.hSet(`tower:${sessionId}`, {
-        data: JSON.stringify(towerEntry),
-      });
+  private static async unindexTowerChunk(
+    mode: GameMode,
+    sessionId: string,
+    gridX: number,
+    gridZ: number
+  ): Promise<void> {
+    const { chunkX, chunkZ } = getCellChunk(gridX, gridZ);
+    await redis.zRem(this.KEYS.towerChunk(mode, chunkX, chunkZ), [sessionId]);
+  }
 
-      return true;
-    } catch (error) {
-      console.error('Failed to update tower placement:', error);
+  // Every chunk key of a mode's grid, for wiping the chunk index
+  private static getChunkKeys(mode: GameMode): string[] {
+    const min = getCellChunk(-TOWER_GRID.gridRadius, -TOWER_GRID.gridRadius);
+    const max = getCellChunk(TOWER_GRID.gridRadius, TOWER_GRID.gridRadius);
+    const keys: string[] = [];
+    for (let chunkX = min.chunkX; chunkX <= max.chunkX; chunkX++) {
+      for (let chunkZ = min.chunkZ; chunkZ <= max.chunkZ; chunkZ++) {
+        keys.push(this.KEYS.towerChunk(mode, chunkX, chunkZ));
+      }
+    }
+    return keys;
+  }
+
+  /**
+   * Claim the requested cell, or failing that the closest free cell within
+   * PLACEMENT_SEARCH_RADIUS. A cell the tower already holds counts as claimed.
+   */
+  private static async claimNearestCell(
+    cellsKey: string,
+    sessionId: string,
+    gridX: number,
+    gridZ: number
+  ): Promise<{ x: number; z: number } | null> {
+    const radius = this.PLACEMENT_SEARCH_RADIUS;
+    const candidates: Array<{ x: number; z: number }> = [];
+    for (let x = gridX - radius; x <= gridX + radius; x++) {
+      for (let z = gridZ - radius; z <= gridZ + radius; z++) {
+        if (this.isCellOnGrid(x, z)) {
+          candidates.push({ x, z });
+        }
+      }
+    }
+    candidates.sort(
+      (a, b) => (a.x - gridX) ** 2 + (a.z - gridZ) ** 2 - ((b.x - gridX) ** 2 + (b.z - gridZ) ** 2)
+    );
+
+    for (const candidate of candidates) {
+      const cellId = `${candidate.x},${candidate.z}`;
+      if ((await redis.hSetNX(cellsKey, cellId, sessionId)) === 1) {
+        return candidate;
+      }
+      if ((await redis.hGet(cellsKey, cellId)) === sessionId) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  private static async releaseCell(
+    cellsKey: string,
+    sessionId: string,
+    gridX: number,
+    gridZ: number
+  ): Promise<void> {
+    const cellId = `${gridX},${gridZ}`;
+    // Only the holder can release a cell, and nobody else can claim it while it is held
+    if ((await redis.hGet(cellsKey, cellId)) === sessionId) {
+      await redis.hDel(cellsKey, [cellId]);
+    }
+  }
+
+  /**
+   * Free the cell a stored tower occupies, if it was ever placed, and drop it from the
+   * chunk index
+   */
+  private static async releaseTowerCell(sessionId: string): Promise<void> {
+    const towerData = await redis.hGet(`tower:${sessionId}`, 'data');
+    if (!towerData) return;
+
+    const towerEntry: TowerMapEntry = JSON.parse(towerData);
+    if (typeof towerEntry.gridX === 'number' && typeof towerEntry.gridZ === 'number') {
+      const mode = this.getTowerMode(towerEntry);
+      await this.releaseCell(
+        this.KEYS.towerCells(mode),
+        sessionId,
+        towerEntry.gridX,
+        towerEntry.gridZ
+      );
+      await this.unindexTowerChunk(mode, sessionId, towerEntry.gridX, towerEntry.gridZ);
+    }
+  }
+
+  /**
+   * Put a tower that is back on the map into its old cell, or the nearest free one, and
+   * back into the chunk index
+   */
+  private static async reclaimTowerCell(sessionId: string, score: number): Promise<void> {
+    const towerData = await redis.hGet(`tower:${sessionId}`, 'data');
+    if (!towerData) return;
+
+    const towerEntry: TowerMapEntry = JSON.parse(towerData);
+    if (typeof towerEntry.gridX !== 'number' || typeof towerEntry.gridZ !== 'number') return;
+
+    const mode = this.getTowerMode(towerEntry);
+    const cell = await this.claimNearestCell(
+      this.KEYS.towerCells(mode),
+      sessionId,
+      towerEntry.gridX,
+      towerEntry.gridZ
+    );
+    if (!cell) return;
+
+    const placement: TowerCellAssignment = {
+      gridX: cell.x,
+      gridZ: cell.z,
+      ...getCellCenter(cell.x, cell.z),
+    };
+    await redis.hSet(`tower:${sessionId}`, {
+      data: JSON.stringify({ ...towerEntry, ...placement }),
+    });
+    await this.indexTowerChunk(mode, sessionId, cell.x, cell.z, score);
+  }
+
+  private static isCellOnGrid(gridX: number, gridZ: number): boolean {
+    return (
+      Number.isInteger(gridX) &&
+      Number.isInteger(gridZ) &&
+      Math.abs(gridX) <= TOWER_GRID.gridRadius &&
+      Math.abs(gridZ) <= TOWER_GRID.gridRadius
+    );
+  }
+
+  private static getTowerMode(towerEntry: TowerMapEntry): GameMode {
+    return GAME_MODES.find((candidate) => candidate === towerEntry.gameMode) ?? 'classic';
+  }
+
+  /**
+   * Strike a stored run from its mode's all-time leaderboards and tower map, and from its
+   * post, community and open daily/weekly boards. The session and tower entries are kept so
+   * the strike can be undone with `restoreSession`.
+   */
+  static async strikeSession(sessionId: string): Promise<boolean> {
+    const sessionData = await this.getGameSession(sessionId);
+    if (!sessionData) {
       return false;
     }
+
+    const userId = await this.getSessionOwner(sessionId, sessionData);
+    const mode = this.getSessionMode(sessionData);
+    const member = `${userId}:${sessionId}`;
+
+    await redis.zRem(this.KEYS.highScoreLeaderboard(mode), [member]);
+    await redis.zRem(this.KEYS.perfectStreakLeaderboard(mode), [member]);
+    await redis.zRem(this.KEYS.towerHeightLeaderboard(mode), [member]);
+    await redis.zRem(this.KEYS.towerMap(mode), [sessionId]);
+    await this.releaseTowerCell(sessionId);
+
+    await LeaderboardWindowService.removeSessions(userId, [sessionId]);
+    for (const target of LeaderboardScopeService.getTargets(
+      sessionData.postId,
+      sessionData.subredditName
+    )) {
+      const keys = LeaderboardScopeService.getBoardKeys(target, mode);
+      await LeaderboardWindowService.removeFromBoard(keys.highScores, userId, [sessionId]);
+      await LeaderboardWindowService.removeFromBoard(keys.perfectStreaks, userId, [sessionId]);
+    }
+
+    if (sessionData.challengeDay) {
+      await LeaderboardWindowService.removeFromBoard(
+        DailyChallengeService.getBoardKey(sessionData.challengeDay),
+        userId,
+        [sessionId]
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Put a struck run back on the all-time, post, community and daily challenge boards, where
+   * it again only counts if it beats the user's current best. Daily and weekly windows are not
+   * restored, since the run's window may already have been archived.
+   */
+  static async restoreSession(sessionId: string): Promise<boolean> {
+    const sessionData = await this.getGameSession(sessionId);
+    if (!sessionData) {
+      return false;
+    }
+
+    const userId = await this.getSessionOwner(sessionId, sessionData);
+    const mode = this.getSessionMode(sessionData);
+    const member = `${userId}:${sessionId}`;
+    const perfectStreak = sessionData.maxCombo ?? 0;
+
+    await this.restoreUserBest(
+      this.KEYS.highScoreLeaderboard(mode),
+      this.KEYS.userBestHighScoreSession(userId, mode),
+      userId,
+      sessionId,
+      sessionData.finalScore,
+      this.KEYS.towerMap(mode)
+    );
+
+    if (perfectStreak > 0) {
+      await this.restoreUserBest(
+        this.KEYS.perfectStreakLeaderboard(mode),
+        this.KEYS.userBestPerfectStreakSession(userId, mode),
+        userId,
+        sessionId,
+        perfectStreak
+      );
+    }
+
+    await redis.zAdd(this.KEYS.towerHeightLeaderboard(mode), {
+      member,
+      score: sessionData.blockCount,
+    });
+
+    await LeaderboardScopeService.recordSession(
+      sessionId,
+      userId,
+      mode,
+      sessionData.finalScore,
+      perfectStreak,
+      LeaderboardScopeService.getTargets(sessionData.postId, sessionData.subredditName)
+    );
+
+    if (sessionData.challengeDay) {
+      await DailyChallengeService.recordSession(
+        sessionData.challengeDay,
+        userId,
+        sessionId,
+        sessionData.finalScore
+      );
+    }
+
+    return true;
   }
 
   /**
-   * Get leaderboards
+   * Re-enter a session on an all-time board if it beats the user's current entry there,
+   * replacing that entry and moving the best-session pointer. High scores also swap the
+   * user's tower map slot, as long as the restored run's tower entry still exists.
    */
-  static async getLeaderboards(limit: number = 10): Promise<{
-    highScores: Array<{
-      userId: string;
-      username: string;
-      score: number;
-      blockCount: number;
-      timestamp: number;
-      sessionId: string;
-    }>;
-    perfectStreaks: Array<{
-      userId: string;
-      username: string;
-      perfectStreak: number;
-      score: number;
-      timestamp: number;
-      sessionId: string;
-    }>;
+  private static async restoreUserBest(
+    boardKey: string,
+    bestSessionKey: string,
+    userId: string,
+    sessionId: string,
+    value: number,
+    towerMapKey?: string
+  ): Promise<void> {
+    const currentBestSessionId = await redis.get(bestSessionKey);
+    if (currentBestSessionId && currentBestSessionId !== sessionId) {
+      const currentMember = `${userId}:${currentBestSessionId}`;
+      const currentValue = await redis.zScore(boardKey, currentMember);
+      if (currentValue !== null && currentValue !== undefined && currentValue >= value) {
+        return;
+      }
+
+      await redis.zRem(boardKey, [currentMember]);
+      if (towerMapKey) {
+        await redis.zRem(towerMapKey, [currentBestSessionId]);
+        await this.releaseTowerCell(currentBestSessionId);
+      }
+    }
+
+    await redis.zAdd(boardKey, { member: `${userId}:${sessionId}`, score: value });
+    await redis.set(bestSessionKey, sessionId);
+
+    if (towerMapKey && (await redis.hGet(`tower:${sessionId}`, 'data'))) {
+      await redis.zAdd(towerMapKey, { member: sessionId, score: value });
+      await this.reclaimTowerCell(sessionId, value);
+    }
+  }
+
+  /**
+   * Get the leaderboards for one game mode, either all-time or for the current daily or
+   * weekly window. Passing a post or community target reads its all-time board instead of
+   * the install-wide one.
+   */
+  static async getLeaderboards(
+    limit: number = 10,
+    mode: GameMode = 'classic',
+    range: LeaderboardRange = 'all_time',
+    target?: ScopeTarget
+  ): Promise<{
+    highScores: HighScoreEntry[];
+    perfectStreaks: PerfectStreakEntry[];
+    window?: LeaderboardWindow;
   }> {
+    if (target) {
+      if (range !== 'all_time') {
+        throw new Error('Post and community leaderboards are all-time only');
+      }
+
+      const keys = LeaderboardScopeService.getBoardKeys(target, mode);
+      return {
+        highScores: await this.readHighScores(keys.highScores, limit),
+        perfectStreaks: await this.readPerfectStreaks(keys.perfectStreaks, limit),
+      };
+    }
+
+    if (range === 'all_time') {
+      return {
+        highScores: await this.readHighScores(this.KEYS.highScoreLeaderboard(mode), limit),
+        perfectStreaks: await this.readPerfectStreaks(
+          this.KEYS.perfectStreakLeaderboard(mode),
+          limit
+        ),
+      };
+    }
+
+    const window = LeaderboardWindowService.getWindow(range);
+    const keys = LeaderboardWindowService.getBoardKeys(mode, window);
+    return {
+      highScores: await this.readHighScores(keys.highScores, limit),
+      perfectStreaks: await this.readPerfectStreaks(keys.perfectStreaks, limit),
+      window,
+    };
+  }
+
+  /**
+   * Top entries of a daily challenge board
+   */
+  static async getDailyLeaderboard(day: string, limit: number = 10): Promise<HighScoreEntry[]> {
+    return this.readHighScores(DailyChallengeService.getBoardKey(day), limit);
+  }
+
+  /**
+   * Today's challenge as seen by the current user: whether their attempt is used, their
+   * streak and the top of today's board
+   */
+  static async getDailyChallengeStatus(now: number = Date.now()): Promise<{
+    challenge: DailyChallenge;
+    attempted: boolean;
+    streak: number;
+    longestStreak: number;
+    rank: LeaderboardWindowRank;
+    highScores: HighScoreEntry[];
+  }> {
+    const challenge = DailyChallengeService.getChallenge(now);
+    const { userId } = await this.getCurrentUser();
+    const { stats } = await this.getUserStats(userId, DailyChallengeService.MODE);
+
+    // A streak is only current while its last day is today or yesterday
+    const lastDay = stats?.lastDailyChallenge;
+    const isCurrent =
+      lastDay === challenge.day ||
+      lastDay === DailyChallengeService.getPreviousChallenge(challenge.day).day;
+
+    return {
+      challenge,
+      attempted: await DailyChallengeService.hasAttempted(challenge.day, userId),
+      streak: isCurrent ? (stats?.dailyStreak ?? 0) : 0,
+      longestStreak: stats?.longestDailyStreak ?? 0,
+      rank: await LeaderboardWindowService.getBoardRank(
+        DailyChallengeService.getBoardKey(challenge.day),
+        userId
+      ),
+      highScores: await this.getDailyLeaderboard(challenge.day),
+    };
+  }
+
+  /**
+   * Archive every daily and weekly window that has closed. Run by the rollover scheduler job.
+   */
+  static async rolloverLeaderboardWindows(now: number = Date.now()): Promise<number> {
+    const expired = await LeaderboardWindowService.getExpiredWindows(now);
+
+    for (const { mode, window } of expired) {
+      const keys = LeaderboardWindowService.getBoardKeys(mode, window);
+      const limit = LeaderboardWindowService.ARCHIVE_SIZE;
+      await LeaderboardWindowService.archiveWindow(
+        mode,
+        window,
+        await this.readHighScores(keys.highScores, limit),
+        await this.readPerfectStreaks(keys.perfectStreaks, limit)
+      );
+    }
+
+    return expired.length;
+  }
+
+  /**
+   * Top high score entries of a leaderboard sorted set (members are `${userId}:${sessionId}`)
+   */
+  private static async readHighScores(key: string, limit: number): Promise<HighScoreEntry[]> {
     // Get high scores - use separate calls for members and scores
-    const highScoreMembers = await redis.zRange(this.KEYS.highScoreLeaderboard, 0, limit - 1, {
+    const highScoreMembers = await redis.zRange(key, 0, limit - 1, {
       reverse: true,
       by: 'rank',
     });
 
-    const highScores = [];
+    const highScores: HighScoreEntry[] = [];
     for (const memberEntry of highScoreMembers) {
       const member = typeof memberEntry === 'string' ? memberEntry : memberEntry.member;
       const [userId, sessionId] = member.split(':');
 
       if (userId && sessionId) {
         // Get the score for this member
-        const score = await redis.zScore(this.KEYS.highScoreLeaderboard, member);
+        const score = await redis.zScore(key, member);
         const sessionData = await redis.hGet(this.KEYS.session(sessionId), 'data');
 
         if (sessionData && score !== null && score !== undefined) {
@@ -622,25 +1606,30 @@ export class GameDataService {
       }
     }
 
+    return highScores;
+  }
+
+  /**
+   * Top perfect streak entries of a leaderboard sorted set
+   */
+  private static async readPerfectStreaks(
+    key: string,
+    limit: number
+  ): Promise<PerfectStreakEntry[]> {
     // Get perfect streaks - use separate calls for members and scores
-    const perfectStreakMembers = await redis.zRange(
-      this.KEYS.perfectStreakLeaderboard,
-      0,
-      limit - 1,
-      {
-        reverse: true,
-        by: 'rank',
-      }
-    );
+    const perfectStreakMembers = await redis.zRange(key, 0, limit - 1, {
+      reverse: true,
+      by: 'rank',
+    });
 
-    const perfectStreaks = [];
+    const perfectStreaks: PerfectStreakEntry[] = [];
     for (const memberEntry of perfectStreakMembers) {
       const member = typeof memberEntry === 'string' ? memberEntry : memberEntry.member;
       const [userId, sessionId] = member.split(':');
 
       if (userId && sessionId) {
         // Get the score for this member
-        const perfectStreak = await redis.zScore(this.KEYS.perfectStreakLeaderboard, member);
+        const perfectStreak = await redis.zScore(key, member);
         const sessionData = await redis.hGet(this.KEYS.session(sessionId), 'data');
 
         if (sessionData && perfectStreak !== null && perfectStreak !== undefined) {
@@ -657,7 +1646,7 @@ export class GameDataService {
       }
     }
 
-    return { highScores, perfectStreaks };
+    return perfectStreaks;
   }
 
   /**
@@ -669,11 +1658,31 @@ export class GameDataService {
   }
 
   /**
-   * Get player's rank in the high score leaderboard
+   * The user a session was published for, as the server recorded it next to the session data.
+   * Board members are keyed by this id, whatever the stored session data says.
+   */
+  private static async getSessionOwner(
+    sessionId: string,
+    sessionData: GameSessionData
+  ): Promise<string> {
+    return (await redis.hGet(this.KEYS.session(sessionId), 'userId')) ?? sessionData.userId;
+  }
+
+  /**
+   * Compressed replay stored with a session; sessions saved before replays were kept have none
+   */
+  static async getSessionReplay(sessionId: string): Promise<CompressedReplay | null> {
+    const replay = await redis.hGet(this.KEYS.session(sessionId), 'replay');
+    return replay ? JSON.parse(replay) : null;
+  }
+
+  /**
+   * Get player's rank in a mode's high score leaderboard
    * Returns rank (1-based) if in top 50, otherwise returns null
    */
   static async getPlayerRank(
     userId: string,
+    mode: GameMode,
     sessionId?: string
   ): Promise<{
     rank: number | null;
@@ -683,10 +1692,10 @@ export class GameDataService {
   }> {
     const GRID_LIMIT = 50; // Top 50 make it to the grid
     const bestSessionId =
-      sessionId ?? (await redis.get(this.KEYS.userBestHighScoreSession(userId)));
+      sessionId ?? (await redis.get(this.KEYS.userBestHighScoreSession(userId, mode)));
 
     if (!bestSessionId) {
-      const totalPlayers = await redis.zCard(this.KEYS.highScoreLeaderboard);
+      const totalPlayers = await redis.zCard(this.KEYS.highScoreLeaderboard(mode));
 
       return {
         rank: null,
@@ -699,7 +1708,7 @@ export class GameDataService {
     const member = `${userId}:${bestSessionId}`;
 
     // Get all members in reverse order to find rank
-    const allMembers = await redis.zRange(this.KEYS.highScoreLeaderboard, 0, -1, {
+    const allMembers = await redis.zRange(this.KEYS.highScoreLeaderboard(mode), 0, -1, {
       reverse: true,
       by: 'rank',
     });
@@ -717,7 +1726,7 @@ export class GameDataService {
     }
 
     // Get total number of players
-    const totalPlayers = await redis.zCard(this.KEYS.highScoreLeaderboard);
+    const totalPlayers = await redis.zCard(this.KEYS.highScoreLeaderboard(mode));
 
     let madeTheGrid = false;
     let scoreToGrid: number | null = null;
@@ -731,7 +1740,7 @@ export class GameDataService {
       // If didn't make the grid, calculate score needed
       if (!madeTheGrid) {
         // Get the 50th place score (index 49)
-        const gridEdgeMembers = await redis.zRange(this.KEYS.highScoreLeaderboard, 49, 49, {
+        const gridEdgeMembers = await redis.zRange(this.KEYS.highScoreLeaderboard(mode), 49, 49, {
           reverse: true,
           by: 'rank',
         });
@@ -739,11 +1748,14 @@ export class GameDataService {
         if (gridEdgeMembers.length > 0 && gridEdgeMembers[0]) {
           const gridEdgeMember =
             typeof gridEdgeMembers[0] === 'string' ? gridEdgeMembers[0] : gridEdgeMembers[0].member;
-          const gridEdgeScore = await redis.zScore(this.KEYS.highScoreLeaderboard, gridEdgeMember);
+          const gridEdgeScore = await redis.zScore(
+            this.KEYS.highScoreLeaderboard(mode),
+            gridEdgeMember
+          );
 
           if (gridEdgeScore !== null && gridEdgeScore !== undefined) {
             // Get player's score
-            const playerScore = await redis.zScore(this.KEYS.highScoreLeaderboard, member);
+            const playerScore = await redis.zScore(this.KEYS.highScoreLeaderboard(mode), member);
             if (playerScore !== null && playerScore !== undefined) {
               scoreToGrid = Math.max(0, Math.ceil(gridEdgeScore - playerScore) + 1);
             }
@@ -767,34 +1779,45 @@ export class GameDataService {
   static async clearAllTowers(): Promise<void> {
     try {
       // Get all the data we need to delete (with error handling)
-      let towerIds: any[] = [];
-      let highScoreMembers: any[] = [];
-
-      try {
-        towerIds = await redis.zRange(this.KEYS.towerMap, 0, -1, { by: 'rank' });
-      } catch (error) {
-        console.log('No tower map found or error reading it:', error);
-      }
+      const towerIds: any[] = [];
+      const highScoreMembers: any[] = [];
+
+      for (const mode of GAME_MODES) {
+        try {
+          towerIds.push(...(await redis.zRange(this.KEYS.towerMap(mode), 0, -1, { by: 'rank' })));
+        } catch (error) {
+          console.log(`No ${mode} tower map found or error reading it:`, error);
+        }
 
-      try {
-        highScoreMembers = await redis.zRange(this.KEYS.highScoreLeaderboard, 0, -1, {
-          by: 'rank',
-        });
-      } catch (error) {
-        console.log('No high score leaderboard found or error reading it:', error);
+        try {
+          highScoreMembers.push(
+            ...(await redis.zRange(this.KEYS.highScoreLeaderboard(mode), 0, -1, {
+              by: 'rank',
+            }))
+          );
+        } catch (error) {
+          console.log(`No ${mode} high score leaderboard found or error reading it:`, error);
+        }
       }
 
       // Use watch to get transaction client, then multi
-      const txn = await redis.watch(this.KEYS.towerMap, this.KEYS.highScoreLeaderboard);
+      const txn = await redis.watch(
+        this.KEYS.towerMap('classic'),
+        this.KEYS.highScoreLeaderboard('classic')
+      );
       await txn.multi();
 
-      // Clear all leaderboards (this fixes the ranking issue)
-      await txn.del(this.KEYS.highScoreLeaderboard);
-      await txn.del(this.KEYS.perfectStreakLeaderboard);
-      await txn.del(this.KEYS.towerHeightLeaderboard);
-
-      // Clear tower map
-      await txn.del(this.KEYS.towerMap);
+      // Clear all leaderboards and tower maps (this fixes the ranking issue)
+      for (const mode of GAME_MODES) {
+        await txn.del(this.KEYS.highScoreLeaderboard(mode));
+        await txn.del(this.KEYS.perfectStreakLeaderboard(mode));
+        await txn.del(this.KEYS.towerHeightLeaderboard(mode));
+        await txn.del(this.KEYS.towerMap(mode));
+        await txn.del(this.KEYS.towerCells(mode));
+        for (const chunkKey of this.getChunkKeys(mode)) {
+          await txn.del(chunkKey);
+        }
+      }
 
       // Clear counters for fresh start
       await txn.del(this.KEYS.sessionCounter);
@@ -816,12 +1839,18 @@ export class GameDataService {
           if (sessionId && userId) {
             await txn.del(this.KEYS.session(sessionId));
             await txn.del(this.KEYS.userSessions(userId));
-            await txn.del(this.KEYS.userStats(userId));
+            for (const mode of GAME_MODES) {
+              await txn.del(this.KEYS.userStats(userId, mode));
+            }
           }
         }
       }
 
       await txn.exec();
+      await this.discardPendingRuns();
+      await LeaderboardWindowService.clearAll();
+      await LeaderboardScopeService.clearAll();
+      await DailyChallengeService.clearAll();
       console.log('Successfully cleared all towers and related data');
     } catch (error) {
       console.error('Error clearing towers:', error);
@@ -836,34 +1865,45 @@ export class GameDataService {
   static async clearAllGameData(): Promise<void> {
     try {
       // First get all the data we need to delete (with error handling)
-      let towerIds: any[] = [];
-      let highScoreMembers: any[] = [];
-
-      try {
-        towerIds = await redis.zRange(this.KEYS.towerMap, 0, -1, { by: 'rank' });
-      } catch (error) {
-        console.log('No tower map found or error reading it:', error);
-      }
+      const towerIds: any[] = [];
+      const highScoreMembers: any[] = [];
+
+      for (const mode of GAME_MODES) {
+        try {
+          towerIds.push(...(await redis.zRange(this.KEYS.towerMap(mode), 0, -1, { by: 'rank' })));
+        } catch (error) {
+          console.log(`No ${mode} tower map found or error reading it:`, error);
+        }
 
-      try {
-        highScoreMembers = await redis.zRange(this.KEYS.highScoreLeaderboard, 0, -1, {
-          by: 'rank',
-        });
-      } catch (error) {
-        console.log('No high score leaderboard found or error reading it:', error);
+        try {
+          highScoreMembers.push(
+            ...(await redis.zRange(this.KEYS.highScoreLeaderboard(mode), 0, -1, {
+              by: 'rank',
+            }))
+          );
+        } catch (error) {
+          console.log(`No ${mode} high score leaderboard found or error reading it:`, error);
+        }
       }
 
       // Use watch to get transaction client, then multi
-      const txn = await redis.watch(this.KEYS.towerMap, this.KEYS.highScoreLeaderboard);
+      const txn = await redis.watch(
+        this.KEYS.towerMap('classic'),
+        this.KEYS.highScoreLeaderboard('classic')
+      );
       await txn.multi();
 
-      // Clear all leaderboards (safe deletion)
-      await txn.del(this.KEYS.highScoreLeaderboard);
-      await txn.del(this.KEYS.perfectStreakLeaderboard);
-      await txn.del(this.KEYS.towerHeightLeaderboard);
-
-      // Clear tower map
-      await txn.del(this.KEYS.towerMap);
+      // Clear all leaderboards and tower maps (safe deletion)
+      for (const mode of GAME_MODES) {
+        await txn.del(this.KEYS.highScoreLeaderboard(mode));
+        await txn.del(this.KEYS.perfectStreakLeaderboard(mode));
+        await txn.del(this.KEYS.towerHeightLeaderboard(mode));
+        await txn.del(this.KEYS.towerMap(mode));
+        await txn.del(this.KEYS.towerCells(mode));
+        for (const chunkKey of this.getChunkKeys(mode)) {
+          await txn.del(chunkKey);
+        }
+      }
 
       // Clear counters
       await txn.del(this.KEYS.sessionCounter);
@@ -885,12 +1925,18 @@ export class GameDataService {
           if (sessionId && userId) {
             await txn.del(this.KEYS.session(sessionId));
             await txn.del(this.KEYS.userSessions(userId));
-            await txn.del(this.KEYS.userStats(userId));
+            for (const mode of GAME_MODES) {
+              await txn.del(this.KEYS.userStats(userId, mode));
+            }
           }
         }
       }
 
       await txn.exec();
+      await this.discardPendingRuns();
+      await LeaderboardWindowService.clearAll();
+      await LeaderboardScopeService.clearAll();
+      await DailyChallengeService.clearAll();
       console.log('Successfully cleared all game data');
     } catch (error) {
       console.error('Error clearing game data:', error);
@@ -910,26 +1956,52 @@ export class GameDataService {
       typeof entry === 'string' ? entry : entry.member
     );
 
-    const txn = await redis.watch(this.KEYS.userStats(userId), this.KEYS.userSessions(userId));
+    // Held runs would otherwise be publishable after the user is gone
+    const heldRuns = await this.getReviewQueue(await redis.zCard(this.KEYS.reviewQueue));
+    for (const run of heldRuns) {
+      if (run.userId === userId) {
+        await this.reviewFlaggedRun(run.runId, false);
+      }
+    }
+
+    // Free the user's grid cells while their tower entries can still be read
+    for (const sessionId of sessionIds) {
+      await this.releaseTowerCell(sessionId);
+    }
+
+    const txn = await redis.watch(
+      this.KEYS.userStats(userId, 'classic'),
+      this.KEYS.userSessions(userId)
+    );
 
     await txn.multi();
 
-    // Delete user stats and session list
-    await txn.del(this.KEYS.userStats(userId));
+    // Delete per-mode user stats and best-session pointers, then the session list
+    for (const mode of GAME_MODES) {
+      await txn.del(this.KEYS.userStats(userId, mode));
+      await txn.del(this.KEYS.userBestHighScoreSession(userId, mode));
+      await txn.del(this.KEYS.userBestPerfectStreakSession(userId, mode));
+    }
     await txn.del(this.KEYS.userSessions(userId));
-    await txn.del(this.KEYS.userBestHighScoreSession(userId));
-    await txn.del(this.KEYS.userBestPerfectStreakSession(userId));
 
-    // Remove from leaderboards and delete sessions
+    // Remove from every mode's leaderboards and delete sessions
     for (const sessionId of sessionIds) {
-      await txn.zRem(this.KEYS.highScoreLeaderboard, [`${userId}:${sessionId}`]);
-      await txn.zRem(this.KEYS.perfectStreakLeaderboard, [`${userId}:${sessionId}`]);
-      await txn.zRem(this.KEYS.towerHeightLeaderboard, [`${userId}:${sessionId}`]);
-      await txn.zRem(this.KEYS.towerMap, [sessionId]);
+      for (const mode of GAME_MODES) {
+        await txn.zRem(this.KEYS.highScoreLeaderboard(mode), [`${userId}:${sessionId}`]);
+        await txn.zRem(this.KEYS.perfectStreakLeaderboard(mode), [`${userId}:${sessionId}`]);
+        await txn.zRem(this.KEYS.towerHeightLeaderboard(mode), [`${userId}:${sessionId}`]);
+        await txn.zRem(this.KEYS.towerMap(mode), [sessionId]);
+      }
       await txn.del(this.KEYS.session(sessionId));
       await txn.del(`tower:${sessionId}`);
     }
 
     await txn.exec();
+
+    // Daily, weekly, post, community and daily challenge boards are kept outside the transaction
+    await LeaderboardWindowService.removeUser(userId, sessionIds);
+    await LeaderboardScopeService.removeUser(userId, sessionIds);
+    await DailyChallengeService.removeSessions(userId, sessionIds);
+    await ModerationService.removeSessions(sessionIds);
   }
 }
@@ -0,0 +1,150 @@
+import { redis } from '@devvit/web/server';
+import { GAME_MODES, GameMode } from '../../shared/simulation';
+import { LeaderboardScope, LeaderboardWindowRank } from '../../shared/types/api';
+import { LeaderboardWindowService } from './leaderboardWindowService';
+
+export type BoardScope = Exclude<LeaderboardScope, 'global'>;
+
+export interface ScopeTarget {
+  scope: BoardScope;
+  id: string; // Post ID (t3_...) or subreddit name
+}
+
+export interface ScopedBoardKeys {
+  highScores: string;
+  perfectStreaks: string;
+}
+
+/**
+ * All-time leaderboards for a single post and for a single community, kept alongside the
+ * install-wide sets. Like the windowed boards, each holds one best run per user.
+ */
+export class LeaderboardScopeService {
+  private static readonly KEYS = {
+    highScores: (target: ScopeTarget, mode: GameMode) =>
+      `leaderboard:${target.scope}:${target.id}:${mode}:high_scores`,
+    perfectStreaks: (target: ScopeTarget, mode: GameMode) =>
+      `leaderboard:${target.scope}:${target.id}:${mode}:perfect_streaks`,
+
+    // Every scoped board that has entries (member `${scope}:${id}:${mode}`)
+    boards: 'leaderboard:scoped_boards',
+  };
+
+  static readonly SCOPES: ReadonlyArray<BoardScope> = ['post', 'subreddit'];
+
+  /**
+   * The post and community boards a run played on `postId` counts towards
+   */
+  static getTargets(postId: string, subredditName?: string): ScopeTarget[] {
+    return [
+      { scope: 'post', id: postId },
+      ...(subredditName ? [{ scope: 'subreddit' as const, id: subredditName }] : []),
+    ];
+  }
+
+  static getBoardKeys(target: ScopeTarget, mode: GameMode): ScopedBoardKeys {
+    return {
+      highScores: this.KEYS.highScores(target, mode),
+      perfectStreaks: this.KEYS.perfectStreaks(target, mode),
+    };
+  }
+
+  /**
+   * Enter a verified session into the boards of its post and community
+   */
+  static async recordSession(
+    sessionId: string,
+    userId: string,
+    mode: GameMode,
+    score: number,
+    perfectStreak: number,
+    targets: ReadonlyArray<ScopeTarget>
+  ): Promise<void> {
+    for (const target of targets) {
+      const keys = this.getBoardKeys(target, mode);
+
+      await LeaderboardWindowService.recordBest(keys.highScores, userId, sessionId, score);
+      if (perfectStreak > 0) {
+        await LeaderboardWindowService.recordBest(
+          keys.perfectStreaks,
+          userId,
+          sessionId,
+          perfectStreak
+        );
+      }
+
+      await redis.zAdd(this.KEYS.boards, {
+        member: `${target.scope}:${target.id}:${mode}`,
+        score: Date.now(),
+      });
+    }
+  }
+
+  /**
+   * Player's high score rank on a post or community board
+   */
+  static async getRank(
+    userId: string,
+    mode: GameMode,
+    target: ScopeTarget
+  ): Promise<LeaderboardWindowRank> {
+    return LeaderboardWindowService.getBoardRank(
+      this.getBoardKeys(target, mode).highScores,
+      userId
+    );
+  }
+
+  /**
+   * Drop every board of a deleted post
+   */
+  static async deletePostBoards(postId: string): Promise<void> {
+    for (const mode of GAME_MODES) {
+      await this.deleteBoards({ scope: 'post', id: postId }, mode);
+    }
+  }
+
+  /**
+   * Remove a user's sessions from every scoped board
+   */
+  static async removeUser(userId: string, sessionIds: ReadonlyArray<string>): Promise<void> {
+    for (const { target, mode } of await this.getAllBoards()) {
+      const keys = this.getBoardKeys(target, mode);
+      await LeaderboardWindowService.removeFromBoard(keys.highScores, userId, sessionIds);
+      await LeaderboardWindowService.removeFromBoard(keys.perfectStreaks, userId, sessionIds);
+    }
+  }
+
+  /**
+   * Delete every scoped board (for development/testing)
+   */
+  static async clearAll(): Promise<void> {
+    for (const { target, mode } of await this.getAllBoards()) {
+      await this.deleteBoards(target, mode);
+    }
+    await redis.del(this.KEYS.boards);
+  }
+
+  private static async deleteBoards(target: ScopeTarget, mode: GameMode): Promise<void> {
+    const keys = this.getBoardKeys(target, mode);
+    await LeaderboardWindowService.deleteBoard(keys.highScores);
+    await LeaderboardWindowService.deleteBoard(keys.perfectStreaks);
+    await redis.zRem(this.KEYS.boards, [`${target.scope}:${target.id}:${mode}`]);
+  }
+
+  private static async getAllBoards(): Promise<Array<{ target: ScopeTarget; mode: GameMode }>> {
+    const entries = await redis.zRange(this.KEYS.boards, 0, -1, { by: 'rank' });
+    const boards: Array<{ target: ScopeTarget; mode: GameMode }> = [];
+
+    for (const entry of entries) {
+      const member = typeof entry === 'string' ? entry : entry.member;
+      const [scopeName, id, modeName] = member.split(':');
+      const scope = this.SCOPES.find((candidate) => candidate === scopeName);
+      const mode = GAME_MODES.find((candidate) => candidate === modeName);
+      if (scope && id && mode) {
+        boards.push({ target: { scope, id }, mode });
+      }
+    }
+
+    return boards;
+  }
+}
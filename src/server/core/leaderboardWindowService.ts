@@ -0,0 +1,367 @@
+import { redis } from '@devvit/web/server';
+import { GAME_MODES, GameMode } from '../../shared/simulation';
+import {
+  HighScoreEntry,
+  LeaderboardArchive,
+  LeaderboardRange,
+  LeaderboardWindowRank,
+  PerfectStreakEntry,
+} from '../../shared/types/api';
+
+export type WindowRange = Exclude<LeaderboardRange, 'all_time'>;
+
+export interface LeaderboardWindow {
+  range: WindowRange;
+  windowId: string; // UTC start date, e.g. '2025-01-06'
+  startsAt: number;
+  endsAt: number;
+}
+
+export interface WindowBoardKeys {
+  highScores: string;
+  perfectStreaks: string;
+}
+
+/**
+ * Daily and weekly leaderboards kept alongside the all-time sorted sets. Each window has its
+ * own pair of sorted sets holding one best run per user; the rollover job archives a closed
+ * window's top entries and deletes its live sets.
+ */
+export class LeaderboardWindowService {
+  private static readonly KEYS = {
+    highScores: (mode: GameMode, range: WindowRange, windowId: string) =>
+      `leaderboard:${mode}:${range}:${windowId}:high_scores`,
+    perfectStreaks: (mode: GameMode, range: WindowRange, windowId: string) =>
+      `leaderboard:${mode}:${range}:${windowId}:perfect_streaks`,
+    // Hash of userId -> sessionId for the run each user currently has on a board
+    bestSessions: (boardKey: string) => `${boardKey}:best`,
+
+    // Windows that still have live sets (member `${mode}:${range}:${windowId}`, score endsAt)
+    openWindows: 'leaderboard:windows:open',
+
+    // Archived windows, indexed per mode and range by start time
+    archive: (mode: GameMode, range: WindowRange, windowId: string) =>
+      `leaderboard_archive:${mode}:${range}:${windowId}`,
+    archiveIndex: (mode: GameMode, range: WindowRange) => `leaderboard_archive:${mode}:${range}`,
+  };
+
+  static readonly RANGES: ReadonlyArray<WindowRange> = ['daily', 'weekly'];
+
+  static readonly ARCHIVE_SIZE = 10; // Entries frozen per board when a window closes
+
+  private static readonly DAY_MS = 24 * 60 * 60 * 1000;
+  private static readonly ARCHIVE_RETENTION = 30; // Closed windows kept per mode and range
+
+  /**
+   * The UTC day or Monday-based UTC week containing `timestamp`
+   */
+  static getWindow(range: WindowRange, timestamp: number = Date.now()): LeaderboardWindow {
+    const day = Math.floor(timestamp / this.DAY_MS);
+    // 1970-01-01 was a Thursday, so (day + 3) % 7 counts days since Monday
+    const startDay = range === 'daily' ? day : day - ((day + 3) % 7);
+    const startsAt = startDay * this.DAY_MS;
+    const length = range === 'daily' ? 1 : 7;
+
+    return {
+      range,
+      windowId: new Date(startsAt).toISOString().slice(0, 10),
+      startsAt,
+      endsAt: startsAt + length * this.DAY_MS,
+    };
+  }
+
+  static getBoardKeys(mode: GameMode, window: LeaderboardWindow): WindowBoardKeys {
+    return {
+      highScores: this.KEYS.highScores(mode, window.range, window.windowId),
+      perfectStreaks: this.KEYS.perfectStreaks(mode, window.range, window.windowId),
+    };
+  }
+
+  /**
+   * Enter a verified session into the current daily and weekly windows of its mode
+   */
+  static async recordSession(
+    sessionId: string,
+    userId: string,
+    mode: GameMode,
+    score: number,
+    perfectStreak: number,
+    now: number = Date.now()
+  ): Promise<void> {
+    for (const range of this.RANGES) {
+      const window = this.getWindow(range, now);
+      const keys = this.getBoardKeys(mode, window);
+
+      await this.recordBest(keys.highScores, userId, sessionId, score);
+      if (perfectStreak > 0) {
+        await this.recordBest(keys.perfectStreaks, userId, sessionId, perfectStreak);
+      }
+
+      await redis.zAdd(this.KEYS.openWindows, {
+        member: `${mode}:${range}:${window.windowId}`,
+        score: window.endsAt,
+      });
+    }
+  }
+
+  /**
+   * Player's high score rank within the current window of a range
+   */
+  static async getRank(
+    userId: string,
+    mode: GameMode,
+    range: WindowRange,
+    now: number = Date.now()
+  ): Promise<LeaderboardWindowRank> {
+    const { highScores } = this.getBoardKeys(mode, this.getWindow(range, now));
+    return this.getBoardRank(highScores, userId);
+  }
+
+  /**
+   * Windows whose end has passed but whose live sets have not been archived yet
+   */
+  static async getExpiredWindows(
+    now: number = Date.now()
+  ): Promise<Array<{ mode: GameMode; window: LeaderboardWindow }>> {
+    const entries = await redis.zRange(this.KEYS.openWindows, 0, now, { by: 'score' });
+    const expired: Array<{ mode: GameMode; window: LeaderboardWindow }> = [];
+
+    for (const entry of entries) {
+      const member = typeof entry === 'string' ? entry : entry.member;
+      const parsed = this.parseWindowMember(member);
+      if (parsed) {
+        expired.push(parsed);
+      } else {
+        console.warn(`LeaderboardWindowService: dropping malformed window '${member}'`);
+        await redis.zRem(this.KEYS.openWindows, [member]);
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Freeze a closed window's top entries, then delete its live sets. Only the most recent
+   * windows are retained per mode and range.
+   */
+  static async archiveWindow(
+    mode: GameMode,
+    window: LeaderboardWindow,
+    highScores: HighScoreEntry[],
+    perfectStreaks: PerfectStreakEntry[]
+  ): Promise<void> {
+    const archive: LeaderboardArchive = {
+      mode,
+      range: window.range,
+      windowId: window.windowId,
+      startsAt: window.startsAt,
+      endsAt: window.endsAt,
+      highScores: highScores.slice(0, this.ARCHIVE_SIZE),
+      perfectStreaks: perfectStreaks.slice(0, this.ARCHIVE_SIZE),
+    };
+
+    const indexKey = this.KEYS.archiveIndex(mode, window.range);
+    await redis.set(
+      this.KEYS.archive(mode, window.range, window.windowId),
+      JSON.stringify(archive)
+    );
+    await redis.zAdd(indexKey, { member: window.windowId, score: window.startsAt });
+
+    // Drop archives beyond the retention limit (oldest first)
+    const stale = await redis.zRange(indexKey, 0, -(this.ARCHIVE_RETENTION + 1), { by: 'rank' });
+    for (const entry of stale) {
+      const windowId = typeof entry === 'string' ? entry : entry.member;
+      await redis.del(this.KEYS.archive(mode, window.range, windowId));
+      await redis.zRem(indexKey, [windowId]);
+    }
+
+    await this.deleteWindow(mode, window);
+  }
+
+  /**
+   * Archived windows for a mode and range, most recently closed first
+   */
+  static async getArchive(
+    mode: GameMode,
+    range: WindowRange,
+    limit: number = 5
+  ): Promise<LeaderboardArchive[]> {
+    const windowIds = await redis.zRange(this.KEYS.archiveIndex(mode, range), 0, limit - 1, {
+      reverse: true,
+      by: 'rank',
+    });
+
+    const archives: LeaderboardArchive[] = [];
+    for (const entry of windowIds) {
+      const windowId = typeof entry === 'string' ? entry : entry.member;
+      const data = await redis.get(this.KEYS.archive(mode, range, windowId));
+      if (data) {
+        archives.push(JSON.parse(data) as LeaderboardArchive);
+      }
+    }
+
+    return archives;
+  }
+
+  /**
+   * Remove a user's sessions from every open window; archived windows are left as they are
+   */
+  static async removeSessions(userId: string, sessionIds: ReadonlyArray<string>): Promise<void> {
+    const openWindows = await redis.zRange(this.KEYS.openWindows, 0, -1, { by: 'rank' });
+    for (const entry of openWindows) {
+      const parsed = this.parseWindowMember(typeof entry === 'string' ? entry : entry.member);
+      if (!parsed) continue;
+
+      const keys = this.getBoardKeys(parsed.mode, parsed.window);
+      await this.removeFromBoard(keys.highScores, userId, sessionIds);
+      await this.removeFromBoard(keys.perfectStreaks, userId, sessionIds);
+    }
+  }
+
+  /**
+   * Remove a user's sessions from every open window and every archived window
+   */
+  static async removeUser(userId: string, sessionIds: ReadonlyArray<string>): Promise<void> {
+    await this.removeSessions(userId, sessionIds);
+
+    for (const mode of GAME_MODES) {
+      for (const range of this.RANGES) {
+        for (const archive of await this.getArchive(mode, range, this.ARCHIVE_RETENTION)) {
+          const highScores = archive.highScores.filter((entry) => entry.userId !== userId);
+          const perfectStreaks = archive.perfectStreaks.filter((entry) => entry.userId !== userId);
+          if (
+            highScores.length === archive.highScores.length &&
+            perfectStreaks.length === archive.perfectStreaks.length
+          ) {
+            continue;
+          }
+
+          await redis.set(
+            this.KEYS.archive(mode, range, archive.windowId),
+            JSON.stringify({ ...archive, highScores, perfectStreaks })
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Delete every open window and archive (for development/testing)
+   */
+  static async clearAll(): Promise<void> {
+    const openWindows = await redis.zRange(this.KEYS.openWindows, 0, -1, { by: 'rank' });
+    for (const entry of openWindows) {
+      const parsed = this.parseWindowMember(typeof entry === 'string' ? entry : entry.member);
+      if (parsed) {
+        await this.deleteWindow(parsed.mode, parsed.window);
+      }
+    }
+    await redis.del(this.KEYS.openWindows);
+
+    for (const mode of GAME_MODES) {
+      for (const range of this.RANGES) {
+        const indexKey = this.KEYS.archiveIndex(mode, range);
+        const windowIds = await redis.zRange(indexKey, 0, -1, { by: 'rank' });
+        for (const entry of windowIds) {
+          const windowId = typeof entry === 'string' ? entry : entry.member;
+          await redis.del(this.KEYS.archive(mode, range, windowId));
+        }
+        await redis.del(indexKey);
+      }
+    }
+  }
+
+  /**
+   * Keep the user's best value on a board, one member per user. Shared with the per-post
+   * and per-subreddit boards, which rank the same way.
+   */
+  static async recordBest(
+    boardKey: string,
+    userId: string,
+    sessionId: string,
+    value: number
+  ): Promise<void> {
+    const bestKey = this.KEYS.bestSessions(boardKey);
+    const previousSessionId = await redis.hGet(bestKey, userId);
+
+    if (previousSessionId) {
+      const previousMember = `${userId}:${previousSessionId}`;
+      const previousValue = await redis.zScore(boardKey, previousMember);
+      if (previousValue !== null && previousValue !== undefined && previousValue >= value) {
+        return;
+      }
+      await redis.zRem(boardKey, [previousMember]);
+    }
+
+    await redis.zAdd(boardKey, { member: `${userId}:${sessionId}`, score: value });
+    await redis.hSet(bestKey, { [userId]: sessionId });
+  }
+
+  /**
+   * Rank of the user's best member on a board kept by `recordBest`
+   */
+  static async getBoardRank(boardKey: string, userId: string): Promise<LeaderboardWindowRank> {
+    const totalPlayers = await redis.zCard(boardKey);
+    const sessionId = await redis.hGet(this.KEYS.bestSessions(boardKey), userId);
+    if (!sessionId) {
+      return { totalPlayers };
+    }
+
+    const member = `${userId}:${sessionId}`;
+    const members = await redis.zRange(boardKey, 0, -1, { reverse: true, by: 'rank' });
+    const index = members.findIndex(
+      (entry) => (typeof entry === 'string' ? entry : entry.member) === member
+    );
+
+    return {
+      ...(index >= 0 && { rank: index + 1 }),
+      totalPlayers,
+    };
+  }
+
+  static async removeFromBoard(
+    boardKey: string,
+    userId: string,
+    sessionIds: ReadonlyArray<string>
+  ): Promise<void> {
+    if (sessionIds.length === 0) return;
+
+    await redis.zRem(
+      boardKey,
+      sessionIds.map((sessionId) => `${userId}:${sessionId}`)
+    );
+
+    // Keep the pointer if it names a session that is staying on the board
+    const bestKey = this.KEYS.bestSessions(boardKey);
+    const bestSessionId = await redis.hGet(bestKey, userId);
+    if (bestSessionId && sessionIds.includes(bestSessionId)) {
+      await redis.hDel(bestKey, [userId]);
+    }
+  }
+
+  static async deleteBoard(boardKey: string): Promise<void> {
+    await redis.del(boardKey);
+    await redis.del(this.KEYS.bestSessions(boardKey));
+  }
+
+  private static async deleteWindow(mode: GameMode, window: LeaderboardWindow): Promise<void> {
+    const keys = this.getBoardKeys(mode, window);
+    await this.deleteBoard(keys.highScores);
+    await this.deleteBoard(keys.perfectStreaks);
+    await redis.zRem(this.KEYS.openWindows, [`${mode}:${window.range}:${window.windowId}`]);
+  }
+
+  private static parseWindowMember(
+    member: string
+  ): { mode: GameMode; window: LeaderboardWindow } | null {
+    const [modeName, rangeName, windowId] = member.split(':');
+    const mode = GAME_MODES.find((candidate) => candidate === modeName);
+    const range = this.RANGES.find((candidate) => candidate === rangeName);
+    const startsAt = Date.parse(`${windowId}T00:00:00Z`);
+    if (!mode || !range || Number.isNaN(startsAt)) {
+      return null;
+    }
+
+    return { mode, window: this.getWindow(range, startsAt) };
+  }
+}
@@ -0,0 +1,199 @@
+import { randomUUID } from 'node:crypto';
+import { redis, reddit, context } from '@devvit/web/server';
+import { AdminAction, AuditLogEntry, SessionModerationRecord } from '../../shared/types/api';
+
+// The caller of an admin route, resolved against the subreddit the app is running in
+export interface AdminActor {
+  userId: string;
+  username: string;
+  subredditName: string;
+  isModerator: boolean;
+}
+
+interface BanRecord {
+  username: string;
+  bannedBy: string;
+  bannedAt: number;
+}
+
+/**
+ * Moderator checks for admin routes, an append-only audit log of every attempt (including
+ * denied ones), and the per-run and per-user moderation state those routes change.
+ */
+export class ModerationService {
+  private static readonly KEYS = {
+    // Cached moderator check ('1' or '0')
+    moderator: (subredditName: string, userId: string) => `moderator:${subredditName}:${userId}`,
+
+    // Sorted set of JSON audit entries by timestamp
+    auditLog: 'audit:log',
+
+    // Hash per moderated session (hidden, struck, updatedBy, updatedAt)
+    session: (sessionId: string) => `moderation:session:${sessionId}`,
+    // Hash of userId -> JSON BanRecord for users barred from submitting runs
+    bannedUsers: 'moderation:banned_users',
+  };
+
+  private static readonly MODERATOR_CACHE_SECONDS = 5 * 60; // Mod list changes are rare
+  private static readonly AUDIT_LOG_SIZE = 500; // Entries kept, newest first
+
+  /**
+   * The current caller and whether they moderate the current subreddit. Returns null when
+   * the request is unauthenticated or has no subreddit context.
+   */
+  static async getActor(): Promise<AdminActor | null> {
+    const { subredditName, userId } = context;
+    if (!subredditName || !userId) {
+      return null;
+    }
+
+    // The moderator lookup needs the real username, so there is no derived fallback here
+    let username: string | undefined;
+    try {
+      username = await reddit.getCurrentUsername();
+    } catch (error) {
+      console.warn('getActor: reddit.getCurrentUsername failed', error);
+    }
+    if (!username) {
+      return { userId, username: userId, subredditName, isModerator: false };
+    }
+
+    const isModerator = await this.isModerator(subredditName, userId, username);
+    return { userId, username, subredditName, isModerator };
+  }
+
+  /**
+   * Record an admin action. The log is capped at AUDIT_LOG_SIZE entries.
+   */
+  static async recordAudit(
+    actor: AdminActor,
+    action: AdminAction,
+    outcome: AuditLogEntry['outcome'],
+    target?: string
+  ): Promise<void> {
+    const entry: AuditLogEntry = {
+      id: randomUUID(),
+      action,
+      actorId: actor.userId,
+      actorName: actor.username,
+      subredditName: actor.subredditName,
+      ...(target && { target }),
+      outcome,
+      timestamp: Date.now(),
+    };
+
+    try {
+      await redis.zAdd(this.KEYS.auditLog, {
+        member: JSON.stringify(entry),
+        score: entry.timestamp,
+      });
+      await redis.zRemRangeByRank(this.KEYS.auditLog, 0, -(this.AUDIT_LOG_SIZE + 1));
+    } catch (error) {
+      // The action itself already ran (or was refused); losing its log line must not fail it
+      console.error('recordAudit: failed to write audit entry', entry, error);
+    }
+  }
+
+  /**
+   * Most recent audit entries, newest first
+   */
+  static async getAuditLog(limit: number = 50): Promise<AuditLogEntry[]> {
+    const members = await redis.zRange(this.KEYS.auditLog, 0, limit - 1, {
+      reverse: true,
+      by: 'rank',
+    });
+
+    return members.map(
+      (entry) => JSON.parse(typeof entry === 'string' ? entry : entry.member) as AuditLogEntry
+    );
+  }
+
+  static async getSessionRecord(sessionId: string): Promise<SessionModerationRecord | null> {
+    const record = await redis.hGetAll(this.KEYS.session(sessionId));
+    if (!record || !record.updatedAt) {
+      return null;
+    }
+
+    return {
+      sessionId,
+      hidden: record.hidden === '1',
+      struck: record.struck === '1',
+      updatedBy: record.updatedBy ?? '',
+      updatedAt: Number(record.updatedAt),
+    };
+  }
+
+  static async isTowerHidden(sessionId: string): Promise<boolean> {
+    return (await redis.hGet(this.KEYS.session(sessionId), 'hidden')) === '1';
+  }
+
+  /**
+   * Flip one flag on a session's moderation record, creating the record if needed
+   */
+  static async setSessionFlag(
+    sessionId: string,
+    flag: 'hidden' | 'struck',
+    value: boolean,
+    actor: AdminActor
+  ): Promise<SessionModerationRecord> {
+    const key = this.KEYS.session(sessionId);
+    await redis.hSet(key, {
+      [flag]: value ? '1' : '0',
+      updatedBy: actor.username,
+      updatedAt: Date.now().toString(),
+    });
+
+    return (await this.getSessionRecord(sessionId))!;
+  }
+
+  static async isBanned(userId: string): Promise<boolean> {
+    return (await redis.hGet(this.KEYS.bannedUsers, userId)) !== undefined;
+  }
+
+  static async banUser(userId: string, username: string, actor: AdminActor): Promise<void> {
+    const record: BanRecord = { username, bannedBy: actor.username, bannedAt: Date.now() };
+    await redis.hSet(this.KEYS.bannedUsers, { [userId]: JSON.stringify(record) });
+  }
+
+  static async unbanUser(userId: string): Promise<boolean> {
+    return (await redis.hDel(this.KEYS.bannedUsers, [userId])) > 0;
+  }
+
+  /**
+   * Drop the moderation records of a deleted user's sessions. A ban outlives the user's data;
+   * only unbanUser lifts it.
+   */
+  static async removeSessions(sessionIds: ReadonlyArray<string>): Promise<void> {
+    for (const sessionId of sessionIds) {
+      await redis.del(this.KEYS.session(sessionId));
+    }
+  }
+
+  private static async isModerator(
+    subredditName: string,
+    userId: string,
+    username: string
+  ): Promise<boolean> {
+    const cacheKey = this.KEYS.moderator(subredditName, userId);
+    const cached = await redis.get(cacheKey);
+    if (cached !== undefined && cached !== null) {
+      return cached === '1';
+    }
+
+    let isModerator = false;
+    try {
+      const moderators = await reddit.getModerators({ subredditName, username }).all();
+      isModerator = moderators.some(
+        (moderator) => moderator.username.toLowerCase() === username.toLowerCase()
+      );
+    } catch (error) {
+      // Fail closed, and don't cache the failure
+      console.error(`isModerator: moderator lookup failed for r/${subredditName}`, error);
+      return false;
+    }
+
+    await redis.set(cacheKey, isModerator ? '1' : '0');
+    await redis.expire(cacheKey, this.MODERATOR_CACHE_SECONDS);
+    return isModerator;
+  }
+}
@@ -1,5 +1,4 @@
 import { context, reddit } from '@devvit/web/server';
-import type { ShareSessionRequest } from '../../shared/types/api';
 
 export const createPost = async () => {
   const { subredditName } = context;
@@ -31,8 +30,16 @@ export const createPost = async () => {
   });
 };
 
-export type SharePostOptions = Omit<ShareSessionRequest, 'username'> & {
+// Everything shown on a share post; built server-side from the stored session
+export type SharePostOptions = {
   username: string;
+  sessionId: string;
+  score: number;
+  blocks: number;
+  perfectStreak: number; // Total perfect block placements during the run
+  rank?: number;
+  totalPlayers?: number;
+  madeTheGrid?: boolean;
 };
 
 export const createSharePost = async ({
@@ -66,10 +73,8 @@ export const createSharePost = async ({
     highlightPieces.push('On The Grid');
   }
 
-  if (sessionId) {
-    const suffix = sessionId.slice(-8).toUpperCase();
-    highlightPieces.push(`Session ${suffix}`);
-  }
+  const suffix = sessionId.slice(-8).toUpperCase();
+  highlightPieces.push(`Session ${suffix}`);
 
   const splashDescription = highlightPieces.join(' • ');
   const buttonLabel = typeof rank === 'number' && rank <= 3 ? '▶ CHALLENGE' : '▶ PLAY NOW';
@@ -89,7 +94,40 @@ export const createSharePost = async ({
       description: splashDescription,
       heading,
     },
+    postData: { sessionId },
     subredditName,
     title,
   });
 };
+
+// Posted by the scheduler at the start of each UTC day, so there is no current user
+export const createDailyChallengePost = async (
+  day: string,
+  podium: ReadonlyArray<{ username: string; score: number }>
+) => {
+  const { subredditName } = context;
+  if (!subredditName) {
+    throw new Error('subredditName is required');
+  }
+
+  const medals = ['🥇', '🥈', '🥉'];
+  const description =
+    podium.length > 0
+      ? `Yesterday: ${podium
+          .map((entry, index) => `${medals[index]} ${entry.username} ${entry.score.toLocaleString()}`)
+          .join(' • ')}`
+      : 'Same seed for everyone, one attempt each';
+
+  return await reddit.submitCustomPost({
+    splash: {
+      appDisplayName: 'STONEFALL',
+      backgroundUri: 'loading.gif',
+      buttonLabel: '▶ TAKE THE CHALLENGE',
+      description,
+      heading: 'DAILY CHALLENGE',
+    },
+    postData: { challengeDay: day },
+    subredditName,
+    title: `📅 Stonefall Daily Challenge • ${day}`,
+  });
+};
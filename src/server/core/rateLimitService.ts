@@ -0,0 +1,61 @@
+import { redis } from '@devvit/web/server';
+
+// Write routes that are limited per user, each with its own budget
+export type RateLimitBucket =
+  | 'start_run'
+  | 'save_session'
+  | 'tower_placement'
+  | 'share_session'
+  | 'counter';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  retryAfterSeconds: number; // Until the current window resets
+}
+
+/**
+ * Fixed-window request counters per user and route. Counters live in Redis so the limit
+ * holds across server instances.
+ */
+export class RateLimitService {
+  private static readonly KEYS = {
+    // Requests made in one window (counter, expires with the window)
+    counter: (bucket: RateLimitBucket, userId: string, windowStart: number) =>
+      `rate_limit:${bucket}:${userId}:${windowStart}`,
+  };
+
+  private static readonly LIMITS: Record<
+    RateLimitBucket,
+    { limit: number; windowSeconds: number }
+  > = {
+    start_run: { limit: 30, windowSeconds: 60 },
+    save_session: { limit: 20, windowSeconds: 60 }, // A real run takes several seconds to play
+    tower_placement: { limit: 30, windowSeconds: 60 },
+    share_session: { limit: 5, windowSeconds: 60 * 60 },
+    counter: { limit: 60, windowSeconds: 60 },
+  };
+
+  /**
+   * Count one request against the user's budget for `bucket`
+   */
+  static async consume(
+    bucket: RateLimitBucket,
+    userId: string,
+    now: number = Date.now()
+  ): Promise<RateLimitResult> {
+    const { limit, windowSeconds } = this.LIMITS[bucket];
+    const windowMs = windowSeconds * 1000;
+    const windowStart = now - (now % windowMs);
+    const key = this.KEYS.counter(bucket, userId, windowStart);
+
+    const count = await redis.incrBy(key, 1);
+    if (count === 1) {
+      await redis.expire(key, windowSeconds);
+    }
+
+    return {
+      allowed: count <= limit,
+      retryAfterSeconds: Math.ceil((windowStart + windowMs - now) / 1000),
+    };
+  }
+}
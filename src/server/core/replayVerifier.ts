@@ -0,0 +1,240 @@
+import {
+  GameSimulation,
+  ReplayCompression,
+  DropInput,
+  GameMode,
+  GAME_MODES,
+  PuzzleLevel,
+  PuzzleLevels,
+  SimulationTuning,
+} from '../../shared/simulation';
+import {
+  calculatePerfectStreakCount,
+  convertBlocksToTowerBlocks,
+} from '../../shared/utils/gameDataConverter';
+import { ReplayVerification, SaveGameSessionRequest } from '../../shared/types/api';
+
+// Timing of the decoded inputs, for the abuse heuristics
+export interface ReplayInputStats {
+  dropCount: number;
+  dropGaps: number[]; // Ticks between each pair of consecutive drops
+}
+
+export interface VerifiedRun {
+  verification: ReplayVerification;
+  // Session data with every result field recomputed from the replay
+  sessionData: SaveGameSessionRequest['sessionData'];
+  inputStats: ReplayInputStats;
+}
+
+export class ReplayVerifier {
+  private static readonly MAX_REPLAY_TICKS = 60 * 60 * 30; // 30 minutes at 60 FPS
+  private static readonly SCORE_TOLERANCE = 0.02; // 2% of the verified score
+  private static readonly BLOCK_TOLERANCE = 1;
+
+  /**
+   * Re-run a submitted replay through the shared simulation and compare the outcome
+   * with what the client claimed. The returned session data always carries the
+   * server-computed results, never the claimed ones.
+   */
+  static async verify(request: SaveGameSessionRequest): Promise<VerifiedRun> {
+    const claimed = request.sessionData;
+    const replay = request.replay;
+
+    const reject = (reason: string): VerifiedRun => ({
+      verification: {
+        status: 'rejected',
+        claimedScore: claimed.finalScore,
+        verifiedScore: 0,
+        claimedBlockCount: claimed.blockCount,
+        verifiedBlockCount: 0,
+        reason,
+      },
+      sessionData: claimed,
+      inputStats: { dropCount: 0, dropGaps: [] },
+    });
+
+    if (!replay || typeof replay.inputs !== 'string') {
+      return reject('Replay data is missing');
+    }
+
+    if (replay.seed !== claimed.seed || replay.mode !== claimed.gameMode) {
+      return reject('Replay seed or mode does not match the submitted session');
+    }
+
+    const mode = GAME_MODES.find((candidate) => candidate === replay.mode);
+    if (!mode) {
+      return reject(`Unknown game mode '${replay.mode}'`);
+    }
+
+    // Puzzle runs replay one of the authored levels, on that level's fixed seed
+    let level: PuzzleLevel | null = null;
+    if (mode === 'puzzle') {
+      level = PuzzleLevels.get(claimed.puzzleLevelId ?? '');
+      if (!level) {
+        return reject(`Unknown puzzle level '${claimed.puzzleLevelId ?? ''}'`);
+      }
+      if (replay.seed !== level.seed) {
+        return reject('Replay seed does not match the puzzle level');
+      }
+    } else if (claimed.puzzleLevelId !== undefined) {
+      return reject('Only puzzle runs can name a puzzle level');
+    }
+
+    const tuningViolation = this.getTuningViolation(replay.tuning, mode, level);
+    if (tuningViolation) {
+      return reject(tuningViolation);
+    }
+
+    let inputs: DropInput[];
+    try {
+      inputs = await ReplayCompression.extractInputsFromReplay(replay);
+    } catch (error) {
+      console.warn('ReplayVerifier: failed to decode replay inputs', error);
+      return reject('Replay inputs could not be decoded');
+    }
+
+    const inputViolation = this.getInputViolation(inputs, replay.metadata?.inputCount);
+    if (inputViolation) {
+      return reject(inputViolation);
+    }
+
+    const result = GameSimulation.simulateGame(
+      replay.seed,
+      inputs,
+      mode,
+      undefined,
+      undefined,
+      replay.tuning,
+      level ?? undefined
+    );
+
+    // Stored block counts include the base block, matching what the client reports
+    const verifiedBlockCount = result.finalState.blocks.length;
+    const scoreDiff = Math.abs(claimed.finalScore - result.finalScore);
+    const blockDiff = Math.abs(claimed.blockCount - verifiedBlockCount);
+    const scoreTolerance = Math.max(1, Math.floor(result.finalScore * this.SCORE_TOLERANCE));
+
+    const verification: ReplayVerification = {
+      status: 'verified',
+      claimedScore: claimed.finalScore,
+      verifiedScore: result.finalScore,
+      claimedBlockCount: claimed.blockCount,
+      verifiedBlockCount,
+    };
+
+    if (scoreDiff > 0 || blockDiff > 0) {
+      if (scoreDiff <= scoreTolerance && blockDiff <= this.BLOCK_TOLERANCE) {
+        verification.status = 'verified-with-tolerance';
+        verification.reason = `Claimed results differ from the replay by ${scoreDiff} points and ${blockDiff} blocks`;
+      } else {
+        verification.status = 'rejected';
+        verification.reason = 'Claimed results do not match the replay';
+      }
+    }
+
+    return {
+      verification,
+      // Only the timing and level come from the claim; who played is for the server to say
+      sessionData: {
+        gameMode: mode,
+        seed: replay.seed,
+        startTime: claimed.startTime,
+        ...(claimed.endTime !== undefined && { endTime: claimed.endTime }),
+        ...(level && { puzzleLevelId: level.id }),
+        finalScore: result.finalScore,
+        blockCount: verifiedBlockCount,
+        maxCombo: result.maxCombo,
+        perfectStreakCount: calculatePerfectStreakCount(result.finalState),
+        gameOverReason: result.gameOverReason,
+        towerBlocks: convertBlocksToTowerBlocks(result.finalState.blocks),
+      },
+      inputStats: {
+        dropCount: inputs.length,
+        dropGaps: inputs.slice(1).map((input, i) => input.tick - (inputs[i]?.tick ?? 0)),
+      },
+    };
+  }
+
+  /**
+   * Ranked runs must use the mode's own tuning (a level's, for puzzle runs). The slide may only
+   * be made harder; every other field has to match exactly. Returns the reason if not.
+   */
+  private static getTuningViolation(
+    tuning: SimulationTuning | undefined,
+    mode: GameMode,
+    level: PuzzleLevel | null
+  ): string | null {
+    if (!tuning) {
+      return null; // Simulation defaults
+    }
+
+    const ranked = new GameSimulation(
+      0,
+      mode,
+      undefined,
+      undefined,
+      level ?? undefined
+    ).getTuning();
+
+    // A level fixes its slide speed; other modes set a minimum
+    if (level && tuning.slideSpeed !== ranked.slideSpeed) {
+      return 'Slide speed differs from the puzzle level';
+    }
+
+    if (tuning.slideSpeed < ranked.slideSpeed) {
+      return 'Slide speed is below the ranked minimum';
+    }
+
+    // A faster-growing slide only makes a run harder
+    if (tuning.slideAccel < ranked.slideAccel) {
+      return 'Slide acceleration is below the ranked minimum';
+    }
+
+    if (tuning.slideMax !== null) {
+      return 'Slide speed caps are not allowed in ranked runs';
+    }
+
+    if (
+      tuning.slideBounds !== ranked.slideBounds ||
+      tuning.speedCountOffset !== ranked.speedCountOffset
+    ) {
+      return 'Slide bounds differ from the ranked configuration';
+    }
+
+    if (
+      tuning.fallSpeedMult !== ranked.fallSpeedMult ||
+      tuning.instantPlaceMain !== ranked.instantPlaceMain
+    ) {
+      return 'Drop behaviour differs from the ranked configuration';
+    }
+
+    return null;
+  }
+
+  /**
+   * Drop ticks must be positive, strictly increasing and within the replay budget
+   */
+  private static getInputViolation(
+    inputs: ReadonlyArray<DropInput>,
+    expectedCount: number | undefined
+  ): string | null {
+    if (typeof expectedCount === 'number' && expectedCount !== inputs.length) {
+      return 'Replay input count does not match its metadata';
+    }
+
+    let previousTick = 0;
+    for (const input of inputs) {
+      if (!Number.isInteger(input.tick) || input.tick <= previousTick) {
+        return 'Replay inputs are out of order';
+      }
+      previousTick = input.tick;
+    }
+
+    if (previousTick > this.MAX_REPLAY_TICKS) {
+      return 'Replay exceeds the maximum run length';
+    }
+
+    return null;
+  }
+}
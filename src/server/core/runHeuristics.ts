@@ -0,0 +1,62 @@
+import { RunFlag, SaveGameSessionRequest, UserStats } from '../../shared/types/api';
+import { ReplayInputStats } from './replayVerifier';
+
+/**
+ * Plausibility checks for runs that already passed replay verification. A replay can be
+ * perfectly valid and still come from a bot, so these look at how the run was played
+ * rather than whether it adds up. Any flag holds the run for moderator review.
+ */
+export class RunHeuristics {
+  // Share of drops landing perfectly; strong players sit well below this
+  private static readonly MAX_PERFECT_RATE = 0.9;
+  private static readonly MIN_DROPS_FOR_PERFECT_RATE = 20;
+
+  // A new score this many times the player's previous best, once they have a history
+  private static readonly SCORE_SPIKE_FACTOR = 3;
+  private static readonly MIN_GAMES_FOR_HISTORY = 5;
+
+  // Ticks between drops at the quick end of the run, so a burst can't hide behind idle time.
+  // A tenth of the gaps may be shorter (a human double tap); 15 ticks is a quarter second at 60 FPS
+  private static readonly MIN_TICKS_PER_DROP = 15;
+  private static readonly FAST_GAP_PERCENTILE = 0.1;
+  private static readonly MIN_DROPS_FOR_PACE = 10;
+
+  /**
+   * Flags raised by a verified run. `history` is the player's stats in the run's mode
+   * before this run, or null for a first game.
+   */
+  static evaluate(
+    sessionData: SaveGameSessionRequest['sessionData'],
+    inputStats: ReplayInputStats,
+    history: UserStats | null
+  ): RunFlag[] {
+    const flags: RunFlag[] = [];
+    const { dropCount, dropGaps } = inputStats;
+
+    if (
+      dropCount >= this.MIN_DROPS_FOR_PERFECT_RATE &&
+      sessionData.perfectStreakCount / dropCount > this.MAX_PERFECT_RATE
+    ) {
+      flags.push('perfect_rate');
+    }
+
+    if (
+      history &&
+      history.totalGames >= this.MIN_GAMES_FOR_HISTORY &&
+      history.highScore > 0 &&
+      sessionData.finalScore > history.highScore * this.SCORE_SPIKE_FACTOR
+    ) {
+      flags.push('score_spike');
+    }
+
+    if (dropCount >= this.MIN_DROPS_FOR_PACE) {
+      const gaps = [...dropGaps].sort((a, b) => a - b);
+      const fastGap = gaps[Math.floor(gaps.length * this.FAST_GAP_PERCENTILE)] ?? Infinity;
+      if (fastGap < this.MIN_TICKS_PER_DROP) {
+        flags.push('ticks_per_block');
+      }
+    }
+
+    return flags;
+  }
+}
@@ -0,0 +1,132 @@
+import { randomInt, randomUUID } from 'node:crypto';
+import { redis } from '@devvit/web/server';
+import { GameMode, PuzzleLevel } from '../../shared/simulation';
+
+export interface IssuedRun {
+  runToken: string;
+  seed: number;
+  mode: GameMode;
+  levelId?: string;
+  challengeDay?: string;
+  expiresAt: number;
+}
+
+export interface IssueRunOptions {
+  level?: PuzzleLevel | undefined;
+  seed?: number | undefined; // Replaces the random seed (ghost races, daily challenges)
+  challengeDay?: string | undefined; // Marks the run as that day's daily challenge attempt
+  unranked?: boolean | undefined; // Playable but never submittable (ghost races)
+}
+
+interface RunTokenClaim {
+  userId: string;
+  postId: string;
+  mode: string;
+  seed: number;
+  levelId?: string | undefined;
+}
+
+export type RunTokenCheck =
+  | { valid: true; challengeDay?: string }
+  | { valid: false; reason: string };
+
+export class RunTokenService {
+  private static readonly KEYS = {
+    runToken: (token: string) => `run_token:${token}`,
+  };
+
+  private static readonly TOKEN_TTL_SECONDS = 60 * 60; // Runs must be submitted within an hour
+  private static readonly MAX_SEED = 1000000;
+
+  /**
+   * Issue a server-chosen seed together with a one-time token bound to the user, post and mode.
+   * Puzzle runs use the level's fixed seed and are also bound to the level. Ghost races and
+   * daily challenges pass the seed to play instead. A ghost race replays a seed whose inputs
+   * are public, so its token is unranked and no submission can use it.
+   */
+  static async issueRun(
+    userId: string,
+    postId: string,
+    mode: GameMode,
+    { level, seed: seedOverride, challengeDay, unranked }: IssueRunOptions = {}
+  ): Promise<IssuedRun> {
+    const runToken = randomUUID();
+    const seed = seedOverride ?? (level ? level.seed : randomInt(this.MAX_SEED));
+    const issuedAt = Date.now();
+    const key = this.KEYS.runToken(runToken);
+
+    await redis.hSet(key, {
+      userId,
+      postId,
+      mode,
+      seed: seed.toString(),
+      issuedAt: issuedAt.toString(),
+      used: '0',
+      ...(level && { levelId: level.id }),
+      ...(challengeDay && { challengeDay }),
+      ...(unranked && { unranked: '1' }),
+    });
+    await redis.expire(key, this.TOKEN_TTL_SECONDS);
+
+    return {
+      runToken,
+      seed,
+      mode,
+      ...(level && { levelId: level.id }),
+      ...(challengeDay && { challengeDay }),
+      expiresAt: issuedAt + this.TOKEN_TTL_SECONDS * 1000,
+    };
+  }
+
+  /**
+   * Mark a run token as used if it matches the submission. A token is consumed even when
+   * the run it covers is later rejected, so every issued seed can be submitted only once.
+   */
+  static async consumeRun(runToken: string, claim: RunTokenClaim): Promise<RunTokenCheck> {
+    if (typeof runToken !== 'string' || runToken.length === 0) {
+      return { valid: false, reason: 'Run token is missing' };
+    }
+
+    const key = this.KEYS.runToken(runToken);
+    const txn = await redis.watch(key);
+    const stored = await redis.hGetAll(key);
+
+    if (!stored || !stored.userId) {
+      await txn.unwatch();
+      return { valid: false, reason: 'Run token is unknown or has expired' };
+    }
+
+    if (stored.unranked === '1') {
+      await txn.unwatch();
+      return { valid: false, reason: 'Ghost races are not ranked' };
+    }
+
+    if (stored.used === '1') {
+      await txn.unwatch();
+      return { valid: false, reason: 'Run token has already been used' };
+    }
+
+    if (
+      stored.userId !== claim.userId ||
+      stored.postId !== claim.postId ||
+      stored.mode !== claim.mode ||
+      Number(stored.seed) !== claim.seed ||
+      (stored.levelId ?? '') !== (claim.levelId ?? '')
+    ) {
+      await txn.unwatch();
+      return { valid: false, reason: 'Run token does not match the submitted run' };
+    }
+
+    await txn.multi();
+    await txn.hSet(key, { used: '1', usedAt: Date.now().toString() });
+    try {
+      await txn.exec();
+    } catch (error) {
+      // A concurrent submission with the same token invalidated the watch
+      console.warn('RunTokenService: run token consumed concurrently', error);
+      return { valid: false, reason: 'Run token has already been used' };
+    }
+
+    return { valid: true, ...(stored.challengeDay && { challengeDay: stored.challengeDay }) };
+  }
+}
@@ -0,0 +1,97 @@
+import { redis } from '@devvit/web/server';
+import { GameSessionData } from '../../shared/types/api';
+import { GAME_MODES } from '../../shared/simulation';
+import { GameDataService } from './gameDataService';
+import { ModerationService } from './moderationService';
+import type { SharePostOptions } from './post';
+
+type ShareBuildResult =
+  | { status: 'ready'; session: GameSessionData; options: SharePostOptions }
+  | { status: 'not_found' | 'not_owner' | 'not_verified' | 'struck' };
+
+/**
+ * Share posts for stored sessions. Every number on a share post comes from the verified
+ * session and the live leaderboards, never from the client, and each post remembers the
+ * session it was made from so it can be replayed.
+ */
+export class ShareService {
+  private static readonly KEYS = {
+    // Session a share post was created from
+    postSession: (postId: string) => `post:${postId}:shared_session`,
+  };
+
+  /**
+   * Post options for sharing `sessionId`, derived from the stored session and its current
+   * rank. Only the player who made the run can share it.
+   */
+  static async buildShare(
+    sessionId: string,
+    userId: string,
+    username: string
+  ): Promise<ShareBuildResult> {
+    const session = await GameDataService.getGameSession(sessionId);
+    if (!session) {
+      return { status: 'not_found' };
+    }
+    if (session.userId !== userId) {
+      return { status: 'not_owner' };
+    }
+    if (session.verification === 'rejected') {
+      return { status: 'not_verified' };
+    }
+
+    const moderation = await ModerationService.getSessionRecord(sessionId);
+    if (moderation?.struck) {
+      return { status: 'struck' };
+    }
+
+    const mode = GAME_MODES.find((candidate) => candidate === session.gameMode) ?? 'classic';
+    const rankData = await GameDataService.getPlayerRank(userId, mode, sessionId);
+
+    const options: SharePostOptions = {
+      username,
+      sessionId,
+      score: session.finalScore,
+      blocks: session.blockCount,
+      perfectStreak: session.perfectStreakCount,
+      totalPlayers: rankData.totalPlayers,
+      madeTheGrid: rankData.madeTheGrid,
+      ...(rankData.rank !== null && { rank: rankData.rank }),
+    };
+
+    return { status: 'ready', session, options };
+  }
+
+  /**
+   * Write the preview of a new share post and link it to its session
+   */
+  static async linkSharePost(
+    postId: string,
+    session: GameSessionData,
+    options: SharePostOptions
+  ): Promise<void> {
+    const previewData = {
+      username: options.username,
+      highScore: options.score,
+      bestTowerHeight: options.blocks,
+      perfectStreak: options.perfectStreak,
+      ranking: options.rank ?? null,
+      gameMode: session.gameMode,
+      sessionId: session.sessionId,
+    };
+
+    await redis.set(`post:${postId}:preview`, JSON.stringify(previewData));
+    await redis.set(this.KEYS.postSession(postId), session.sessionId);
+  }
+
+  /**
+   * The session a share post was created from, if it is one
+   */
+  static async getSharedSessionId(postId: string): Promise<string | null> {
+    return (await redis.get(this.KEYS.postSession(postId))) ?? null;
+  }
+
+  static async unlinkPost(postId: string): Promise<void> {
+    await redis.del(this.KEYS.postSession(postId));
+  }
+}
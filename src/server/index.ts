@@ -5,18 +5,43 @@ import {
   DecrementResponse,
   SaveGameSessionRequest,
   SaveGameSessionResponse,
+  GetRunStatusResponse,
+  GetGameSessionResponse,
   GetUserStatsResponse,
+  GetTowerChunkResponse,
   GetTowerMapResponse,
   GetLeaderboardResponse,
+  GetLeaderboardArchiveResponse,
+  GetDailyChallengeResponse,
+  LeaderboardRange,
+  LeaderboardScope,
   UpdateTowerPlacementRequest,
   UpdateTowerPlacementResponse,
   ClearTowersResponse,
+  AdminAction,
+  GetAdminStatusResponse,
+  GetAuditLogResponse,
+  GetReviewQueueResponse,
+  ReviewRunResponse,
+  ModerationResponse,
   ShareSessionRequest,
   ShareSessionResponse,
+  StartRunRequest,
+  StartRunResponse,
 } from '../shared/types/api';
+import { GAME_MODES, GameMode, PuzzleLevels } from '../shared/simulation';
+import { isChunkOnGrid } from '../shared/types/towerPlacement';
 import { redis, reddit, createServer, context, getServerPort } from '@devvit/web/server';
-import { createPost, createSharePost, SharePostOptions } from './core/post';
+import type { MenuItemRequest, UiResponse } from '@devvit/web/shared';
+import { createDailyChallengePost, createPost, createSharePost } from './core/post';
 import { GameDataService } from './core/gameDataService';
+import { RunTokenService } from './core/runTokenService';
+import { DailyChallengeService } from './core/dailyChallengeService';
+import { LeaderboardWindowService } from './core/leaderboardWindowService';
+import { LeaderboardScopeService, ScopeTarget } from './core/leaderboardScopeService';
+import { AdminActor, ModerationService } from './core/moderationService';
+import { ShareService } from './core/shareService';
+import { RateLimitBucket, RateLimitService } from './core/rateLimitService';
 
 // Import blocks functionality
 import './devvitBlocks';
@@ -32,6 +57,166 @@ app.use(express.text());
 
 const router = express.Router();
 
+// Leaderboard-style reads are scoped to one game mode; omitting ?mode= means classic
+const getModeQuery = (value: unknown): GameMode | undefined =>
+  value === undefined ? 'classic' : GAME_MODES.find((candidate) => candidate === value);
+
+// Leaderboards can also be limited to the current day or week; omitting ?range= means all-time
+const getRangeQuery = (value: unknown): LeaderboardRange | undefined =>
+  value === undefined || value === 'all_time'
+    ? 'all_time'
+    : LeaderboardWindowService.RANGES.find((candidate) => candidate === value);
+
+// ...and to the requesting post or its community; omitting ?scope= means the whole install
+const getScopeQuery = (value: unknown): LeaderboardScope | undefined =>
+  value === undefined || value === 'global'
+    ? 'global'
+    : LeaderboardScopeService.SCOPES.find((candidate) => candidate === value);
+
+const getScopeTarget = (scope: LeaderboardScope): ScopeTarget | undefined => {
+  if (scope === 'post' && context.postId) {
+    return { scope, id: context.postId };
+  }
+  if (scope === 'subreddit' && context.subredditName) {
+    return { scope, id: context.subredditName };
+  }
+  return undefined;
+};
+
+// Write routes are limited per user. Callers without a user share one anonymous budget.
+const rateLimit =
+  (bucket: RateLimitBucket) =>
+  async (
+    _req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> => {
+    try {
+      const limit = await RateLimitService.consume(bucket, context.userId ?? 'anonymous');
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', limit.retryAfterSeconds.toString());
+        res.status(429).json({ status: 'error', message: 'Too many requests. Try again later.' });
+        return;
+      }
+    } catch (error) {
+      // Fail open: a Redis hiccup should not take the game offline
+      console.error(`Rate limit check failed for ${bucket}:`, error);
+    }
+    next();
+  };
+
+// Destructive routes only run for moderators of the current subreddit. Refusals are audited
+// here; the route audits the outcome using the actor left in res.locals.
+const requireModerator =
+  (action: AdminAction) =>
+  async (
+    req: express.Request,
+    res: express.Response,
+    next: express.NextFunction
+  ): Promise<void> => {
+    try {
+      const actor = await ModerationService.getActor();
+      if (!actor) {
+        res.status(401).json({ status: 'error', message: 'Authentication required' });
+        return;
+      }
+
+      if (!actor.isModerator) {
+        const target = req.params.userId ?? req.params.sessionId ?? req.params.runId;
+        await ModerationService.recordAudit(actor, action, 'denied', target);
+        res.status(403).json({ status: 'error', message: 'Moderator access required' });
+        return;
+      }
+
+      res.locals.actor = actor;
+      next();
+    } catch (error) {
+      console.error(`Moderator check failed for ${action}:`, error);
+      res.status(500).json({ status: 'error', message: 'Failed to verify moderator access' });
+    }
+  };
+
+type SessionModerationAction = 'hide_tower' | 'unhide_tower' | 'strike_run' | 'restore_run';
+
+// Hiding only affects the tower map; striking takes the run off the leaderboards
+const handleSessionModeration =
+  (action: SessionModerationAction) =>
+  async (
+    req: express.Request<{ sessionId: string }>,
+    res: express.Response<ModerationResponse>
+  ): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+    const { sessionId } = req.params;
+
+    try {
+      const session = await GameDataService.getGameSession(sessionId);
+      if (!session) {
+        res.status(404).json({ type: 'moderation', success: false, message: 'Run not found' });
+        return;
+      }
+
+      const existing = await ModerationService.getSessionRecord(sessionId);
+      if (action === 'strike_run' && !existing?.struck) {
+        await GameDataService.strikeSession(sessionId);
+      }
+      if (action === 'restore_run') {
+        if (!existing?.struck) {
+          res.status(409).json({
+            type: 'moderation',
+            success: false,
+            message: 'Run has not been struck',
+          });
+          return;
+        }
+        await GameDataService.restoreSession(sessionId);
+      }
+
+      const record = await ModerationService.setSessionFlag(
+        sessionId,
+        action === 'hide_tower' || action === 'unhide_tower' ? 'hidden' : 'struck',
+        action === 'hide_tower' || action === 'strike_run',
+        actor
+      );
+      await ModerationService.recordAudit(actor, action, 'success', sessionId);
+
+      res.json({ type: 'moderation', success: true, record });
+    } catch (error) {
+      console.error(`Error applying ${action} to ${sessionId}:`, error);
+      await ModerationService.recordAudit(actor, action, 'failed', sessionId);
+      res.status(500).json({ type: 'moderation', success: false, message: 'Moderation failed' });
+    }
+  };
+
+// Runs held by the abuse heuristics are published or rejected by a moderator
+const handleRunReview =
+  (action: 'approve_run' | 'reject_run') =>
+  async (
+    req: express.Request<{ runId: string }>,
+    res: express.Response<ReviewRunResponse>
+  ): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+    const { runId } = req.params;
+
+    try {
+      const status = await GameDataService.reviewFlaggedRun(runId, action === 'approve_run');
+      if (!status) {
+        res.status(404).json({
+          type: 'review_run',
+          success: false,
+          message: 'Run is not waiting for review',
+        });
+        return;
+      }
+
+      await ModerationService.recordAudit(actor, action, 'success', runId);
+      res.json({ type: 'review_run', success: true, status });
+    } catch (error) {
+      console.error(`Error applying ${action} to ${runId}:`, error);
+      await ModerationService.recordAudit(actor, action, 'failed', runId);
+      res.status(500).json({ type: 'review_run', success: false, message: 'Review failed' });
+    }
+  };
+
 router.get<{ postId: string }, InitResponse | { status: string; message: string }>(
   '/api/init',
   async (_req, res): Promise<void> => {
@@ -47,9 +232,10 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
     }
 
     try {
-      const [count, username] = await Promise.all([
+      const [count, username, sharedSessionId] = await Promise.all([
         redis.get('count'),
         reddit.getCurrentUsername(),
+        ShareService.getSharedSessionId(postId),
       ]);
 
       res.json({
@@ -57,6 +243,7 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
         postId: postId,
         count: count ? parseInt(count) : 0,
         username: username ?? 'anonymous',
+        ...(sharedSessionId && { sharedSessionId }),
       });
     } catch (error) {
       console.error(`API Init Error for post ${postId}:`, error);
@@ -71,6 +258,7 @@ router.get<{ postId: string }, InitResponse | { status: string; message: string
 
 router.post<{ postId: string }, IncrementResponse | { status: string; message: string }, unknown>(
   '/api/increment',
+  rateLimit('counter'),
   async (_req, res): Promise<void> => {
     const { postId } = context;
     if (!postId) {
@@ -91,6 +279,7 @@ router.post<{ postId: string }, IncrementResponse | { status: string; message: s
 
 router.post<{ postId: string }, DecrementResponse | { status: string; message: string }, unknown>(
   '/api/decrement',
+  rateLimit('counter'),
   async (_req, res): Promise<void> => {
     const { postId } = context;
     if (!postId) {
@@ -126,6 +315,51 @@ router.post('/internal/on-app-install', async (_req, res): Promise<void> => {
   }
 });
 
+router.post('/internal/scheduler/verify-runs', async (_req, res): Promise<void> => {
+  try {
+    const processed = await GameDataService.processVerificationQueue();
+    res.json({ status: 'success', processed });
+  } catch (error) {
+    console.error('Error processing verification queue:', error);
+    res.status(400).json({ status: 'error', message: 'Failed to process verification queue' });
+  }
+});
+
+router.post('/internal/scheduler/rollover-leaderboards', async (_req, res): Promise<void> => {
+  try {
+    const archived = await GameDataService.rolloverLeaderboardWindows();
+    res.json({ status: 'success', archived });
+  } catch (error) {
+    console.error('Error rolling over leaderboard windows:', error);
+    res.status(400).json({ status: 'error', message: 'Failed to roll over leaderboards' });
+  }
+});
+
+// Opens each UTC day with a challenge post showing the previous day's podium
+router.post('/internal/scheduler/post-daily-challenge', async (_req, res): Promise<void> => {
+  try {
+    const { day } = DailyChallengeService.getChallenge();
+    const existing = await DailyChallengeService.getPostId(day);
+    if (existing) {
+      res.json({ status: 'success', postId: existing });
+      return;
+    }
+
+    const podium = await GameDataService.getDailyLeaderboard(
+      DailyChallengeService.getPreviousChallenge(day).day,
+      3
+    );
+    const post = await createDailyChallengePost(day, podium);
+    await DailyChallengeService.linkPost(day, post.id);
+    const pruned = await DailyChallengeService.pruneBoards();
+
+    res.json({ status: 'success', postId: post.id, pruned });
+  } catch (error) {
+    console.error('Error posting daily challenge:', error);
+    res.status(400).json({ status: 'error', message: 'Failed to post daily challenge' });
+  }
+});
+
 router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
   try {
     const post = await createPost();
@@ -144,91 +378,189 @@ router.post('/internal/menu/post-create', async (_req, res): Promise<void> => {
 
 // Game data API endpoints
 
-router.post<{}, SaveGameSessionResponse, SaveGameSessionRequest>(
-  '/api/game/save-session',
+router.post<{}, StartRunResponse, StartRunRequest>(
+  '/api/game/start-run',
+  rateLimit('start_run'),
   async (req, res): Promise<void> => {
     try {
-      const sessionRequest = req.body;
-      const sessionResult = await GameDataService.saveGameSession(sessionRequest);
-      const sessionId = sessionResult.sessionId;
-
-      const { userId, username } = await GameDataService.getCurrentUser();
+      const { postId } = context;
+      if (!postId) {
+        throw new Error('Post ID not found in context');
+      }
 
-      // Get rank and grid status
-      const rankData = await GameDataService.getPlayerRank(userId, sessionResult.bestSessionId);
+      const mode = GAME_MODES.find((candidate) => candidate === req.body?.mode);
+      if (!mode) {
+        res.status(400).json({
+          type: 'start_run',
+          success: false,
+          message: 'Unknown game mode',
+        });
+        return;
+      }
 
-      // Get user stats to check for improvement
-      const { stats, recentSessions } = await GameDataService.getUserStats(userId);
+      // The daily challenge is one classic run on the day's shared seed
+      const daily = req.body?.daily === true;
+      const ghostSessionId = req.body?.ghostSessionId;
+      if (daily && (mode !== DailyChallengeService.MODE || ghostSessionId !== undefined)) {
+        res.status(400).json({
+          type: 'start_run',
+          success: false,
+          message: 'The daily challenge is a classic run without a ghost',
+        });
+        return;
+      }
 
-      const postId = context.postId;
-      if (postId) {
-        const previewData = {
-          username,
-          highScore: stats?.highScore ?? sessionRequest.sessionData.finalScore,
-          bestTowerHeight: stats?.bestTowerHeight ?? sessionRequest.sessionData.blockCount,
-          perfectStreak: stats?.longestPerfectStreak ?? sessionRequest.sessionData.maxCombo ?? 0,
-          ranking: rankData.rank,
-        };
+      // Ghost races replay the raced run's seed and level, so the ghost must be replayable
+      let ghost: { seed: number; levelId: string | undefined } | null = null;
+      if (ghostSessionId !== undefined) {
+        const [ghostSession, ghostReplay] = await Promise.all([
+          GameDataService.getGameSession(String(ghostSessionId)),
+          GameDataService.getSessionReplay(String(ghostSessionId)),
+        ]);
+        if (!ghostSession || !ghostReplay) {
+          res.status(404).json({
+            type: 'start_run',
+            success: false,
+            message: 'Ghost run not found',
+          });
+          return;
+        }
+        if (ghostReplay.mode !== mode) {
+          res.status(400).json({
+            type: 'start_run',
+            success: false,
+            message: 'Ghost run was played in a different mode',
+          });
+          return;
+        }
+        ghost = { seed: ghostReplay.seed, levelId: ghostSession.puzzleLevelId };
+      }
 
-        await redis.set(`post:${postId}:preview`, JSON.stringify(previewData));
+      // Puzzle runs are bound to one of the authored levels
+      const levelId = ghost ? ghost.levelId : req.body?.levelId;
+      const level = mode === 'puzzle' ? PuzzleLevels.get(String(levelId ?? '')) : null;
+      if (mode === 'puzzle' && !level) {
+        res.status(400).json({
+          type: 'start_run',
+          success: false,
+          message: 'Unknown puzzle level',
+        });
+        return;
       }
 
-      // Find previous best session (excluding current one)
-      let improvement: SaveGameSessionResponse['improvement'] = undefined;
-      if (recentSessions.length > 1) {
-        // Get the previous session (second most recent)
-        const previousSession = recentSessions[1];
-        if (previousSession) {
-          improvement = {
-            lastScore: previousSession.finalScore,
-            lastBlocks: previousSession.blockCount,
-            lastPerfectStreak: previousSession.perfectStreakCount,
-          };
-        }
-      } else if (stats) {
-        // Use stats if no previous session found
-        const hasLastScore = stats.highScore !== req.body.sessionData.finalScore;
-        const hasLastBlocks = stats.bestTowerHeight !== req.body.sessionData.blockCount;
-        const hasLastPerfectStreak = false;
-
-        if (hasLastScore || hasLastBlocks || hasLastPerfectStreak) {
-          improvement = {
-            ...(hasLastScore && { lastScore: stats.highScore }),
-            ...(hasLastBlocks && { lastBlocks: stats.bestTowerHeight }),
-          };
+      const { userId } = await GameDataService.getCurrentUser();
+
+      // The attempt is used up as soon as it starts, so restarting can't dodge a bad run
+      if (daily) {
+        const { day } = DailyChallengeService.getChallenge();
+        const seed = await DailyChallengeService.getSeed(day);
+        if (!(await DailyChallengeService.claimAttempt(day, userId))) {
+          res.status(409).json({
+            type: 'start_run',
+            success: false,
+            message: "You've already played today's challenge",
+          });
+          return;
         }
+
+        const run = await RunTokenService.issueRun(userId, postId, mode, {
+          seed,
+          challengeDay: day,
+        }).catch(async (error: unknown) => {
+          // No run was issued, so the attempt wasn't played
+          await DailyChallengeService.releaseAttempt(day, userId);
+          throw error;
+        });
+        res.json({ type: 'start_run', success: true, ...run });
+        return;
+      }
+
+      const run = await RunTokenService.issueRun(userId, postId, mode, {
+        level: level ?? undefined,
+        seed: ghost?.seed,
+        unranked: ghost !== null,
+      });
+
+      res.json({
+        type: 'start_run',
+        success: true,
+        ...run,
+      });
+    } catch (error) {
+      console.error('Error starting run:', error);
+      res.status(400).json({
+        type: 'start_run',
+        success: false,
+        message: error instanceof Error ? error.message : 'Failed to start run',
+      });
+    }
+  }
+);
+
+router.post<{}, SaveGameSessionResponse, SaveGameSessionRequest>(
+  '/api/game/save-session',
+  rateLimit('save_session'),
+  async (req, res): Promise<void> => {
+    try {
+      const submission = await GameDataService.submitRun(req.body);
+
+      if (!submission.queued) {
+        res.status(422).json({
+          type: 'save_session',
+          success: false,
+          message: submission.reason,
+        });
+        return;
       }
 
       res.json({
         type: 'save_session',
-        sessionId,
         success: true,
-        ...(rankData.rank !== null && { rank: rankData.rank }),
-        totalPlayers: rankData.totalPlayers,
-        madeTheGrid: rankData.madeTheGrid,
-        ...(rankData.scoreToGrid !== null && { scoreToGrid: rankData.scoreToGrid }),
-        ...(improvement && { improvement }),
-        personalBest: sessionResult.isNewHighScore,
-        bestSessionId: sessionResult.bestSessionId,
-        bestScore: sessionResult.bestScore,
-        ...(sessionResult.previousBestScore !== null && {
-          previousBestScore: sessionResult.previousBestScore,
-        }),
-        bestPerfectStreak: sessionResult.bestPerfectStreak,
-        ...(sessionResult.previousBestPerfectStreak !== null && {
-          previousBestPerfectStreak: sessionResult.previousBestPerfectStreak,
-        }),
-        personalBestPerfectStreak: sessionResult.isNewPerfectStreak,
+        runId: submission.runId,
+        status: 'queued',
       });
     } catch (error) {
       console.error('Error saving game session:', error);
       res.status(400).json({
         type: 'save_session',
-        sessionId: '',
         success: false,
         message: error instanceof Error ? error.message : 'Failed to save game session',
-        totalPlayers: 0,
-        madeTheGrid: false,
+      });
+    }
+  }
+);
+
+router.get<{ runId: string }, GetRunStatusResponse>(
+  '/api/game/run-status/:runId',
+  async (req, res): Promise<void> => {
+    const { runId } = req.params;
+
+    try {
+      const { userId } = await GameDataService.getCurrentUser();
+      const run = await GameDataService.getRunStatus(runId, userId);
+
+      if (!run) {
+        res.status(404).json({
+          type: 'run_status',
+          success: false,
+          runId,
+          message: 'Run not found',
+        });
+        return;
+      }
+
+      res.json({
+        type: 'run_status',
+        success: true,
+        ...run,
+      });
+    } catch (error) {
+      console.error(`Error getting run status for ${runId}:`, error);
+      res.status(400).json({
+        type: 'run_status',
+        success: false,
+        runId,
+        message: error instanceof Error ? error.message : 'Failed to get run status',
       });
     }
   }
@@ -236,20 +568,15 @@ router.post<{}, SaveGameSessionResponse, SaveGameSessionRequest>(
 
 router.post<{}, ShareSessionResponse, ShareSessionRequest>(
   '/api/game/share-session',
+  rateLimit('share_session'),
   async (req, res): Promise<void> => {
     try {
-      const payload = req.body;
-
-      if (
-        !payload ||
-        typeof payload.score !== 'number' ||
-        typeof payload.blocks !== 'number' ||
-        typeof payload.perfectStreak !== 'number'
-      ) {
+      const sessionId = req.body?.sessionId;
+      if (typeof sessionId !== 'string' || sessionId.length === 0) {
         res.status(400).json({
           type: 'share_session',
           success: false,
-          message: 'Missing required share payload fields.',
+          message: 'sessionId is required',
         });
         return;
       }
@@ -264,46 +591,32 @@ router.post<{}, ShareSessionResponse, ShareSessionRequest>(
         return;
       }
 
-      const { username } = await GameDataService.getCurrentUser();
-
-      const shareOptions: SharePostOptions = {
-        username,
-        score: payload.score,
-        blocks: payload.blocks,
-        perfectStreak: payload.perfectStreak,
-      };
-
-      if (typeof payload.rank === 'number') {
-        shareOptions.rank = payload.rank;
-      }
-
-      if (typeof payload.totalPlayers === 'number') {
-        shareOptions.totalPlayers = payload.totalPlayers;
-      }
-
-      if (typeof payload.madeTheGrid === 'boolean') {
-        shareOptions.madeTheGrid = payload.madeTheGrid;
-      }
+      const { userId, username } = await GameDataService.getCurrentUser();
 
-      if (typeof payload.sessionId === 'string' && payload.sessionId.length > 0) {
-        shareOptions.sessionId = payload.sessionId;
+      const share = await ShareService.buildShare(sessionId, userId, username);
+      if (share.status !== 'ready') {
+        const failures = {
+          not_found: { status: 404, message: 'Session not found' },
+          not_owner: { status: 403, message: 'Only the player who made a run can share it' },
+          not_verified: { status: 409, message: 'Rejected runs cannot be shared' },
+          struck: { status: 409, message: 'This run was removed by a moderator' },
+        } as const;
+        const failure = failures[share.status];
+        res.status(failure.status).json({
+          type: 'share_session',
+          success: false,
+          message: failure.message,
+        });
+        return;
       }
 
-      const post = await createSharePost(shareOptions);
+      const post = await createSharePost(share.options);
 
       if (!post?.id) {
         throw new Error('Share post was created without an ID');
       }
 
-      const previewPayload = {
-        username,
-        highScore: payload.score,
-        bestTowerHeight: payload.blocks,
-        perfectStreak: payload.perfectStreak,
-        ranking: typeof payload.rank === 'number' ? payload.rank : null,
-      };
-
-      await redis.set(`post:${post.id}:preview`, JSON.stringify(previewPayload));
+      await ShareService.linkSharePost(post.id, share.session, share.options);
 
       const postUrl =
         typeof post.permalink === 'string'
@@ -335,12 +648,24 @@ router.post<{}, ShareSessionResponse, ShareSessionRequest>(
   }
 );
 
-router.get<{}, GetUserStatsResponse>('/api/game/user-stats', async (_req, res): Promise<void> => {
+router.get<{}, GetUserStatsResponse>('/api/game/user-stats', async (req, res): Promise<void> => {
+  const mode = getModeQuery(req.query.mode);
+  if (!mode) {
+    res.status(400).json({
+      type: 'user_stats',
+      mode: String(req.query.mode),
+      stats: null,
+      recentSessions: [],
+    });
+    return;
+  }
+
   try {
-    const { stats, recentSessions } = await GameDataService.getUserStats();
+    const { stats, recentSessions } = await GameDataService.getUserStats(undefined, mode);
 
     res.json({
       type: 'user_stats',
+      mode,
       stats,
       recentSessions,
     });
@@ -349,6 +674,7 @@ router.get<{}, GetUserStatsResponse>('/api/game/user-stats', async (_req, res):
     // Return 200 with empty data instead of 400 for authentication issues
     res.json({
       type: 'user_stats',
+      mode,
       stats: null,
       recentSessions: [],
     });
@@ -356,6 +682,17 @@ router.get<{}, GetUserStatsResponse>('/api/game/user-stats', async (_req, res):
 });
 
 router.get<{}, GetTowerMapResponse>('/api/game/tower-map', async (req, res): Promise<void> => {
+  const mode = getModeQuery(req.query.mode);
+  if (!mode) {
+    res.status(400).json({
+      type: 'tower_map',
+      mode: String(req.query.mode),
+      towers: [],
+      totalCount: 0,
+    });
+    return;
+  }
+
   try {
     const limit = parseInt(req.query.limit as string) || 100;
     const offset = parseInt(req.query.offset as string) || 0;
@@ -371,10 +708,11 @@ router.get<{}, GetTowerMapResponse>('/api/game/tower-map', async (req, res): Pro
       };
     }
 
-    const { towers, totalCount } = await GameDataService.getTowerMap(limit, offset, bounds);
+    const { towers, totalCount } = await GameDataService.getTowerMap(limit, offset, bounds, mode);
 
     res.json({
       type: 'tower_map',
+      mode,
       towers,
       totalCount,
     });
@@ -382,48 +720,84 @@ router.get<{}, GetTowerMapResponse>('/api/game/tower-map', async (req, res): Pro
     console.error('Error getting tower map:', error);
     res.status(400).json({
       type: 'tower_map',
+      mode,
       towers: [],
       totalCount: 0,
     });
   }
 });
 
-// Update tower placement coordinates
+// Towers placed in one chunk of the grid, so the client can stream the map as the camera pans
+router.get<{}, GetTowerChunkResponse>(
+  '/api/game/tower-map/chunk',
+  async (req, res): Promise<void> => {
+    const mode = getModeQuery(req.query.mode);
+    const chunkX = Number(req.query.cx);
+    const chunkZ = Number(req.query.cz);
+    if (!mode || !isChunkOnGrid(chunkX, chunkZ)) {
+      res.status(400).json({
+        type: 'tower_chunk',
+        mode: String(req.query.mode),
+        chunkX,
+        chunkZ,
+        towers: [],
+      });
+      return;
+    }
+
+    try {
+      const towers = await GameDataService.getTowerChunk(chunkX, chunkZ, mode);
+      res.json({ type: 'tower_chunk', mode, chunkX, chunkZ, towers });
+    } catch (error) {
+      console.error('Error getting tower chunk:', error);
+      res.status(500).json({ type: 'tower_chunk', mode, chunkX, chunkZ, towers: [] });
+    }
+  }
+);
+
+// Move a tower the caller owns to a grid cell; the response carries the cell actually assigned
 router.post<{}, UpdateTowerPlacementResponse, UpdateTowerPlacementRequest>(
   '/api/game/update-tower-placement',
+  rateLimit('tower_placement'),
   async (req, res): Promise<void> => {
     try {
-      const { sessionId, worldX, worldZ, gridX, gridZ } = req.body;
-
-      if (
-        !sessionId ||
-        worldX === undefined ||
-        worldZ === undefined ||
-        gridX === undefined ||
-        gridZ === undefined
-      ) {
+      const { sessionId, gridX, gridZ } = req.body;
+
+      if (!sessionId || !Number.isInteger(gridX) || !Number.isInteger(gridZ)) {
         res.status(400).json({
           type: 'update_placement',
           success: false,
-          message: 'Missing required fields: sessionId, worldX, worldZ, gridX, gridZ',
+          message: 'Missing required fields: sessionId, gridX, gridZ',
         });
         return;
       }
 
-      const success = await GameDataService.updateTowerPlacement(
-        sessionId,
-        worldX,
-        worldZ,
-        gridX,
-        gridZ
-      );
+      const { userId } = await GameDataService.getCurrentUser();
+      const result = await GameDataService.updateTowerPlacement(sessionId, userId, gridX, gridZ);
+
+      if (result.status !== 'placed') {
+        const failures = {
+          not_found: { status: 404, message: 'Tower not found' },
+          not_owner: { status: 403, message: 'You can only move your own tower' },
+          not_on_map: { status: 409, message: 'Only your best tower has a place on the map' },
+          out_of_bounds: { status: 400, message: 'Cell is outside the grid' },
+          no_free_cell: { status: 409, message: 'No free cell near the requested position' },
+        } as const;
+        const failure = failures[result.status];
+
+        res.status(failure.status).json({
+          type: 'update_placement',
+          success: false,
+          message: failure.message,
+        });
+        return;
+      }
 
       res.json({
         type: 'update_placement',
-        success,
-        message: success
-          ? 'Tower placement updated successfully'
-          : 'Failed to update tower placement',
+        success: true,
+        message: 'Tower placement updated successfully',
+        placement: result.placement,
       });
     } catch (error) {
       console.error('Update tower placement error:', error);
@@ -437,13 +811,40 @@ router.post<{}, UpdateTowerPlacementResponse, UpdateTowerPlacementRequest>(
 );
 
 router.get<{}, GetLeaderboardResponse>('/api/game/leaderboard', async (req, res): Promise<void> => {
+  const mode = getModeQuery(req.query.mode);
+  const range = getRangeQuery(req.query.range);
+  const scope = getScopeQuery(req.query.scope);
+  const target = scope && scope !== 'global' ? getScopeTarget(scope) : undefined;
+  // Post and community boards are all-time only
+  const invalidScope = scope !== 'global' && (!target || range !== 'all_time');
+  if (!mode || !range || !scope || invalidScope) {
+    res.status(400).json({
+      type: 'leaderboard',
+      mode: String(req.query.mode),
+      range: range ?? 'all_time',
+      scope: scope ?? 'global',
+      highScores: [],
+      perfectStreaks: [],
+    });
+    return;
+  }
+
   try {
     const limit = parseInt(req.query.limit as string) || 10;
 
-    const { highScores, perfectStreaks } = await GameDataService.getLeaderboards(limit);
+    const { highScores, perfectStreaks, window } = await GameDataService.getLeaderboards(
+      limit,
+      mode,
+      range,
+      target
+    );
 
     res.json({
       type: 'leaderboard',
+      mode,
+      range,
+      scope,
+      ...(window && { windowId: window.windowId, endsAt: window.endsAt }),
       highScores,
       perfectStreaks,
     });
@@ -451,18 +852,88 @@ router.get<{}, GetLeaderboardResponse>('/api/game/leaderboard', async (req, res)
     console.error('Error getting leaderboard:', error);
     res.status(400).json({
       type: 'leaderboard',
+      mode,
+      range,
+      scope,
       highScores: [],
       perfectStreaks: [],
     });
   }
 });
 
+// Today's challenge for the current user: attempt used, streak and the day's board
+router.get<{}, GetDailyChallengeResponse>(
+  '/api/game/daily-challenge',
+  async (_req, res): Promise<void> => {
+    try {
+      const { challenge, attempted, streak, longestStreak, rank, highScores } =
+        await GameDataService.getDailyChallengeStatus();
+
+      res.json({
+        type: 'daily_challenge',
+        day: challenge.day,
+        endsAt: challenge.endsAt,
+        attempted,
+        streak,
+        longestStreak,
+        rank,
+        highScores,
+      });
+    } catch (error) {
+      console.error('Error getting daily challenge:', error);
+      const { day, endsAt } = DailyChallengeService.getChallenge();
+      res.status(400).json({
+        type: 'daily_challenge',
+        day,
+        endsAt,
+        attempted: false,
+        streak: 0,
+        longestStreak: 0,
+        highScores: [],
+      });
+    }
+  }
+);
+
+// Closed daily or weekly windows, so past winners can be browsed
+router.get<{}, GetLeaderboardArchiveResponse>(
+  '/api/game/leaderboard/archive',
+  async (req, res): Promise<void> => {
+    const mode = getModeQuery(req.query.mode);
+    const range = LeaderboardWindowService.RANGES.find(
+      (candidate) => candidate === (req.query.range ?? 'daily')
+    );
+    if (!mode || !range) {
+      res.status(400).json({
+        type: 'leaderboard_archive',
+        mode: String(req.query.mode),
+        range: range ?? 'daily',
+        windows: [],
+      });
+      return;
+    }
+
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 5, 30);
+      const windows = await LeaderboardWindowService.getArchive(mode, range, limit);
+
+      res.json({ type: 'leaderboard_archive', mode, range, windows });
+    } catch (error) {
+      console.error('Error getting leaderboard archive:', error);
+      res.status(400).json({ type: 'leaderboard_archive', mode, range, windows: [] });
+    }
+  }
+);
+
 router.get<{ sessionId: string }>(
   '/api/game/session/:sessionId',
   async (req, res): Promise<void> => {
     try {
       const { sessionId } = req.params;
-      const session = await GameDataService.getGameSession(sessionId);
+      const [session, replay] = await Promise.all([
+        GameDataService.getGameSession(sessionId),
+        GameDataService.getSessionReplay(sessionId),
+      ]);
 
       if (!session) {
         res.status(404).json({
@@ -472,7 +943,8 @@ router.get<{ sessionId: string }>(
         return;
       }
 
-      res.json(session);
+      const response: GetGameSessionResponse = { ...session, ...(replay && { replay }) };
+      res.json(response);
     } catch (error) {
       console.error('Error getting game session:', error);
       res.status(400).json({
@@ -484,30 +956,42 @@ router.get<{ sessionId: string }>(
 );
 
 // User data deletion endpoint (for compliance)
-router.delete<{ userId: string }>('/api/game/user/:userId', async (req, res): Promise<void> => {
-  try {
+router.delete<{ userId: string }>(
+  '/api/game/user/:userId',
+  requireModerator('delete_user'),
+  async (req, res): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
     const { userId } = req.params;
-    await GameDataService.deleteUserData(userId);
 
-    res.json({
-      status: 'success',
-      message: 'User data deleted successfully',
-    });
-  } catch (error) {
-    console.error('Error deleting user data:', error);
-    res.status(400).json({
-      status: 'error',
-      message: 'Failed to delete user data',
-    });
+    try {
+      await GameDataService.deleteUserData(userId);
+      await ModerationService.recordAudit(actor, 'delete_user', 'success', userId);
+
+      res.json({
+        status: 'success',
+        message: 'User data deleted successfully',
+      });
+    } catch (error) {
+      console.error('Error deleting user data:', error);
+      await ModerationService.recordAudit(actor, 'delete_user', 'failed', userId);
+      res.status(400).json({
+        status: 'error',
+        message: 'Failed to delete user data',
+      });
+    }
   }
-});
+);
 
 // Development/testing endpoints for clearing data
 router.delete<{}, ClearTowersResponse>(
   '/api/game/clear-towers',
+  requireModerator('clear_towers'),
   async (_req, res): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+
     try {
       await GameDataService.clearAllTowers();
+      await ModerationService.recordAudit(actor, 'clear_towers', 'success');
 
       res.json({
         status: 'success',
@@ -515,6 +999,7 @@ router.delete<{}, ClearTowersResponse>(
       });
     } catch (error) {
       console.error('Error clearing towers:', error);
+      await ModerationService.recordAudit(actor, 'clear_towers', 'failed');
       res.status(500).json({
         status: 'error',
         message: `Failed to clear towers: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -523,23 +1008,198 @@ router.delete<{}, ClearTowersResponse>(
   }
 );
 
-router.delete('/api/game/clear-all', async (_req, res): Promise<void> => {
+router.delete(
+  '/api/game/clear-all',
+  requireModerator('clear_all'),
+  async (_req, res): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+
+    try {
+      await GameDataService.clearAllGameData();
+      await ModerationService.recordAudit(actor, 'clear_all', 'success');
+
+      res.json({
+        status: 'success',
+        message: 'All game data cleared successfully',
+      });
+    } catch (error) {
+      console.error('Error clearing all game data:', error);
+      await ModerationService.recordAudit(actor, 'clear_all', 'failed');
+      res.status(500).json({
+        status: 'error',
+        message: `Failed to clear all game data: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+);
+
+// Lets the client decide whether to show admin controls; the routes check again regardless
+router.get<{}, GetAdminStatusResponse>('/api/admin/status', async (_req, res): Promise<void> => {
   try {
-    await GameDataService.clearAllGameData();
+    const actor = await ModerationService.getActor();
+    res.json({ type: 'admin_status', isModerator: actor?.isModerator ?? false });
+  } catch (error) {
+    console.error('Error checking admin status:', error);
+    res.json({ type: 'admin_status', isModerator: false });
+  }
+});
 
-    res.json({
-      status: 'success',
-      message: 'All game data cleared successfully',
-    });
+router.get<{}, GetAuditLogResponse>('/api/admin/audit-log', async (req, res): Promise<void> => {
+  try {
+    const actor = await ModerationService.getActor();
+    if (!actor?.isModerator) {
+      res.status(403).json({ type: 'audit_log', entries: [] });
+      return;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const entries = await ModerationService.getAuditLog(limit);
+
+    res.json({ type: 'audit_log', entries });
   } catch (error) {
-    console.error('Error clearing all game data:', error);
-    res.status(500).json({
-      status: 'error',
-      message: `Failed to clear all game data: ${error instanceof Error ? error.message : 'Unknown error'}`,
-    });
+    console.error('Error getting audit log:', error);
+    res.status(400).json({ type: 'audit_log', entries: [] });
   }
 });
 
+router.get<{}, GetReviewQueueResponse>(
+  '/api/admin/review-queue',
+  async (req, res): Promise<void> => {
+    try {
+      const actor = await ModerationService.getActor();
+      if (!actor?.isModerator) {
+        res.status(403).json({ type: 'review_queue', runs: [] });
+        return;
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const runs = await GameDataService.getReviewQueue(limit);
+
+      res.json({ type: 'review_queue', runs });
+    } catch (error) {
+      console.error('Error getting review queue:', error);
+      res.status(400).json({ type: 'review_queue', runs: [] });
+    }
+  }
+);
+
+router.post(
+  '/api/admin/review-queue/:runId/approve',
+  requireModerator('approve_run'),
+  handleRunReview('approve_run')
+);
+router.post(
+  '/api/admin/review-queue/:runId/reject',
+  requireModerator('reject_run'),
+  handleRunReview('reject_run')
+);
+
+// Moderator tools for individual towers, runs and players
+router.put(
+  '/api/admin/towers/:sessionId/hidden',
+  requireModerator('hide_tower'),
+  handleSessionModeration('hide_tower')
+);
+router.delete(
+  '/api/admin/towers/:sessionId/hidden',
+  requireModerator('unhide_tower'),
+  handleSessionModeration('unhide_tower')
+);
+router.put(
+  '/api/admin/runs/:sessionId/struck',
+  requireModerator('strike_run'),
+  handleSessionModeration('strike_run')
+);
+router.delete(
+  '/api/admin/runs/:sessionId/struck',
+  requireModerator('restore_run'),
+  handleSessionModeration('restore_run')
+);
+
+router.put<{ userId: string }, ModerationResponse>(
+  '/api/admin/users/:userId/ban',
+  requireModerator('ban_user'),
+  async (req, res): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+    const { userId } = req.params;
+
+    try {
+      const user = userId.startsWith('t2_')
+        ? await reddit.getUserById(userId as `t2_${string}`)
+        : undefined;
+      await ModerationService.banUser(userId, user?.username ?? userId, actor);
+      await ModerationService.recordAudit(actor, 'ban_user', 'success', userId);
+
+      res.json({ type: 'moderation', success: true });
+    } catch (error) {
+      console.error(`Error banning ${userId}:`, error);
+      await ModerationService.recordAudit(actor, 'ban_user', 'failed', userId);
+      res.status(500).json({ type: 'moderation', success: false, message: 'Failed to ban user' });
+    }
+  }
+);
+
+router.delete<{ userId: string }, ModerationResponse>(
+  '/api/admin/users/:userId/ban',
+  requireModerator('unban_user'),
+  async (req, res): Promise<void> => {
+    const actor = res.locals.actor as AdminActor;
+    const { userId } = req.params;
+
+    try {
+      const wasBanned = await ModerationService.unbanUser(userId);
+      await ModerationService.recordAudit(actor, 'unban_user', 'success', userId);
+
+      res.json({
+        type: 'moderation',
+        success: true,
+        ...(!wasBanned && { message: 'User was not banned' }),
+      });
+    } catch (error) {
+      console.error(`Error unbanning ${userId}:`, error);
+      await ModerationService.recordAudit(actor, 'unban_user', 'failed', userId);
+      res.status(500).json({ type: 'moderation', success: false, message: 'Failed to unban user' });
+    }
+  }
+);
+
+// Post and comment menu action: bar the author from submitting runs
+router.post<{}, UiResponse, MenuItemRequest>(
+  '/internal/menu/ban-from-grid',
+  async (req, res): Promise<void> => {
+    try {
+      const actor = await ModerationService.getActor();
+      if (!actor?.isModerator) {
+        res.json({ showToast: 'Only moderators can ban players from the grid' });
+        return;
+      }
+
+      const { targetId } = req.body;
+      const author = targetId.startsWith('t1_')
+        ? await reddit.getCommentById(targetId as `t1_${string}`)
+        : await reddit.getPostById(targetId as `t3_${string}`);
+
+      if (!author.authorId) {
+        res.json({ showToast: 'Could not find the author of that item' });
+        return;
+      }
+
+      await ModerationService.banUser(author.authorId, author.authorName, actor);
+      await ModerationService.recordAudit(actor, 'ban_user', 'success', author.authorId);
+
+      res.json({
+        showToast: {
+          text: `u/${author.authorName} can no longer submit towers`,
+          appearance: 'success',
+        },
+      });
+    } catch (error) {
+      console.error('Error banning author from the grid:', error);
+      res.json({ showToast: 'Failed to ban the author from the grid' });
+    }
+  }
+);
+
 // Compliance endpoints for content deletion
 router.post('/internal/on-post-delete', async (req, res): Promise<void> => {
   try {
@@ -547,8 +1207,11 @@ router.post('/internal/on-post-delete', async (req, res): Promise<void> => {
     const { postId } = req.body;
     console.log(`Post deleted: ${postId}`);
 
-    // Note: In a full implementation, you might want to clean up
-    // game sessions associated with this specific post
+    // Sessions stay on the global boards; only the post's own leaderboards go away
+    if (typeof postId === 'string' && postId.length > 0) {
+      await LeaderboardScopeService.deletePostBoards(postId);
+      await ShareService.unlinkPost(postId);
+    }
 
     res.json({ status: 'success' });
   } catch (error) {
@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'vitest';
+import { DropInput, GameSimulation, GameState } from '..';
+
+// A drop every second and a half, long enough for each block to land
+const INPUTS: DropInput[] = Array.from({ length: 12 }, (_, i) => ({ tick: 90 * (i + 1) }));
+
+// Where each placed block ended up, which is what the seed's spawn sides decide
+const placements = (seed: number) =>
+  GameSimulation.simulateGame(seed, INPUTS, 'classic').finalState.blocks.map((block) => ({
+    x: block.x,
+    z: block.z ?? 0,
+    width: block.width,
+  }));
+
+describe('GameSimulation seeds', () => {
+  test('the same seed replays the same run', () => {
+    expect(placements(424242)).toEqual(placements(424242));
+  });
+
+  test('different seeds play different runs from the same inputs', () => {
+    expect(placements(424242)).not.toEqual(placements(20260101));
+  });
+});
+
+// Step `state` through ticks `from`..`to`, dropping on the ticks in INPUTS
+const play = (simulation: GameSimulation, state: GameState, from: number, to: number) => {
+  let current = state;
+  for (let tick = from; tick <= to && !current.isGameOver; tick++) {
+    current = simulation.stepSimulation(
+      current,
+      INPUTS.find((input) => input.tick === tick)
+    );
+  }
+  return current;
+};
+
+describe('GameSimulation snapshots', () => {
+  const SNAPSHOT_TICK = 135; // Mid-slide, between the first and second drops
+  const END_TICK = 600;
+
+  test('a restored snapshot continues the run bit for bit', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    const atSnapshot = play(simulation, simulation.createInitialState(), 1, SNAPSHOT_TICK);
+    const snapshot = simulation.createSnapshot(atSnapshot);
+    const uninterrupted = play(simulation, atSnapshot, SNAPSHOT_TICK + 1, END_TICK);
+
+    const restored = simulation.restoreSnapshot(snapshot);
+    expect(play(simulation, restored, SNAPSHOT_TICK + 1, END_TICK)).toEqual(uninterrupted);
+  });
+
+  test('a snapshot resumes on a fresh simulation after a JSON round trip', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    const atSnapshot = play(simulation, simulation.createInitialState(), 1, SNAPSHOT_TICK);
+    const snapshot = JSON.parse(JSON.stringify(simulation.createSnapshot(atSnapshot)));
+    const uninterrupted = play(simulation, atSnapshot, SNAPSHOT_TICK + 1, END_TICK);
+
+    const { simulation: resumed, state } = GameSimulation.fromSnapshot(snapshot);
+    expect(play(resumed, state, SNAPSHOT_TICK + 1, END_TICK)).toEqual(uninterrupted);
+  });
+
+  test('restoring brings back the tuning the snapshot was taken under', () => {
+    const simulation = new GameSimulation(424242, 'classic');
+    const state = simulation.createInitialState();
+    const tuning = simulation.getTuning();
+    const snapshot = simulation.createSnapshot(state);
+
+    simulation.setSlideSpeedMultiplier(tuning.slideSpeed * 2);
+    simulation.restoreSnapshot(snapshot);
+    expect(simulation.getTuning()).toEqual(tuning);
+  });
+
+  test('rejects a snapshot from another run', () => {
+    const snapshot = new GameSimulation(1337, 'classic').createSnapshot(
+      new GameSimulation(1337, 'classic').createInitialState()
+    );
+    expect(() => new GameSimulation(424242, 'classic').restoreSnapshot(snapshot)).toThrow(
+      'Snapshot was taken from a different run'
+    );
+  });
+});
@@ -1,5 +1,5 @@
 import { deflate, inflate } from 'fflate';
-import { DropInput } from './types';
+import { DropInput, SimulationTuning } from './types';
 
 // Compression utilities for replay data
 export interface CompressedReplay {
@@ -11,6 +11,7 @@ export interface CompressedReplay {
     totalTicks: number;
     inputCount: number;
   };
+  tuning?: SimulationTuning; // Runtime overrides active during the run (defaults if omitted)
 }
 
 export class ReplayCompression {
@@ -115,7 +116,8 @@ export class ReplayCompression {
     seed: number,
     mode: string,
     inputs: ReadonlyArray<DropInput>,
-    tickRate: number = 60
+    tickRate: number = 60,
+    tuning?: SimulationTuning
   ): Promise<CompressedReplay> {
     const compressedInputs = await ReplayCompression.compressInputs(inputs);
     const totalTicks = inputs.length > 0 ? Math.max(...inputs.map((i) => i.tick)) : 0;
@@ -129,6 +131,7 @@ export class ReplayCompression {
         totalTicks,
         inputCount: inputs.length,
       },
+      ...(tuning && { tuning }),
     };
   }
 
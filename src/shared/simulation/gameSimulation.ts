@@ -1,6 +1,6 @@
 import { PRNG } from './prng';
 import { FixedMath } from './fixedMath';
-import { GeometryUtils } from './geometry';
+import { GeometryUtils, Polygon, AABB } from './geometry';
 import { emitDebug } from './debugLog';
 import {
   GameConfig,
@@ -12,13 +12,52 @@ import {
   DropInput,
   GameResult,
   GameMode,
+  SimulationTuning,
+  MODE_CONFIG,
+  TrimEffect,
+  PuzzleLevel,
 } from './types';
+import { PuzzleLevels } from './puzzleLevels';
+
+type TrimPiece = TrimEffect['trimmedPieces'][number];
+
+// Result of clipping a spinning block's footprint against the top of the tower
+interface RotatedPlacement {
+  readonly droppedBlock: Block; // The block as it was clipped (in the tower's frame)
+  readonly landedBlock: Block;
+  readonly trimmedPieces: ReadonlyArray<TrimPiece>;
+}
+
+/**
+ * Everything needed to resume a run exactly where it was: the construction parameters, the
+ * PRNG state, the runtime tuning and the hidden per-run fields that a GameState alone does
+ * not carry. Plain JSON, so a snapshot can be stored or sent to the server as-is.
+ */
+export interface SimulationSnapshot {
+  readonly version: 1;
+  readonly seed: number;
+  readonly mode: GameMode;
+  readonly config: GameConfig;
+  readonly scoring: ScoringConfig;
+  readonly level: PuzzleLevel | null;
+  readonly prngState: number;
+  readonly tuning: SimulationTuning;
+  readonly state: GameState; // The state the next stepSimulation call continues from
+  readonly trackedState: GameState | null; // The simulation's own view of the tower
+  readonly lastLandedBlock: Block | null;
+  readonly lastRotatedPlacement: RotatedPlacement | null;
+  readonly currentBlockSpawnTick: number;
+  readonly spawnFromLeft: boolean;
+}
 
 export class GameSimulation {
+  private readonly seed: number;
   private readonly config: GameConfig;
   private readonly scoring: ScoringConfig;
   private readonly prng: PRNG;
   private readonly mode: GameMode;
+  // Authored puzzle level this run plays (puzzle mode only)
+  private readonly level: PuzzleLevel | null;
   // Runtime overrides for tuning slide speed and bounds
   private runtimeSlideSpeed: number = 1000;
   private runtimeSlideAccel: number = 200; // scaling constant C for logarithmic increase (default 100)
@@ -34,16 +73,26 @@ export class GameSimulation {
 
   constructor(
     seed: number,
-    mode: GameMode = 'rotating_block',
+    mode: GameMode = 'classic',
     config?: Partial<GameConfig>,
-    scoring?: Partial<ScoringConfig>
+    scoring?: Partial<ScoringConfig>,
+    level?: PuzzleLevel
   ) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.seed = seed;
+    this.config = { ...DEFAULT_CONFIG, ...MODE_CONFIG[mode], ...config };
     this.scoring = { ...DEFAULT_SCORING, ...scoring };
     this.prng = new PRNG(seed);
     this.mode = mode;
+    this.level = level ?? null;
     // Initialize runtime bounds from config
     this.runtimeSlideBounds = this.config.SLIDE_BOUNDS;
+
+    // A level fixes its own movement, and its preset stack shouldn't speed up the slide
+    if (this.level) {
+      this.setSlideSpeedMultiplier(this.level.slideSpeed);
+      this.setSlideBounds(this.level.slideBounds);
+      this.setSpeedCountOffset(this.level.startingBlocks.length - 1);
+    }
   }
 
   // Combo-based height scaling (visual reward). 7% per combo, capped at 1.9x.
@@ -61,23 +110,27 @@ export class GameSimulation {
 
   // Create initial game state
   createInitialState(): GameState {
-    const initialBlock = this.createBaseBlock();
+    const initialBlocks = this.level ? [...this.level.startingBlocks] : [this.createBaseBlock()];
     this.gameState = {
       tick: 0,
       score: 0,
       combo: 0,
       maxCombo: 0,
       perfectBlockCount: 0,
-      blocks: [initialBlock],
+      blocks: initialBlocks,
       currentBlock: null,
       isGameOver: false,
       seed: this.prng.next(),
       recentTrimEffects: [],
       lastPlacement: null,
+      towerRotation: 0,
+      ...(this.config.TICK_BUDGET !== undefined && { deadlineTick: this.config.TICK_BUDGET }),
     };
 
     this.currentBlockSpawnTick = 0; // Initial block spawns at tick 0
-    const firstBlock = this.generateNextBlock(0);
+    // The first block over a bare base starts from the centre; over a preset stack it
+    // enters from the bounds like any later block
+    const firstBlock = this.generateNextBlock(this.level ? initialBlocks.length : 0);
 
     return {
       ...this.gameState,
@@ -101,6 +154,21 @@ export class GameSimulation {
     }
     if (state.isGameOver) return state;
 
+    // time_attack runs end once the tick budget is spent
+    if (state.deadlineTick !== undefined && state.tick >= state.deadlineTick) {
+      return this.endGame(state, 'time');
+    }
+
+    // Puzzle runs end as soon as the tower reaches the level's target height
+    if (this.level && state.blocks.length >= PuzzleLevels.getGoalBlockCount(this.level)) {
+      return this.endGame(state, 'complete');
+    }
+
+    // The tower keeps turning under the sliding block, a little faster with every block
+    if (this.mode === 'rotating_base') {
+      state = { ...state, towerRotation: this.calculateTowerRotation(state) };
+    }
+
     // Update internal game state reference
     this.gameState = state;
 
@@ -123,6 +191,20 @@ export class GameSimulation {
         const axis: 'x' | 'z' = nextIndex % 2 === 0 ? 'x' : 'z';
 
         const dropped = { ...state.currentBlock } as Block;
+
+        // Spinning blocks are clipped as rotated footprints rather than along one axis
+        if (this.usesFootprintDrop(dropped)) {
+          const rotated = this.calculateFootprintDrop(dropped, topBlock);
+          if (!rotated) return this.endGame(state, 'fall');
+          return this.completeRotatedPlacement(
+            state,
+            topBlock,
+            rotated,
+            newTick,
+            state.recentTrimEffects
+          );
+        }
+
         // compute placement as if it had reached top surface
         const dropResult = this.calculateDrop(dropped, topBlock, axis);
 
@@ -134,7 +216,7 @@ export class GameSimulation {
           x: axis === 'x' ? dropResult.newCenter : topBlock.x,
           z: axis === 'z' ? dropResult.newCenter : (topBlock.z ?? 0),
           y: topBlock.y + topBlock.height,
-          rotation: dropped.rotation,
+          rotation: 0, // Near-square drops snap flat onto the tower
           width: axis === 'x' ? dropResult.newExtent : topBlock.width,
           depth: axis === 'z' ? dropResult.newExtent : (topBlock.depth ?? topBlock.width),
           height: this.config.BLOCK_HEIGHT,
@@ -273,6 +355,7 @@ export class GameSimulation {
           blocks: newBlocks,
           currentBlock: null,
           recentTrimEffects: newRecent,
+          ...this.extendDeadline(state, scoreResult.isPerfect),
           lastPlacement: {
             isPositionPerfect: scoreResult.isPerfect,
             noTrim: noActualTrim,
@@ -318,6 +401,17 @@ export class GameSimulation {
     // Clean up old trim effects
     const activeEffects = state.recentTrimEffects.filter((effect) => newTick - effect.tick < 60);
 
+    // A spinning block that landed during the physics update
+    if (this.lastRotatedPlacement) {
+      const rotated = this.lastRotatedPlacement;
+      this.lastRotatedPlacement = null;
+
+      const topBlock = state.blocks[state.blocks.length - 1];
+      if (!topBlock) return this.endGame(state, 'fall');
+
+      return this.completeRotatedPlacement(state, topBlock, rotated, newTick, activeEffects);
+    }
+
     // If a falling block landed during physics update, finalize placement now
     if (this.lastLandedBlock) {
       const landed = this.lastLandedBlock;
@@ -455,6 +549,7 @@ export class GameSimulation {
         blocks: newBlocks,
         currentBlock: null,
         recentTrimEffects: newRecent2,
+        ...this.extendDeadline(state, scoreResult.isPerfect),
         lastPlacement: {
           isPositionPerfect: scoreResult.isPerfect,
           noTrim: noActualTrim,
@@ -502,6 +597,12 @@ export class GameSimulation {
 
     // If the block bottom is at or below the top surface, finalize placement
     if (blockBottom <= topSurface) {
+      if (this.usesFootprintDrop(block)) {
+        // Game over when the footprint misses; otherwise finalize in stepSimulation
+        this.lastRotatedPlacement = this.calculateFootprintDrop(block, topBlock);
+        return null;
+      }
+
       // Determine which horizontal axis this falling block was moving along
       const nextIndex = blocks.length; // the index this block will occupy
       const axis: 'x' | 'z' = nextIndex % 2 === 0 ? 'x' : 'z';
@@ -519,7 +620,7 @@ export class GameSimulation {
         x: axis === 'x' ? dropResult.newCenter : topBlock.x,
         z: axis === 'z' ? dropResult.newCenter : (topBlock.z ?? 0),
         y: topBlock.y + topBlock.height,
-        rotation: block.rotation,
+        rotation: 0,
         width: axis === 'x' ? dropResult.newExtent : topBlock.width,
         depth: axis === 'z' ? dropResult.newExtent : (topBlock.depth ?? topBlock.width),
         height: this.config.BLOCK_HEIGHT,
@@ -541,14 +642,20 @@ export class GameSimulation {
   // Temporary holder for a landed block produced during physics update
   private lastLandedBlock: Block | null = null;
 
+  // Same for spinning blocks, whose placement also carries its rotated trims
+  private lastRotatedPlacement: RotatedPlacement | null = null;
+
   // Track when the current block was spawned for smooth movement
   private currentBlockSpawnTick: number = 0;
 
+  // Which bound the current block entered from, drawn from the run's PRNG at spawn
+  private spawnFromLeft: boolean = true;
+
   // Update block position and rotation based on game mode
   private updateBlockMovement(block: Block, tick: number): Block {
     // Determine axis based on current tower height (blocks.length)
     const index = (this.gameState && this.gameState.blocks.length) || 0;
-    const axis = index % 2 === 0 ? 'x' : 'z';
+    const axis = this.getSlideAxis(index);
 
     // Calculate relative tick since this block was spawned for consistent movement
     // For the initial block, ensure we start from tick 0
@@ -557,9 +664,10 @@ export class GameSimulation {
     const newPos = this.calculateSlidePosition(relativeTick, index);
 
     // Calculate rotation based on game mode
+    // Each block spawns square and spins from there
     let newRotation = 0;
     if (this.mode === 'rotating_block') {
-      newRotation = this.calculateBlockRotation(tick);
+      newRotation = this.calculateBlockRotation(relativeTick);
     }
 
     // Ensure moving block sizes smoothly approach the current top block's size
@@ -666,8 +774,8 @@ export class GameSimulation {
       return Math.floor(-bounds + 2 * bounds * progress);
     }
 
-    // For subsequent blocks, determine starting direction based on block count
-    const startFromLeft = count % 4 < 2;
+    // For subsequent blocks, start from the side the block spawned on
+    const startFromLeft = this.spawnFromLeft;
 
     // For the very first few ticks after spawn, ensure we start exactly at the spawn position
     if (tick < 5) {
@@ -774,6 +882,113 @@ export class GameSimulation {
     }
   }
 
+  // Snapshot of every runtime override, so replays can reproduce this exact tuning
+  public getTuning(): SimulationTuning {
+    return {
+      slideSpeed: this.runtimeSlideSpeed,
+      slideAccel: this.runtimeSlideAccel,
+      slideMax: this.runtimeSlideMax,
+      slideBounds: this.runtimeSlideBounds ?? this.config.SLIDE_BOUNDS,
+      fallSpeedMult: this.runtimeFallSpeedMult,
+      instantPlaceMain: this.runtimeInstantPlaceMain,
+      speedCountOffset: this.speedCountOffset,
+    };
+  }
+
+  // Apply a tuning snapshot produced by getTuning() (goes through the regular setters)
+  public applyTuning(tuning: SimulationTuning) {
+    this.setSlideSpeedMultiplier(tuning.slideSpeed);
+    this.setSlideAcceleration(tuning.slideAccel);
+    this.setSlideSpeedMax(tuning.slideMax ?? undefined);
+    this.setSlideBounds(tuning.slideBounds);
+    this.setFallSpeedMultiplier(tuning.fallSpeedMult);
+    this.setInstantPlaceMain(tuning.instantPlaceMain);
+    this.setSpeedCountOffset(tuning.speedCountOffset);
+  }
+
+  /**
+   * Capture the simulation as it stands before stepping `state`. Restoring the snapshot
+   * and stepping with the same inputs reproduces the run bit for bit.
+   */
+  public createSnapshot(state: GameState): SimulationSnapshot {
+    // Round-trip through JSON so the snapshot shares nothing with the live run
+    return JSON.parse(
+      JSON.stringify({
+        version: 1,
+        seed: this.seed,
+        mode: this.mode,
+        config: this.config,
+        scoring: this.scoring,
+        level: this.level,
+        prngState: this.prng.getState(),
+        tuning: this.getTuning(),
+        state,
+        trackedState: this.gameState,
+        lastLandedBlock: this.lastLandedBlock,
+        lastRotatedPlacement: this.lastRotatedPlacement,
+        currentBlockSpawnTick: this.currentBlockSpawnTick,
+        spawnFromLeft: this.spawnFromLeft,
+      } satisfies SimulationSnapshot)
+    ) as SimulationSnapshot;
+  }
+
+  /**
+   * Rewind this simulation to a snapshot taken from it (or from one built the same way) and
+   * return the state to continue stepping from
+   */
+  public restoreSnapshot(snapshot: SimulationSnapshot): GameState {
+    if (snapshot.version !== 1) {
+      throw new Error(`Unsupported simulation snapshot version ${snapshot.version}`);
+    }
+    if (snapshot.seed !== this.seed || snapshot.mode !== this.mode) {
+      throw new Error('Snapshot was taken from a different run');
+    }
+
+    // Copy again so the snapshot can be restored any number of times
+    const copy = JSON.parse(JSON.stringify(snapshot)) as SimulationSnapshot;
+    this.prng.setState(copy.prngState);
+    this.applyTuning(copy.tuning);
+    this.gameState = copy.trackedState;
+    this.lastLandedBlock = copy.lastLandedBlock;
+    this.lastRotatedPlacement = copy.lastRotatedPlacement;
+    this.currentBlockSpawnTick = copy.currentBlockSpawnTick;
+    this.spawnFromLeft = copy.spawnFromLeft;
+    return copy.state;
+  }
+
+  // Build a fresh simulation from a snapshot, e.g. after a crash or on another machine
+  static fromSnapshot(snapshot: SimulationSnapshot): {
+    simulation: GameSimulation;
+    state: GameState;
+  } {
+    const simulation = new GameSimulation(
+      snapshot.seed,
+      snapshot.mode,
+      snapshot.config,
+      snapshot.scoring,
+      snapshot.level ?? undefined
+    );
+    return { simulation, state: simulation.restoreSnapshot(snapshot) };
+  }
+
+  // Alternate axis: even blocks move on X, odd blocks move on Z. On a spinning tower the
+  // block always slides along world X and the tower's rotation varies the approach instead.
+  private getSlideAxis(blockIndex: number): 'x' | 'z' {
+    if (this.mode === 'rotating_base') return 'x';
+    return blockIndex % 2 === 0 ? 'x' : 'z';
+  }
+
+  // Advance the tower yaw by one tick. The spin rate starts at ROTATION_SPEED and grows
+  // by 5% for every placed block, capped at three times the starting rate.
+  private calculateTowerRotation(state: GameState): number {
+    const placedBlocks = Math.max(0, state.blocks.length - 1);
+    const speedMultiplier = Math.min(3000, 1000 + placedBlocks * 50);
+    const rotationPerTick = Math.floor(
+      FixedMath.multiply(this.config.ROTATION_SPEED, speedMultiplier, 1000) / this.config.TICK_RATE
+    );
+    return ((state.towerRotation ?? 0) + rotationPerTick) % 360000;
+  }
+
   // Calculate block rotation
   private calculateBlockRotation(tick: number, speedMultiplier: number = 1000): number {
     const rotationPerTick =
@@ -826,17 +1041,7 @@ export class GameSimulation {
       topBlock.height
     );
 
-    // For rotated blocks (on X axis), use polygon collision
-    if (axis === 'x' && this.mode === 'rotating_block' && droppedBlock.rotation !== 0) {
-      const rotated = this.calculateRotatedDrop(droppedBlock, topBlock);
-      return {
-        newCenter: rotated.newX,
-        newExtent: rotated.newWidth,
-        overlapArea: rotated.overlapArea,
-      };
-    }
-
-    // Simple AABB collision for non-rotated or Z-axis drops
+    // Simple AABB collision (spinning blocks go through calculateRotatedDrop instead)
     const overlapArea = GeometryUtils.aabbIntersectionArea(droppedRect, topRect);
     const overlapExtent =
       Math.min(droppedRect.maxX, topRect.maxX) - Math.max(droppedRect.minX, topRect.minX);
@@ -857,46 +1062,257 @@ export class GameSimulation {
     };
   }
 
-  // Calculate drop for rotated blocks using polygon clipping
-  private calculateRotatedDrop(
-    droppedBlock: Block,
-    topBlock: Block
-  ): { newX: number; newWidth: number; overlapArea: number } {
-    // Create rotated polygon for dropped block
-    const droppedY = topBlock.y + topBlock.height + droppedBlock.height / 2;
-    const droppedPolygon = GeometryUtils.createRotatedRect(
-      droppedBlock.x,
-      droppedY,
+  // How far a block's yaw is from sitting square on the tower (millidegrees). A square
+  // footprint repeats every quarter turn, a rectangular one every half turn.
+  private getAngleError(block: Block): number {
+    const depth = block.depth ?? block.width;
+    const period = block.width === depth ? 90000 : 180000;
+    const angle = ((block.rotation % period) + period) % period;
+    return Math.min(angle, period - angle);
+  }
+
+  // Drops close enough to square use the regular axis placement and snap flat
+  private isRotatedDrop(block: Block): boolean {
+    return this.getAngleError(block) > this.scoring.anglePerfectWindow;
+  }
+
+  // A spinning tower is never aligned with the slide axis, so every drop is clipped by footprint
+  private usesFootprintDrop(block: Block): boolean {
+    return this.mode === 'rotating_base' || this.isRotatedDrop(block);
+  }
+
+  private calculateFootprintDrop(droppedBlock: Block, topBlock: Block): RotatedPlacement | null {
+    if (this.mode === 'rotating_base') {
+      return this.calculateTowerFrameDrop(droppedBlock, topBlock);
+    }
+    return this.calculateRotatedDrop(droppedBlock, topBlock);
+  }
+
+  // rotating_base: the block slides in world space while the tower turns beneath it. Move
+  // the block into the tower's frame, where every placed block lives, and clip it there.
+  private calculateTowerFrameDrop(droppedBlock: Block, topBlock: Block): RotatedPlacement | null {
+    const towerRotation = this.gameState?.towerRotation ?? 0;
+    const local = GeometryUtils.rotatePoint(
+      { x: droppedBlock.x, y: droppedBlock.z ?? 0 },
+      -towerRotation
+    );
+    const towerFrameBlock: Block = {
+      ...droppedBlock,
+      x: local.x,
+      z: local.y,
+      rotation: (droppedBlock.rotation - towerRotation + 360000) % 360000,
+    };
+
+    if (this.isRotatedDrop(towerFrameBlock)) {
+      return this.calculateRotatedDrop(towerFrameBlock, topBlock);
+    }
+
+    // Near-square drops snap flat; the perfect-drop grace band applies on both axes
+    const topDepth = topBlock.depth ?? topBlock.width;
+    const alignmentError = Math.max(
+      Math.abs(towerFrameBlock.x - topBlock.x),
+      Math.abs((towerFrameBlock.z ?? 0) - (topBlock.z ?? 0))
+    );
+    const graceWindow = Math.min(
+      this.scoring.positionPerfectWindow,
+      Math.floor(Math.min(topBlock.width, topDepth) / 5)
+    );
+    if (alignmentError <= graceWindow) {
+      return {
+        droppedBlock: towerFrameBlock,
+        landedBlock: {
+          x: topBlock.x,
+          z: topBlock.z ?? 0,
+          y: topBlock.y + topBlock.height,
+          rotation: 0,
+          width: topBlock.width,
+          depth: topDepth,
+          height: this.config.BLOCK_HEIGHT,
+          isFalling: false,
+          velocityY: 0,
+        },
+        trimmedPieces: [],
+      };
+    }
+
+    return this.calculateRotatedDrop({ ...towerFrameBlock, rotation: 0 }, topBlock);
+  }
+
+  // Clip a spinning block's footprint (top-down x/z plane) against the top block. The
+  // landed block is axis-aligned, centred on the overlap and sized to keep the clipped
+  // area. Returns null when the overlap is too small to stand on.
+  private calculateRotatedDrop(droppedBlock: Block, topBlock: Block): RotatedPlacement | null {
+    const centerX = droppedBlock.x;
+    const centerZ = droppedBlock.z ?? 0;
+    const footprint = GeometryUtils.createRotatedRect(
+      centerX,
+      centerZ,
       droppedBlock.width,
-      droppedBlock.height,
+      droppedBlock.depth ?? droppedBlock.width,
       droppedBlock.rotation
     );
-
-    // Create AABB for top block (assuming it's not rotated)
     const topRect = GeometryUtils.createAABB(
       topBlock.x,
-      topBlock.y + topBlock.height / 2,
+      topBlock.z ?? 0,
       topBlock.width,
-      topBlock.height
+      topBlock.depth ?? topBlock.width
     );
 
-    // Clip the dropped polygon against the top block
-    const clippedPolygon = GeometryUtils.clipPolygonToAABB(droppedPolygon, topRect);
+    const overlap = GeometryUtils.clipPolygonToAABB(footprint, topRect);
+    const overlapArea = GeometryUtils.polygonArea(overlap);
+    if (overlap.length < 3 || overlapArea <= 0) return null;
 
-    if (clippedPolygon.length < 3) {
-      // No meaningful overlap
-      return { newX: droppedBlock.x, newWidth: 0, overlapArea: 0 };
+    // Shrink the overlap's bounding box to the true clipped area, keeping its aspect ratio
+    const bounds = GeometryUtils.polygonBounds(overlap);
+    const boundsWidth = bounds.maxX - bounds.minX;
+    const boundsDepth = bounds.maxY - bounds.minY;
+    const shrink = Math.sqrt(overlapArea / Math.max(1, boundsWidth * boundsDepth));
+    const width = Math.floor(boundsWidth * Math.min(1, shrink));
+    const depth = Math.floor(boundsDepth * Math.min(1, shrink));
+
+    if (width < this.config.MIN_WIDTH_THRESHOLD || depth < this.config.MIN_WIDTH_THRESHOLD) {
+      return null;
     }
 
-    const overlapArea = GeometryUtils.polygonArea(clippedPolygon);
+    const landedBlock: Block = {
+      x: Math.floor((bounds.minX + bounds.maxX) / 2),
+      z: Math.floor((bounds.minY + bounds.maxY) / 2),
+      y: topBlock.y + topBlock.height,
+      rotation: 0,
+      width,
+      depth,
+      height: this.config.BLOCK_HEIGHT,
+      isFalling: false,
+      velocityY: 0,
+    };
 
-    // Calculate bounding box of clipped polygon to determine new width
-    const minX = Math.min(...clippedPolygon.map((p) => p.x));
-    const maxX = Math.max(...clippedPolygon.map((p) => p.x));
-    const newWidth = maxX - minX;
-    const newX = (minX + maxX) / 2;
+    return {
+      droppedBlock,
+      landedBlock,
+      trimmedPieces: this.calculateRotatedTrims(droppedBlock, footprint, topRect, topBlock),
+    };
+  }
 
-    return { newX, newWidth, overlapArea };
+  // Pieces of a spinning footprint hanging over each side of the top block. Each piece is
+  // the overhang's bounding box in the block's own frame, so it keeps the block's yaw.
+  private calculateRotatedTrims(
+    droppedBlock: Block,
+    footprint: Polygon,
+    topRect: AABB,
+    topBlock: Block
+  ): TrimPiece[] {
+    const TRIM_VEL = 2000;
+    const outer = GeometryUtils.polygonBounds(footprint);
+    const centerX = droppedBlock.x;
+    const centerZ = droppedBlock.z ?? 0;
+    const y = topBlock.y + topBlock.height + Math.floor(droppedBlock.height / 2);
+
+    // The four regions around the top block (left/right take the corners)
+    const sides = [
+      { minX: outer.minX, maxX: topRect.minX, minY: outer.minY, maxY: outer.maxY, vx: -1, vz: 0 },
+      { minX: topRect.maxX, maxX: outer.maxX, minY: outer.minY, maxY: outer.maxY, vx: 1, vz: 0 },
+      {
+        minX: topRect.minX,
+        maxX: topRect.maxX,
+        minY: outer.minY,
+        maxY: topRect.minY,
+        vx: 0,
+        vz: -1,
+      },
+      {
+        minX: topRect.minX,
+        maxX: topRect.maxX,
+        minY: topRect.maxY,
+        maxY: outer.maxY,
+        vx: 0,
+        vz: 1,
+      },
+    ];
+
+    const pieces: TrimPiece[] = [];
+    for (const side of sides) {
+      if (side.maxX <= side.minX || side.maxY <= side.minY) continue;
+
+      const overhang = GeometryUtils.clipPolygonToAABB(footprint, side);
+      if (overhang.length < 3 || GeometryUtils.polygonArea(overhang) <= 0) continue;
+
+      // Measure the overhang in the block's local (unrotated) frame
+      const local = overhang.map((p) =>
+        GeometryUtils.rotatePoint({ x: p.x - centerX, y: p.y - centerZ }, -droppedBlock.rotation)
+      );
+      const localBounds = GeometryUtils.polygonBounds(local);
+      const pieceCenter = GeometryUtils.rotatePoint(
+        {
+          x: Math.floor((localBounds.minX + localBounds.maxX) / 2),
+          y: Math.floor((localBounds.minY + localBounds.maxY) / 2),
+        },
+        droppedBlock.rotation
+      );
+
+      pieces.push({
+        x: centerX + pieceCenter.x,
+        y,
+        z: centerZ + pieceCenter.y,
+        width: localBounds.maxX - localBounds.minX,
+        depth: localBounds.maxY - localBounds.minY,
+        height: droppedBlock.height,
+        velocityX: side.vx * TRIM_VEL,
+        velocityY: TRIM_VEL,
+        velocityZ: side.vz * TRIM_VEL,
+        rotation: droppedBlock.rotation,
+      });
+    }
+
+    return pieces;
+  }
+
+  // Score a spinning block's placement and advance to the next block
+  private completeRotatedPlacement(
+    state: GameState,
+    topBlock: Block,
+    placement: RotatedPlacement,
+    newTick: number,
+    activeEffects: GameState['recentTrimEffects']
+  ): GameState {
+    const dropped = placement.droppedBlock;
+    const scoreResult = this.calculateScore(dropped, topBlock, placement.landedBlock, state.combo);
+
+    const newBlocks = [...state.blocks, placement.landedBlock];
+    const newRecent = [...activeEffects];
+    if (placement.trimmedPieces.length > 0) {
+      newRecent.push({
+        originalBlock: dropped,
+        trimmedPieces: placement.trimmedPieces,
+        tick: newTick,
+      });
+    }
+
+    const newState: GameState = {
+      ...state,
+      tick: newTick,
+      score: state.score + scoreResult.points,
+      combo: scoreResult.newCombo,
+      maxCombo: Math.max(state.maxCombo ?? 0, scoreResult.newCombo),
+      perfectBlockCount: (state.perfectBlockCount ?? 0) + (scoreResult.isPerfect ? 1 : 0),
+      blocks: newBlocks,
+      currentBlock: null,
+      recentTrimEffects: newRecent,
+      ...this.extendDeadline(state, scoreResult.isPerfect),
+      lastPlacement: {
+        isPositionPerfect: scoreResult.isPerfect,
+        noTrim: placement.trimmedPieces.length === 0,
+        comboAfter: scoreResult.newCombo,
+      },
+    };
+
+    this.gameState = newState;
+    this.currentBlockSpawnTick = newTick; // Track when this block was spawned
+    const nextBlock = this.generateNextBlock(newBlocks.length);
+
+    return {
+      ...newState,
+      currentBlock: nextBlock,
+    };
   }
 
   // Calculate score for a successful drop
@@ -909,11 +1325,28 @@ export class GameSimulation {
     let points = this.scoring.basePoints;
     let newCombo = 0;
 
-    // Horizontal alignment error (fixed-point)
-    const positionError = Math.abs(droppedBlock.x - topBlock.x);
+    // Horizontal alignment error (fixed-point). On a spinning tower the drop can miss on
+    // either axis, so the larger of the two errors counts.
+    const positionError =
+      this.mode === 'rotating_base'
+        ? Math.max(
+            Math.abs(droppedBlock.x - topBlock.x),
+            Math.abs((droppedBlock.z ?? 0) - (topBlock.z ?? 0))
+          )
+        : Math.abs(droppedBlock.x - topBlock.x);
     const isPositionPerfect = positionError <= this.scoring.positionPerfectWindow;
 
-    if (isPositionPerfect) {
+    // Spinning blocks (or blocks dropped onto a spinning tower) also have to land square
+    const isRotating = this.mode === 'rotating_block' || this.mode === 'rotating_base';
+    const isAnglePerfect =
+      !isRotating || this.getAngleError(droppedBlock) <= this.scoring.anglePerfectWindow;
+    if (isRotating && isAnglePerfect) {
+      points += this.scoring.anglePerfectBonus;
+    }
+
+    const isPerfect = isPositionPerfect && isAnglePerfect;
+
+    if (isPerfect) {
       const DBG = (globalThis as any).__DEBUG_PERFECT;
       if (DBG) {
         // console.log(
@@ -997,7 +1430,22 @@ export class GameSimulation {
       }
     }
 
-    return { points: Math.floor(points), newCombo, isPerfect: isPositionPerfect };
+    return { points: Math.floor(points), newCombo, isPerfect };
+  }
+
+  // time_attack: a perfect placement buys back PERFECT_BONUS_TICKS
+  private extendDeadline(state: GameState, isPerfect: boolean): Pick<GameState, 'deadlineTick'> {
+    if (state.deadlineTick === undefined || !isPerfect) return {};
+    return { deadlineTick: state.deadlineTick + (this.config.PERFECT_BONUS_TICKS ?? 0) };
+  }
+
+  // time_attack: reward the average placement rate over the whole run (blocks per second)
+  private calculatePaceBonus(state: GameState): number {
+    const placedBlocks = Math.max(0, state.blocks.length - 1);
+    const blocksPerSecond = Math.floor(
+      (placedBlocks * this.config.TICK_RATE * 1000) / Math.max(1, state.tick)
+    );
+    return Math.floor(FixedMath.multiply(blocksPerSecond, this.scoring.paceBonus, 1000));
   }
 
   // Generate next block starting from bounds for smooth entry
@@ -1013,24 +1461,28 @@ export class GameSimulation {
       ? topBlock.y + topBlock.height + Math.floor(this.config.BLOCK_HEIGHT * 1)
       : Math.floor(this.config.BLOCK_HEIGHT * 1.2);
 
-    // Alternate axis: even blocks move on X, odd blocks move on Z
-    const axis = _blockIndex % 2 === 0 ? 'x' : 'z';
+    const axis = this.getSlideAxis(_blockIndex);
 
     // For the first block, start from center; subsequent blocks start from bounds
     let startPosition: number;
     if (_blockIndex === 0) {
       // First block starts from center
+      this.spawnFromLeft = true;
       startPosition = 0;
     } else {
-      // Subsequent blocks start from bounds for smooth entry movement
+      // Subsequent blocks start from bounds for smooth entry movement, on a side the
+      // seed picks, so every seed plays a different sequence
       const bounds = this.runtimeSlideBounds ?? this.config.SLIDE_BOUNDS;
-      const startFromLeft = _blockIndex % 4 < 2;
-      startPosition = startFromLeft ? -bounds : bounds;
+      this.spawnFromLeft = this.prng.range(0, 2) === 0;
+      startPosition = this.spawnFromLeft ? -bounds : bounds;
     }
 
+    // A spinning tower carries its top block around, so that block slides through the spin axis
+    const followTop = topBlock && this.mode !== 'rotating_base';
+
     return {
-      x: axis === 'x' ? startPosition : topBlock ? topBlock.x : 0,
-      z: axis === 'z' ? startPosition : topBlock ? (topBlock.z ?? 0) : 0,
+      x: axis === 'x' ? startPosition : followTop ? topBlock.x : 0,
+      z: axis === 'z' ? startPosition : followTop ? (topBlock.z ?? 0) : 0,
       y: yPosition,
       rotation: 0, // Will be updated by rotation calculation
       width: inheritedWidth,
@@ -1064,7 +1516,7 @@ export class GameSimulation {
   }
 
   // End the game with a specific reason
-  private endGame(state: GameState, reason: 'width' | 'fall'): GameState {
+  private endGame(state: GameState, reason: 'width' | 'fall' | 'time' | 'complete'): GameState {
     console.log(
       'Game ending due to:',
       reason,
@@ -1073,10 +1525,13 @@ export class GameSimulation {
       'blocks:',
       state.blocks.length
     );
+    const paceBonus = reason === 'time' ? this.calculatePaceBonus(state) : 0;
     return {
       ...state,
+      score: state.score + paceBonus,
       isGameOver: true,
       currentBlock: null,
+      gameOverReason: reason,
     };
   }
 
@@ -1084,19 +1539,29 @@ export class GameSimulation {
   static simulateGame(
     seed: number,
     inputs: ReadonlyArray<DropInput>,
-    mode: GameMode = 'rotating_block',
+    mode: GameMode = 'classic',
     config?: Partial<GameConfig>,
-    scoring?: Partial<ScoringConfig>
+    scoring?: Partial<ScoringConfig>,
+    tuning?: SimulationTuning,
+    level?: PuzzleLevel
   ): GameResult {
-    const simulation = new GameSimulation(seed, mode, config, scoring);
+    const simulation = new GameSimulation(seed, mode, config, scoring, level);
     let state = simulation.createInitialState();
+    if (tuning) {
+      simulation.applyTuning(tuning);
+    }
 
     const inputMap = new Map(inputs.map((input) => [input.tick, input]));
     let maxCombo = 0;
 
-    // Run simulation until game over or max ticks
-    const maxTicks = 3600; // 60 seconds at 60 FPS
-    for (let tick = 1; tick <= maxTicks && !state.isGameOver; tick++) {
+    // Run simulation until game over or max ticks. Runs longer than a minute still
+    // need every recorded drop applied, so extend the budget to the last input. Timed
+    // runs always play out until their (possibly extended) deadline.
+    const lastInputTick = inputs.reduce((max, input) => Math.max(max, input.tick), 0);
+    const maxTicks = Math.max(3600, lastInputTick); // at least 60 seconds at 60 FPS
+    const tickLimit = () =>
+      state.deadlineTick !== undefined ? Math.max(maxTicks, state.deadlineTick + 1) : maxTicks;
+    for (let tick = 1; tick <= tickLimit() && !state.isGameOver; tick++) {
       const input = inputMap.get(tick);
       state = simulation.stepSimulation(state, input);
       const stateMaxCombo = (state as any).maxCombo;
@@ -1106,7 +1571,11 @@ export class GameSimulation {
       );
     }
 
-    const gameOverReason: 'width' | 'fall' | 'manual' = state.isGameOver ? 'width' : 'manual';
+    let gameOverReason: GameResult['gameOverReason'] = 'manual';
+    if (state.isGameOver) {
+      const reason = state.gameOverReason;
+      gameOverReason = reason === 'time' || reason === 'complete' ? reason : 'width';
+    }
 
     return {
       finalScore: state.score,
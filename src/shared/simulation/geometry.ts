@@ -85,6 +85,18 @@ export class GeometryUtils {
     return intersectionWidth * intersectionHeight;
   }
 
+  // Axis-aligned bounds of a polygon
+  static polygonBounds(polygon: Polygon): AABB {
+    const xs = polygon.map((p) => p.x);
+    const ys = polygon.map((p) => p.y);
+    return {
+      minX: Math.min(...xs),
+      minY: Math.min(...ys),
+      maxX: Math.max(...xs),
+      maxY: Math.max(...ys),
+    };
+  }
+
   // Calculate polygon area using shoelace formula (fixed-point)
   static polygonArea(polygon: Polygon): number {
     if (polygon.length < 3) return 0;
@@ -4,6 +4,7 @@ export * from './prng';
 export * from './fixedMath';
 export * from './geometry';
 export * from './gameSimulation';
+export * from './puzzleLevels';
 
 // Compression utilities for replay data
 export * from './compression';
@@ -9,6 +9,16 @@ export class PRNG {
     }
   }
 
+  // Raw generator state, for simulation snapshots
+  getState(): number {
+    return this.state;
+  }
+
+  // Resume from a state returned by getState()
+  setState(state: number): void {
+    this.state = state >>> 0 || 1;
+  }
+
   // Generate next pseudo-random uint32
   next(): number {
     this.state ^= this.state << 13;
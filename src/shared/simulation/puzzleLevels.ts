@@ -0,0 +1,140 @@
+import { Block, PuzzleLevel } from './types';
+import puzzleLevelData from './puzzleLevels.json';
+
+// Loading and scoring of the hand-authored puzzle levels
+export class PuzzleLevels {
+  private static readonly THREE_STAR_PAR_MULTIPLIER = 1.5;
+
+  private static levels: ReadonlyArray<PuzzleLevel> | null = null;
+
+  // All bundled levels, validated on first use
+  static getAll(): ReadonlyArray<PuzzleLevel> {
+    if (!this.levels) {
+      this.levels = this.parse(puzzleLevelData);
+    }
+    return this.levels;
+  }
+
+  static get(id: string): PuzzleLevel | null {
+    return this.getAll().find((level) => level.id === id) ?? null;
+  }
+
+  // Validate a level file ({ levels: [...] }) and return its levels; throws listing every problem
+  static parse(data: unknown): PuzzleLevel[] {
+    const problems = this.validate(data);
+    if (problems.length > 0) {
+      throw new Error(`Invalid puzzle levels:\n${problems.join('\n')}`);
+    }
+    return (data as { levels: PuzzleLevel[] }).levels;
+  }
+
+  // Every problem found in a level file (empty when it is valid)
+  static validate(data: unknown): string[] {
+    if (!isRecord(data) || !Array.isArray(data.levels)) {
+      return ['Level file must be an object with a "levels" array'];
+    }
+
+    const problems: string[] = [];
+    const seenIds = new Set<string>();
+
+    data.levels.forEach((level: unknown, index: number) => {
+      const label = `levels[${index}]`;
+      if (!isRecord(level)) {
+        problems.push(`${label}: must be an object`);
+        return;
+      }
+
+      if (typeof level.id !== 'string' || level.id.length === 0) {
+        problems.push(`${label}.id: must be a non-empty string`);
+      } else if (seenIds.has(level.id)) {
+        problems.push(`${label}.id: duplicate id '${level.id}'`);
+      } else {
+        seenIds.add(level.id);
+      }
+
+      if (typeof level.name !== 'string' || level.name.length === 0) {
+        problems.push(`${label}.name: must be a non-empty string`);
+      }
+
+      const numberFields: Array<[string, number]> = [
+        ['seed', 0],
+        ['slideSpeed', 1],
+        ['slideBounds', 1],
+        ['targetHeight', 1],
+        ['parScore', 0],
+      ];
+      for (const [field, min] of numberFields) {
+        if (!isIntegerAtLeast(level[field], min)) {
+          problems.push(`${label}.${field}: must be an integer >= ${min}`);
+        }
+      }
+
+      problems.push(...this.validateStack(level.startingBlocks, `${label}.startingBlocks`));
+    });
+
+    return problems;
+  }
+
+  // Stars for a finished attempt: one for reaching the target, two at par, three at 1.5x par
+  static getStars(level: PuzzleLevel, score: number, completed: boolean): number {
+    if (!completed) return 0;
+    if (score >= Math.floor(level.parScore * this.THREE_STAR_PAR_MULTIPLIER)) return 3;
+    if (score >= level.parScore) return 2;
+    return 1;
+  }
+
+  // Blocks the tower must reach (preset stack included) to complete the level
+  static getGoalBlockCount(level: PuzzleLevel): number {
+    return level.startingBlocks.length + level.targetHeight;
+  }
+
+  // The preset stack must be resting blocks, each sitting directly on the one below
+  private static validateStack(blocks: unknown, label: string): string[] {
+    if (!Array.isArray(blocks) || blocks.length === 0) {
+      return [`${label}: must be a non-empty array of blocks`];
+    }
+
+    const problems: string[] = [];
+    let below: Block | null = null;
+    blocks.forEach((block: unknown, index: number) => {
+      const blockLabel = `${label}[${index}]`;
+      if (!isRecord(block)) {
+        problems.push(`${blockLabel}: must be an object`);
+        below = null;
+        return;
+      }
+
+      for (const field of ['x', 'y', 'rotation']) {
+        if (!Number.isInteger(block[field])) {
+          problems.push(`${blockLabel}.${field}: must be an integer`);
+        }
+      }
+      if (block.z !== undefined && !Number.isInteger(block.z)) {
+        problems.push(`${blockLabel}.z: must be an integer when set`);
+      }
+      for (const field of ['width', 'height']) {
+        if (!isIntegerAtLeast(block[field], 1)) {
+          problems.push(`${blockLabel}.${field}: must be a positive integer`);
+        }
+      }
+      if (block.depth !== undefined && !isIntegerAtLeast(block.depth, 1)) {
+        problems.push(`${blockLabel}.depth: must be a positive integer when set`);
+      }
+
+      const current = block as unknown as Block;
+      const expectedY: number = below ? below.y + below.height : 0;
+      if (current.y !== expectedY) {
+        problems.push(`${blockLabel}.y: must be ${expectedY} to rest on the block below`);
+      }
+      below = current;
+    });
+
+    return problems;
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isIntegerAtLeast = (value: unknown, min: number): boolean =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min;
@@ -11,6 +11,8 @@ export interface GameConfig {
   readonly GRAVITY?: number;
   readonly TERMINAL_VELOCITY?: number;
   readonly INSTANT_PLACE_MAIN_BLOCK?: boolean;
+  readonly TICK_BUDGET?: number; // Ticks before a time_attack run ends
+  readonly PERFECT_BONUS_TICKS?: number; // Ticks a perfect placement adds to the budget
 }
 
 export const DEFAULT_CONFIG: GameConfig = {
@@ -52,6 +54,7 @@ export interface TrimEffect {
     readonly velocityX: number;
     readonly velocityY: number;
     readonly velocityZ?: number;
+    readonly rotation?: number; // Yaw in millidegrees (pieces cut from a spinning block)
   }>;
   readonly tick: number;
 }
@@ -67,6 +70,9 @@ export interface GameState {
   readonly isGameOver: boolean;
   readonly seed: number;
   readonly recentTrimEffects: ReadonlyArray<TrimEffect>;
+  readonly towerRotation?: number; // Tower yaw in millidegrees (rotating_base); blocks are stored in the tower's frame
+  readonly deadlineTick?: number; // Tick at which a time_attack run ends (perfects push it back)
+  readonly gameOverReason?: 'width' | 'fall' | 'time' | 'complete';
   readonly lastPlacement?: {
     readonly isPositionPerfect: boolean; // within positionPerfectWindow
     readonly noTrim: boolean; // true if resulting placed block kept full inherited extents (strict perfect)
@@ -78,14 +84,38 @@ export interface DropInput {
   readonly tick: number;
 }
 
+// Runtime movement tuning applied on top of GameConfig. Replays carry this so a run
+// can be re-simulated with exactly the slide/fall behaviour the player saw.
+export interface SimulationTuning {
+  readonly slideSpeed: number;
+  readonly slideAccel: number;
+  readonly slideMax: number | null;
+  readonly slideBounds: number;
+  readonly fallSpeedMult: number;
+  readonly instantPlaceMain: boolean;
+  readonly speedCountOffset: number;
+}
+
 export interface GameResult {
   readonly finalScore: number;
   readonly blockCount: number;
   readonly maxCombo: number;
-  readonly gameOverReason: 'width' | 'fall' | 'manual';
+  readonly gameOverReason: 'width' | 'fall' | 'manual' | 'time' | 'complete';
   readonly finalState: GameState;
 }
 
+// Hand-authored puzzle level (see puzzleLevels.json)
+export interface PuzzleLevel {
+  readonly id: string;
+  readonly name: string;
+  readonly seed: number; // Fixed seed so every attempt plays the same level
+  readonly startingBlocks: ReadonlyArray<Block>; // Preset stack, bottom first (replaces the base)
+  readonly slideSpeed: number; // Slide speed multiplier (1000 = 1x)
+  readonly slideBounds: number; // Fixed-point slide extent
+  readonly targetHeight: number; // Blocks to place on top of the preset stack
+  readonly parScore: number; // Score for two stars (1.5x par earns three)
+}
+
 export interface ScoringConfig {
   readonly basePoints: number;
   readonly positionPerfectWindow: number; // Fixed-point pixels
@@ -96,6 +126,7 @@ export interface ScoringConfig {
   readonly comboStepMultiplier: number; // Fixed-point multiplier
   readonly maxComboMultiplier: number; // Fixed-point multiplier
   readonly milestoneRewards: ReadonlyArray<number>;
+  readonly paceBonus: number; // time_attack: points per block-per-second when the clock runs out
 }
 
 export const DEFAULT_SCORING: ScoringConfig = {
@@ -112,6 +143,38 @@ export const DEFAULT_SCORING: ScoringConfig = {
   comboStepMultiplier: 1100, // 1.1 * 1000
   maxComboMultiplier: 2000, // 2.0 * 1000
   milestoneRewards: [10, 25, 50, 100],
+  paceBonus: 100,
 };
 
 export type GameMode = 'classic' | 'rotating_block' | 'rotating_base' | 'time_attack' | 'puzzle';
+
+// Per-mode config overrides applied on top of DEFAULT_CONFIG (explicit config still wins)
+export const MODE_CONFIG: Readonly<Partial<Record<GameMode, Partial<GameConfig>>>> = {
+  rotating_block: {
+    ROTATION_SPEED: 60 * 1000, // Sliding block spins 60 degrees per second
+  },
+  rotating_base: {
+    ROTATION_SPEED: 30 * 1000, // Tower starts turning at 30 degrees per second
+  },
+  time_attack: {
+    TICK_BUDGET: 60 * 60, // 60 seconds at 60 ticks per second
+    PERFECT_BONUS_TICKS: 2 * 60, // +2 seconds per perfect placement
+  },
+};
+
+export const GAME_MODES: ReadonlyArray<GameMode> = [
+  'classic',
+  'rotating_block',
+  'rotating_base',
+  'time_attack',
+  'puzzle',
+];
+
+// Short display names used by the start screen and the leaderboards
+export const GAME_MODE_LABELS: Readonly<Record<GameMode, string>> = {
+  classic: 'CLASSIC',
+  rotating_block: 'SPIN',
+  rotating_base: 'ORBIT',
+  time_attack: 'TIME',
+  puzzle: 'PUZZLE',
+};
@@ -5,7 +5,7 @@ import { DEFAULT_CONFIG, DEFAULT_SCORING } from '../simulation/types';
 // Run manually via ts-node or build system.
 
 function runPerfectStackTest(perfectDrops: number) {
-  const sim = new GameSimulation(12345, 'rotating_block', DEFAULT_CONFIG, DEFAULT_SCORING);
+  const sim = new GameSimulation(12345, 'classic', DEFAULT_CONFIG, DEFAULT_SCORING);
   let state = sim.createInitialState();
 
   // Force blocks to be perfectly centered for each drop by ensuring x stays aligned
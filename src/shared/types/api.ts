@@ -1,8 +1,11 @@
+import type { CompressedReplay } from '../simulation/compression';
+
 export type InitResponse = {
   type: 'init';
   postId: string;
   count: number;
   username: string;
+  sharedSessionId?: string; // Set when this post shares a run, so it can be replayed
 };
 
 export type IncrementResponse = {
@@ -33,6 +36,7 @@ export interface GameSessionData {
   userId: string;
   username: string;
   postId: string;
+  subredditName?: string | undefined; // Community the run was played in, when known
   gameMode: string;
   seed: number;
   startTime: number;
@@ -41,13 +45,41 @@ export interface GameSessionData {
   blockCount: number;
   maxCombo: number;
   perfectStreakCount: number; // Total perfect block placements during the run
-  gameOverReason: 'width' | 'fall' | 'manual';
+  gameOverReason: 'width' | 'fall' | 'manual' | 'time' | 'complete';
   towerBlocks: TowerBlock[];
+  puzzleLevelId?: string; // Authored level played (puzzle mode only)
+  challengeDay?: string | undefined; // UTC day of the daily challenge this run was the attempt for
+  verification?: ReplayVerificationStatus; // Outcome of the server-side replay check
+}
+
+// A stored session plus the replay it was verified from, when one was kept
+export type GetGameSessionResponse = GameSessionData & {
+  replay?: CompressedReplay;
+};
+
+// Sent from the blocks leaderboard to open a run in the web view's replay viewer
+export type WatchReplayMessage = {
+  type: 'WATCH_REPLAY';
+  sessionId: string;
+};
+
+// Server-side replay verification of a submitted run
+export type ReplayVerificationStatus = 'verified' | 'verified-with-tolerance' | 'rejected';
+
+export interface ReplayVerification {
+  status: ReplayVerificationStatus;
+  claimedScore: number;
+  verifiedScore: number;
+  claimedBlockCount: number;
+  verifiedBlockCount: number;
+  reason?: string; // Why the run was rejected or only matched within tolerance
 }
 
+// Aggregates over one game mode; every mode keeps its own stats
 export interface UserStats {
   userId: string;
   username: string;
+  gameMode?: string; // Absent on classic stats recorded before stats were split by mode
   totalGames: number;
   highScore: number;
   bestTowerHeight: number;
@@ -55,6 +87,19 @@ export interface UserStats {
   totalPerfectBlocks: number;
   averageScore: number;
   lastPlayed: number;
+  puzzleProgress?: Record<string, PuzzleLevelProgress>; // Keyed by puzzle level id
+  // Daily challenge streak (classic stats only)
+  dailyStreak?: number; // Consecutive days ending with `lastDailyChallenge`
+  longestDailyStreak?: number;
+  lastDailyChallenge?: string; // UTC day of the latest verified daily attempt
+}
+
+// Best verified result on one puzzle level
+export interface PuzzleLevelProgress {
+  bestScore: number;
+  stars: number; // 0-3; 0 means attempted but not completed
+  completed: boolean;
+  firstCompletedAt?: number;
 }
 
 export interface TowerMapEntry {
@@ -78,14 +123,81 @@ export interface TowerMapEntry {
 }
 
 export type SaveGameSessionRequest = {
-  sessionData: Omit<GameSessionData, 'sessionId' | 'userId' | 'username' | 'postId'>;
+  // Claimed results; the server recomputes them from `replay` before storing anything
+  sessionData: Omit<
+    GameSessionData,
+    | 'sessionId'
+    | 'userId'
+    | 'username'
+    | 'postId'
+    | 'subredditName'
+    | 'challengeDay'
+    | 'verification'
+  >;
+  replay: CompressedReplay;
+  runToken: string; // One-time token issued by /api/game/start-run for this seed
+};
+
+export type StartRunRequest = {
+  mode: string;
+  levelId?: string; // Required for puzzle runs
+  ghostSessionId?: string; // Race a stored run: the new run reuses its seed and level
+  daily?: boolean; // Today's daily challenge (classic only, one attempt per day)
+};
+
+export type StartRunResponse = {
+  type: 'start_run';
+  success: boolean;
+  message?: string;
+  runToken?: string;
+  seed?: number;
+  mode?: string;
+  levelId?: string;
+  challengeDay?: string; // Set when the run is a daily challenge attempt
+  expiresAt?: number; // Epoch ms after which the token is no longer accepted
+};
+
+export type GetDailyChallengeResponse = {
+  type: 'daily_challenge';
+  day: string; // UTC date, e.g. '2025-01-06'
+  endsAt: number; // Epoch ms when the next challenge starts
+  attempted: boolean; // Whether today's attempt has been used
+  streak: number; // Current streak; 0 once a day has been missed
+  longestStreak: number;
+  rank?: LeaderboardWindowRank; // Player's standing on today's board
+  highScores: HighScoreEntry[]; // Top of today's board
 };
 
+// Submitted runs wait in the verification queue until the worker re-simulates them
+// Verified runs that trip an abuse heuristic are held as 'flagged' until a moderator reviews them
+export type RunStatus = 'queued' | 'flagged' | ReplayVerificationStatus;
+
+export type RunFlag = 'perfect_rate' | 'score_spike' | 'ticks_per_block';
+
+// A run held for moderator review
+export interface FlaggedRun {
+  runId: string;
+  userId: string;
+  username: string;
+  gameMode: string;
+  finalScore: number;
+  blockCount: number;
+  perfectStreakCount: number;
+  flags: RunFlag[];
+  submittedAt: number;
+}
+
 export type SaveGameSessionResponse = {
   type: 'save_session';
-  sessionId: string;
   success: boolean;
   message?: string;
+  runId?: string; // Poll /api/game/run-status/:runId for the outcome
+  status?: RunStatus;
+};
+
+// Leaderboard outcome of a verified run
+export type RunResult = {
+  sessionId: string;
   rank?: number; // Player's rank in the leaderboard (1-based, undefined if outside top limit)
   totalPlayers: number; // Total number of players
   madeTheGrid: boolean; // Whether the player's score is in the top 50 displayed on grid
@@ -102,43 +214,68 @@ export type SaveGameSessionResponse = {
   bestPerfectStreak?: number; // Player's best perfect streak after this session
   previousBestPerfectStreak?: number; // Player's previous best perfect streak (if it existed)
   personalBestPerfectStreak?: boolean; // Whether this session set a new perfect streak best
+  puzzleStars?: number; // Stars earned on the level (puzzle runs only)
+  windowRanks?: Partial<Record<LeaderboardRange, LeaderboardWindowRank>>; // Daily and weekly standings
+};
+
+export type GetRunStatusResponse = {
+  type: 'run_status';
+  success: boolean;
+  message?: string;
+  runId: string;
+  status?: RunStatus;
+  verification?: ReplayVerification; // How the claimed results compared to the server replay
+  result?: RunResult; // Present once the run is verified
 };
 
 export type GetUserStatsResponse = {
   type: 'user_stats';
+  mode: string; // Game mode the stats and sessions belong to
   stats: UserStats | null;
   recentSessions: GameSessionData[];
 };
 
 export type GetTowerMapResponse = {
   type: 'tower_map';
+  mode: string; // Game mode whose best towers are listed
   towers: TowerMapEntry[];
   totalCount: number;
 };
 
+// Towers the server has placed in one chunk of the grid (see TOWER_CHUNK_CELLS), best first
+export type GetTowerChunkResponse = {
+  type: 'tower_chunk';
+  mode: string;
+  chunkX: number;
+  chunkZ: number;
+  towers: TowerMapEntry[];
+};
+
+// World position is derived from the cell on the server
 export type UpdateTowerPlacementRequest = {
   sessionId: string;
-  worldX: number;
-  worldZ: number;
   gridX: number;
   gridZ: number;
 };
 
+// Cell the server assigned to a tower; differs from the requested one if that was taken
+export interface TowerCellAssignment {
+  gridX: number;
+  gridZ: number;
+  worldX: number;
+  worldZ: number;
+}
+
 export type UpdateTowerPlacementResponse = {
   type: 'update_placement';
   success: boolean;
   message?: string;
+  placement?: TowerCellAssignment;
 };
 
+// The post's score, blocks and rank are all read from the stored session server-side
 export interface ShareSessionRequest {
-  username: string;
-  score: number;
-  blocks: number;
-  perfectStreak: number; // Total perfect block placements highlighted when sharing
-  rank?: number;
-  totalPlayers?: number;
-  madeTheGrid?: boolean;
-  sessionId?: string;
+  sessionId: string;
 }
 
 export type ShareSessionResponse = {
@@ -150,27 +287,128 @@ export type ShareSessionResponse = {
   subreddit?: string;
 };
 
+// Leaderboards are kept all-time and for the current UTC day and week (weeks start Monday)
+export type LeaderboardRange = 'daily' | 'weekly' | 'all_time';
+
+// Every run counts globally (across the install), on its post and in its community
+export type LeaderboardScope = 'global' | 'post' | 'subreddit';
+
+export interface LeaderboardWindowRank {
+  rank?: number; // 1-based, undefined if the player has no entry in the window
+  totalPlayers: number;
+}
+
+export type HighScoreEntry = {
+  userId: string;
+  username: string;
+  score: number;
+  blockCount: number;
+  timestamp: number;
+  sessionId: string;
+};
+
+export type PerfectStreakEntry = {
+  userId: string;
+  username: string;
+  perfectStreak: number;
+  score: number;
+  timestamp: number;
+  sessionId: string;
+};
+
+// Top entries of a daily or weekly window, frozen when the window closed
+export interface LeaderboardArchive {
+  mode: string;
+  range: Exclude<LeaderboardRange, 'all_time'>;
+  windowId: string; // UTC start date of the window, e.g. '2025-01-06'
+  startsAt: number;
+  endsAt: number;
+  highScores: HighScoreEntry[];
+  perfectStreaks: PerfectStreakEntry[];
+}
+
 export type GetLeaderboardResponse = {
   type: 'leaderboard';
-  highScores: Array<{
-    userId: string;
-    username: string;
-    score: number;
-    blockCount: number;
-    timestamp: number;
-    sessionId: string;
-  }>;
-  perfectStreaks: Array<{
-    userId: string;
-    username: string;
-    perfectStreak: number;
-    score: number;
-    timestamp: number;
-    sessionId: string;
-  }>;
+  mode: string; // Game mode the rankings belong to
+  range: LeaderboardRange;
+  scope: LeaderboardScope;
+  windowId?: string; // Current window (daily and weekly ranges only)
+  endsAt?: number; // Epoch ms when the current window closes
+  highScores: HighScoreEntry[];
+  perfectStreaks: PerfectStreakEntry[];
+};
+
+export type GetLeaderboardArchiveResponse = {
+  type: 'leaderboard_archive';
+  mode: string;
+  range: LeaderboardRange;
+  windows: LeaderboardArchive[]; // Most recently closed first
 };
 
 export type ClearTowersResponse = {
   status: 'success' | 'error';
   message: string;
 };
+
+// Actions only subreddit moderators may perform; each attempt is written to the audit log
+export type AdminAction =
+  | 'clear_all'
+  | 'clear_towers'
+  | 'delete_user'
+  | 'hide_tower'
+  | 'unhide_tower'
+  | 'strike_run'
+  | 'restore_run'
+  | 'ban_user'
+  | 'unban_user'
+  | 'approve_run'
+  | 'reject_run';
+
+export interface AuditLogEntry {
+  id: string;
+  action: AdminAction;
+  actorId: string;
+  actorName: string;
+  subredditName: string;
+  target?: string; // The user or session acted on
+  outcome: 'success' | 'failed' | 'denied';
+  timestamp: number;
+}
+
+export type GetAdminStatusResponse = {
+  type: 'admin_status';
+  isModerator: boolean;
+};
+
+// Reversible moderation state of one stored run
+export interface SessionModerationRecord {
+  sessionId: string;
+  hidden: boolean; // Left off the tower map
+  struck: boolean; // Removed from the leaderboards
+  updatedBy: string;
+  updatedAt: number;
+}
+
+export type ModerationResponse = {
+  type: 'moderation';
+  success: boolean;
+  message?: string;
+  record?: SessionModerationRecord;
+};
+
+export type GetAuditLogResponse = {
+  type: 'audit_log';
+  entries: AuditLogEntry[]; // Newest first
+};
+
+export type GetReviewQueueResponse = {
+  type: 'review_queue';
+  runs: FlaggedRun[]; // Oldest first
+};
+
+export type ReviewRunResponse = {
+  type: 'review_run';
+  success: boolean;
+  message?: string;
+  status?: RunStatus; // The run's status after the review
+};
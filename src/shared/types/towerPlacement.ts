@@ -5,7 +5,7 @@ export interface TowerCoordinate {
   worldX: number; // World position X
   worldZ: number; // World position Z
   isOccupied: boolean;
-  towerId?: string;
+  towerId?: string | undefined;
 }
 
 export interface TowerPlacementGrid {
@@ -15,6 +15,54 @@ export interface TowerPlacementGrid {
   coordinates: TowerCoordinate[];
 }
 
+// Grid the tower field is laid out on; the server assigns cells on this same grid
+export const TOWER_GRID = {
+  gridSize: 8,
+  gridOffsetX: -4,
+  gridOffsetZ: -4,
+  gridRadius: 50, // Cells run from -50 to +50 on each axis
+};
+
+// The server indexes towers, and the client streams them, in square chunks of grid cells
+export const TOWER_CHUNK_CELLS = 8;
+
+// Chunk a grid cell belongs to. With the default grid a cell center sits at `x * gridSize`,
+// so this matches a world-space chunk of `TOWER_CHUNK_CELLS * gridSize` units.
+export function getCellChunk(x: number, z: number): { chunkX: number; chunkZ: number } {
+  return {
+    chunkX: Math.floor(x / TOWER_CHUNK_CELLS),
+    chunkZ: Math.floor(z / TOWER_CHUNK_CELLS),
+  };
+}
+
+// Whether a chunk overlaps the grid at all
+export function isChunkOnGrid(chunkX: number, chunkZ: number): boolean {
+  const min = getCellChunk(-TOWER_GRID.gridRadius, -TOWER_GRID.gridRadius);
+  const max = getCellChunk(TOWER_GRID.gridRadius, TOWER_GRID.gridRadius);
+  return (
+    Number.isInteger(chunkX) &&
+    Number.isInteger(chunkZ) &&
+    chunkX >= min.chunkX &&
+    chunkX <= max.chunkX &&
+    chunkZ >= min.chunkZ &&
+    chunkZ <= max.chunkZ
+  );
+}
+
+// World position of the center of a grid cell
+export function getCellCenter(
+  x: number,
+  z: number,
+  gridSize: number = TOWER_GRID.gridSize,
+  gridOffsetX: number = TOWER_GRID.gridOffsetX,
+  gridOffsetZ: number = TOWER_GRID.gridOffsetZ
+): { worldX: number; worldZ: number } {
+  return {
+    worldX: gridOffsetX + x * gridSize + gridSize / 2,
+    worldZ: gridOffsetZ + z * gridSize + gridSize / 2,
+  };
+}
+
 export class TowerPlacementSystem {
   private gridSize: number;
   private gridOffsetX: number;
@@ -31,13 +79,18 @@ export class TowerPlacementSystem {
 
   private initializeGrid(): void {
     // Create a large grid for infinite placement
-    const gridRadius = 50; // Creates 101x101 grid (-50 to +50) = 10,201 spots
+    const gridRadius = TOWER_GRID.gridRadius; // Creates 101x101 grid (-50 to +50) = 10,201 spots
 
     for (let x = -gridRadius; x <= gridRadius; x++) {
       for (let z = -gridRadius; z <= gridRadius; z++) {
         // Position towers at the CENTER of each grid cell, not at intersections
-        const worldX = this.gridOffsetX + x * this.gridSize + this.gridSize / 2;
-        const worldZ = this.gridOffsetZ + z * this.gridSize + this.gridSize / 2;
+        const { worldX, worldZ } = getCellCenter(
+          x,
+          z,
+          this.gridSize,
+          this.gridOffsetX,
+          this.gridOffsetZ
+        );
 
         const coordinate: TowerCoordinate = {
           x,
@@ -95,6 +148,25 @@ export class TowerPlacementSystem {
     return true;
   }
 
+  // Move a tower to the cell the server assigned, freeing whichever cell it held before
+  syncTower(towerId: string, x: number, z: number): boolean {
+    const target = this.getCoordinate(x, z);
+    if (!target || (target.isOccupied && target.towerId !== towerId)) {
+      return false;
+    }
+
+    for (const coordinate of this.coordinates.values()) {
+      if (coordinate.towerId === towerId && coordinate !== target) {
+        coordinate.isOccupied = false;
+        coordinate.towerId = undefined;
+      }
+    }
+
+    target.isOccupied = true;
+    target.towerId = towerId;
+    return true;
+  }
+
   // Remove a tower from coordinates
   removeTower(x: number, z: number): boolean {
     const coordinate = this.getCoordinate(x, z);
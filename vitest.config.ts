@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  test: {
+    // Unit tests only: the GameEndModal .tsx test needs @testing-library/react and a DOM
+    // environment, neither of which this package installs
+    include: ['src/**/__tests__/**/*.test.ts'],
+    // Empty placeholder with no suite in it
+    exclude: ['src/client/components/__tests__/ContinuousPathIntegration.test.ts'],
+  },
+});